@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import GanttChart from './components/GanttChart';
 import KanbanBoard from './components/KanbanBoard';
 import ChatInterface from './components/ChatInterface';
@@ -7,70 +7,40 @@ import ConflictModal from './components/ConflictModal';
 import ProjectSidebar from './components/ProjectSidebar';
 import RiskSummaryModal from './components/RiskSummaryModal';
 import SettingsModal from './components/SettingsModal';
-import { Project, Task, ChatMessage, ProposedChange, RiskLevel, TaskStatus, ViewMode, ScenarioType, User, UserRole, AIConfig, AI_PROVIDERS_CONFIG } from './types';
-import { INITIAL_SCENARIOS } from './constants';
+import CalendarSettingsModal from './components/CalendarSettingsModal';
+import ResourceModal from './components/ResourceModal';
+import ScheduleSimulationModal from './components/ScheduleSimulationModal';
+import EarnedValueModal from './components/EarnedValueModal';
+import PullInPreviewModal from './components/PullInPreviewModal';
+import AuditReasonModal from './components/AuditReasonModal';
+import AuditTrailModal from './components/AuditTrailModal';
+import SignatureModal from './components/SignatureModal';
+import UserManagementModal from './components/UserManagementModal';
+import ImportReportModal from './components/ImportReportModal';
+import WorkspaceMergeModal from './components/WorkspaceMergeModal';
+import SignInModal from './components/SignInModal';
+import { Project, Task, TaskDependency, ChatMessage, ProposedChange, RiskLevel, TaskStatus, ViewMode, ScenarioType, User, UserRole, AIConfig, AI_PROVIDERS_CONFIG, ProjectCalendar, Resource, ConstraintViolation, AuditEntry, AuditSource } from './types';
+import { INITIAL_SCENARIOS, DEPENDENCY_TYPE_LABELS, CONSTRAINT_TYPE_LABELS, TASK_STATUS_LABELS, DEFAULT_PROJECT_CALENDAR } from './constants';
 import { analyzeProjectUpdate } from './services/geminiService';
-
-// --- Utility Functions ---
-
-// Helper to add days to a date string
-const addDays = (dateStr: string, days: number): string => {
-  const date = new Date(dateStr);
-  date.setDate(date.getDate() + days);
-  return date.toISOString().split('T')[0];
-};
-
-// Helper to cascade schedule changes based on dependencies
-const cascadeSchedule = (tasks: Task[]): Task[] => {
-  // Deep copy to avoid mutating state directly during calculation
-  let currentTasks = tasks.map(t => ({...t})); 
-  let hasChanged = true;
-  let iterations = 0;
-
-  // Run multiple passes to propagate changes through the dependency chain
-  while (hasChanged && iterations < 50) { 
-    hasChanged = false;
-    const taskMap = new Map(currentTasks.map(t => [t.id, t]));
-
-    for (let i = 0; i < currentTasks.length; i++) {
-      const task = currentTasks[i];
-      if (!task.dependencies || task.dependencies.length === 0) continue;
-
-      let maxDependencyEnd = 0; // Epoch
-      
-      task.dependencies.forEach(depId => {
-        const dep = taskMap.get(depId);
-        if (dep) {
-           const depEnd = new Date(dep.endDate).getTime();
-           if (depEnd > maxDependencyEnd) maxDependencyEnd = depEnd;
-        }
-      });
-
-      if (maxDependencyEnd > 0) {
-          // Standard: Start next day after dependency ends
-          const minStartMs = maxDependencyEnd + (24 * 60 * 60 * 1000); 
-          const currentStartMs = new Date(task.startDate).getTime();
-
-          // If current start is earlier than allowed, shift it forward
-          // We assume strict FS (Finish-to-Start) dependency
-          if (currentStartMs < minStartMs) {
-              const shift = minStartMs - currentStartMs;
-              const newStart = new Date(minStartMs);
-              const newEnd = new Date(new Date(task.endDate).getTime() + shift);
-              
-              currentTasks[i] = {
-                  ...task,
-                  startDate: newStart.toISOString().split('T')[0],
-                  endDate: newEnd.toISOString().split('T')[0]
-              };
-              hasChanged = true;
-          }
-      }
-    }
-    iterations++;
-  }
-  return currentTasks;
-};
+import { applyProposedChanges, cascadeSchedule, computeCriticalPath, computeScheduleImpact, describeDependencyCycle, findConstraintViolations, findDependencyConflict, findDependencyCycle, findPulledInTasks, formatConstraint, getNewConstraintViolations, getWorkingDuration, isMilestone, normalizeProjectDependencies, normalizeProjectDurations, rescheduleForCalendar, scheduleAsLateAsPossible, scheduleAsSoonAsPossible, shiftTaskToStart } from './services/scheduleService';
+import { levelResources } from './services/resourceService';
+import { buildWbsRows, getChildrenMap, isSummaryTask } from './services/wbsService';
+import { computeBaselineVariances, createBaseline, formatVariance, getActiveBaseline } from './services/baselineService';
+import { addWorkingDays, countWorkingDays, getProjectCalendar, getWorkingSpan, nextWorkingDay, workingDayDiff } from './services/calendarService';
+import { fromDayNumber, getToday, toDayNumber } from './services/dateService';
+import { compareScenarioTasks, computeScenarioDelta, createScenario } from './services/scenarioService';
+import { deriveTaskStatuses } from './services/statusService';
+import { isOccurrence, skipOccurrence, syncRecurrence } from './services/recurrenceService';
+import { ApiError, PULL_INTERVAL_MS, ProjectConflict, WorkspaceSync, createWorkspaceSync, deleteUser, fetchAuditTrail, fetchMessages, fetchProjects, fetchSessionUser, fetchUsers, isServerAvailable, saveUser, signIn, signOut, withoutRevision } from './services/apiService';
+import { AUTOSAVE_DELAY_MS, SaveStatus, WorkspaceSnapshot, formatBytes, getStorageEstimate, isQuotaError, loadWorkspace, markSessionDirty, requestPersistentStorage, saveWorkspace, wasLastSessionInterrupted } from './services/storageService';
+import { cascadeAcrossProjects, canViewProject, getExternalEarliestStarts, resolveExternalLinks, CrossProjectImpact } from './services/crossProjectService';
+import { EMPTY_HISTORY, HistoryJump, ProjectHistory, createHistoryId, recordHistory, redoHistory, undoHistory } from './services/historyService';
+import { AuditChange, ChangeContext, createAuditDrafts, diffProjects, rebaseAuditTrail, sealAuditEntries, toAuditDraft } from './services/auditService';
+import { ProjectFileError, ProjectFileReport, createProjectFile, formatProjectFileReport, readProjectFile } from './services/projectFileService';
+import { SIGNATURE_SEQUENCE, checkSigner, computeRecordHash, findUnsignedCompletions, getSignatureState, requiresSignatures } from './services/signatureService';
+
+const LIVE_PLAN_ID = 'live'; // Plan id of the live schedule in scenario comparisons
+const LOCAL_USER: User = { id: 'admin', name: '管理员', role: UserRole.Admin, avatar: 'Admin' }; // Browser-only data
 
 const App: React.FC = () => {
   // Application State
@@ -85,27 +55,107 @@ const App: React.FC = () => {
       baseUrl: ''
   });
 
-  // Simplified User State (Single Admin User)
-  const [currentUser] = useState<User>({
-      id: 'admin',
-      name: '管理员',
-      role: UserRole.Admin,
-      avatar: 'Admin'
-  });
+  // With the shared server the signed-in user works in the app; browser-only data has a single local administrator
+  const [sessionUser, setSessionUser] = useState<User | null>(null);
+  const [signInNotice, setSignInNotice] = useState<string | null>(null); // Why signing in is asked for again
+  const currentUser: User = sessionUser || LOCAL_USER;
 
-  // Permissions based on Role (Always Admin now)
+  // Permissions based on Role (the server enforces the same for changes)
   const canManageProjects = currentUser.role === UserRole.Admin;
-  const canEditTasks = currentUser.role === UserRole.Admin;
+  const canEditTasks = currentUser.role === UserRole.Admin || currentUser.role === UserRole.ProjectManager;
   
   // Project Sidebar State
   const [isProjectDrawerOpen, setIsProjectDrawerOpen] = useState(false);
 
   // Risk Modal State
   const [isRiskModalOpen, setIsRiskModalOpen] = useState(false);
+  const [isSimulationModalOpen, setIsSimulationModalOpen] = useState(false);
+  const [isEarnedValueModalOpen, setIsEarnedValueModalOpen] = useState(false);
 
   // Settings Modal State
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
+  // Working-Day Calendar Modal State
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [isResourceOpen, setIsResourceOpen] = useState(false);
+  const calendar = getProjectCalendar(project);
+
+  // Other projects moved by the last cross-project cascade (shown until dismissed)
+  const [crossProjectImpacts, setCrossProjectImpacts] = useState<CrossProjectImpact[]>([]);
+
+  // Undo / redo per project (session only)
+  const [histories, setHistories] = useState<Record<string, ProjectHistory>>({});
+  const history = histories[project.id] || EMPTY_HISTORY;
+
+  // Append-only audit trail of all projects, and the change waiting for its reason
+  const [auditTrail, setAuditTrail] = useState<AuditEntry[]>([]);
+  const [pendingChange, setPendingChange] = useState<{ command: string; changes: AuditChange[]; apply: (reason: string) => void } | null>(null);
+  // The change being applied once its reason is given: projects saved meanwhile carry it to the server,
+  // which records them in the audit trail (`cascadedIds`: changed only by the cross-project cascade)
+  const appliedChangeRef = useRef<{ change: ChangeContext; cascadedIds: string[] } | null>(null);
+
+  // Latest state for callbacks that run after an await (their closure holds an older render)
+  const allProjectsRef = useRef(allProjects);
+  const projectRef = useRef(project);
+  const pendingChangeRef = useRef(pendingChange);
+  allProjectsRef.current = allProjects;
+  projectRef.current = project;
+  pendingChangeRef.current = pendingChange;
+  const [isAuditTrailOpen, setIsAuditTrailOpen] = useState(false);
+
+  // Electronic signatures: the live-plan task whose manifest is open, and the server's user accounts
+  const [signingTaskId, setSigningTaskId] = useState<string | null>(null);
+  const signingTask = signingTaskId ? project.tasks.find(t => t.id === signingTaskId) || null : null;
+  const [users, setUsers] = useState<User[]>([]);
+  const [isUserManagementOpen, setIsUserManagementOpen] = useState(false);
+  const isCompressMode = project.cascadeMode === 'compress';
+
+  // What-if scenarios: the open scenario replaces the live plan in the views and receives all task edits
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null);
+  const [comparisonPlanId, setComparisonPlanId] = useState<string | null>(null); // LIVE_PLAN_ID or a scenario id
+  const activeScenario = activeScenarioId ? project.scenarios?.find(s => s.id === activeScenarioId) : undefined;
+  const workingTasks = activeScenario ? activeScenario.tasks : project.tasks;
+
+  const getWorkingTasks = (p: Project): Task[] =>
+    (activeScenarioId && p.scenarios?.find(s => s.id === activeScenarioId)?.tasks) || p.tasks;
+
+  // External predecessor stubs per task, resolved against the stored copies of the other projects
+  const otherProjects = allProjects.filter(p => p.id !== project.id);
+  const externalLinks = Object.fromEntries(workingTasks
+    .filter(t => t.externalDependencies?.length)
+    .map(t => [t.id, resolveExternalLinks(t, project, otherProjects, currentUser)]));
+  const linkableProjects = otherProjects.filter(p => canViewProject(currentUser, p.id));
+
+  const withWorkingTasks = (p: Project, tasks: Task[]): Project => activeScenarioId && p.scenarios?.some(s => s.id === activeScenarioId)
+    ? { ...p, scenarios: p.scenarios.map(s => s.id === activeScenarioId ? { ...s, tasks } : s) }
+    : { ...p, tasks };
+
+  const workingProject = useMemo(() => ({ ...project, tasks: workingTasks }), [project, workingTasks]);
+
+  // Plan drawn as ghost bars next to the open one (the live plan or another scenario)
+  const comparisonPlan = comparisonPlanId === LIVE_PLAN_ID
+    ? { name: '实际计划', tasks: project.tasks }
+    : project.scenarios?.find(s => s.id === comparisonPlanId);
+  const comparisonVariances = useMemo(
+    () => comparisonPlan ? compareScenarioTasks(workingTasks, comparisonPlan.tasks, comparisonPlan.name, calendar) : undefined,
+    [workingTasks, comparisonPlan, calendar]
+  );
+  const comparisonDelta = useMemo(
+    () => comparisonPlan ? computeScenarioDelta(workingTasks, comparisonPlan.tasks, calendar) : undefined,
+    [workingTasks, comparisonPlan, calendar]
+  );
+
+  // Critical Path (CPM) for the live schedule
+  const [showCriticalPath, setShowCriticalPath] = useState(false);
+  const criticalPath = useMemo(() => computeCriticalPath(workingTasks, calendar), [workingTasks, calendar]);
+
+  // Active schedule baseline and variances against it
+  const activeBaseline = getActiveBaseline(project);
+  const baselineVariances = useMemo(
+    () => computeBaselineVariances(workingTasks, activeBaseline, calendar),
+    [workingTasks, activeBaseline, calendar]
+  );
+
   const [messages, setMessages] = useState<ChatMessage[]>([
     {
       id: 'welcome',
@@ -127,17 +177,217 @@ const App: React.FC = () => {
   // Add Menu State
   const [isAddMenuOpen, setIsAddMenuOpen] = useState(false);
   const [isGroupByMenuOpen, setIsGroupByMenuOpen] = useState(false); // For Kanban dropdown
+  const [isBaselineMenuOpen, setIsBaselineMenuOpen] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [isScheduleMenuOpen, setIsScheduleMenuOpen] = useState(false);
+  const [isScenarioMenuOpen, setIsScenarioMenuOpen] = useState(false);
+  const [isHistoryMenuOpen, setIsHistoryMenuOpen] = useState(false);
+  const [statusDate, setStatusDate] = useState(() => getToday()); // Status rules are evaluated as of this date
   
   const addMenuRef = useRef<HTMLDivElement>(null);
   const groupByMenuRef = useRef<HTMLDivElement>(null);
+  const baselineMenuRef = useRef<HTMLDivElement>(null);
+  const exportMenuRef = useRef<HTMLDivElement>(null);
+  const scheduleMenuRef = useRef<HTMLDivElement>(null);
+  const scenarioMenuRef = useRef<HTMLDivElement>(null);
+  const historyMenuRef = useRef<HTMLDivElement>(null);
 
   // Conflict Handling State
   const [conflict, setConflict] = useState<{
     task: Task;
-    dependency: Task;
-    suggestedDate: string;
+    dependency?: Task; // Set when the edit breaks a dependency link
+    link?: TaskDependency;
+    suggestedDate?: string;
+    violations: ConstraintViolation[]; // Date constraints newly broken once the edit is cascaded
   } | null>(null);
   const [pendingTaskUpdate, setPendingTaskUpdate] = useState<Task | null>(null);
+  const [pullInPreview, setPullInPreview] = useState<{ task: Task; pulledIn: { before: Task; after: Task }[] } | null>(null); // Compress mode
+  const [importPreview, setImportPreview] = useState<{ fileName: string; projectName: string; taskCount: number; project: Project; report: ProjectFileReport } | null>(null);
+
+  // Persistence: the workspace is restored once on start, then autosaved after every change to
+  // IndexedDB and, when the shared server is reachable, to the server (the source of truth)
+  const [isWorkspaceLoaded, setIsWorkspaceLoaded] = useState(false);
+  const [isServerMode, setIsServerMode] = useState(false);
+  const workspaceSyncRef = useRef<WorkspaceSync | null>(null);
+  const [projectConflicts, setProjectConflicts] = useState<ProjectConflict[]>([]); // Saves refused as stale
+  const [workspaceMerge, setWorkspaceMerge] = useState<{ serverProjects: Project[]; localOnly: Project[]; changed: Project[] } | null>(null); // Local projects found on load that differ from the server's
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const [storageNotice, setStorageNotice] = useState<string | null>(null); // Crash recovery / quota message
+  const saveRevisionRef = useRef(0);
+
+  useEffect(() => {
+    const interrupted = wasLastSessionInterrupted();
+    let localProjects: Project[] | null = null; // Null without a saved workspace
+    let localAuditTrail: AuditEntry[] = [];
+    loadWorkspace()
+      .then(snapshot => {
+        if (!snapshot || snapshot.projects.length === 0) return;
+        const projects = snapshot.projects.map(p => normalizeProjectDurations(normalizeProjectDependencies(p)));
+        localProjects = projects;
+        localAuditTrail = snapshot.auditTrail || [];
+        setAllProjects(projects);
+        setProject(projects.find(p => p.id === snapshot.currentProjectId) || projects[0]);
+        setMessages(snapshot.messages);
+        setAuditTrail(snapshot.auditTrail || []);
+        setAiConfig({ ...snapshot.aiConfig, apiKey: snapshot.aiConfig.apiKey || process.env.API_KEY || '' });
+        setLastSavedAt(snapshot.savedAt);
+        setSaveStatus('saved');
+        if (interrupted) {
+          setStorageNotice(`上次未正常关闭，已恢复到 ${new Date(snapshot.savedAt).toLocaleString('zh-CN')} 的自动保存，之后几秒内的修改可能丢失。`);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load workspace', error);
+        setSaveStatus('error');
+        setStorageNotice(`无法读取本地数据：${(error as Error).message || error}`);
+      })
+      .then(async () => {
+        if (!(await isServerAvailable())) return;
+        const [serverProjects, serverMessages, serverAuditTrail, serverUsers, signedInUser] = await Promise.all([fetchProjects(), fetchMessages(), fetchAuditTrail(), fetchUsers(), fetchSessionUser()]);
+        const projects = serverProjects.map(p => normalizeProjectDurations(normalizeProjectDependencies(withoutRevision(p))));
+        // Local projects the server lacks, or holds in another version, are not replaced without asking
+        const localOnly = (localProjects || []).filter(p => !projects.some(s => s.id === p.id));
+        const changed = (localProjects || []).filter(p => {
+          const stored = projects.find(s => s.id === p.id);
+          return !!stored && diffProjects(stored, p).length > 0;
+        });
+        if (projects.length > 0) {
+          if (localOnly.length > 0 || changed.length > 0) {
+            setWorkspaceMerge({ serverProjects: projects, localOnly, changed });
+          } else {
+            allProjectsRef.current = projects;
+            setAllProjects(projects);
+            setProject(prev => projects.find(p => p.id === prev.id) || projects[0]);
+          }
+          setMessages(serverMessages);
+        }
+        const sync = createWorkspaceSync(
+          { projects: serverProjects, messages: projects.length > 0 ? serverMessages : [], auditSeq: serverAuditTrail[serverAuditTrail.length - 1]?.seq || 0 },
+          {
+            onAuditStored: stored => setAuditTrail(prev => rebaseAuditTrail(prev, stored)),
+            onConflict: conflict => setProjectConflicts(prev => [...prev.filter(c => c.local.id !== conflict.local.id), conflict])
+          }
+        );
+        workspaceSyncRef.current = sync;
+        // An empty server is seeded with the local workspace (chat messages follow with the first autosave)
+        if (projects.length === 0) {
+          sync.saveProjects(localProjects || [INITIAL_SCENARIOS.equipment], { command: '上传本机工作区', reason: '共享服务器尚无项目，以本机工作区初始化', source: 'system' }).catch(reportSyncError);
+        }
+        // The server holds the shared audit trail; local entries it does not have yet are chained after it.
+        // It takes only the signed-in user's own entries, the others stay in this browser.
+        const storedIds = new Set(serverAuditTrail.map(e => e.id));
+        const unsent = localAuditTrail.filter(e => !storedIds.has(e.id)).map(toAuditDraft);
+        const ownUnsent = unsent.filter(d => d.userId === signedInUser?.id);
+        setAuditTrail([...serverAuditTrail, ...sealAuditEntries(serverAuditTrail, unsent)]);
+        if (ownUnsent.length > 0) sync.appendAudit(ownUnsent).catch(reportSyncError);
+        setUsers(serverUsers);
+        setSessionUser(signedInUser);
+        setIsServerMode(true);
+      })
+      .catch(error => {
+        console.error('Failed to load from server', error);
+        setStorageNotice(`无法从服务器加载数据，当前使用本地数据：${(error as Error).message || error}`);
+      })
+      .finally(() => {
+        setIsWorkspaceLoaded(true);
+        requestPersistentStorage();
+      });
+  }, []);
+
+  const reportSyncError = (error: unknown) => {
+    if (isSessionEnded(error)) return;
+    if (error instanceof ApiError && error.status === 400) {
+      setStorageNotice(`服务器拒绝保存此修改，修改仅保存在本机：${error.message}`);
+      return;
+    }
+    setStorageNotice(`无法同步到服务器，修改已保存在本机，下次保存时重试：${(error as Error).message || error}`);
+  };
+
+  // The server refused a change without a signed-in user (not signed in yet, or signed out by a
+  // restart, the idle timeout or a new password). Nothing is lost: unsaved changes stay queued in the sync.
+  const isSessionEnded = (error: unknown) => {
+    if (!(error instanceof ApiError && error.status === 401)) return false;
+    setSessionUser(null);
+    setSignInNotice('需要登录后才能保存到服务器，未同步的修改会在登录后保存。');
+    return true;
+  };
+
+  const handleSignIn = async (account: string, password: string): Promise<string | null> => {
+    try {
+      const user = await signIn(account, password);
+      setSessionUser(user);
+      setSignInNotice(null);
+      pullRef.current(); // Saves what waited for the sign-in
+      return null;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) return '账号或密码错误';
+      if (error instanceof ApiError && error.status === 423) return '连续多次输入错误，账号已锁定 15 分钟';
+      return `无法登录：${(error as Error).message || error}`;
+    }
+  };
+
+  const handleSignOut = () => {
+    if (!window.confirm(`确定退出登录 (${currentUser.name}) 吗？`)) return;
+    signOut().then(() => setSessionUser(null));
+  };
+
+  const persistWorkspace = (snapshot: WorkspaceSnapshot, revision: number) => {
+    setSaveStatus('saving');
+    // Both run even if one fails (a full browser store must not hold back the server copy)
+    Promise.all([saveWorkspace(snapshot), workspaceSyncRef.current?.pushMessages(snapshot.messages)])
+      .then(() => {
+        setLastSavedAt(snapshot.savedAt);
+        // A newer change may be waiting for its own autosave
+        if (revision === saveRevisionRef.current) {
+          setSaveStatus('saved');
+          markSessionDirty(false);
+        }
+      })
+      .catch(async error => {
+        if (isQuotaError(error)) {
+          const estimate = await getStorageEstimate();
+          setSaveStatus('quota');
+          setStorageNotice(`本地存储空间不足，最近的修改未保存${estimate ? ` (已用 ${formatBytes(estimate.usage)} / ${formatBytes(estimate.quota)})` : ''}。请导出并删除不再需要的项目、方案或基线。`);
+        } else {
+          console.error('Autosave failed', error);
+          setSaveStatus('error');
+          if (workspaceSyncRef.current) reportSyncError(error);
+        }
+      });
+  };
+
+  // Autosave (debounced); pending work is flushed when the tab is hidden or closed
+  const latestSnapshot = (): WorkspaceSnapshot => ({
+    projects: allProjects.map(p => p.id === project.id ? project : p),
+    currentProjectId: project.id,
+    messages,
+    aiConfig,
+    auditTrail,
+    savedAt: new Date().toISOString()
+  });
+  const flushRef = useRef<() => void>(() => {});
+  flushRef.current = () => persistWorkspace(latestSnapshot(), saveRevisionRef.current);
+
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    const revision = ++saveRevisionRef.current;
+    markSessionDirty(true);
+    const timer = setTimeout(() => persistWorkspace(latestSnapshot(), revision), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [allProjects, project, messages, aiConfig, auditTrail, isWorkspaceLoaded]);
+
+  useEffect(() => {
+    const flush = () => {
+      if (document.visibilityState === 'hidden' && wasLastSessionInterrupted()) flushRef.current();
+    };
+    document.addEventListener('visibilitychange', flush);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', flush);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, []);
 
   // Close menus when clicking outside
   useEffect(() => {
@@ -148,11 +398,32 @@ const App: React.FC = () => {
       if (groupByMenuRef.current && !groupByMenuRef.current.contains(event.target as Node)) {
         setIsGroupByMenuOpen(false);
       }
+      if (baselineMenuRef.current && !baselineMenuRef.current.contains(event.target as Node)) {
+        setIsBaselineMenuOpen(false);
+      }
+      if (exportMenuRef.current && !exportMenuRef.current.contains(event.target as Node)) {
+        setIsExportMenuOpen(false);
+      }
+      if (scheduleMenuRef.current && !scheduleMenuRef.current.contains(event.target as Node)) {
+        setIsScheduleMenuOpen(false);
+      }
+      if (scenarioMenuRef.current && !scenarioMenuRef.current.contains(event.target as Node)) {
+        setIsScenarioMenuOpen(false);
+      }
+      if (historyMenuRef.current && !historyMenuRef.current.contains(event.target as Node)) {
+        setIsHistoryMenuOpen(false);
+      }
     };
     document.addEventListener('mousedown', handleClickOutside);
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // Scenarios belong to one project, switching projects goes back to its live plan
+  useEffect(() => {
+    setActiveScenarioId(null);
+    setComparisonPlanId(null);
+  }, [project.id]);
+
   // Zoom Logic
   const handleZoomIn = () => {
     if (viewMode === 'Quarter') setViewMode('Month');
@@ -169,11 +440,299 @@ const App: React.FC = () => {
 
   // --- Project Management Logic ---
 
+  // Change the stored projects and save the ones that changed to the shared server. Works from the
+  // latest list (not this render's), so several changes in one handler or after an await add up.
+  const commitProjects = (update: (prev: Project[]) => Project[]) => {
+    const prev = allProjectsRef.current;
+    const next = update(prev);
+    allProjectsRef.current = next;
+    setAllProjects(next);
+    const changed = next.filter(p => !prev.includes(p));
+    const applied = appliedChangeRef.current;
+    const cascaded = changed.filter(p => applied?.cascadedIds.includes(p.id));
+    const own = changed.filter(p => !cascaded.includes(p));
+    if (own.length > 0) workspaceSyncRef.current?.saveProjects(own, applied?.change).catch(reportSyncError);
+    if (cascaded.length > 0) workspaceSyncRef.current?.saveProjects(cascaded, { ...applied!.change, source: 'system' }).catch(reportSyncError);
+  };
+
   // Helper: Save current project state to allProjects list
+  // Successor projects linked to the saved project are pushed along with it
   const saveCurrentProjectToStorage = (currentProjState: Project) => {
-    setAllProjects(prev => prev.map(p => p.id === currentProjState.id ? currentProjState : p));
+    commitProjects(prev => {
+      const saved = prev.map(p => p.id === currentProjState.id ? currentProjState : p);
+      const { projects, impacts } = cascadeAcrossProjects(saved, currentProjState.id);
+      if (impacts.length > 0) setCrossProjectImpacts(impacts);
+      return projects;
+    });
+  };
+
+  // Take over versions other users saved (or their deletions) without saving them back. Their undo
+  // history is dropped: undoing across another user's change would silently revert it.
+  const applyServerProjects = (pulled: Project[], deletedIds: string[]) => {
+    if (pulled.length === 0 && deletedIds.length === 0) return;
+    const loaded = new Map(pulled.map(p => [p.id, normalizeProjectDurations(normalizeProjectDependencies(p))]));
+    const kept = allProjectsRef.current.filter(p => !deletedIds.includes(p.id));
+    const next = [...kept.map(p => loaded.get(p.id) || p), ...Array.from(loaded.values()).filter(p => !kept.some(k => k.id === p.id))];
+    if (next.length === 0) return;
+    allProjectsRef.current = next;
+    setAllProjects(next);
+    setHistories(h => Object.fromEntries(Object.entries(h).filter(([id]) => !loaded.has(id) && !deletedIds.includes(id))));
+
+    const open = projectRef.current;
+    const reloaded = loaded.get(open.id) || (deletedIds.includes(open.id) ? next[0] : undefined);
+    if (!reloaded) return;
+    setProject(reloaded);
+    // A change waiting for its reason was worked out on the replaced version
+    const isChangeCancelled = !!pendingChangeRef.current;
+    if (isChangeCancelled) setPendingChange(null);
+    setStorageNotice(loaded.has(open.id)
+      ? `「${open.name}」已被其他用户修改，已载入最新版本${isChangeCancelled ? '，未确认的修改已取消' : ''}。`
+      : `「${open.name}」已被其他用户删除。`);
+  };
+
+  // Settle the projects found in this browser on load: the chosen local versions are uploaded, everything
+  // else is taken from the server. Uploading needs a reason like any change, the server records it.
+  const handleConfirmWorkspaceMerge = (uploadIds: string[]) => {
+    if (!workspaceMerge) return;
+    const { serverProjects, localOnly, changed } = workspaceMerge;
+    const uploads = [...localOnly, ...changed].filter(p => uploadIds.includes(p.id));
+    const changes = uploads.flatMap(p => diffProjects(serverProjects.find(s => s.id === p.id) || null, p));
+    requestChange('上传本机项目覆盖服务器版本', changes, 'manual', () => {
+      const merged = [...serverProjects.map(p => uploads.find(u => u.id === p.id) || p), ...uploads.filter(u => !serverProjects.some(p => p.id === u.id))];
+      allProjectsRef.current = merged;
+      setAllProjects(merged);
+      setProject(prev => merged.find(p => p.id === prev.id) || merged[0]);
+      setWorkspaceMerge(null);
+      if (uploads.length > 0) workspaceSyncRef.current?.saveProjects(uploads, appliedChangeRef.current?.change).catch(reportSyncError);
+    });
+  };
+
+  // Another user saved (or deleted) a project before this client's changes to it reached the
+  // server: take their version, or save this one over it
+  const handleResolveConflict = (keep: 'local' | 'server') => {
+    const conflict = projectConflicts[0];
+    const sync = workspaceSyncRef.current;
+    if (!conflict || !sync) return;
+    if (keep === 'server') {
+      setProjectConflicts(prev => prev.slice(1));
+      applyServerProjects(conflict.server ? [conflict.server] : [], conflict.server ? [] : [conflict.local.id]);
+      sync.resolveConflict(conflict.local.id, keep).catch(reportSyncError);
+      return;
+    }
+    // Overwriting another user's version is a change of its own, with a reason
+    requestChange(`以本机版本覆盖「${conflict.local.name}」`, diffProjects(conflict.server, conflict.local), 'manual', () => {
+      setProjectConflicts(prev => prev.filter(c => c !== conflict));
+      sync.resolveConflict(conflict.local.id, keep, appliedChangeRef.current?.change).catch(reportSyncError);
+    });
+  };
+
+  // Changes other users saved are pulled in periodically
+  const pullRef = useRef<() => void>(() => {});
+  pullRef.current = () => {
+    workspaceSyncRef.current?.pull()
+      .then(({ projects, deletedIds }) => applyServerProjects(projects, deletedIds))
+      .catch(error => {
+        if (!isSessionEnded(error)) console.error('Failed to pull changes from the server', error);
+      });
+  };
+
+  useEffect(() => {
+    if (!isServerMode) return;
+    const timer = setInterval(() => pullRef.current(), PULL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isServerMode]);
+
+  // --- Audit Trail ---
+
+  // With the shared server the entries are recorded by the server as it saves the change
+  const recordAudit = (changes: AuditChange[], command: string, reason: string, source: AuditSource, user: Pick<User, 'id' | 'name'> = currentUser) => {
+    if (changes.length === 0 || workspaceSyncRef.current) return;
+    const drafts = createAuditDrafts(changes, { user, command, reason, source });
+    setAuditTrail(prev => [...prev, ...sealAuditEntries(prev, drafts)]);
+  };
+
+  // A recorded change waits for its reason; cancelling the prompt cancels the change.
+  // `systemChanges` follow from it (cross-project cascade) and are recorded with the same reason.
+  const requestChange = (command: string, changes: AuditChange[], source: AuditSource, apply: () => void, systemChanges: AuditChange[] = []) => {
+    if (changes.length === 0 && systemChanges.length === 0) {
+      apply();
+      return;
+    }
+    setPendingChange({
+      command,
+      changes: [...changes, ...systemChanges],
+      apply: reason => {
+        appliedChangeRef.current = { change: { command, reason, source }, cascadedIds: systemChanges.map(c => c.projectId) };
+        try {
+          apply();
+        } finally {
+          appliedChangeRef.current = null;
+        }
+        recordAudit(changes, command, reason, source);
+        recordAudit(systemChanges, command, reason, 'system');
+      }
+    });
+  };
+
+  // Changes the cross-project cascade will make to successor projects when `changed` is saved
+  const getLinkedProjectChanges = (changed: Project): AuditChange[] => {
+    const saved = allProjects.map(p => p.id === changed.id ? changed : p);
+    return cascadeAcrossProjects(saved, changed.id).projects.flatMap(p => {
+      const old = saved.find(s => s.id === p.id);
+      return p.id !== changed.id && old && old !== p ? diffProjects(old, p) : [];
+    });
+  };
+
+  const formatUnsignedTasks = (tasks: Task[]) =>
+    tasks.map(t => `· ${t.name} (${getSignatureState(t).valid.length}/${SIGNATURE_SEQUENCE.length})`).join('\n');
+
+  const refuseUnsignedCompletions = (unsigned: Task[], title: string) => {
+    alert(`${title}：以下 GMP 关键任务缺少电子签名 (执行、审核、批准)\n${formatUnsignedTasks(unsigned)}`);
+    if (unsigned.length === 1) setSigningTaskId(unsigned[0].id);
+  };
+
+  // Apply a command to the open project once its reason is given: saved like any change and
+  // recorded in the undo history and the audit trail
+  const updateProject = (description: string, update: (prev: Project) => Project, options: { source?: AuditSource; onApplied?: () => void } = {}) => {
+    const before = project;
+    const after = update(before);
+    if (after === before) {
+      options.onApplied?.();
+      return;
+    }
+    // GMP-critical tasks of the live plan are completed only once they are signed off
+    const unsigned = findUnsignedCompletions(before.tasks, after.tasks);
+    if (unsigned.length > 0) {
+      refuseUnsignedCompletions(unsigned, '无法标记为已完成');
+      return;
+    }
+    requestChange(description, diffProjects(before, after), options.source || 'manual', () => {
+      setProject(after);
+      saveCurrentProjectToStorage(after);
+      setHistories(h => ({
+        ...h,
+        [after.id]: recordHistory(h[after.id] || EMPTY_HISTORY, { id: createHistoryId(), description, timestamp: new Date().toISOString(), before, after })
+      }));
+      options.onApplied?.();
+    }, getLinkedProjectChanges(after));
+  };
+
+  // --- Electronic Signatures ---
+
+  // The signer re-enters their own account and password; the server checks them, signs the task as
+  // stored and records the signature under their name. Not an undoable command: undo keeps given signatures.
+  const handleSignTask = async (account: string, password: string, comment: string): Promise<string | null> => {
+    const task = signingTask;
+    const sync = workspaceSyncRef.current;
+    if (!task || !canEditTasks) return '任务不存在';
+    if (!sync) return '电子签名需要连接共享服务器';
+    // Readable reasons up front; the server refuses the same
+    const signer = users.find(u => u.account === account);
+    const refusal = signer && checkSigner(task, signer);
+    if (refusal) return refusal;
+
+    let signed: Project;
+    try {
+      signed = await sync.signTask(project.id, task.id, { account, password, comment, recordHash: computeRecordHash(task) });
+    } catch (error) {
+      if (isSessionEnded(error)) return '登录已失效，请重新登录后签署';
+      if (error instanceof ApiError && error.status === 403) return '账号或密码错误';
+      if (error instanceof ApiError && error.status === 423) return '连续多次输入错误，账号已锁定 15 分钟';
+      if (error instanceof ApiError && error.status === 409) return '任务或其签名已被修改，请关闭后重新打开签名';
+      return `无法签署：${(error as Error).message || error}`;
+    }
+    // Only the signatures are taken over; the task itself is what was just saved
+    const signatures = signed.tasks.find(t => t.id === task.id)?.signatures;
+    const current = projectRef.current;
+    const after = { ...current, tasks: current.tasks.map(t => t.id === task.id ? { ...t, signatures } : t) };
+    allProjectsRef.current = allProjectsRef.current.map(p => p.id === after.id ? after : p);
+    setAllProjects(allProjectsRef.current);
+    setProject(after);
+    return null;
+  };
+
+  const handleCompleteSignedTask = () => {
+    if (!signingTask) return;
+    setSigningTaskId(null);
+    handleTaskUpdate({ ...signingTask, status: TaskStatus.Completed, progress: 100 });
+  };
+
+  // User accounts live on the shared server (users sign in and signers re-authenticate against them)
+  const handleSaveUser = (user: User) => {
+    saveUser(user)
+      .then(saved => {
+        setUsers(prev => prev.some(u => u.id === saved.id) ? prev.map(u => u.id === saved.id ? saved : u) : [...prev, saved]);
+        if (saved.id === sessionUser?.id) setSessionUser(saved);
+      })
+      .catch(error => {
+        if (!isSessionEnded(error)) alert(`无法保存用户：${(error as Error).message || error}`);
+      });
+  };
+
+  const handleDeleteUser = (userId: string) => {
+    if (!window.confirm("确定删除该用户吗？其已签署的电子签名将保留。")) return;
+    deleteUser(userId)
+      .then(() => setUsers(prev => prev.filter(u => u.id !== userId)))
+      .catch(error => {
+        if (!isSessionEnded(error)) alert(`无法删除用户：${(error as Error).message || error}`);
+      });
   };
 
+  const applyHistoryJump = (command: string, jump: HistoryJump | null) => {
+    if (!jump || !canEditTasks) return;
+    setIsHistoryMenuOpen(false);
+    // Redoing a completion (or undoing back to one) needs the signatures like any other
+    const unsigned = findUnsignedCompletions(project.tasks, jump.project.tasks);
+    if (unsigned.length > 0) {
+      refuseUnsignedCompletions(unsigned, `无法${command}`);
+      return;
+    }
+    requestChange(command, diffProjects(project, jump.project), 'undo', () => {
+      setProject(jump.project);
+      saveCurrentProjectToStorage(jump.project);
+      setHistories(h => ({ ...h, [jump.project.id]: jump.history }));
+      // Pending proposals and conflicts were computed for the plan before the jump
+      setProposedChanges([]);
+      setPendingNewTasks([]);
+      setConflict(null);
+      setPendingTaskUpdate(null);
+      setPullInPreview(null);
+      if (activeScenarioId && !jump.project.scenarios?.some(s => s.id === activeScenarioId)) setActiveScenarioId(null);
+      if (comparisonPlanId && comparisonPlanId !== LIVE_PLAN_ID && !jump.project.scenarios?.some(s => s.id === comparisonPlanId)) setComparisonPlanId(null);
+    }, getLinkedProjectChanges(jump.project));
+  };
+
+  const handleUndo = (steps = 1) => applyHistoryJump(
+    steps === 1 ? `撤销「${history.undo[history.undo.length - 1]?.description}」` : `撤销 ${steps} 步操作`,
+    undoHistory(history, project, steps)
+  );
+  const handleRedo = (steps = 1) => applyHistoryJump(
+    steps === 1 ? `重做「${history.redo[history.redo.length - 1]?.description}」` : `重做 ${steps} 步操作`,
+    redoHistory(history, project, steps)
+  );
+
+  // Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y, Cmd on macOS); text fields keep their own undo
+  const historyKeysRef = useRef<(event: KeyboardEvent) => void>(() => {});
+  historyKeysRef.current = (event: KeyboardEvent) => {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey || pendingChange) return;
+    const target = event.target as HTMLElement | null;
+    if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault();
+      handleUndo();
+    } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+      event.preventDefault();
+      handleRedo();
+    }
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => historyKeysRef.current(event);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
   const handleSwitchProject = (projectId: string) => {
     // 1. Save current project first
     saveCurrentProjectToStorage(project);
@@ -197,9 +756,6 @@ const App: React.FC = () => {
   const handleCreateProject = () => {
     if (!canManageProjects) return; // Guard
 
-    // Save current before creating new
-    saveCurrentProjectToStorage(project);
-
     const newId = `proj_${Date.now()}`;
     const newProject: Project = {
       id: newId,
@@ -207,99 +763,137 @@ const App: React.FC = () => {
       type: ScenarioType.Facility, // Default
       riskLevel: RiskLevel.Low,
       tasks: [],
-      latestGmpAdvice: "新项目已创建，暂无风险评估。"
+      latestGmpAdvice: "新项目已创建，暂无风险评估。",
+      calendar: DEFAULT_PROJECT_CALENDAR
     };
 
-    setAllProjects(prev => [...prev, newProject]);
-    setProject(newProject);
-    setMessages([{
-        id: 'welcome_new',
-        role: 'assistant',
-        content: '新项目已创建。您可以开始添加任务模块了。',
-        timestamp: new Date()
-    }]);
     setIsProjectDrawerOpen(false);
+    requestChange('新建项目', diffProjects(null, newProject), 'manual', () => {
+      // Save current before creating new
+      saveCurrentProjectToStorage(project);
+
+      commitProjects(prev => [...prev, newProject]);
+      setProject(newProject);
+      setMessages([{
+          id: 'welcome_new',
+          role: 'assistant',
+          content: '新项目已创建。您可以开始添加任务模块了。',
+          timestamp: new Date()
+      }]);
+    });
   };
 
   const handleRenameProject = (projectId: string, newName: string) => {
     if (!canManageProjects) return; // Guard
+    const renamed = project.id === projectId ? project : allProjects.find(p => p.id === projectId);
+    if (!renamed || renamed.name === newName) return;
 
-    // Update in list
-    setAllProjects(prev => prev.map(p => p.id === projectId ? { ...p, name: newName } : p));
-    
-    // If it's the currently active project, update local state too
-    if (project.id === projectId) {
-      setProject(prev => ({ ...prev, name: newName }));
-    }
+    const updated = { ...renamed, name: newName };
+    requestChange(`重命名项目「${renamed.name}」`, diffProjects(renamed, updated), 'manual', () => {
+      // Update in list
+      commitProjects(prev => prev.map(p => p.id === projectId ? updated : p));
+
+      // If it's the currently active project, update local state too
+      if (project.id === projectId) {
+        setProject(updated);
+      }
+    });
   };
 
-  // Import Project (JSON)
+  // Import Project (JSON): older file versions are migrated, and the report is shown before anything is added
   const handleImportProject = (file: File) => {
     if (!canManageProjects) return; // Guard
 
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const content = e.target?.result as string;
-        const importedProject = JSON.parse(content) as Project;
-        
-        // Basic validation
-        if (!importedProject.id || !importedProject.tasks) {
-          alert("无效的项目文件格式");
-          return;
-        }
-
-        // Avoid ID collision
-        const newProject = {
-          ...importedProject,
-          id: `imported_${Date.now()}_${importedProject.id}`,
-          name: `${importedProject.name} (导入)`
-        };
-
-        saveCurrentProjectToStorage(project); // Save current
-        setAllProjects(prev => [...prev, newProject]);
-        setProject(newProject);
-        setIsProjectDrawerOpen(false);
-        setMessages([{
-            id: `import_${Date.now()}`,
-            role: 'system',
-            content: `成功导入项目：${newProject.name}`,
-            timestamp: new Date()
-        }]);
-
+        const { project: importedProject, report } = readProjectFile(e.target?.result as string);
+        setImportPreview({ fileName: file.name, projectName: importedProject.name, taskCount: importedProject.tasks.length, project: importedProject, report });
       } catch (err) {
         console.error("Import failed", err);
-        alert("导入失败：文件格式错误");
+        alert(`导入失败：${err instanceof ProjectFileError ? err.message : '文件格式错误'}`);
       }
     };
     reader.readAsText(file);
   };
 
+  const handleConfirmImport = () => {
+    if (!importPreview) return;
+    const { project: importedProject, report } = importPreview;
+    setImportPreview(null);
+
+    // Avoid ID collision. Signatures given elsewhere are not carried over: they are only ever created
+    // here, so completed GMP-critical tasks are imported as in progress until they are signed again.
+    const reopened = importedProject.tasks.filter(t => requiresSignatures(t) && t.status === TaskStatus.Completed);
+    const newProject = {
+      ...importedProject,
+      id: `imported_${Date.now()}_${importedProject.id}`,
+      name: `${importedProject.name} (导入)`,
+      tasks: importedProject.tasks.map(({ signatures, ...task }) => reopened.some(t => t.id === task.id) ? { ...task, status: TaskStatus.InProgress } : task)
+    };
+
+    setIsProjectDrawerOpen(false);
+    requestChange(`导入项目「${newProject.name}」`, diffProjects(null, newProject, 'import'), 'import', () => {
+      saveCurrentProjectToStorage(project); // Save current
+      commitProjects(prev => [...prev, newProject]);
+      setProject(newProject);
+      setMessages([{
+          id: `import_${Date.now()}`,
+          role: 'system',
+          content: `成功导入项目：${newProject.name}\n${formatProjectFileReport(report)}${reopened.length > 0 ? `\n以下 GMP 关键任务需重新签署，已标记为进行中：\n${reopened.map(t => `· ${t.name}`).join('\n')}` : ''}`,
+          timestamp: new Date()
+      }]);
+    });
+  };
+
   // Export Project (JSON) - Allowed for all roles (typically read access implies export)
   const handleExportProject = (projToExport: Project) => {
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(projToExport, null, 2));
+    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(createProjectFile(projToExport, currentUser.name), null, 2));
     const downloadAnchorNode = document.createElement('a');
     downloadAnchorNode.setAttribute("href", dataStr);
-    downloadAnchorNode.setAttribute("download", `${projToExport.name}_${new Date().toISOString().slice(0,10)}.json`);
+    downloadAnchorNode.setAttribute("download", `${projToExport.name}_${getToday()}.json`);
     document.body.appendChild(downloadAnchorNode);
     downloadAnchorNode.click();
     downloadAnchorNode.remove();
   };
 
-  // Export Gantt Data (CSV)
-  const handleExportGanttCsv = () => {
-    const headers = ["任务ID", "任务名称", "负责人", "开始日期", "结束日期", "工期(天)", "状态", "GMP关键", "进度"];
-    const rows = project.tasks.map(t => [
+  // Export Gantt Data (CSV), optionally only milestones or only regular tasks
+  const handleExportGanttCsv = (filter: 'all' | 'milestones' | 'tasks' = 'all') => {
+    const wbsRows = buildWbsRows(workingTasks).filter(({ task }) =>
+      filter === 'all' || (filter === 'milestones' ? isMilestone(task) : !isMilestone(task))
+    );
+    const headers = ["WBS", "任务ID", "任务名称", "类型", "负责人", "开始日期", "结束日期", "工期(工作日)", "状态", "GMP关键", "进度", "日期约束",
+        "最早开始", "最早完成", "最晚开始", "最晚完成", "总浮动(工作日)", "自由浮动(工作日)", "关键路径",
+        "基线开始", "基线完成", "开始偏差(工作日)", "完成偏差(工作日)"];
+    const rows = wbsRows.map(({ task: t, code, hasChildren }) => {
+        const cpm = criticalPath.tasks[t.id];
+        const variance = baselineVariances[t.id];
+        return [
+        code,
         t.id,
         `"${t.name.replace(/"/g, '""')}"`, // Handle commas in names
+        isMilestone(t) ? "里程碑" : hasChildren ? "摘要任务" : "任务",
         t.assignee,
         t.startDate,
         t.endDate,
         t.duration,
         t.status,
         t.gmpCritical ? "是" : "否",
-        `${t.progress}%`
-    ]);
+        `${t.progress}%`,
+        t.constraint ? formatConstraint(t.constraint) : '',
+        cpm?.earlyStart ?? '',
+        cpm?.earlyFinish ?? '',
+        cpm?.lateStart ?? '',
+        cpm?.lateFinish ?? '',
+        cpm?.totalFloat ?? '',
+        cpm?.freeFloat ?? '',
+        cpm?.isCritical ? "是" : "否",
+        variance?.baselineStart ?? '',
+        variance?.baselineFinish ?? '',
+        variance ? formatVariance(variance.startVariance) : '',
+        variance ? formatVariance(variance.finishVariance) : ''
+    ];
+    });
 
     const csvContent = "data:text/csv;charset=utf-8,\uFEFF" // Add BOM for Excel Chinese support
         + [headers, ...rows].map(e => e.join(",")).join("\n");
@@ -307,10 +901,11 @@ const App: React.FC = () => {
     const encodedUri = encodeURI(csvContent);
     const link = document.createElement("a");
     link.setAttribute("href", encodedUri);
-    link.setAttribute("download", `${project.name}_任务表.csv`);
+    link.setAttribute("download", `${project.name}_${filter === 'milestones' ? '里程碑' : '任务表'}.csv`);
     document.body.appendChild(link);
     link.click();
     link.remove();
+    setIsExportMenuOpen(false);
   };
 
   // --- End Project Management Logic ---
@@ -333,11 +928,11 @@ const App: React.FC = () => {
 
     try {
       // 2. Call AI Service (Now supports dynamic providers)
-      const aiResponse = await analyzeProjectUpdate(project.tasks, text, aiConfig);
+      const aiResponse = await analyzeProjectUpdate(workingTasks, text, aiConfig);
 
       // 3. Process AI Response (Existing Tasks Update)
       const changes: ProposedChange[] = aiResponse.affected_tasks.map(at => {
-        const originalTask = project.tasks.find(t => t.id === at.task_id);
+        const originalTask = workingTasks.find(t => t.id === at.task_id);
         return {
           taskId: at.task_id,
           taskName: originalTask?.name,
@@ -355,9 +950,10 @@ const App: React.FC = () => {
       const newTasks: Task[] = (aiResponse.created_tasks || []).map((ct, idx) => ({
         id: `new_task_${Date.now()}_${idx}`,
         name: ct.name,
+        kind: ct.is_milestone ? 'milestone' : 'task',
         startDate: ct.start_date,
-        endDate: ct.end_date,
-        duration: Math.ceil((new Date(ct.end_date).getTime() - new Date(ct.start_date).getTime()) / (1000 * 3600 * 24)) + 1,
+        endDate: ct.is_milestone ? ct.start_date : ct.end_date,
+        duration: ct.is_milestone ? 0 : Math.max(countWorkingDays(ct.start_date, ct.end_date, calendar), 1),
         status: TaskStatus.Pending,
         assignee: ct.assignee || "AI 建议",
         progress: 0,
@@ -369,7 +965,8 @@ const App: React.FC = () => {
       }));
 
       // 5. Update State
-      setProposedChanges(changes);
+      const previewChanges = withPulledInChanges(changes, newTasks);
+      setProposedChanges(previewChanges);
       setPendingNewTasks(newTasks);
 
       // 6. Add Assistant Message
@@ -379,24 +976,29 @@ const App: React.FC = () => {
         content: aiResponse.response_text,
         timestamp: new Date(),
         metadata: {
-          proposedChanges: changes,
+          proposedChanges: previewChanges,
           newTasks: newTasks,
           gmpAdvice: aiResponse.gmp_advice,
-          riskAssessment: aiResponse.overall_risk as RiskLevel
+          riskAssessment: aiResponse.overall_risk as RiskLevel,
+          // Tell the user straight away whether the project end date moves
+          scheduleImpact: computeScheduleImpact(workingTasks, previewChanges, newTasks, calendar, isCompressMode)
         }
       };
       setMessages(prev => [...prev, assistantMsg]);
       
       // Update risk level and advice if provided
       if (aiResponse.overall_risk || aiResponse.gmp_advice) {
-        setProject(prev => {
-           const updated = { 
-               ...prev, 
-               riskLevel: aiResponse.overall_risk as RiskLevel || prev.riskLevel,
-               latestGmpAdvice: aiResponse.gmp_advice || prev.latestGmpAdvice
-           };
-           saveCurrentProjectToStorage(updated); // Sync
-           return updated;
+        // The project may have changed while the model was answering (or while the reason is entered)
+        const assess = (current: Project): Project => ({
+          ...current,
+          riskLevel: aiResponse.overall_risk as RiskLevel || current.riskLevel,
+          latestGmpAdvice: aiResponse.gmp_advice || current.latestGmpAdvice
+        });
+        const current = projectRef.current;
+        requestChange('AI 风险评估', diffProjects(current, assess(current)), 'system', () => {
+          const assessed = assess(projectRef.current);
+          setProject(assessed);
+          saveCurrentProjectToStorage(assessed);
         });
       }
 
@@ -414,54 +1016,76 @@ const App: React.FC = () => {
     }
   };
 
+  // Compress mode: add the successors a proposal would pull in, so the preview lists them too
+  const withPulledInChanges = (changes: ProposedChange[], newTasks: Task[] = []): ProposedChange[] => {
+    if (!isCompressMode || changes.length === 0) return changes;
+    const pulledIn = findPulledInTasks(
+      applyProposedChanges(workingTasks, changes, newTasks, calendar),
+      applyProposedChanges(workingTasks, changes, newTasks, calendar, true)
+    ).filter(({ after }) => !changes.some(c => c.taskId === after.id));
+
+    return [...changes, ...pulledIn.flatMap(({ after }) => {
+      const original = workingTasks.find(t => t.id === after.id);
+      if (!original || original.startDate === after.startDate) return [];
+      return [{
+        taskId: after.id,
+        taskName: after.name,
+        originalStartDate: original.startDate,
+        originalEndDate: original.endDate,
+        newStartDate: after.startDate,
+        newEndDate: after.endDate,
+        reason: '前置任务提前，按依赖关系拉回至最早可行日期'
+      }];
+    })];
+  };
+
   // Confirm changes: Apply proposed to actual
-  const handleConfirmChanges = (changes: ProposedChange[], newTasks: Task[] = []) => {
+  const handleConfirmChanges = (proposed: ProposedChange[], proposedNewTasks: Task[] = []) => {
     if (!canEditTasks) return;
 
-    setProject(prev => {
-      // 1. Update existing tasks based on AI suggestions
-      const tasksWithAIUpdates = prev.tasks.map(task => {
-        const change = changes.find(c => c.taskId === task.id);
-        if (change) {
-          return {
-            ...task,
-            startDate: change.newStartDate,
-            endDate: change.newEndDate,
-            assignee: change.newAssignee || task.assignee, // Apply assignee change if present
-            status: task.status
-          };
-        }
-        return task;
-      });
-
-      // 2. Add new tasks (remove isNew flag)
-      const finalizedNewTasks = newTasks.map(t => {
-        const { isNew, reason, ...rest } = t;
-        return rest;
-      });
-
-      const mergedTasks = [...tasksWithAIUpdates, ...finalizedNewTasks];
+    // Completing GMP-critical tasks that are not signed off is left out; the rest of the batch applies
+    const preview = withWorkingTasks(project, applyProposedChanges(workingTasks, proposed, proposedNewTasks, calendar, isCompressMode));
+    const unsigned = findUnsignedCompletions(project.tasks, preview.tasks);
+    const isWithheld = (taskId: string) => unsigned.some(t => t.id === taskId);
+    const changes = proposed
+      .map(c => isWithheld(c.taskId) ? { ...c, newStatus: undefined } : c)
+      .filter(c => c.newStatus || c.newStartDate !== c.originalStartDate || c.newEndDate !== c.originalEndDate || (c.newAssignee && c.newAssignee !== c.originalAssignee));
+    const newTasks = proposedNewTasks.map(t => isWithheld(t.id) ? { ...t, status: TaskStatus.InProgress } : t);
+
+    // Refuse proposals that would leave the dependency network circular
+    const cycle = findDependencyCycle([...workingTasks, ...newTasks]);
+    if (cycle) {
+      setMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        role: 'assistant',
+        content: `无法应用变更：检测到循环依赖 (${describeDependencyCycle(cycle)})。请先修正任务依赖关系。`,
+        timestamp: new Date()
+      }]);
+      return;
+    }
 
-      // 3. Auto-cascade dependencies to ensure consistency
+    const summary = [changes.length > 0 && `${changes.length} 项变更`, newTasks.length > 0 && `${newTasks.length} 个新任务`].filter(Boolean).join('，');
+    updateProject(`应用建议 (${summary || '无变更'})`, prev => {
+      // Apply AI suggestions and new tasks, then auto-cascade dependencies to ensure consistency
       // This fixes the issue where AI might miss updating downstream tasks (e.g. Q2 tasks depending on Q1)
-      const finalizedTasks = cascadeSchedule(mergedTasks);
-
-      const newProjectState = { ...prev, tasks: finalizedTasks };
-      saveCurrentProjectToStorage(newProjectState); // Sync
-      return newProjectState;
+      const finalizedTasks = applyProposedChanges(getWorkingTasks(prev), changes, newTasks, getProjectCalendar(prev), prev.cascadeMode === 'compress');
+      return withWorkingTasks(prev, finalizedTasks);
+    }, {
+      source: 'proposal',
+      onApplied: () => {
+        // Clear proposal
+        setProposedChanges([]);
+        setPendingNewTasks([]);
+
+        // Add confirmation message
+        setMessages(prev => [...prev, {
+          id: Date.now().toString(),
+          role: 'assistant',
+          content: `变更已确认，进度表已更新 (相关依赖任务已自动顺延)。${unsigned.length > 0 ? `\n以下 GMP 关键任务缺少电子签名，未标记为已完成：\n${formatUnsignedTasks(unsigned)}` : ''}`,
+          timestamp: new Date()
+        }]);
+      }
     });
-    
-    // Clear proposal
-    setProposedChanges([]);
-    setPendingNewTasks([]);
-    
-    // Add confirmation message
-    setMessages(prev => [...prev, {
-      id: Date.now().toString(),
-      role: 'assistant',
-      content: "变更已确认，进度表已更新 (相关依赖任务已自动顺延)。",
-      timestamp: new Date()
-    }]);
   };
 
   // Reject changes: Clear proposed
@@ -476,77 +1100,137 @@ const App: React.FC = () => {
       }]);
   };
 
-  // Check dependencies before updating
-  const checkDependencies = (updatedTask: Task, allTasks: Task[]) => {
-    if (updatedTask.dependencies && updatedTask.dependencies.length > 0) {
-      for (const depId of updatedTask.dependencies) {
-        const depTask = allTasks.find(t => t.id === depId);
-        if (depTask) {
-          const depEnd = new Date(depTask.endDate);
-          const currentStart = new Date(updatedTask.startDate);
-          
-          // Strict sequential: Start Date must be > Dependency End Date
-          if (currentStart <= depEnd) {
-             const suggested = new Date(depEnd);
-             suggested.setDate(suggested.getDate() + 1);
-             return {
-               dependency: depTask,
-               suggestedDate: suggested.toISOString().split('T')[0]
-             };
-          }
-        }
-      }
-    }
-    return null;
-  };
-
   // Handle manual task update from Gantt Chart
-  const handleTaskUpdate = (updatedTask: Task) => {
+  const handleTaskUpdate = (editedTask: Task) => {
     if (!canEditTasks) return;
 
-    // 1. Check for conflicts
-    const conflictResult = checkDependencies(updatedTask, project.tasks);
-    
-    if (conflictResult) {
+    // Durations are counted in working days of the project calendar (milestones sit on a single date)
+    const datedTask = isMilestone(editedTask) ? { ...editedTask, endDate: editedTask.startDate } : editedTask;
+    // A moved occurrence of a recurring task keeps its new date (recorded as an exception of the series)
+    const previousTask = workingTasks.find(t => t.id === datedTask.id);
+    const pinnedTask = isOccurrence(datedTask) && previousTask && previousTask.startDate !== datedTask.startDate
+      ? { ...datedTask, constraint: { type: 'SNET' as const, date: datedTask.startDate } }
+      : datedTask;
+    const updatedTask = { ...pinnedTask, duration: getWorkingDuration(pinnedTask, calendar) };
+
+    // 1. Refuse edits that create a circular dependency
+    const cycle = findDependencyCycle(workingTasks.map(t => t.id === updatedTask.id ? updatedTask : t));
+    if (cycle) {
+      alert(`无法保存：检测到循环依赖\n${describeDependencyCycle(cycle)}`);
+      return;
+    }
+
+    // Date constraints that cascading a version of the edited task would newly break
+    const violationsBefore = findConstraintViolations(workingTasks, calendar);
+    const getViolationsAfter = (task: Task) => {
+      const editedTasks = workingTasks.map(t => t.id === task.id ? task : t);
+      const cascaded = cascadeSchedule(editedTasks, calendar, { externalStarts: getExternalStarts(project, editedTasks) });
+      return getNewConstraintViolations(violationsBefore, findConstraintViolations(cascaded, calendar));
+    };
+
+    // 2. Check for conflicts with predecessors in this project or in others (summary dates are rolled
+    // up from their children, so only work tasks can conflict)
+    const isSummary = isSummaryTask(updatedTask, getChildrenMap(workingTasks));
+    const conflictResult = isSummary ? null : findDependencyConflict(updatedTask, workingTasks, calendar);
+    const externalConflict = isSummary ? undefined : resolveExternalLinks(updatedTask, project, otherProjects, currentUser)
+      .filter(l => l.isViolated)
+      .sort((a, b) => b.earliestStart! - a.earliestStart!)[0];
+
+    if (conflictResult || externalConflict) {
+      const suggestedStart = Math.max(
+        conflictResult ? toDayNumber(conflictResult.suggestedDate) : -Infinity,
+        externalConflict ? nextWorkingDay(externalConflict.earliestStart!, calendar) : -Infinity
+      );
+      // Predecessors in projects the user may not open stay anonymous
+      const externalPredecessor = externalConflict && {
+        ...externalConflict.predecessor!,
+        name: externalConflict.isVisible ? `「${externalConflict.project!.name}」${externalConflict.predecessor!.name}` : '无权查看的项目中的任务'
+      };
       setPendingTaskUpdate(updatedTask);
       setConflict({
         task: updatedTask,
-        dependency: conflictResult.dependency,
-        suggestedDate: conflictResult.suggestedDate
+        dependency: conflictResult?.dependency || externalPredecessor,
+        link: conflictResult?.link || externalConflict?.link,
+        suggestedDate: fromDayNumber(suggestedStart),
+        violations: getViolationsAfter(shiftTaskToStart(updatedTask, suggestedStart, calendar))
       });
       return;
     }
 
-    // 2. No conflict, update immediately
-    setProject(prev => {
+    // 3. Hard dates (e.g. PQ finish-no-later-than) pushed out by the edit need confirmation
+    const violations = getViolationsAfter(updatedTask);
+    if (violations.length > 0) {
+      setPendingTaskUpdate(updatedTask);
+      setConflict({ task: updatedTask, violations });
+      return;
+    }
+
+    // 4. Compress mode: show which successors the edit lets start earlier before moving them
+    if (isCompressMode && !isSummary) {
+      const editedTasks = workingTasks.map(t => t.id === updatedTask.id ? updatedTask : t);
+      const externalStarts = getExternalStarts(project, editedTasks);
+      const pulledIn = findPulledInTasks(
+        cascadeSchedule(editedTasks, calendar, { externalStarts }),
+        cascadeSchedule(editedTasks, calendar, { externalStarts, pullInFrom: [updatedTask.id] })
+      );
+      if (pulledIn.length > 0) {
+        setPullInPreview({ task: updatedTask, pulledIn });
+        return;
+      }
+    }
+
+    // 5. No conflict, update immediately
+    commitTaskUpdate(updatedTask, false);
+  };
+
+  // Earliest starts that predecessors in other projects allow the tasks of `prev`, with `tasks` as its plan
+  const getExternalStarts = (prev: Project, tasks: Task[]) =>
+    getExternalEarliestStarts({ ...prev, tasks }, allProjectsRef.current.filter(p => p.id !== prev.id));
+
+  // Apply a checked edit, then cascade (compress also pulls its successors in)
+  const commitTaskUpdate = (updatedTask: Task, compress: boolean) => {
+    updateProject(`编辑任务「${updatedTask.name}」`, prev => {
       // Apply update then cascade to be safe for manual edits too
-      const newTasksRaw = prev.tasks.map(t => t.id === updatedTask.id ? updatedTask : t);
-      const newTasksCascaded = cascadeSchedule(newTasksRaw);
-      
-      const newProjectState = { ...prev, tasks: newTasksCascaded };
-      saveCurrentProjectToStorage(newProjectState); // Sync
-      return newProjectState;
+      const newTasksRaw = syncRecurrence(getWorkingTasks(prev).map(t => t.id === updatedTask.id ? updatedTask : t), updatedTask, getProjectCalendar(prev));
+      const externalStarts = getExternalStarts(prev, newTasksRaw);
+      const newTasksCascaded = cascadeSchedule(newTasksRaw, getProjectCalendar(prev), compress ? { externalStarts, pullInFrom: [updatedTask.id] } : { externalStarts });
+      return withWorkingTasks(prev, newTasksCascaded);
     });
   };
 
+  const resolvePullIn = (compress: boolean) => {
+    if (pullInPreview && canEditTasks) commitTaskUpdate(pullInPreview.task, compress);
+    setPullInPreview(null);
+  };
+
   // Handle Task Reorder
   const handleTaskReorder = (newTasks: Task[]) => {
     if (!canEditTasks) return;
-    setProject(prev => {
-        const newProjectState = { ...prev, tasks: newTasks };
-        saveCurrentProjectToStorage(newProjectState);
-        return newProjectState;
-    });
+
+    // Moving a row can change its summary task, which may close a dependency loop
+    const cycle = findDependencyCycle(newTasks);
+    if (cycle) {
+      alert(`无法移动：检测到循环依赖\n${describeDependencyCycle(cycle)}`);
+      return;
+    }
+
+    updateProject('调整任务顺序', prev => withWorkingTasks(prev, cascadeSchedule(newTasks, getProjectCalendar(prev))));
   };
 
   // Handle Task Delete
   const handleTaskDelete = (taskId: string) => {
     if (!canEditTasks) return;
-    setProject(prev => {
-        const newTasks = prev.tasks.filter(t => t.id !== taskId);
-        const newProjectState = { ...prev, tasks: newTasks };
-        saveCurrentProjectToStorage(newProjectState);
-        return newProjectState;
+    const name = workingTasks.find(t => t.id === taskId)?.name || taskId;
+    updateProject(`删除任务「${name}」`, prev => {
+        const deleted = getWorkingTasks(prev).find(t => t.id === taskId);
+        // Deleting one occurrence of a recurring task skips it in the series. Children of a deleted
+        // summary move up one WBS level, then summaries are rolled up again
+        const newTasks = deleted && isOccurrence(deleted)
+            ? skipOccurrence(getWorkingTasks(prev), deleted)
+            : getWorkingTasks(prev)
+                .filter(t => t.id !== taskId)
+                .map(t => t.parentId === taskId ? { ...t, parentId: deleted?.parentId } : t);
+        return withWorkingTasks(prev, cascadeSchedule(newTasks, getProjectCalendar(prev)));
     });
   };
 
@@ -554,8 +1238,9 @@ const App: React.FC = () => {
   const handleInsertTask = (targetTaskId: string, position: 'before' | 'after') => {
     if (!canEditTasks) return;
 
-    setProject(prev => {
-        const tasks = [...prev.tasks];
+    const targetName = workingTasks.find(t => t.id === targetTaskId)?.name || targetTaskId;
+    updateProject(`在「${targetName}」${position === 'after' ? '之后' : '之前'}插入任务`, prev => {
+        const tasks = [...getWorkingTasks(prev)];
         const index = tasks.findIndex(t => t.id === targetTaskId);
         if (index === -1) return prev;
 
@@ -563,6 +1248,7 @@ const App: React.FC = () => {
         const newTask: Task = {
             id: `task_${Date.now()}`,
             name: "新任务",
+            parentId: targetTask.parentId, // Sibling of the target in the WBS
             startDate: targetTask.startDate,
             endDate: targetTask.endDate, // Default to same duration/dates
             duration: targetTask.duration,
@@ -577,40 +1263,23 @@ const App: React.FC = () => {
 
         const insertIndex = position === 'after' ? index + 1 : index;
         tasks.splice(insertIndex, 0, newTask);
-
-        const newProjectState = { ...prev, tasks };
-        saveCurrentProjectToStorage(newProjectState);
-        return newProjectState;
+        return withWorkingTasks(prev, tasks);
     });
   };
 
-  // Resolve conflict by applying suggestions
+  // Resolve conflict by applying suggestions (constraint-only conflicts apply the edit as is)
   const resolveConflict = () => {
     if (pendingTaskUpdate && conflict && canEditTasks) {
-      // Calculate duration to shift end date correctly
-      const oldStart = new Date(pendingTaskUpdate.startDate).getTime();
-      const oldEnd = new Date(pendingTaskUpdate.endDate).getTime();
-      const durationMs = oldEnd - oldStart;
+      // Move to the suggested start, keeping the working-day duration
+      const fixedTask = conflict.suggestedDate
+        ? shiftTaskToStart(pendingTaskUpdate, toDayNumber(conflict.suggestedDate), calendar)
+        : pendingTaskUpdate;
       
-      const newStartStr = conflict.suggestedDate;
-      const newStart = new Date(newStartStr).getTime();
-      const newEnd = new Date(newStart + durationMs);
-      const newEndStr = newEnd.toISOString().split('T')[0];
-
-      const fixedTask = {
-        ...pendingTaskUpdate,
-        startDate: newStartStr,
-        endDate: newEndStr
-      };
-      
-      setProject(prev => {
+      updateProject(`编辑任务「${fixedTask.name}」(按依赖调整)`, prev => {
           // Apply fixed task then cascade
-          const newTasksRaw = prev.tasks.map(t => t.id === fixedTask.id ? fixedTask : t);
-          const newTasksCascaded = cascadeSchedule(newTasksRaw);
-
-          const newProjectState = { ...prev, tasks: newTasksCascaded };
-          saveCurrentProjectToStorage(newProjectState);
-          return newProjectState;
+          const newTasksRaw = syncRecurrence(getWorkingTasks(prev).map(t => t.id === fixedTask.id ? fixedTask : t), fixedTask, getProjectCalendar(prev));
+          const newTasksCascaded = cascadeSchedule(newTasksRaw, getProjectCalendar(prev), { externalStarts: getExternalStarts(prev, newTasksRaw) });
+          return withWorkingTasks(prev, newTasksCascaded);
       });
       
       setConflict(null);
@@ -623,20 +1292,251 @@ const App: React.FC = () => {
     setPendingTaskUpdate(null);
   };
 
+  // --- Baseline Management ---
+
+  const handleSaveBaseline = () => {
+    if (!canManageProjects) return;
+    const defaultName = `基线 ${(project.baselines?.length || 0) + 1} (${getToday()})`;
+    const name = window.prompt("请输入基线名称", defaultName);
+    if (name === null) return;
+
+    const baseline = createBaseline(project, name.trim() || defaultName, currentUser.name);
+    updateProject(`保存基线「${baseline.name}」`, prev => ({ ...prev, baselines: [...(prev.baselines || []), baseline], activeBaselineId: baseline.id }));
+    setIsBaselineMenuOpen(false);
+  };
+
+  // The shown baseline is the project's reference for variances, set like the baselines themselves
+  const handleSelectBaseline = (baselineId: string | undefined) => {
+    if (!canManageProjects) return;
+    const name = project.baselines?.find(b => b.id === baselineId)?.name;
+    updateProject(name ? `切换到基线「${name}」` : '取消显示基线', prev => prev.activeBaselineId === baselineId ? prev : { ...prev, activeBaselineId: baselineId });
+    setIsBaselineMenuOpen(false);
+  };
+
+  const handleDeleteBaseline = (baselineId: string) => {
+    if (!canManageProjects) return;
+    if (!window.confirm("确定删除该基线吗？")) return;
+    const name = project.baselines?.find(b => b.id === baselineId)?.name || baselineId;
+    updateProject(`删除基线「${name}」`, prev => ({
+        ...prev,
+        baselines: (prev.baselines || []).filter(b => b.id !== baselineId),
+        activeBaselineId: prev.activeBaselineId === baselineId ? undefined : prev.activeBaselineId
+    }));
+  };
+
+  // Apply a new working-day calendar: keep working durations and re-cascade
+  const handleUpdateCalendar = (newCalendar: ProjectCalendar) => {
+    if (!canEditTasks) return;
+    updateProject('修改工作日历', prev => ({
+        ...prev,
+        calendar: newCalendar,
+        tasks: rescheduleForCalendar(prev.tasks, newCalendar),
+        scenarios: prev.scenarios?.map(sc => ({ ...sc, tasks: rescheduleForCalendar(sc.tasks, newCalendar) }))
+    }));
+  };
+
+  // --- Resources ---
+
+  const handleUpdateResources = (resources: Resource[]) => {
+    if (!canEditTasks) return;
+    updateProject('修改资源', prev => ({ ...prev, resources }));
+  };
+
+  // Propose a levelled schedule through the regular confirm / reject flow
+  const handleLevelResources = (resources: Resource[]) => {
+    if (!canEditTasks) return;
+    handleUpdateResources(resources);
+
+    const levelled = levelResources(workingTasks, resources, calendar);
+    const { unresolvedTaskIds } = levelled;
+    const changes = withPulledInChanges(levelled.changes);
+    const unresolvedNote = unresolvedTaskIds.length > 0
+      ? `\n仍有 ${unresolvedTaskIds.length} 个任务超负荷 (关键路径、已开始任务或浮动时间不足)，需要增加产能或调整分配。`
+      : '';
+
+    setIsChatExpanded(true);
+    setProposedChanges(changes);
+    setPendingNewTasks([]);
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      role: 'assistant',
+      content: changes.length > 0
+        ? `资源平衡建议：在浮动时间内顺延 ${changes.length} 个非关键任务，项目完工日期保持不变。${unresolvedNote}`
+        : `未找到可在浮动时间内消除的资源冲突。${unresolvedNote}`,
+      timestamp: new Date(),
+      metadata: changes.length > 0 ? {
+        proposedChanges: changes,
+        scheduleImpact: computeScheduleImpact(workingTasks, changes, [], calendar, isCompressMode)
+      } : undefined
+    }]);
+  };
+
+  // --- What-if Scenarios ---
+
+  const handleOpenPlan = (scenarioId: string | null) => {
+    setActiveScenarioId(scenarioId);
+    if (comparisonPlanId === (scenarioId || LIVE_PLAN_ID)) setComparisonPlanId(null);
+    // A pending proposal was computed for the plan that was open
+    setProposedChanges([]);
+    setPendingNewTasks([]);
+    setIsScenarioMenuOpen(false);
+  };
+
+  // Fork the open plan; the new scenario is opened and compared against its source
+  const handleCreateScenario = () => {
+    if (!canEditTasks) return;
+    const defaultName = `方案 ${(project.scenarios?.length || 0) + 1}`;
+    const name = window.prompt("请输入方案名称 (例如：生物反应器晚到 3 周)", defaultName);
+    if (name === null) return;
+
+    const scenario = createScenario(name.trim() || defaultName, workingTasks, currentUser.name);
+    updateProject(`创建方案「${scenario.name}」`, prev => ({ ...prev, scenarios: [...(prev.scenarios || []), scenario] }), {
+      onApplied: () => {
+        handleOpenPlan(scenario.id);
+        setComparisonPlanId(activeScenarioId || LIVE_PLAN_ID);
+      }
+    });
+  };
+
+  const handleDeleteScenario = (scenarioId: string) => {
+    if (!canEditTasks) return;
+    if (!window.confirm("确定删除该方案吗？")) return;
+    const name = project.scenarios?.find(s => s.id === scenarioId)?.name || scenarioId;
+    updateProject(`删除方案「${name}」`, prev => ({ ...prev, scenarios: (prev.scenarios || []).filter(s => s.id !== scenarioId) }), {
+      onApplied: () => {
+        if (activeScenarioId === scenarioId) handleOpenPlan(null);
+        if (comparisonPlanId === scenarioId) setComparisonPlanId(null);
+      }
+    });
+  };
+
+  // Replace the live plan with a scenario (the scenario itself is kept for reference)
+  const handlePromoteScenario = (scenarioId: string) => {
+    if (!canEditTasks) return;
+    const scenario = project.scenarios?.find(s => s.id === scenarioId);
+    if (!scenario) return;
+    if (!window.confirm(`将方案「${scenario.name}」提升为实际计划？当前实际计划将被替换，建议先保存基线。`)) return;
+
+    updateProject(`方案「${scenario.name}」提升为实际计划`, prev => ({ ...prev, tasks: cascadeSchedule(scenario.tasks, getProjectCalendar(prev)) }), {
+      onApplied: () => {
+        handleOpenPlan(null);
+        setComparisonPlanId(null);
+        setMessages(prev => [...prev, {
+          id: Date.now().toString(),
+          role: 'system',
+          content: `方案「${scenario.name}」已提升为实际计划`,
+          timestamp: new Date()
+        }]);
+      }
+    });
+  };
+
+  // --- Scheduling Direction ---
+
+  const handleUpdateScheduleSettings = (settings: Pick<Project, 'scheduleDirection' | 'startDate' | 'targetFinishDate' | 'cascadeMode'>) => {
+    if (!canEditTasks) return;
+    updateProject('修改排程设置', prev => ({ ...prev, ...settings }));
+  };
+
+  // Lay the whole plan out again from the project anchor, proposed through the regular confirm flow
+  const handleReplanSchedule = () => {
+    if (!canEditTasks) return;
+    const backward = project.scheduleDirection === 'backward';
+    if (backward && !project.targetFinishDate) {
+      alert("请先设置目标完成日期");
+      return;
+    }
+    const startDate = project.startDate || getToday();
+    const replanned = backward
+      ? scheduleAsLateAsPossible(workingTasks, project.targetFinishDate!, calendar)
+      : scheduleAsSoonAsPossible(workingTasks, startDate, calendar);
+
+    // Summary dates follow from their children once the changes are applied
+    const childrenMap = getChildrenMap(workingTasks);
+    const changes: ProposedChange[] = withPulledInChanges(replanned
+      .filter(t => !childrenMap.has(t.id))
+      .map(t => ({ planned: t, original: workingTasks.find(o => o.id === t.id)! }))
+      .filter(({ planned, original }) => planned.startDate !== original.startDate || planned.endDate !== original.endDate)
+      .map(({ planned, original }) => ({
+        taskId: original.id,
+        taskName: original.name,
+        originalStartDate: original.startDate,
+        originalEndDate: original.endDate,
+        newStartDate: planned.startDate,
+        newEndDate: planned.endDate,
+        reason: backward ? `倒排：按目标完成日期 ${project.targetFinishDate} 尽晚安排` : `正排：自开始日期 ${startDate} 尽早安排`
+      })));
+
+    setIsScheduleMenuOpen(false);
+    setIsChatExpanded(true);
+    setProposedChanges(changes);
+    setPendingNewTasks([]);
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      role: 'assistant',
+      content: changes.length > 0
+        ? (backward
+            ? `倒排计划建议：以 ${project.targetFinishDate} 为目标完成日期，将 ${changes.length} 个未开始的任务尽晚安排。已开始的任务保持不变。`
+            : `正排计划建议：自 ${startDate} 起，将 ${changes.length} 个未开始的任务尽早安排。已开始的任务保持不变。`)
+        : '当前计划已符合所选排程方向，无需调整。',
+      timestamp: new Date(),
+      metadata: changes.length > 0 ? {
+        proposedChanges: changes,
+        scheduleImpact: computeScheduleImpact(workingTasks, changes, [], calendar, isCompressMode)
+      } : undefined
+    }]);
+  };
+
+  // Status rules: propose Delayed / Blocked / In Progress / Completed from dates, progress and links
+  const handleDeriveStatuses = () => {
+    if (!canEditTasks) return;
+    const derivations = deriveTaskStatuses(workingTasks, statusDate, calendar);
+    const changes: ProposedChange[] = derivations.map(d => {
+      const task = workingTasks.find(t => t.id === d.taskId)!;
+      return {
+        taskId: d.taskId,
+        taskName: d.taskName,
+        originalStartDate: task.startDate,
+        originalEndDate: task.endDate,
+        newStartDate: task.startDate,
+        newEndDate: task.endDate,
+        originalStatus: d.from,
+        newStatus: d.to,
+        reason: `${TASK_STATUS_LABELS[d.from]} → ${TASK_STATUS_LABELS[d.to]}：${d.reason}`
+      };
+    });
+
+    setIsScheduleMenuOpen(false);
+    setIsChatExpanded(true);
+    setProposedChanges(changes);
+    setPendingNewTasks([]);
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      role: 'assistant',
+      content: changes.length > 0
+        ? `按状态日期 ${statusDate} 检查任务状态，建议更新 ${changes.length} 个任务的状态。每项变更均附有依据，确认后生效。`
+        : `按状态日期 ${statusDate} 检查，所有任务状态均与日期、进度和依赖关系一致。`,
+      timestamp: new Date(),
+      metadata: changes.length > 0 ? { proposedChanges: changes } : undefined
+    }]);
+  };
+
   // Handle adding modules or single tasks
-  const handleAddModule = (type: 'general' | 'facility' | 'equipment' | 'tech_transfer') => {
+  const handleAddModule = (type: 'general' | 'milestone' | 'facility' | 'equipment' | 'tech_transfer') => {
     if (!canEditTasks) return;
 
     const baseId = Date.now();
     let newTasks: Task[] = [];
-    const today = new Date().toISOString().split('T')[0];
+    // Forward projects lay new work out from their start date; backward ones move it to end on the target
+    const anchorStart = project.startDate || getToday();
 
     if (type === 'general') {
+        const span = getWorkingSpan(anchorStart, 5, calendar);
         newTasks.push({
             id: `task_${baseId}`,
             name: "新建通用任务",
-            startDate: today,
-            endDate: addDays(today, 5),
+            startDate: span.startDate,
+            endDate: span.endDate,
             duration: 5,
             status: TaskStatus.Pending,
             assignee: "未分配",
@@ -645,74 +1545,123 @@ const App: React.FC = () => {
             gmpCritical: false,
             category: "General"
         });
+    } else if (type === 'milestone') {
+        const span = getWorkingSpan(anchorStart, 1, calendar);
+        newTasks.push({
+            id: `task_${baseId}`,
+            name: "新建里程碑",
+            kind: 'milestone',
+            startDate: span.startDate,
+            endDate: span.startDate,
+            duration: 0,
+            status: TaskStatus.Pending,
+            assignee: "未分配",
+            progress: 0,
+            dependencies: [],
+            gmpCritical: false,
+            category: "Milestone"
+        });
     } else {
         let prefix = '';
-        let template: { name: string, duration: number, gmp: boolean, cat: string }[] = [];
+        let moduleName = '';
+        let template: { name: string, duration: number, gmp: boolean, cat: string, milestone?: boolean }[] = [];
 
         if (type === 'facility') {
             prefix = '[厂房]';
+            moduleName = '厂房建设验证';
             template = [
-                { name: "URS (用户需求说明书) 签署", duration: 5, gmp: true, cat: "Planning" },
+                { name: "URS (用户需求说明书) 编制", duration: 5, gmp: true, cat: "Planning" },
+                { name: "URS 签署", duration: 0, gmp: true, cat: "Planning", milestone: true },
                 { name: "施工商选型与审计", duration: 10, gmp: true, cat: "Procurement" },
                 { name: "设计确认 (DQ)", duration: 7, gmp: true, cat: "Validation" },
                 { name: "施工与安装确认 (IQ)", duration: 20, gmp: true, cat: "Construction" },
                 { name: "运行确认 (OQ) & HVAC调试", duration: 14, gmp: true, cat: "Validation" },
-                { name: "性能确认 (PQ) & 环境监测", duration: 14, gmp: true, cat: "Validation" }
+                { name: "性能确认 (PQ) & 环境监测", duration: 14, gmp: true, cat: "Validation" },
+                { name: "厂房移交", duration: 0, gmp: true, cat: "Validation", milestone: true }
             ];
         } else if (type === 'equipment') {
             prefix = '[设备]';
+            moduleName = '设备采购验证';
             template = [
-                 { name: "URS (用户需求说明书) 签署", duration: 5, gmp: true, cat: "Planning" },
+                 { name: "URS (用户需求说明书) 编制", duration: 5, gmp: true, cat: "Planning" },
+                 { name: "URS 签署", duration: 0, gmp: true, cat: "Planning", milestone: true },
                  { name: "供应商选型与审计", duration: 10, gmp: true, cat: "Procurement" },
                  { name: "设计确认 (DQ)", duration: 5, gmp: true, cat: "Validation" },
                  { name: "到货与安装确认 (IQ)", duration: 7, gmp: true, cat: "Validation" },
                  { name: "运行确认 (OQ)", duration: 10, gmp: true, cat: "Validation" },
-                 { name: "性能确认 (PQ)", duration: 10, gmp: true, cat: "Validation" }
+                 { name: "性能确认 (PQ)", duration: 10, gmp: true, cat: "Validation" },
+                 { name: "设备放行使用", duration: 0, gmp: true, cat: "Validation", milestone: true }
             ];
         } else if (type === 'tech_transfer') {
             prefix = '[技转]';
+            moduleName = '技术转移';
             template = [
                 { name: "技术转移方案 (Protocol) 制定", duration: 5, gmp: true, cat: "Planning" },
                 { name: "物料供应商审计", duration: 14, gmp: true, cat: "Quality" },
                 { name: "分析方法转移 (AMT)", duration: 14, gmp: true, cat: "QC" },
                 { name: "工艺参数确认 runs", duration: 10, gmp: true, cat: "Process" },
-                { name: "工艺验证 (PPQ)", duration: 21, gmp: true, cat: "Validation" }
+                { name: "工艺验证 (PPQ)", duration: 21, gmp: true, cat: "Validation" },
+                { name: "技术转移报告批准", duration: 0, gmp: true, cat: "Validation", milestone: true }
             ];
         }
 
-        let currentStartDate = today;
+        let currentStartDate = anchorStart;
         let prevTaskId = "";
+        let prevEndDate = "";
 
-        newTasks = template.map((step, index) => {
+        // Steps are grouped under one summary task, whose dates are rolled up from the steps
+        const summaryId = `task_${baseId}`;
+        const steps = template.map((step, index) => {
             const taskId = `task_${baseId}_${index}`;
-            const endDate = addDays(currentStartDate, step.duration);
+            // A milestone sits on the last day of its predecessor
+            const span = step.milestone
+                ? getWorkingSpan(prevEndDate || currentStartDate, 1, calendar)
+                : getWorkingSpan(currentStartDate, step.duration, calendar);
             
             const task: Task = {
                 id: taskId,
-                name: `${prefix} ${step.name}`,
-                startDate: currentStartDate,
-                endDate: endDate,
-                duration: step.duration,
+                name: step.name,
+                kind: step.milestone ? 'milestone' : 'task',
+                parentId: summaryId,
+                startDate: span.startDate,
+                endDate: span.endDate,
+                duration: step.milestone ? 0 : step.duration,
                 status: TaskStatus.Pending,
                 assignee: "待定",
                 progress: 0,
-                dependencies: prevTaskId ? [prevTaskId] : [],
+                dependencies: prevTaskId ? [{ taskId: prevTaskId, type: 'FS', lagDays: 0 }] : [],
                 gmpCritical: step.gmp,
                 category: step.cat
             };
 
-            // Set up next task start date (next day)
-            currentStartDate = addDays(endDate, 1);
+            // Set up next task start date (next working day)
+            currentStartDate = fromDayNumber(addWorkingDays(toDayNumber(span.endDate), 1, calendar));
             prevTaskId = taskId;
+            prevEndDate = span.endDate;
             return task;
         });
+
+        const summary: Task = {
+            id: summaryId,
+            name: `${prefix} ${moduleName}`,
+            startDate: steps[0].startDate,
+            endDate: steps[steps.length - 1].endDate,
+            duration: 0,
+            status: TaskStatus.Pending,
+            assignee: "待定",
+            progress: 0,
+            dependencies: [],
+            gmpCritical: steps.some(t => t.gmpCritical),
+            category: "Summary"
+        };
+        newTasks = [summary, ...steps];
     }
 
-    setProject(prev => {
-        const newProjectState = { ...prev, tasks: [...prev.tasks, ...newTasks] };
-        saveCurrentProjectToStorage(newProjectState);
-        return newProjectState;
-    });
+    if (project.scheduleDirection === 'backward' && project.targetFinishDate) {
+        newTasks = scheduleAsLateAsPossible(newTasks, project.targetFinishDate, calendar);
+    }
+
+    updateProject(`添加「${newTasks[0].name}」`, prev => withWorkingTasks(prev, cascadeSchedule([...getWorkingTasks(prev), ...newTasks], getProjectCalendar(prev))));
     setIsAddMenuOpen(false);
   };
 
@@ -742,16 +1691,122 @@ const App: React.FC = () => {
         onUpdateAiConfig={setAiConfig}
       />
 
+      {/* Working-Day Calendar Modal */}
+      <CalendarSettingsModal 
+        isOpen={isCalendarOpen}
+        onClose={() => setIsCalendarOpen(false)}
+        calendar={calendar}
+        onSave={handleUpdateCalendar}
+        readOnly={!canEditTasks}
+      />
+
+      {/* Resource Pool & Levelling Modal */}
+      <ResourceModal 
+        isOpen={isResourceOpen}
+        onClose={() => setIsResourceOpen(false)}
+        resources={project.resources || []}
+        tasks={workingTasks}
+        calendar={calendar}
+        onSave={handleUpdateResources}
+        onLevel={handleLevelResources}
+        readOnly={!canEditTasks}
+      />
+
       {/* Conflict Warning Modal */}
       <ConflictModal 
         isOpen={!!conflict}
         conflict={conflict ? {
           taskName: conflict.task.name,
-          dependencyName: conflict.dependency.name,
-          suggestedDate: conflict.suggestedDate
+          dependencyName: conflict.dependency?.name,
+          dependencyLabel: conflict.link ? `${DEPENDENCY_TYPE_LABELS[conflict.link.type]}${conflict.link.lagDays !== 0 ? ` ${conflict.link.lagDays > 0 ? '+' : ''}${conflict.link.lagDays}天` : ''}` : undefined,
+          suggestedDate: conflict.suggestedDate,
+          violations: conflict.violations.map(v => ({
+            taskName: v.taskName,
+            description: `${CONSTRAINT_TYPE_LABELS[v.constraint.type]} ${v.constraint.date}，偏差 ${v.workingDaysOff} 个工作日`
+          }))
         } : null}
         onCancel={cancelConflict}
-        onAutoFix={resolveConflict}
+        onConfirm={resolveConflict}
+      />
+
+      {/* Compress Mode Preview */}
+      <PullInPreviewModal 
+        isOpen={!!pullInPreview}
+        preview={pullInPreview ? {
+          taskName: pullInPreview.task.name,
+          pulledIn: pullInPreview.pulledIn.map(({ before, after }) => ({
+            taskName: after.name,
+            originalStartDate: before.startDate,
+            newStartDate: after.startDate,
+            workingDaysEarlier: workingDayDiff(toDayNumber(after.startDate), toDayNumber(before.startDate), calendar)
+          }))
+        } : null}
+        onCancel={() => setPullInPreview(null)}
+        onSkip={() => resolvePullIn(false)}
+        onConfirm={() => resolvePullIn(true)}
+      />
+
+      {/* Reason for a recorded change (audit trail) */}
+      <AuditReasonModal 
+        isOpen={!!pendingChange}
+        command={pendingChange?.command || ''}
+        changes={pendingChange?.changes || []}
+        userName={currentUser.name}
+        onCancel={() => setPendingChange(null)}
+        onConfirm={reason => {
+          pendingChange?.apply(reason);
+          setPendingChange(null);
+        }}
+      />
+
+      <AuditTrailModal 
+        isOpen={isAuditTrailOpen}
+        onClose={() => setIsAuditTrailOpen(false)}
+        entries={auditTrail}
+        currentProjectId={project.id}
+        userName={currentUser.name}
+      />
+
+      <SignInModal
+        isOpen={isServerMode && !sessionUser}
+        notice={signInNotice}
+        onSignIn={handleSignIn}
+      />
+
+      {/* Local projects that differ from the shared server's, found on load */}
+      <WorkspaceMergeModal
+        isOpen={!!workspaceMerge && !pendingChange && !!sessionUser}
+        localOnly={workspaceMerge?.localOnly || []}
+        changed={workspaceMerge?.changed || []}
+        onConfirm={handleConfirmWorkspaceMerge}
+      />
+
+      <ImportReportModal 
+        isOpen={!!importPreview}
+        preview={importPreview}
+        onCancel={() => setImportPreview(null)}
+        onConfirm={handleConfirmImport}
+      />
+
+      <SignatureModal 
+        isOpen={!!signingTask}
+        task={signingTask}
+        isServerMode={isServerMode}
+        canEdit={canEditTasks}
+        onClose={() => setSigningTaskId(null)}
+        onSign={handleSignTask}
+        onComplete={handleCompleteSignedTask}
+      />
+
+      <UserManagementModal 
+        isOpen={isUserManagementOpen}
+        onClose={() => setIsUserManagementOpen(false)}
+        users={users}
+        projects={allProjects}
+        onAddUser={handleSaveUser}
+        onUpdateUser={handleSaveUser}
+        onDeleteUser={handleDeleteUser}
+        currentUserId={currentUser.id}
       />
 
       {/* Risk Summary Modal */}
@@ -759,6 +1814,21 @@ const App: React.FC = () => {
         isOpen={isRiskModalOpen}
         onClose={() => setIsRiskModalOpen(false)}
         project={project}
+        onOpenSimulation={() => setIsSimulationModalOpen(true)}
+      />
+
+      {/* Monte Carlo Schedule Risk */}
+      <ScheduleSimulationModal 
+        isOpen={isSimulationModalOpen}
+        onClose={() => setIsSimulationModalOpen(false)}
+        project={workingProject}
+      />
+
+      {/* Earned Value (SPI / CPI, S-curve) */}
+      <EarnedValueModal 
+        isOpen={isEarnedValueModalOpen}
+        onClose={() => setIsEarnedValueModalOpen(false)}
+        project={workingProject}
       />
 
       {/* Top App Bar (Material 3 Style) - Responsive adjustments */}
@@ -774,6 +1844,21 @@ const App: React.FC = () => {
         </div>
         
         <div className="flex items-center space-x-2 md:space-x-6">
+            {/* Autosave Indicator */}
+            <div 
+                className={`hidden md:flex items-center gap-1 text-xs ${saveStatus === 'error' || saveStatus === 'quota' ? 'text-red-600' : 'text-[#5F6368]'}`}
+                title={`${isServerMode ? '数据保存在共享服务器' : '数据仅保存在本机浏览器'}${lastSavedAt ? `，上次保存：${new Date(lastSavedAt).toLocaleString('zh-CN')}` : ''}`}
+            >
+                <span className={`material-symbols-outlined text-[18px] ${saveStatus === 'saving' ? 'animate-spin' : ''}`}>
+                    {saveStatus === 'saving' ? 'sync' : saveStatus === 'error' || saveStatus === 'quota' ? 'cloud_off' : isServerMode ? 'cloud_done' : 'save'}
+                </span>
+                {saveStatus === 'saving' ? '保存中…'
+                    : saveStatus === 'quota' ? '存储空间不足'
+                    : saveStatus === 'error' ? '保存失败'
+                    : lastSavedAt ? `${isServerMode ? '已同步' : '已保存'} ${new Date(lastSavedAt).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' })}`
+                    : '未保存'}
+            </div>
+
             {/* Project Selector - Optimized for mobile */}
             <div 
                 className="cursor-pointer hover:bg-[#F8F9FA] px-2 md:px-3 py-1 rounded-lg transition-colors group flex items-center"
@@ -790,6 +1875,55 @@ const App: React.FC = () => {
                 level={project.riskLevel} 
                 onClick={() => setIsRiskModalOpen(true)}
             />
+
+            {/* Schedule Risk Simulation Button */}
+            <button 
+                onClick={() => setIsSimulationModalOpen(true)}
+                className="flex items-center justify-center w-8 h-8 md:w-10 md:h-10 rounded-full hover:bg-[#F1F3F4] text-[#5F6368] transition-colors border border-transparent hover:border-[#E0E2E5]"
+                title="进度风险模拟 (P50/P80/P90)"
+            >
+                <span className="material-symbols-outlined text-[20px] md:text-[24px]">query_stats</span>
+            </button>
+
+            {/* Earned Value Button */}
+            <button 
+                onClick={() => setIsEarnedValueModalOpen(true)}
+                className="flex items-center justify-center w-8 h-8 md:w-10 md:h-10 rounded-full hover:bg-[#F1F3F4] text-[#5F6368] transition-colors border border-transparent hover:border-[#E0E2E5]"
+                title="挣值分析 (SPI / CPI)"
+            >
+                <span className="material-symbols-outlined text-[20px] md:text-[24px]">monitoring</span>
+            </button>
+            
+            {/* User Accounts Button (accounts live on the shared server) */}
+            {isServerMode && canManageProjects && (
+                <button 
+                    onClick={() => setIsUserManagementOpen(true)}
+                    className="flex items-center justify-center w-8 h-8 md:w-10 md:h-10 rounded-full hover:bg-[#F1F3F4] text-[#5F6368] transition-colors border border-transparent hover:border-[#E0E2E5]"
+                    title="人员与签名账号"
+                >
+                    <span className="material-symbols-outlined text-[20px] md:text-[24px]">manage_accounts</span>
+                </button>
+            )}
+
+            {/* Signed-in user (shared server) */}
+            {isServerMode && sessionUser && (
+                <button 
+                    onClick={handleSignOut}
+                    className="flex items-center justify-center w-8 h-8 md:w-10 md:h-10 rounded-full hover:bg-[#F1F3F4] text-[#5F6368] transition-colors border border-transparent hover:border-[#E0E2E5]"
+                    title={`已登录：${sessionUser.name} (${sessionUser.account})，点击退出登录`}
+                >
+                    <span className="material-symbols-outlined text-[20px] md:text-[24px]">logout</span>
+                </button>
+            )}
+
+            {/* Audit Trail Button */}
+            <button 
+                onClick={() => setIsAuditTrailOpen(true)}
+                className="flex items-center justify-center w-8 h-8 md:w-10 md:h-10 rounded-full hover:bg-[#F1F3F4] text-[#5F6368] transition-colors border border-transparent hover:border-[#E0E2E5]"
+                title="审计追踪 (谁在何时修改了什么、为什么)"
+            >
+                <span className="material-symbols-outlined text-[20px] md:text-[24px]">policy</span>
+            </button>
             
             {/* AI Settings Button */}
             <button 
@@ -819,16 +1953,358 @@ const App: React.FC = () => {
                 </h2>
                 
                 <div className="flex items-center gap-2 flex-wrap justify-end">
-                     {/* Gantt Export Button - Hidden on small mobile */}
+                     {/* Undo / Redo with the history list */}
+                     {canEditTasks && (
+                       <div className="relative flex items-center h-8 md:h-10 bg-white border border-[#E0E2E5] rounded-full" ref={historyMenuRef}>
+                           <button 
+                              onClick={() => handleUndo()}
+                              disabled={history.undo.length === 0}
+                              className="h-full pl-3 pr-2 rounded-l-full hover:bg-[#F1F3F4] text-[#5F6368] disabled:opacity-40 disabled:hover:bg-transparent flex items-center"
+                              title={history.undo.length > 0 ? `撤销：${history.undo[history.undo.length - 1].description} (Ctrl+Z)` : '没有可撤销的操作'}
+                           >
+                              <span className="material-symbols-outlined text-[16px] md:text-[20px]">undo</span>
+                           </button>
+                           <button 
+                              onClick={() => handleRedo()}
+                              disabled={history.redo.length === 0}
+                              className="h-full px-2 hover:bg-[#F1F3F4] text-[#5F6368] disabled:opacity-40 disabled:hover:bg-transparent flex items-center"
+                              title={history.redo.length > 0 ? `重做：${history.redo[history.redo.length - 1].description} (Ctrl+Shift+Z)` : '没有可重做的操作'}
+                           >
+                              <span className="material-symbols-outlined text-[16px] md:text-[20px]">redo</span>
+                           </button>
+                           <button 
+                              onClick={(e) => { e.stopPropagation(); setIsHistoryMenuOpen(!isHistoryMenuOpen); }}
+                              className="h-full pl-1 pr-2 rounded-r-full hover:bg-[#F1F3F4] text-[#5F6368] flex items-center"
+                              title="操作历史"
+                           >
+                              <span className="material-symbols-outlined text-[16px]">arrow_drop_down</span>
+                           </button>
+
+                           {isHistoryMenuOpen && (
+                               <div className="absolute top-12 right-0 w-72 max-h-96 overflow-y-auto bg-white rounded-xl shadow-xl border border-[#E0E2E5] py-2 z-50 animate-in fade-in zoom-in-95 duration-100 flex flex-col" onClick={e => e.stopPropagation()}>
+                                   <div className="px-4 pb-2 text-xs text-[#5F6368]">操作历史 · 点击可撤销或重做到该步</div>
+                                   {history.undo.length === 0 && history.redo.length === 0 && (
+                                       <div className="px-4 py-2 text-sm text-[#9AA0A6]">暂无操作记录</div>
+                                   )}
+                                   {/* Redo entries (latest on top, greyed), then the applied ones */}
+                                   {history.redo.map((entry, i) => (
+                                       <button 
+                                           key={entry.id}
+                                           onClick={() => handleRedo(history.redo.length - i)}
+                                           className="px-4 py-2 text-left text-sm hover:bg-[#F1F3F4] flex items-center gap-2 text-[#9AA0A6]"
+                                           title="重做到此步"
+                                       >
+                                           <span className="material-symbols-outlined text-[18px]">redo</span>
+                                           <span className="flex-1 min-w-0 truncate">{entry.description}</span>
+                                           <span className="text-[10px]">{new Date(entry.timestamp).toLocaleTimeString('zh-CN')}</span>
+                                       </button>
+                                   ))}
+                                   {history.undo.slice().reverse().map((entry, i) => (
+                                       <button 
+                                           key={entry.id}
+                                           onClick={() => handleUndo(i + 1)}
+                                           className={`px-4 py-2 text-left text-sm hover:bg-[#F1F3F4] flex items-center gap-2 text-[#1F1F1F] ${i === 0 ? 'font-medium' : ''}`}
+                                           title="撤销到此步之前"
+                                       >
+                                           <span className="material-symbols-outlined text-[18px] text-[#5F6368]">{i === 0 ? 'radio_button_checked' : 'history'}</span>
+                                           <span className="flex-1 min-w-0 truncate">{entry.description}</span>
+                                           <span className="text-[10px] text-[#5F6368]">{new Date(entry.timestamp).toLocaleTimeString('zh-CN')}</span>
+                                       </button>
+                                   ))}
+                               </div>
+                           )}
+                       </div>
+                     )}
+
+                     {/* Gantt Export Dropdown - Hidden on small mobile */}
+                     <div className="relative hidden sm:block" ref={exportMenuRef}>
+                         <button 
+                            onClick={(e) => { e.stopPropagation(); setIsExportMenuOpen(!isExportMenuOpen); }}
+                            className="h-8 md:h-10 px-3 md:px-4 bg-white border border-[#E0E2E5] hover:bg-[#F1F3F4] text-[#1F1F1F] rounded-full text-xs md:text-sm font-medium transition-all flex items-center gap-2"
+                            title="导出当前进度表 (CSV)"
+                         >
+                            <span className="material-symbols-outlined text-[16px] md:text-[20px] text-[#5F6368]">ios_share</span>
+                            <span className="hidden md:inline">导出 CSV</span>
+                            <span className="material-symbols-outlined text-[16px]">arrow_drop_down</span>
+                         </button>
+
+                         {isExportMenuOpen && (
+                             <div className="absolute top-12 right-0 w-48 bg-white rounded-xl shadow-xl border border-[#E0E2E5] py-2 z-50 animate-in fade-in zoom-in-95 duration-100 flex flex-col" onClick={e => e.stopPropagation()}>
+                                 <button onClick={() => handleExportGanttCsv('all')} className="px-4 py-2 text-left text-sm hover:bg-[#F1F3F4] flex items-center gap-2 text-[#1F1F1F]">
+                                     <span className="material-symbols-outlined text-[18px] text-[#5F6368]">list</span>
+                                     全部任务
+                                 </button>
+                                 <button onClick={() => handleExportGanttCsv('milestones')} className="px-4 py-2 text-left text-sm hover:bg-[#F1F3F4] flex items-center gap-2 text-[#1F1F1F]">
+                                     <span className="material-symbols-outlined text-[18px] text-amber-600">flag</span>
+                                     仅里程碑
+                                 </button>
+                                 <button onClick={() => handleExportGanttCsv('tasks')} className="px-4 py-2 text-left text-sm hover:bg-[#F1F3F4] flex items-center gap-2 text-[#1F1F1F]">
+                                     <span className="material-symbols-outlined text-[18px] text-[#5F6368]">view_timeline</span>
+                                     不含里程碑
+                                 </button>
+                             </div>
+                         )}
+                     </div>
+
+                     {/* Working-Day Calendar Button */}
+                     <button 
+                        onClick={() => setIsCalendarOpen(true)}
+                        className="h-8 md:h-10 px-3 md:px-4 bg-white border border-[#E0E2E5] hover:bg-[#F1F3F4] text-[#1F1F1F] rounded-full text-xs md:text-sm font-medium transition-all flex items-center gap-2"
+                        title="工作日历 (工作日/节假日/停产)"
+                     >
+                        <span className="material-symbols-outlined text-[16px] md:text-[20px] text-[#5F6368]">event_busy</span>
+                        <span className="hidden md:inline">工作日历</span>
+                     </button>
+
+                     {/* Resources Button */}
                      <button 
-                        onClick={handleExportGanttCsv}
-                        className="h-8 md:h-10 px-3 md:px-4 bg-white border border-[#E0E2E5] hover:bg-[#F1F3F4] text-[#1F1F1F] rounded-full text-xs md:text-sm font-medium transition-all hidden sm:flex items-center gap-2"
-                        title="导出当前进度表 (CSV)"
+                        onClick={() => setIsResourceOpen(true)}
+                        className="h-8 md:h-10 px-3 md:px-4 bg-white border border-[#E0E2E5] hover:bg-[#F1F3F4] text-[#1F1F1F] rounded-full text-xs md:text-sm font-medium transition-all flex items-center gap-2"
+                        title="资源产能、负荷直方图与资源平衡"
                      >
-                        <span className="material-symbols-outlined text-[16px] md:text-[20px] text-[#5F6368]">ios_share</span>
-                        <span className="hidden md:inline">导出 CSV</span>
+                        <span className="material-symbols-outlined text-[16px] md:text-[20px] text-[#5F6368]">groups</span>
+                        <span className="hidden md:inline">资源</span>
                      </button>
 
+                     {/* What-if Scenario Dropdown */}
+                     <div className="relative" ref={scenarioMenuRef}>
+                         <button 
+                            onClick={(e) => { e.stopPropagation(); setIsScenarioMenuOpen(!isScenarioMenuOpen); }}
+                            className={`h-8 md:h-10 px-3 md:px-4 border rounded-full text-xs md:text-sm font-medium transition-all flex items-center gap-2 ${activeScenario ? 'bg-amber-50 border-amber-300 text-amber-800' : 'bg-white border-[#E0E2E5] hover:bg-[#F1F3F4] text-[#1F1F1F]'}`}
+                            title="假设方案 (What-if)"
+                         >
+                            <span className="material-symbols-outlined text-[16px] md:text-[20px]">alt_route</span>
+                            <span className="hidden md:inline max-w-[120px] truncate">{activeScenario ? activeScenario.name : '实际计划'}</span>
+                            <span className="material-symbols-outlined text-[16px]">arrow_drop_down</span>
+                         </button>
+
+                         {isScenarioMenuOpen && (
+                             <div className="absolute top-12 right-0 w-72 bg-white rounded-xl shadow-xl border border-[#E0E2E5] py-2 z-50 animate-in fade-in zoom-in-95 duration-100 flex flex-col" onClick={e => e.stopPropagation()}>
+                                 <div className="px-4 py-1 text-[10px] font-bold text-[#5F6368] uppercase tracking-wide">打开</div>
+                                 <button 
+                                     onClick={() => handleOpenPlan(null)}
+                                     className={`px-4 py-2 text-left text-sm flex items-center gap-2 ${!activeScenario ? 'bg-indigo-50 text-indigo-600' : 'hover:bg-[#F1F3F4] text-[#1F1F1F]'}`}
+                                 >
+                                     <span className="material-symbols-outlined text-[18px]">{!activeScenario ? 'radio_button_checked' : 'radio_button_unchecked'}</span>
+                                     实际计划
+                                 </button>
+                                 {(project.scenarios || []).map(sc => (
+                                     <div 
+                                         key={sc.id}
+                                         onClick={() => handleOpenPlan(sc.id)}
+                                         className={`px-4 py-2 text-sm flex items-center gap-2 cursor-pointer group/sc ${activeScenario?.id === sc.id ? 'bg-amber-50 text-amber-800' : 'hover:bg-[#F1F3F4] text-[#1F1F1F]'}`}
+                                     >
+                                         <span className="material-symbols-outlined text-[18px]">{activeScenario?.id === sc.id ? 'radio_button_checked' : 'radio_button_unchecked'}</span>
+                                         <div className="flex-1 min-w-0">
+                                             <div className="truncate font-medium">{sc.name}</div>
+                                             <div className="text-[10px] text-[#5F6368]">{sc.createdAt.slice(0, 10)}{sc.createdBy ? ` · ${sc.createdBy}` : ''}</div>
+                                         </div>
+                                         {canEditTasks && (
+                                             <>
+                                                 <button 
+                                                     onClick={(e) => { e.stopPropagation(); handlePromoteScenario(sc.id); }}
+                                                     className="opacity-0 group-hover/sc:opacity-100 text-[#9AA0A6] hover:text-indigo-600"
+                                                     title="提升为实际计划"
+                                                 >
+                                                     <span className="material-symbols-outlined text-[16px]">publish</span>
+                                                 </button>
+                                                 <button 
+                                                     onClick={(e) => { e.stopPropagation(); handleDeleteScenario(sc.id); }}
+                                                     className="opacity-0 group-hover/sc:opacity-100 text-[#9AA0A6] hover:text-red-600"
+                                                     title="删除方案"
+                                                 >
+                                                     <span className="material-symbols-outlined text-[16px]">delete</span>
+                                                 </button>
+                                             </>
+                                         )}
+                                     </div>
+                                 ))}
+                                 {(project.scenarios || []).length > 0 && (
+                                     <div className="mx-2 mt-2 pt-2 border-t border-[#E0E2E5] px-2">
+                                         <label className="block text-[10px] font-bold text-[#5F6368] uppercase tracking-wide mb-1">对比</label>
+                                         <select 
+                                             value={comparisonPlanId || ''}
+                                             onChange={(e) => setComparisonPlanId(e.target.value || null)}
+                                             className="w-full h-9 rounded-lg border border-[#E0E2E5] px-2 text-sm text-[#1F1F1F] focus:border-indigo-600 outline-none bg-white"
+                                         >
+                                             <option value="">不对比</option>
+                                             {activeScenario && <option value={LIVE_PLAN_ID}>实际计划</option>}
+                                             {(project.scenarios || []).filter(sc => sc.id !== activeScenario?.id).map(sc => (
+                                                 <option key={sc.id} value={sc.id}>{sc.name}</option>
+                                             ))}
+                                         </select>
+                                     </div>
+                                 )}
+                                 {canEditTasks && (
+                                     <button 
+                                         onClick={handleCreateScenario}
+                                         className="mx-2 mt-2 pt-2 border-t border-[#E0E2E5] px-2 py-2 text-left text-sm flex items-center gap-2 text-indigo-600 hover:bg-indigo-50 rounded-lg"
+                                     >
+                                         <span className="material-symbols-outlined text-[18px]">fork_right</span>
+                                         从当前计划创建方案
+                                     </button>
+                                 )}
+                             </div>
+                         )}
+                     </div>
+
+                     {/* Scheduling Direction Dropdown */}
+                     <div className="relative" ref={scheduleMenuRef}>
+                         <button 
+                            onClick={(e) => { e.stopPropagation(); setIsScheduleMenuOpen(!isScheduleMenuOpen); }}
+                            className="h-8 md:h-10 px-3 md:px-4 bg-white border border-[#E0E2E5] hover:bg-[#F1F3F4] text-[#1F1F1F] rounded-full text-xs md:text-sm font-medium transition-all flex items-center gap-2"
+                            title="排程方向"
+                         >
+                            <span className="material-symbols-outlined text-[16px] md:text-[20px] text-[#5F6368]">{project.scheduleDirection === 'backward' ? 'keyboard_double_arrow_left' : 'keyboard_double_arrow_right'}</span>
+                            <span className="hidden md:inline">{project.scheduleDirection === 'backward' ? '倒排' : '正排'}</span>
+                            <span className="material-symbols-outlined text-[16px]">arrow_drop_down</span>
+                         </button>
+
+                         {isScheduleMenuOpen && (
+                             <div className="absolute top-12 right-0 w-72 bg-white rounded-xl shadow-xl border border-[#E0E2E5] p-3 z-50 animate-in fade-in zoom-in-95 duration-100 flex flex-col gap-2" onClick={e => e.stopPropagation()}>
+                                 {([
+                                     { direction: 'forward', icon: 'keyboard_double_arrow_right', label: '正排', hint: '自开始日期起尽早安排' },
+                                     { direction: 'backward', icon: 'keyboard_double_arrow_left', label: '倒排', hint: '以目标完成日期尽晚安排 (如 PPQ / 申报日期)' }
+                                 ] as const).map(option => {
+                                     const active = (project.scheduleDirection || 'forward') === option.direction;
+                                     return (
+                                         <button 
+                                             key={option.direction}
+                                             disabled={!canEditTasks}
+                                             onClick={() => handleUpdateScheduleSettings({ scheduleDirection: option.direction })}
+                                             className={`px-3 py-2 rounded-lg text-left text-sm flex items-center gap-2 disabled:cursor-not-allowed ${active ? 'bg-indigo-50 text-indigo-600' : 'hover:bg-[#F1F3F4] text-[#1F1F1F]'}`}
+                                         >
+                                             <span className="material-symbols-outlined text-[18px]">{option.icon}</span>
+                                             <div>
+                                                 <div className="font-medium">{option.label}</div>
+                                                 <div className="text-[10px] text-[#5F6368]">{option.hint}</div>
+                                             </div>
+                                         </button>
+                                     );
+                                 })}
+                                 <div className="border-t border-[#E0E2E5] pt-2">
+                                     <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">
+                                         {project.scheduleDirection === 'backward' ? '目标完成日期' : '项目开始日期 (默认今天)'}
+                                     </label>
+                                     <input 
+                                         type="date"
+                                         disabled={!canEditTasks}
+                                         value={(project.scheduleDirection === 'backward' ? project.targetFinishDate : project.startDate) || ''}
+                                         onChange={(e) => handleUpdateScheduleSettings(project.scheduleDirection === 'backward'
+                                             ? { targetFinishDate: e.target.value || undefined }
+                                             : { startDate: e.target.value || undefined })}
+                                         className="w-full h-9 rounded-lg border border-[#E0E2E5] px-2 text-sm text-[#1F1F1F] focus:border-indigo-600 outline-none disabled:bg-[#F8F9FA]"
+                                     />
+                                 </div>
+                                 {canEditTasks && (
+                                     <button 
+                                         onClick={handleReplanSchedule}
+                                         className="mt-1 px-3 py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 text-indigo-600 border border-indigo-200 hover:bg-indigo-50"
+                                         title="生成变更建议，确认后生效"
+                                     >
+                                         <span className="material-symbols-outlined text-[18px]">event_repeat</span>
+                                         按此方向重新计划
+                                     </button>
+                                 )}
+                                 <div className="border-t border-[#E0E2E5] pt-2">
+                                     <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">前置任务提前完成时</label>
+                                     <div className="grid grid-cols-2 gap-1 bg-[#F1F3F4] p-1 rounded-lg">
+                                         {([
+                                             { mode: 'push', label: '后续保持不动' },
+                                             { mode: 'compress', label: '后续自动提前' }
+                                         ] as const).map(option => (
+                                             <button 
+                                                 key={option.mode}
+                                                 disabled={!canEditTasks}
+                                                 onClick={() => handleUpdateScheduleSettings({ cascadeMode: option.mode })}
+                                                 className={`px-2 py-1.5 rounded-md text-xs font-medium disabled:cursor-not-allowed ${(project.cascadeMode || 'push') === option.mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-[#5F6368] hover:text-[#1F1F1F]'}`}
+                                             >
+                                                 {option.label}
+                                             </button>
+                                         ))}
+                                     </div>
+                                     <div className="text-[10px] text-[#9AA0A6] mt-1 ml-1">自动提前时，未开始且未固定日期的后续任务会拉回至最早可行日期 (修改前预览)</div>
+                                 </div>
+                                 <div className="border-t border-[#E0E2E5] pt-2">
+                                     <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">状态日期 (用于状态规则)</label>
+                                     <input 
+                                         type="date"
+                                         value={statusDate}
+                                         onChange={(e) => e.target.value && setStatusDate(e.target.value)}
+                                         className="w-full h-9 rounded-lg border border-[#E0E2E5] px-2 text-sm text-[#1F1F1F] focus:border-indigo-600 outline-none"
+                                     />
+                                 </div>
+                                 {canEditTasks && (
+                                     <button 
+                                         onClick={handleDeriveStatuses}
+                                         className="px-3 py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 text-indigo-600 border border-indigo-200 hover:bg-indigo-50"
+                                         title="逾期未完成 → 已延期；前置任务阻塞 → 已阻塞；已有进度 → 进行中"
+                                     >
+                                         <span className="material-symbols-outlined text-[18px]">rule</span>
+                                         按规则更新任务状态
+                                     </button>
+                                 )}
+                             </div>
+                         )}
+                     </div>
+
+                     {/* Baseline Dropdown */}
+                     <div className="relative" ref={baselineMenuRef}>
+                         <button 
+                            onClick={(e) => { e.stopPropagation(); setIsBaselineMenuOpen(!isBaselineMenuOpen); }}
+                            className={`h-8 md:h-10 px-3 md:px-4 border rounded-full text-xs md:text-sm font-medium transition-all flex items-center gap-2 ${activeBaseline ? 'bg-slate-100 border-slate-300 text-[#1F1F1F]' : 'bg-white border-[#E0E2E5] hover:bg-[#F1F3F4] text-[#1F1F1F]'}`}
+                            title="进度基线"
+                         >
+                            <span className="material-symbols-outlined text-[16px] md:text-[20px] text-[#5F6368]">compare</span>
+                            <span className="hidden md:inline max-w-[120px] truncate">{activeBaseline ? activeBaseline.name : '基线'}</span>
+                            <span className="material-symbols-outlined text-[16px]">arrow_drop_down</span>
+                         </button>
+
+                         {isBaselineMenuOpen && (
+                             <div className="absolute top-12 right-0 w-64 bg-white rounded-xl shadow-xl border border-[#E0E2E5] py-2 z-50 animate-in fade-in zoom-in-95 duration-100 flex flex-col" onClick={e => e.stopPropagation()}>
+                                 <button 
+                                     onClick={() => handleSelectBaseline(undefined)}
+                                     disabled={!canManageProjects}
+                                     className={`px-4 py-2 text-left text-sm flex items-center gap-2 ${!activeBaseline ? 'bg-indigo-50 text-indigo-600' : canManageProjects ? 'hover:bg-[#F1F3F4] text-[#1F1F1F]' : 'text-[#1F1F1F]'}`}
+                                 >
+                                     <span className="material-symbols-outlined text-[18px]">visibility_off</span>
+                                     不显示基线
+                                 </button>
+                                 {(project.baselines || []).map(b => (
+                                     <div 
+                                         key={b.id}
+                                         onClick={() => handleSelectBaseline(b.id)}
+                                         className={`px-4 py-2 text-sm flex items-center gap-2 group/bl ${canManageProjects ? 'cursor-pointer' : ''} ${activeBaseline?.id === b.id ? 'bg-indigo-50 text-indigo-600' : canManageProjects ? 'hover:bg-[#F1F3F4] text-[#1F1F1F]' : 'text-[#1F1F1F]'}`}
+                                     >
+                                         <span className="material-symbols-outlined text-[18px]">{activeBaseline?.id === b.id ? 'radio_button_checked' : 'radio_button_unchecked'}</span>
+                                         <div className="flex-1 min-w-0">
+                                             <div className="truncate font-medium">{b.name}</div>
+                                             <div className="text-[10px] text-[#5F6368]">{b.createdAt.slice(0, 10)}{b.createdBy ? ` · ${b.createdBy}` : ''}</div>
+                                         </div>
+                                         {canManageProjects && (
+                                             <button 
+                                                 onClick={(e) => { e.stopPropagation(); handleDeleteBaseline(b.id); }}
+                                                 className="opacity-0 group-hover/bl:opacity-100 text-[#9AA0A6] hover:text-red-600"
+                                                 title="删除基线"
+                                             >
+                                                 <span className="material-symbols-outlined text-[16px]">delete</span>
+                                             </button>
+                                         )}
+                                     </div>
+                                 ))}
+                                 {canManageProjects && (
+                                     <button 
+                                         onClick={handleSaveBaseline}
+                                         className="mx-2 mt-2 pt-2 border-t border-[#E0E2E5] px-2 py-2 text-left text-sm flex items-center gap-2 text-indigo-600 hover:bg-indigo-50 rounded-lg"
+                                     >
+                                         <span className="material-symbols-outlined text-[18px]">add_a_photo</span>
+                                         保存当前进度为基线
+                                     </button>
+                                 )}
+                             </div>
+                         )}
+                     </div>
+
                      {/* Add Module Dropdown */}
                      {canEditTasks && (
                        <div className="relative" ref={addMenuRef}>
@@ -873,6 +2349,16 @@ const App: React.FC = () => {
                                            <div className="text-[10px] text-[#5F6368]">含审计, 方法转移, PPQ</div>
                                        </div>
                                    </button>
+                                   <button 
+                                       onClick={() => handleAddModule('milestone')}
+                                       className="px-4 py-3 text-left hover:bg-[#F1F3F4] flex items-center gap-3 text-sm text-[#1F1F1F] border-t border-[#F1F3F4]"
+                                   >
+                                       <span className="material-symbols-outlined text-amber-600">flag</span>
+                                        <div>
+                                           <div className="font-medium">里程碑</div>
+                                           <div className="text-[10px] text-[#5F6368]">零工期关键事件</div>
+                                       </div>
+                                   </button>
                                </div>
                            )}
                        </div>
@@ -928,26 +2414,109 @@ const App: React.FC = () => {
                 </div>
             </div>
             
+            {/* Open scenario / comparison banner */}
+            {(activeScenario || comparisonPlan) && (
+                <div className="mx-2 md:mx-4 my-2 px-4 py-2 rounded-xl bg-amber-50 border border-amber-200 text-xs md:text-sm text-amber-900 flex flex-wrap items-center gap-x-4 gap-y-1 shrink-0">
+                    <span className="flex items-center gap-1 font-medium">
+                        <span className="material-symbols-outlined text-[18px]">alt_route</span>
+                        {activeScenario ? `正在编辑方案「${activeScenario.name}」，修改不影响实际计划` : '实际计划'}
+                    </span>
+                    {comparisonPlan && comparisonDelta && (
+                        <span>
+                            对比「{comparisonPlan.name}」：完成日期 <span className={`font-bold ${comparisonDelta.finishDelta > 0 ? 'text-red-600' : comparisonDelta.finishDelta < 0 ? 'text-green-700' : ''}`}>{formatVariance(comparisonDelta.finishDelta)}</span> 工作日 · {comparisonDelta.changedTaskIds.length} 个任务日期变化{comparisonDelta.addedTaskIds.length > 0 ? ` · 新增 ${comparisonDelta.addedTaskIds.length}` : ''}{comparisonDelta.removedTaskIds.length > 0 ? ` · 删除 ${comparisonDelta.removedTaskIds.length}` : ''}
+                        </span>
+                    )}
+                    <div className="ml-auto flex items-center gap-2">
+                        {comparisonPlan && (
+                            <button onClick={() => setComparisonPlanId(null)} className="px-3 py-1 rounded-full border border-amber-300 hover:bg-amber-100">结束对比</button>
+                        )}
+                        {activeScenario && canEditTasks && (
+                            <button onClick={() => handlePromoteScenario(activeScenario.id)} className="px-3 py-1 rounded-full bg-amber-600 text-white hover:bg-amber-700">提升为实际计划</button>
+                        )}
+                        {activeScenario && (
+                            <button onClick={() => handleOpenPlan(null)} className="px-3 py-1 rounded-full border border-amber-300 hover:bg-amber-100">返回实际计划</button>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* Local storage banner (crash recovery, quota) */}
+            {storageNotice && (
+                <div className={`mx-2 md:mx-4 my-2 px-4 py-2 rounded-xl border text-xs md:text-sm flex items-center gap-2 shrink-0 ${saveStatus === 'quota' || saveStatus === 'error' ? 'bg-red-50 border-red-200 text-red-800' : 'bg-green-50 border-green-200 text-green-900'}`}>
+                    <span className="material-symbols-outlined text-[18px]">{saveStatus === 'quota' || saveStatus === 'error' ? 'warning' : 'restore'}</span>
+                    <span>{storageNotice}</span>
+                    <button onClick={() => setStorageNotice(null)} className="ml-auto px-3 py-1 rounded-full border border-current hover:bg-white/60">知道了</button>
+                </div>
+            )}
+
+            {/* Shared-server save conflict */}
+            {projectConflicts.length > 0 && (
+                <div className="mx-2 md:mx-4 my-2 px-4 py-2 rounded-xl bg-amber-50 border border-amber-200 text-xs md:text-sm text-amber-900 flex flex-wrap items-center gap-2 shrink-0">
+                    <span className="material-symbols-outlined text-[18px]">sync_problem</span>
+                    <span>
+                        「{projectConflicts[0].local.name}」{projectConflicts[0].server ? '已被其他用户修改' : '已被其他用户删除'}，您在此之后的修改尚未保存到服务器。
+                        {projectConflicts.length > 1 && ` (另有 ${projectConflicts.length - 1} 个项目)`}
+                    </span>
+                    <div className="ml-auto flex gap-2">
+                        <button onClick={() => handleResolveConflict('server')} className="px-3 py-1 rounded-full border border-current hover:bg-white/60">
+                            {projectConflicts[0].server ? '载入对方的版本' : '删除本地副本'}
+                        </button>
+                        <button onClick={() => handleResolveConflict('local')} className="px-3 py-1 rounded-full bg-amber-600 text-white hover:bg-amber-700">
+                            {projectConflicts[0].server ? '以我的版本覆盖' : '重新上传我的版本'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Cross-project cascade banner */}
+            {crossProjectImpacts.length > 0 && (
+                <div className="mx-2 md:mx-4 my-2 px-4 py-2 rounded-xl bg-blue-50 border border-blue-200 text-xs md:text-sm text-blue-900 flex flex-wrap items-center gap-x-4 gap-y-1 shrink-0">
+                    <span className="flex items-center gap-1 font-medium">
+                        <span className="material-symbols-outlined text-[18px]">link</span>
+                        跨项目依赖已顺延后续项目：
+                    </span>
+                    {crossProjectImpacts.map(impact => canViewProject(currentUser, impact.projectId) ? (
+                        <span key={impact.projectId}>「{impact.projectName}」{impact.movedTaskIds.length} 个任务</span>
+                    ) : (
+                        <span key={impact.projectId} className="flex items-center gap-1 text-red-700">
+                            <span className="material-symbols-outlined text-[16px]">lock</span>
+                            1 个无权查看的项目已被调整，请通知其负责人
+                        </span>
+                    ))}
+                    <button onClick={() => setCrossProjectImpacts([])} className="ml-auto px-3 py-1 rounded-full border border-blue-300 hover:bg-blue-100">知道了</button>
+                </div>
+            )}
+
             <div className="flex-1 min-h-0 w-full relative">
                 {currentView === 'gantt' ? (
                     <GanttChart 
-                        tasks={project.tasks} 
+                        tasks={workingTasks} 
                         proposedChanges={proposedChanges} 
                         pendingNewTasks={pendingNewTasks}
                         onTaskUpdate={handleTaskUpdate}
                         onTaskReorder={handleTaskReorder}
                         onTaskDelete={handleTaskDelete}
                         viewMode={viewMode}
+                        calendar={calendar}
+                        criticalPath={criticalPath.tasks}
+                        showCriticalPath={showCriticalPath}
+                        baselineVariances={comparisonVariances || (activeBaseline ? baselineVariances : undefined)}
+                        comparisonLabel={comparisonPlan?.name}
+                        resources={project.resources || []}
+                        externalLinks={externalLinks}
+                        linkableProjects={linkableProjects}
                         readOnly={!canEditTasks}
                         onZoomIn={handleZoomIn}
                         onZoomOut={handleZoomOut}
                         onInsertTask={handleInsertTask}
+                        onOpenSignatures={activeScenario ? undefined : setSigningTaskId}
                     />
                 ) : (
                     <KanbanBoard 
-                        tasks={[...project.tasks, ...pendingNewTasks]}
+                        tasks={[...workingTasks, ...pendingNewTasks]}
                         groupBy={kanbanGroupBy}
                         onTaskUpdate={handleTaskUpdate}
+                        onOpenSignatures={activeScenario ? undefined : setSigningTaskId}
                         readOnly={!canEditTasks}
                     />
                 )}
@@ -956,7 +2525,7 @@ const App: React.FC = () => {
 
         {/* Floating View Controls & Legend (Left Side) - Only Visible in Gantt Mode */}
         {currentView === 'gantt' && (
-            <div className="absolute left-4 bottom-20 md:left-6 md:bottom-6 z-[60] h-auto md:h-[92px] w-auto md:w-[320px] flex flex-col gap-2 md:gap-0 md:justify-between transition-all select-none animate-in fade-in slide-in-from-bottom-4 pointer-events-none md:pointer-events-auto">
+            <div className="absolute left-4 bottom-20 md:left-6 md:bottom-6 z-[60] h-auto md:h-[92px] w-auto md:w-[400px] flex flex-col gap-2 md:gap-0 md:justify-between transition-all select-none animate-in fade-in slide-in-from-bottom-4 pointer-events-none md:pointer-events-auto">
                  {/* Desktop Container Style applied via children pointer-events */}
                  
                 {/* Row 1: View Label & Zoom Controls */}
@@ -1009,6 +2578,14 @@ const App: React.FC = () => {
                         <div className="w-2.5 h-2.5 border-2 border-dashed border-indigo-300 bg-indigo-100 rounded-full mr-1.5 shadow-sm"></div>
                         <span>新增</span>
                     </div>
+                    <button 
+                        onClick={() => setShowCriticalPath(!showCriticalPath)}
+                        className={`flex items-center whitespace-nowrap rounded-full px-1.5 -mx-1.5 transition-colors ${showCriticalPath ? 'text-red-600 bg-red-50' : 'hover:text-red-600'}`}
+                        title="高亮关键路径"
+                    >
+                        <div className="w-2.5 h-2.5 ring-2 ring-red-500 bg-white rounded-full mr-1.5 shadow-sm"></div>
+                        <span>关键路径</span>
+                    </button>
                 </div>
             </div>
         )}
@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { AuditChange } from '../services/auditService';
+import { AUDIT_ACTION_LABELS, AUDIT_FIELD_LABELS } from '../constants';
+
+interface AuditReasonModalProps {
+  isOpen: boolean;
+  command: string; // What is about to change, e.g. "删除任务「IQ」"
+  changes: AuditChange[];
+  userName: string;
+  onCancel: () => void; // The change is not applied
+  onConfirm: (reason: string) => void;
+}
+
+const COMMON_REASONS = ['计划调整', '供应商交期变更', '偏差 / CAPA 处理', '数据录入更正'];
+const MAX_LISTED_CHANGES = 50;
+
+const AuditReasonModal: React.FC<AuditReasonModalProps> = ({ isOpen, command, changes, userName, onCancel, onConfirm }) => {
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (isOpen) setReason('');
+  }, [isOpen, command]);
+
+  if (!isOpen) return null;
+
+  const trimmed = reason.trim();
+  const truncate = (value?: string) => !value ? '—' : value.length > 60 ? `${value.slice(0, 60)}…` : value;
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-[90vw] md:w-[560px] overflow-hidden transform transition-all scale-100 p-6 font-roboto">
+        <div className="flex items-start gap-4">
+          <div className="h-12 w-12 rounded-full bg-indigo-100 flex items-center justify-center shrink-0">
+            <span className="material-symbols-outlined text-indigo-600 text-2xl">history_edu</span>
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="text-lg font-bold text-[#1F1F1F] mb-1">请填写变更原因</h3>
+            <p className="text-sm text-[#5F6368] leading-relaxed mb-4">
+              <span className="font-medium text-[#1F1F1F]">{command}</span> 将记录到审计追踪 (操作人：{userName}，时间由系统记录)，记录后不可修改或删除。
+            </p>
+
+            <div className="bg-[#F8F9FA] rounded-xl p-3 border border-[#E0E2E5] mb-4 max-h-[30vh] overflow-y-auto custom-scrollbar">
+              <div className="text-[10px] font-bold text-[#5F6368] uppercase tracking-wide mb-2">{changes.length} 项字段变更</div>
+              <ul className="space-y-1">
+                {changes.slice(0, MAX_LISTED_CHANGES).map((change, i) => (
+                  <li key={i} className="text-xs text-[#1F1F1F] flex items-baseline gap-2 min-w-0">
+                    <span className="shrink-0 text-[#5F6368]">{AUDIT_ACTION_LABELS[change.action]}</span>
+                    <span className="font-medium truncate max-w-[160px]" title={change.entityName}>{change.entityName}</span>
+                    {change.plan && <span className="shrink-0 text-amber-700">[{change.plan}]</span>}
+                    {change.field && (
+                      <span className="min-w-0 truncate font-mono" title={`${change.oldValue ?? ''} → ${change.newValue ?? ''}`}>
+                        {AUDIT_FIELD_LABELS[change.field] || change.field}：
+                        <span className="text-red-400 line-through opacity-70">{truncate(change.oldValue)}</span>
+                        {' → '}
+                        <span className="text-indigo-700">{truncate(change.newValue)}</span>
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {changes.length > MAX_LISTED_CHANGES && (
+                <div className="text-xs text-[#5F6368] mt-2">另有 {changes.length - MAX_LISTED_CHANGES} 项，全部记录在审计追踪中</div>
+              )}
+            </div>
+
+            <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">变更原因 (必填)</label>
+            <textarea
+              autoFocus
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && trimmed) onConfirm(trimmed); }}
+              rows={2}
+              placeholder="例如：供应商确认生物反应器延期 2 周到货"
+              className="w-full px-3 py-2 rounded-lg border border-[#E0E2E5] text-sm outline-none focus:border-indigo-500 resize-none"
+            />
+            <div className="flex flex-wrap gap-1 mt-2">
+              {COMMON_REASONS.map(r => (
+                <button
+                  key={r}
+                  onClick={() => setReason(r)}
+                  className="px-2 py-0.5 rounded-full border border-[#E0E2E5] text-[11px] text-[#5F6368] hover:bg-[#F1F3F4]"
+                >
+                  {r}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex gap-3 justify-end mt-6">
+              <button
+                onClick={onCancel}
+                className="px-4 py-2 rounded-full border border-[#E0E2E5] text-sm font-medium text-[#5F6368] hover:bg-[#F1F3F4] transition-colors"
+              >
+                取消修改
+              </button>
+              <button
+                onClick={() => onConfirm(trimmed)}
+                disabled={!trimmed}
+                className="px-4 py-2 rounded-full text-sm font-medium text-white shadow-sm transition-colors bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 disabled:hover:bg-indigo-600"
+              >
+                记录并应用
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditReasonModal;
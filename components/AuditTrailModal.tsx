@@ -0,0 +1,237 @@
+import React, { useState, useMemo } from 'react';
+import { AuditAction, AuditEntry, AuditSource } from '../types';
+import { AUDIT_ACTION_LABELS, AUDIT_FIELD_LABELS, AUDIT_SOURCE_LABELS } from '../constants';
+import { verifyAuditTrail } from '../services/auditService';
+import { getToday } from '../services/dateService';
+
+interface AuditTrailModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: AuditEntry[];
+  currentProjectId: string;
+  userName: string; // Named as the exporter
+}
+
+const MAX_ROWS = 500; // Rendered rows; filters and exports cover the whole trail
+
+const AuditTrailModal: React.FC<AuditTrailModalProps> = ({ isOpen, onClose, entries, currentProjectId, userName }) => {
+  const [scope, setScope] = useState<'project' | 'all'>('project');
+  const [userFilter, setUserFilter] = useState('');
+  const [actionFilter, setActionFilter] = useState<AuditAction | ''>('');
+  const [sourceFilter, setSourceFilter] = useState<AuditSource | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [search, setSearch] = useState('');
+
+  const verification = useMemo(() => isOpen ? verifyAuditTrail(entries) : null, [isOpen, entries]);
+  const users = useMemo(() => Array.from(new Set(entries.map(e => e.userName))), [entries]);
+
+  // Newest first
+  const filtered = useMemo(() => {
+    const text = search.trim().toLowerCase();
+    return entries.filter(e =>
+      (scope === 'all' || e.projectId === currentProjectId) &&
+      (!userFilter || e.userName === userFilter) &&
+      (!actionFilter || e.action === actionFilter) &&
+      (!sourceFilter || e.source === sourceFilter) &&
+      (!fromDate || e.timestamp.slice(0, 10) >= fromDate) &&
+      (!toDate || e.timestamp.slice(0, 10) <= toDate) &&
+      (!text || [e.entityName, e.field, e.oldValue, e.newValue, e.reason, e.command, e.projectName]
+        .some(v => v?.toLowerCase().includes(text)))
+    ).reverse();
+  }, [entries, scope, currentProjectId, userFilter, actionFilter, sourceFilter, fromDate, toDate, search]);
+
+  if (!isOpen) return null;
+
+  const download = (content: string, fileName: string, mime: string) => {
+    const link = document.createElement("a");
+    link.setAttribute("href", `data:${mime};charset=utf-8,${encodeURIComponent(content)}`);
+    link.setAttribute("download", fileName);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  };
+
+  const handleExportCsv = () => {
+    const headers = ["序号", "时间 (UTC)", "用户", "用户ID", "项目", "对象类型", "对象", "对象ID", "方案", "操作", "字段", "原值", "新值", "操作说明", "原因", "来源", "前一哈希", "哈希"];
+    const quote = (value?: string | number) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+    const rows = filtered.slice().reverse().map(e => [
+      e.seq, e.timestamp, e.userName, e.userId, e.projectName, e.entityType === 'task' ? '任务' : '项目', e.entityName, e.entityId,
+      e.plan, AUDIT_ACTION_LABELS[e.action], e.field, e.oldValue, e.newValue, e.command, e.reason, AUDIT_SOURCE_LABELS[e.source],
+      e.previousHash, e.hash
+    ].map(quote).join(","));
+    download("\uFEFF" + [headers.join(","), ...rows].join("\n"), `审计追踪_${getToday()}.csv`, 'text/csv'); // BOM for Excel Chinese support
+  };
+
+  // The complete chain with its hashes, so an inspector can re-verify it independently
+  const handleExportJson = () => {
+    download(JSON.stringify({
+      exportedAt: new Date().toISOString(),
+      exportedBy: userName,
+      hashAlgorithm: 'SHA-256',
+      chainValid: verification?.isValid,
+      brokenAtSeq: verification?.brokenAtSeq,
+      entries
+    }, null, 2), `审计追踪_${getToday()}.json`, 'application/json');
+  };
+
+  const selectClassName = "h-9 px-2 rounded-lg border border-[#E0E2E5] text-sm outline-none focus:border-indigo-500 bg-white";
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/40 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-[95vw] md:w-[1100px] max-h-[90vh] overflow-hidden flex flex-col relative animate-in zoom-in-95 duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-[#E0E2E5] flex items-center justify-between bg-[#F8F9FA] shrink-0">
+          <div className="flex items-center gap-2">
+            <span className="material-symbols-outlined text-indigo-600">policy</span>
+            <div>
+              <h2 className="text-lg font-bold text-[#1F1F1F]">审计追踪 (Audit Trail)</h2>
+              <div className="text-xs text-[#5F6368]">所有项目与任务变更的只增记录，按 21 CFR Part 11 / EU GMP 附录 11 要求记录操作人、时间、原值、新值与原因</div>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="h-8 w-8 rounded-full hover:bg-[#E0E2E5] flex items-center justify-center text-[#5F6368] transition-colors"
+          >
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        {/* Chain Verification */}
+        {verification && (
+          <div className={`mx-6 mt-4 px-4 py-2 rounded-xl border text-xs md:text-sm flex items-center gap-2 shrink-0 ${verification.isValid ? 'bg-green-50 border-green-200 text-green-900' : 'bg-red-50 border-red-200 text-red-800'}`}>
+            <span className="material-symbols-outlined text-[18px]">{verification.isValid ? 'verified' : 'gpp_bad'}</span>
+            {verification.isValid
+              ? `哈希链完整：共 ${entries.length} 条记录，未发现篡改。`
+              : `哈希链校验失败：第 ${verification.brokenAtSeq} 条记录起被修改、删除或插入，请立即通知 QA。`}
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="px-6 py-4 flex flex-wrap items-end gap-3 shrink-0 border-b border-[#E0E2E5]">
+          <div>
+            <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">范围</label>
+            <select value={scope} onChange={e => setScope(e.target.value as 'project' | 'all')} className={selectClassName}>
+              <option value="project">当前项目</option>
+              <option value="all">全部项目</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">用户</label>
+            <select value={userFilter} onChange={e => setUserFilter(e.target.value)} className={selectClassName}>
+              <option value="">全部</option>
+              {users.map(u => <option key={u} value={u}>{u}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">操作</label>
+            <select value={actionFilter} onChange={e => setActionFilter(e.target.value as AuditAction | '')} className={selectClassName}>
+              <option value="">全部</option>
+              {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(a => <option key={a} value={a}>{AUDIT_ACTION_LABELS[a]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">来源</label>
+            <select value={sourceFilter} onChange={e => setSourceFilter(e.target.value as AuditSource | '')} className={selectClassName}>
+              <option value="">全部</option>
+              {(Object.keys(AUDIT_SOURCE_LABELS) as AuditSource[]).map(s => <option key={s} value={s}>{AUDIT_SOURCE_LABELS[s]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">从</label>
+            <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} className={selectClassName} />
+          </div>
+          <div>
+            <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">至</label>
+            <input type="date" value={toDate} onChange={e => setToDate(e.target.value)} className={selectClassName} />
+          </div>
+          <div className="flex-1 min-w-[160px]">
+            <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">搜索</label>
+            <input
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="任务、字段、数值或原因"
+              className={`${selectClassName} w-full`}
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleExportCsv}
+              className="h-9 px-3 bg-white border border-[#E0E2E5] hover:bg-[#F1F3F4] text-[#1F1F1F] rounded-full text-xs font-medium flex items-center gap-1"
+              title="导出筛选结果 (CSV)"
+            >
+              <span className="material-symbols-outlined text-[16px] text-[#5F6368]">ios_share</span>
+              CSV
+            </button>
+            <button
+              onClick={handleExportJson}
+              className="h-9 px-3 bg-white border border-[#E0E2E5] hover:bg-[#F1F3F4] text-[#1F1F1F] rounded-full text-xs font-medium flex items-center gap-1"
+              title="导出完整哈希链 (JSON)，供检查员独立校验"
+            >
+              <span className="material-symbols-outlined text-[16px] text-[#5F6368]">data_object</span>
+              JSON
+            </button>
+          </div>
+        </div>
+
+        {/* Entries */}
+        <div className="flex-1 overflow-auto custom-scrollbar">
+          {filtered.length === 0 ? (
+            <div className="p-6 text-sm text-gray-400">没有符合条件的记录。</div>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-white shadow-sm">
+                <tr className="text-left text-[#5F6368]">
+                  <th className="px-3 py-2 font-medium">#</th>
+                  <th className="px-3 py-2 font-medium">时间</th>
+                  <th className="px-3 py-2 font-medium">用户</th>
+                  <th className="px-3 py-2 font-medium">对象</th>
+                  <th className="px-3 py-2 font-medium">操作</th>
+                  <th className="px-3 py-2 font-medium">字段</th>
+                  <th className="px-3 py-2 font-medium">原值 → 新值</th>
+                  <th className="px-3 py-2 font-medium">原因</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.slice(0, MAX_ROWS).map(e => (
+                  <tr key={e.id} className="border-t border-[#F1F3F4] align-top hover:bg-[#F8F9FA]">
+                    <td className="px-3 py-2 font-mono text-[#9AA0A6]" title={`SHA-256: ${e.hash}`}>{e.seq}</td>
+                    <td className="px-3 py-2 whitespace-nowrap text-[#5F6368]" title={e.timestamp}>{new Date(e.timestamp).toLocaleString('zh-CN')}</td>
+                    <td className="px-3 py-2 whitespace-nowrap">{e.userName}</td>
+                    <td className="px-3 py-2 max-w-[180px]">
+                      <div className="truncate font-medium" title={`${e.entityName} (${e.entityId})`}>{e.entityName}</div>
+                      <div className="text-[10px] text-[#5F6368] truncate">
+                        {e.entityType === 'task' ? '任务' : '项目'}{scope === 'all' && e.entityType === 'task' ? ` · ${e.projectName}` : ''}{e.plan ? ` · 方案「${e.plan}」` : ''}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      {AUDIT_ACTION_LABELS[e.action]}
+                      <div className="text-[10px] text-[#5F6368]">{AUDIT_SOURCE_LABELS[e.source]}</div>
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap">{e.field ? AUDIT_FIELD_LABELS[e.field] || e.field : '—'}</td>
+                    <td className="px-3 py-2 max-w-[280px] font-mono">
+                      {e.oldValue !== undefined && <div className="text-red-400 line-through opacity-70 truncate" title={e.oldValue}>{e.oldValue}</div>}
+                      {e.newValue !== undefined && <div className="text-indigo-700 truncate" title={e.newValue}>{e.newValue}</div>}
+                    </td>
+                    <td className="px-3 py-2 max-w-[220px]">
+                      <div className="break-words">{e.reason}</div>
+                      <div className="text-[10px] text-[#5F6368] truncate" title={e.command}>{e.command}</div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {filtered.length > MAX_ROWS && (
+            <div className="px-6 py-3 text-xs text-[#5F6368]">仅显示最新 {MAX_ROWS} 条 (共 {filtered.length} 条)，请缩小筛选范围或导出查看全部。</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditTrailModal;
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarPeriod, ProjectCalendar } from '../types';
+import { CN_STATUTORY_HOLIDAYS, CN_MAKEUP_WORKDAYS } from '../constants';
+
+interface CalendarSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  calendar: ProjectCalendar;
+  onSave: (calendar: ProjectCalendar) => void;
+  readOnly?: boolean;
+}
+
+const WEEKDAYS = [
+  { value: 1, label: '一' },
+  { value: 2, label: '二' },
+  { value: 3, label: '三' },
+  { value: 4, label: '四' },
+  { value: 5, label: '五' },
+  { value: 6, label: '六' },
+  { value: 0, label: '日' }
+];
+
+const CalendarSettingsModal: React.FC<CalendarSettingsModalProps> = ({
+  isOpen,
+  onClose,
+  calendar,
+  onSave,
+  readOnly = false
+}) => {
+  const [tempCalendar, setTempCalendar] = useState<ProjectCalendar>(calendar);
+  const [newShutdown, setNewShutdown] = useState<CalendarPeriod>({ name: '', startDate: '', endDate: '' });
+
+  useEffect(() => {
+    if (isOpen) {
+      setTempCalendar(calendar); // Reset temp calendar when opening
+      setNewShutdown({ name: '', startDate: '', endDate: '' });
+    }
+  }, [isOpen, calendar]);
+
+  if (!isOpen) return null;
+
+  const toggleWeekday = (day: number) => {
+    const current = tempCalendar.workingWeekdays;
+    const next = current.includes(day) ? current.filter(d => d !== day) : [...current, day].sort();
+    setTempCalendar({ ...tempCalendar, workingWeekdays: next });
+  };
+
+  // Merge the built-in statutory holiday list (keeps custom entries)
+  const loadStatutoryHolidays = () => {
+    const existing = new Set(tempCalendar.holidays.map(h => `${h.startDate}_${h.endDate}`));
+    setTempCalendar({
+      ...tempCalendar,
+      holidays: [...tempCalendar.holidays, ...CN_STATUTORY_HOLIDAYS.filter(h => !existing.has(`${h.startDate}_${h.endDate}`))]
+        .sort((a, b) => a.startDate.localeCompare(b.startDate)),
+      makeUpWorkdays: Array.from(new Set([...tempCalendar.makeUpWorkdays, ...CN_MAKEUP_WORKDAYS])).sort()
+    });
+  };
+
+  const clearStatutoryHolidays = () => {
+    setTempCalendar({ ...tempCalendar, holidays: [], makeUpWorkdays: [] });
+  };
+
+  const addShutdown = () => {
+    if (!newShutdown.startDate || !newShutdown.endDate || newShutdown.endDate < newShutdown.startDate) return;
+    setTempCalendar({
+      ...tempCalendar,
+      shutdowns: [...tempCalendar.shutdowns, { ...newShutdown, name: newShutdown.name.trim() || '计划停产' }]
+    });
+    setNewShutdown({ name: '', startDate: '', endDate: '' });
+  };
+
+  const removeShutdown = (index: number) => {
+    setTempCalendar({ ...tempCalendar, shutdowns: tempCalendar.shutdowns.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = () => {
+    if (tempCalendar.workingWeekdays.length === 0) {
+      alert("请至少选择一个工作日");
+      return;
+    }
+    onSave(tempCalendar);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center bg-black/40 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-[90vw] md:w-[600px] max-h-[90vh] overflow-hidden flex flex-col relative animate-in zoom-in-95 duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-[#E0E2E5] flex items-center justify-between bg-[#F8F9FA] shrink-0">
+          <div className="flex items-center gap-2">
+            <span className="material-symbols-outlined text-indigo-600">event_busy</span>
+            <h2 className="text-lg font-bold text-[#1F1F1F]">项目工作日历</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="h-8 w-8 rounded-full hover:bg-[#E0E2E5] flex items-center justify-center text-[#5F6368] transition-colors"
+          >
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 custom-scrollbar space-y-6">
+            {/* Working Weekdays */}
+            <div>
+                <h4 className="text-sm font-bold text-[#1F1F1F] mb-1">工作日</h4>
+                <p className="text-xs text-[#5F6368] mb-3">任务工期、依赖延隔均按工作日计算。</p>
+                <div className="flex gap-2">
+                    {WEEKDAYS.map(day => {
+                        const active = tempCalendar.workingWeekdays.includes(day.value);
+                        return (
+                            <button
+                                key={day.value}
+                                disabled={readOnly}
+                                onClick={() => toggleWeekday(day.value)}
+                                className={`h-9 w-9 rounded-full text-sm font-medium border transition-colors ${active ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-[#E0E2E5] text-[#5F6368] hover:border-indigo-300'} disabled:cursor-default`}
+                            >
+                                {day.label}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {/* Statutory Holidays */}
+            <div className="border-t border-[#E0E2E5] pt-6">
+                <div className="flex items-center justify-between mb-3">
+                    <div>
+                        <h4 className="text-sm font-bold text-[#1F1F1F] mb-1">法定节假日与调休</h4>
+                        <p className="text-xs text-[#5F6368]">{tempCalendar.holidays.length} 个假期，{tempCalendar.makeUpWorkdays.length} 个调休上班日</p>
+                    </div>
+                    {!readOnly && (
+                        <div className="flex gap-2">
+                            <button onClick={loadStatutoryHolidays} className="px-3 py-1.5 text-xs font-medium rounded-full border border-[#E0E2E5] hover:bg-indigo-50 hover:text-indigo-600 text-[#5F6368] transition-colors">
+                                载入中国法定节假日
+                            </button>
+                            <button onClick={clearStatutoryHolidays} className="px-3 py-1.5 text-xs font-medium rounded-full border border-[#E0E2E5] hover:bg-red-50 hover:text-red-600 text-[#5F6368] transition-colors">
+                                清空
+                            </button>
+                        </div>
+                    )}
+                </div>
+                <div className="max-h-[140px] overflow-y-auto border border-[#E0E2E5] rounded-lg bg-[#F8F9FA] p-2 custom-scrollbar space-y-1">
+                    {tempCalendar.holidays.map((h, idx) => (
+                        <div key={idx} className="flex items-center justify-between text-xs px-2 py-1 bg-white rounded">
+                            <span className="font-medium text-[#1F1F1F]">{h.name}</span>
+                            <span className="text-[#5F6368] font-mono">{h.startDate === h.endDate ? h.startDate : `${h.startDate} ~ ${h.endDate}`}</span>
+                        </div>
+                    ))}
+                    {tempCalendar.holidays.length === 0 && <div className="text-xs text-gray-400 text-center py-2">未设置节假日</div>}
+                </div>
+                {tempCalendar.makeUpWorkdays.length > 0 && (
+                    <div className="mt-2 text-[10px] text-[#5F6368] leading-relaxed">
+                        调休上班: {tempCalendar.makeUpWorkdays.join(', ')}
+                    </div>
+                )}
+            </div>
+
+            {/* Plant Shutdowns */}
+            <div className="border-t border-[#E0E2E5] pt-6">
+                <h4 className="text-sm font-bold text-[#1F1F1F] mb-1">计划停产 / 厂房关闭</h4>
+                <p className="text-xs text-[#5F6368] mb-3">停产期间不安排任何任务 (如年度维护、HVAC 改造)。</p>
+                <div className="space-y-1 mb-3">
+                    {tempCalendar.shutdowns.map((sd, idx) => (
+                        <div key={idx} className="flex items-center justify-between text-xs px-3 py-2 bg-[#F8F9FA] border border-[#E0E2E5] rounded-lg">
+                            <span className="font-medium text-[#1F1F1F]">{sd.name}</span>
+                            <div className="flex items-center gap-2">
+                                <span className="text-[#5F6368] font-mono">{sd.startDate} ~ {sd.endDate}</span>
+                                {!readOnly && (
+                                    <button onClick={() => removeShutdown(idx)} className="text-[#9AA0A6] hover:text-red-600">
+                                        <span className="material-symbols-outlined text-[16px]">delete</span>
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                    {tempCalendar.shutdowns.length === 0 && <div className="text-xs text-gray-400 py-1">暂无停产计划</div>}
+                </div>
+                {!readOnly && (
+                    <div className="grid grid-cols-[1fr_auto_auto_auto] gap-2 items-center">
+                        <input
+                            value={newShutdown.name}
+                            onChange={e => setNewShutdown({ ...newShutdown, name: e.target.value })}
+                            placeholder="停产名称"
+                            className="h-9 px-3 rounded-lg border border-[#E0E2E5] text-xs outline-none focus:border-indigo-500 bg-white"
+                        />
+                        <input
+                            type="date"
+                            value={newShutdown.startDate}
+                            onChange={e => setNewShutdown({ ...newShutdown, startDate: e.target.value })}
+                            className="h-9 px-2 rounded-lg border border-[#E0E2E5] text-xs outline-none focus:border-indigo-500 bg-white"
+                        />
+                        <input
+                            type="date"
+                            value={newShutdown.endDate}
+                            onChange={e => setNewShutdown({ ...newShutdown, endDate: e.target.value })}
+                            className="h-9 px-2 rounded-lg border border-[#E0E2E5] text-xs outline-none focus:border-indigo-500 bg-white"
+                        />
+                        <button onClick={addShutdown} className="h-9 w-9 rounded-lg bg-indigo-50 text-indigo-600 hover:bg-indigo-100 flex items-center justify-center">
+                            <span className="material-symbols-outlined text-[18px]">add</span>
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-[#E0E2E5] bg-[#F8F9FA] flex justify-end gap-3">
+             <button
+                onClick={onClose}
+                className="px-4 py-2 border border-[#E0E2E5] hover:bg-[#E0E2E5] text-[#5F6368] rounded-lg text-sm font-medium transition-colors"
+            >
+                {readOnly ? '关闭' : '取消'}
+            </button>
+            {!readOnly && (
+                <button
+                    onClick={handleSave}
+                    className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium transition-colors shadow-sm flex items-center gap-2"
+                >
+                    <span className="material-symbols-outlined text-[18px]">save</span>
+                    保存并重新排程
+                </button>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarSettingsModal;
@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { ChatMessage, ProposedChange, RiskLevel, Task, UserRole } from '../types';
+import { TASK_STATUS_LABELS } from '../constants';
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
@@ -103,6 +104,20 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                 共 {(msg.metadata.proposedChanges?.length || 0) + (msg.metadata.newTasks?.length || 0)} 项
                             </span>
                         </div>
+                        {/* Project End Date Impact */}
+                        {msg.metadata.scheduleImpact && (
+                            <div className={`px-3 py-2 text-xs flex items-center gap-1 border-b ${msg.metadata.scheduleImpact.deltaWorkingDays > 0 ? 'bg-red-50 text-red-700 border-red-100' : 'bg-emerald-50 text-emerald-700 border-emerald-100'}`}>
+                                <span className="material-symbols-outlined text-[16px]">flag</span>
+                                {msg.metadata.scheduleImpact.deltaWorkingDays === 0 ? (
+                                    <span>项目完工日期不变 ({msg.metadata.scheduleImpact.originalFinish})</span>
+                                ) : (
+                                    <span>
+                                        项目完工日期 {msg.metadata.scheduleImpact.originalFinish} → <span className="font-bold">{msg.metadata.scheduleImpact.newFinish}</span>
+                                        {' '}({msg.metadata.scheduleImpact.deltaWorkingDays > 0 ? '+' : ''}{msg.metadata.scheduleImpact.deltaWorkingDays} 工作日)
+                                    </span>
+                                )}
+                            </div>
+                        )}
                         <div className="p-3 space-y-2">
                             {/* New Tasks List */}
                             {msg.metadata.newTasks?.map((task, idx) => (
@@ -151,6 +166,21 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                         </div>
                                     )}
 
+                                    {/* Status Change */}
+                                    {change.newStatus && change.newStatus !== change.originalStatus && (
+                                        <div className="flex justify-between items-center mt-1">
+                                            <div className="flex items-center gap-1 text-red-400 opacity-70">
+                                                <span className="material-symbols-outlined text-[14px]">flag</span>
+                                                <span className="line-through decoration-2">{change.originalStatus ? TASK_STATUS_LABELS[change.originalStatus] : ''}</span>
+                                            </div>
+                                            <span className="material-symbols-outlined text-[14px] text-[#5F6368]">arrow_right_alt</span>
+                                            <div className="flex items-center gap-1 text-emerald-600 font-bold bg-emerald-50 px-1 rounded">
+                                                <span className="material-symbols-outlined text-[14px]">flag</span>
+                                                <span>{TASK_STATUS_LABELS[change.newStatus]}</span>
+                                            </div>
+                                        </div>
+                                    )}
+
                                     <div className="text-[10px] text-[#5F6368] mt-2 pt-2 border-t border-slate-100">{change.reason}</div>
                                 </div>
                             ))}
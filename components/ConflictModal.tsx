@@ -4,16 +4,20 @@ interface ConflictModalProps {
   isOpen: boolean;
   conflict: {
     taskName: string;
-    dependencyName: string;
-    suggestedDate: string;
+    dependencyName?: string; // Set when the edit breaks a dependency link
+    dependencyLabel?: string; // e.g. "完成-开始 (FS) +2天"
+    suggestedDate?: string;
+    violations: { taskName: string; description: string }[]; // Date constraints broken after cascading
   } | null;
   onCancel: () => void;
-  onAutoFix: () => void;
+  onConfirm: () => void; // Auto-fix the dependency, or apply the edit despite the violated constraints
 }
 
-const ConflictModal: React.FC<ConflictModalProps> = ({ isOpen, conflict, onCancel, onAutoFix }) => {
+const ConflictModal: React.FC<ConflictModalProps> = ({ isOpen, conflict, onCancel, onConfirm }) => {
   if (!isOpen || !conflict) return null;
 
+  const hasDependencyConflict = !!conflict.dependencyName;
+
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
       <div className="bg-white rounded-2xl shadow-2xl w-[90vw] md:w-[480px] overflow-hidden transform transition-all scale-100 p-6 font-roboto">
@@ -22,22 +26,47 @@ const ConflictModal: React.FC<ConflictModalProps> = ({ isOpen, conflict, onCance
             <span className="material-symbols-outlined text-amber-600 text-2xl">warning</span>
           </div>
           <div className="flex-1">
-            <h3 className="text-lg font-bold text-[#1F1F1F] mb-1">发现依赖冲突</h3>
-            <p className="text-sm text-[#5F6368] leading-relaxed mb-4">
-              任务 <span className="font-medium text-[#1F1F1F]">"{conflict.taskName}"</span> 的开始时间早于其前置任务 <span className="font-medium text-[#1F1F1F]">"{conflict.dependencyName}"</span> 的结束时间。这违反了 GMP 依赖约束。
-            </p>
-            
-            <div className="bg-[#F8F9FA] rounded-xl p-4 border border-[#E0E2E5] mb-6">
-              <div className="text-xs font-bold text-[#5F6368] uppercase mb-2 tracking-wide">AI 建议解决方案</div>
-              <div className="flex items-center gap-3">
-                <span className="material-symbols-outlined text-indigo-600">auto_fix</span>
-                <div className="text-sm text-[#1F1F1F]">
-                  自动将开始日期顺延至 <span className="font-bold text-indigo-600">{conflict.suggestedDate}</span>
+            <h3 className="text-lg font-bold text-[#1F1F1F] mb-1">{hasDependencyConflict ? '发现依赖冲突' : '违反日期约束'}</h3>
+            {hasDependencyConflict ? (
+              <p className="text-sm text-[#5F6368] leading-relaxed mb-4">
+                任务 <span className="font-medium text-[#1F1F1F]">"{conflict.taskName}"</span> 的排期违反了与前置任务 <span className="font-medium text-[#1F1F1F]">"{conflict.dependencyName}"</span> 之间的 <span className="font-medium text-[#1F1F1F]">{conflict.dependencyLabel}</span> 依赖关系。这违反了 GMP 依赖约束。
+              </p>
+            ) : (
+              <p className="text-sm text-[#5F6368] leading-relaxed mb-4">
+                修改任务 <span className="font-medium text-[#1F1F1F]">"{conflict.taskName}"</span> 并顺延后续任务后，以下由外部确定的日期将无法满足。
+              </p>
+            )}
+
+            {hasDependencyConflict && (
+              <div className="bg-[#F8F9FA] rounded-xl p-4 border border-[#E0E2E5] mb-4">
+                <div className="text-xs font-bold text-[#5F6368] uppercase mb-2 tracking-wide">AI 建议解决方案</div>
+                <div className="flex items-center gap-3">
+                  <span className="material-symbols-outlined text-indigo-600">auto_fix</span>
+                  <div className="text-sm text-[#1F1F1F]">
+                    自动将开始日期顺延至 <span className="font-bold text-indigo-600">{conflict.suggestedDate}</span>
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
+
+            {conflict.violations.length > 0 && (
+              <div className="bg-red-50 rounded-xl p-4 border border-red-100 mb-4">
+                <div className="text-xs font-bold text-red-700 uppercase mb-2 tracking-wide flex items-center gap-1">
+                  <span className="material-symbols-outlined text-[16px]">event_busy</span>
+                  {hasDependencyConflict ? '修复后将违反的日期约束' : '违反的日期约束'}
+                </div>
+                <ul className="space-y-1">
+                  {conflict.violations.map((v, i) => (
+                    <li key={i} className="text-sm text-[#1F1F1F]">
+                      <span className="font-medium">{v.taskName}</span>
+                      <span className="text-red-700">：{v.description}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
 
-            <div className="flex gap-3 justify-end">
+            <div className="flex gap-3 justify-end mt-6">
               <button 
                 onClick={onCancel}
                 className="px-4 py-2 rounded-full border border-[#E0E2E5] text-sm font-medium text-[#5F6368] hover:bg-[#F1F3F4] transition-colors"
@@ -45,10 +74,10 @@ const ConflictModal: React.FC<ConflictModalProps> = ({ isOpen, conflict, onCance
                 取消修改
               </button>
               <button 
-                onClick={onAutoFix}
-                className="px-4 py-2 rounded-full bg-indigo-600 text-sm font-medium text-white hover:bg-indigo-700 shadow-sm transition-colors"
+                onClick={onConfirm}
+                className={`px-4 py-2 rounded-full text-sm font-medium text-white shadow-sm transition-colors ${hasDependencyConflict ? 'bg-indigo-600 hover:bg-indigo-700' : 'bg-red-600 hover:bg-red-700'}`}
               >
-                自动修复
+                {hasDependencyConflict ? '自动修复' : '仍然应用'}
               </button>
             </div>
           </div>
@@ -58,4 +87,4 @@ const ConflictModal: React.FC<ConflictModalProps> = ({ isOpen, conflict, onCance
   );
 };
 
-export default ConflictModal;
\ No newline at end of file
+export default ConflictModal;
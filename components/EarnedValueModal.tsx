@@ -0,0 +1,249 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Project } from '../types';
+import { getProjectCalendar } from '../services/calendarService';
+import { getActiveBaseline } from '../services/baselineService';
+import { getToday, toDayNumber } from '../services/dateService';
+import { getChildrenMap } from '../services/wbsService';
+import { computeEarnedValue, formatIndex, EarnedValueMetrics } from '../services/earnedValueService';
+
+interface EarnedValueModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project;
+}
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 160;
+
+const getIndexColor = (value?: number) =>
+  value === undefined ? 'text-[#5F6368]' : value >= 1 ? 'text-emerald-600' : value >= 0.9 ? 'text-amber-600' : 'text-red-600';
+
+const EarnedValueModal: React.FC<EarnedValueModalProps> = ({ isOpen, onClose, project }) => {
+  const [statusDate, setStatusDate] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setStatusDate(getToday());
+    }
+  }, [isOpen]);
+
+  const baseline = getActiveBaseline(project);
+  const report = useMemo(() => {
+    if (!isOpen || !statusDate) return null;
+    return computeEarnedValue(project.tasks, getProjectCalendar(project), statusDate, baseline);
+  }, [isOpen, project, statusDate, baseline]);
+
+  if (!isOpen) return null;
+
+  const isCost = report?.basis === 'cost';
+  const formatValue = (value?: number) => value === undefined
+    ? '—'
+    : isCost ? value.toLocaleString('zh-CN', { maximumFractionDigits: 0 }) : value.toFixed(1);
+  const unitLabel = isCost ? '金额' : '工作日';
+
+  const childrenMap = getChildrenMap(project.tasks);
+  const workTasks = project.tasks.filter(t => !childrenMap.has(t.id));
+
+  // S-curve geometry
+  const curve = report?.sCurve || [];
+  const maxValue = Math.max(report?.project.bac || 0, report?.project.ac || 0, 1);
+  const firstDay = curve.length > 0 ? toDayNumber(curve[0].date) : 0;
+  const lastDay = curve.length > 0 ? toDayNumber(curve[curve.length - 1].date) : 1;
+  const x = (date: string) => ((toDayNumber(date) - firstDay) / Math.max(lastDay - firstDay, 1)) * CHART_WIDTH;
+  const y = (value: number) => CHART_HEIGHT - (value / maxValue) * CHART_HEIGHT;
+  const toPath = (key: 'pv' | 'forecast') => curve.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.date).toFixed(1)},${y(p[key]).toFixed(1)}`).join(' ');
+  const statusInRange = curve.length > 0 && statusDate >= curve[0].date && statusDate <= curve[curve.length - 1].date;
+  const statusX = curve.length === 0 ? 0 : statusDate < curve[0].date ? 0 : statusInRange ? x(statusDate) : CHART_WIDTH;
+
+  const handleExportCsv = () => {
+    if (!report) return;
+    const headers = ["层级", "名称", `BAC(${unitLabel})`, "PV", "EV", "AC", "SV", "SPI", "CV", "CPI"];
+    const toRow = (level: string, name: string, m: EarnedValueMetrics) => [
+      level, `"${name.replace(/"/g, '""')}"`, formatValue(m.bac), formatValue(m.pv), formatValue(m.ev),
+      formatValue(m.ac), formatValue(m.sv), formatIndex(m.spi), formatValue(m.cv), formatIndex(m.cpi)
+    ].map(v => v === '—' ? '' : v.replace(/,/g, ''));
+    const rows = [
+      toRow('项目', project.name, report.project),
+      ...report.categories.map(c => toRow('类别', c.category, c.metrics)),
+      ...workTasks.map(t => toRow('任务', t.name, report.tasks[t.id]))
+    ];
+
+    const csvContent = "data:text/csv;charset=utf-8,\uFEFF" // Add BOM for Excel Chinese support
+        + [headers, ...rows].map(e => e.join(",")).join("\n");
+    const link = document.createElement("a");
+    link.setAttribute("href", encodeURI(csvContent));
+    link.setAttribute("download", `${project.name}_挣值_${report.statusDate}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/40 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-[90vw] md:w-[760px] max-h-[90vh] overflow-hidden flex flex-col relative animate-in zoom-in-95 duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-[#E0E2E5] flex items-center justify-between bg-[#F8F9FA] shrink-0">
+          <div className="flex items-center gap-2">
+            <span className="material-symbols-outlined text-indigo-600">monitoring</span>
+            <div>
+              <h2 className="text-lg font-bold text-[#1F1F1F]">挣值分析 (EVM)</h2>
+              <div className="text-xs text-[#5F6368]">
+                按任务进度计算挣值，{baseline ? `计划值取自基线「${baseline.name}」` : '未设置基线，计划值取自当前计划日期'}
+              </div>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="h-8 w-8 rounded-full hover:bg-[#E0E2E5] flex items-center justify-center text-[#5F6368] transition-colors"
+          >
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 custom-scrollbar space-y-6">
+            {/* Settings */}
+            <div className="flex flex-wrap items-end gap-4">
+                <div>
+                    <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">状态日期</label>
+                    <input
+                        type="date"
+                        value={statusDate}
+                        onChange={e => setStatusDate(e.target.value)}
+                        className="h-9 px-2 rounded-lg border border-[#E0E2E5] text-sm outline-none focus:border-indigo-500 bg-white"
+                    />
+                </div>
+                <div className="text-xs text-[#5F6368] pb-2">
+                    {isCost ? '按任务预算 (BAC) 计值' : '尚无任务填写预算，按工期 (工作日) 加权计值；填写预算和实际成本后可计算 CV / CPI'}
+                </div>
+            </div>
+
+            {!report || workTasks.length === 0 ? (
+                <div className="text-sm text-gray-400">项目中暂无任务。</div>
+            ) : (
+            <>
+                {/* Key Figures */}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {[
+                        { label: `计划值 PV`, value: formatValue(report.project.pv) },
+                        { label: `挣值 EV`, value: formatValue(report.project.ev) },
+                        { label: `实际成本 AC`, value: formatValue(report.project.ac) },
+                        { label: `完工预算 BAC`, value: formatValue(report.project.bac) }
+                    ].map(card => (
+                        <div key={card.label} className="rounded-xl border border-[#E0E2E5] bg-[#F8F9FA] p-3">
+                            <div className="text-[10px] font-bold text-[#5F6368] uppercase tracking-wide">{card.label}</div>
+                            <div className="text-sm font-mono font-bold text-[#1F1F1F] mt-1">{card.value}</div>
+                        </div>
+                    ))}
+                    {[
+                        { label: '进度偏差 SV', value: formatValue(report.project.sv), color: report.project.sv >= 0 ? 'text-emerald-600' : 'text-red-600' },
+                        { label: '进度绩效 SPI', value: formatIndex(report.project.spi), color: getIndexColor(report.project.spi) },
+                        { label: '成本偏差 CV', value: formatValue(report.project.cv), color: report.project.cv === undefined ? 'text-[#5F6368]' : report.project.cv >= 0 ? 'text-emerald-600' : 'text-red-600' },
+                        { label: '成本绩效 CPI', value: formatIndex(report.project.cpi), color: getIndexColor(report.project.cpi) }
+                    ].map(card => (
+                        <div key={card.label} className="rounded-xl border border-[#E0E2E5] bg-white p-3">
+                            <div className="text-[10px] font-bold text-[#5F6368] uppercase tracking-wide">{card.label}</div>
+                            <div className={`text-sm font-mono font-bold mt-1 ${card.color}`}>{card.value}</div>
+                        </div>
+                    ))}
+                </div>
+
+                {/* S-Curve */}
+                <div>
+                    <h4 className="text-sm font-bold text-[#1F1F1F] mb-1">S 曲线</h4>
+                    <p className="text-xs text-[#5F6368] mb-3">
+                        实线为累计计划值{baseline ? ' (基线)' : ''}，虚线为按当前日期的预测；圆点为状态日期的挣值 (EV) 与实际成本 (AC)。
+                    </p>
+                    <div className="border border-[#E0E2E5] rounded-lg bg-[#F8F9FA] p-2">
+                        <svg viewBox={`-4 -8 ${CHART_WIDTH + 8} ${CHART_HEIGHT + 16}`} className="w-full h-auto">
+                            <line x1={0} y1={CHART_HEIGHT} x2={CHART_WIDTH} y2={CHART_HEIGHT} stroke="#E0E2E5" />
+                            <line x1={0} y1={y(report.project.bac)} x2={CHART_WIDTH} y2={y(report.project.bac)} stroke="#E0E2E5" strokeDasharray="2 3" />
+                            {baseline && <path d={toPath('forecast')} fill="none" stroke="#A5B4FC" strokeWidth={2} strokeDasharray="5 4" />}
+                            <path d={toPath('pv')} fill="none" stroke="#4F46E5" strokeWidth={2} />
+                            <line x1={statusX} y1={0} x2={statusX} y2={CHART_HEIGHT} stroke="#9AA0A6" strokeDasharray="3 3" />
+                            <circle cx={statusX} cy={y(report.project.ev)} r={5} fill="#10B981">
+                                <title>{`EV ${formatValue(report.project.ev)}`}</title>
+                            </circle>
+                            {report.project.ac !== undefined && (
+                                <circle cx={statusX} cy={y(report.project.ac)} r={5} fill="#EF4444">
+                                    <title>{`AC ${formatValue(report.project.ac)}`}</title>
+                                </circle>
+                            )}
+                        </svg>
+                        <div className="flex justify-between text-[10px] text-[#5F6368] mt-1 font-mono">
+                            <span>{curve[0]?.date}</span>
+                            <span className="flex items-center gap-3 font-sans">
+                                <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-indigo-600"></span>PV</span>
+                                {baseline && <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-indigo-300"></span>预测</span>}
+                                <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-emerald-500"></span>EV</span>
+                                {report.project.ac !== undefined && <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-red-500"></span>AC</span>}
+                            </span>
+                            <span>{curve[curve.length - 1]?.date}</span>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Breakdown Tables */}
+                {[
+                    { title: '按类别', rows: report.categories.map(c => ({ key: c.category, name: c.category, metrics: c.metrics })) },
+                    { title: '按任务', rows: workTasks.map(t => ({ key: t.id, name: t.name, metrics: report.tasks[t.id] })) }
+                ].map(table => (
+                    <div key={table.title}>
+                        <h4 className="text-sm font-bold text-[#1F1F1F] mb-2">{table.title}</h4>
+                        <div className="border border-[#E0E2E5] rounded-lg overflow-hidden">
+                            <table className="w-full text-xs">
+                                <thead className="bg-[#F8F9FA] text-[#5F6368]">
+                                    <tr>
+                                        {['名称', 'BAC', 'PV', 'EV', 'AC', 'SV', 'SPI', 'CPI'].map(h => (
+                                            <th key={h} className={`px-3 py-2 font-medium ${h === '名称' ? 'text-left' : 'text-right'}`}>{h}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {table.rows.map(row => (
+                                        <tr key={row.key} className="border-t border-[#E0E2E5]">
+                                            <td className="px-3 py-1.5 text-[#1F1F1F] truncate max-w-[200px]" title={row.name}>{row.name}</td>
+                                            <td className="px-3 py-1.5 text-right font-mono">{formatValue(row.metrics.bac)}</td>
+                                            <td className="px-3 py-1.5 text-right font-mono">{formatValue(row.metrics.pv)}</td>
+                                            <td className="px-3 py-1.5 text-right font-mono">{formatValue(row.metrics.ev)}</td>
+                                            <td className="px-3 py-1.5 text-right font-mono">{formatValue(row.metrics.ac)}</td>
+                                            <td className={`px-3 py-1.5 text-right font-mono ${row.metrics.sv < 0 ? 'text-red-600' : ''}`}>{formatValue(row.metrics.sv)}</td>
+                                            <td className={`px-3 py-1.5 text-right font-mono font-bold ${getIndexColor(row.metrics.spi)}`}>{formatIndex(row.metrics.spi)}</td>
+                                            <td className={`px-3 py-1.5 text-right font-mono font-bold ${getIndexColor(row.metrics.cpi)}`}>{formatIndex(row.metrics.cpi)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                ))}
+            </>
+            )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-[#E0E2E5] bg-[#F8F9FA] flex items-center justify-between">
+            <button
+                onClick={handleExportCsv}
+                disabled={!report || workTasks.length === 0}
+                className="px-4 py-2 border border-indigo-200 rounded-full text-sm font-medium text-indigo-600 hover:bg-indigo-50 transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+                <span className="material-symbols-outlined text-[18px]">ios_share</span>
+                导出挣值报表 (CSV)
+            </button>
+            <button
+                onClick={onClose}
+                className="px-4 py-2 bg-white border border-[#E0E2E5] rounded-full text-sm font-medium text-[#5F6368] hover:bg-[#F1F3F4] transition-colors"
+            >
+                关闭
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EarnedValueModal;
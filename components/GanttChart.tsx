@@ -1,6 +1,16 @@
 import React, { useMemo, useState, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { Task, ProposedChange, ViewMode } from '../types';
+import { Task, TaskDependency, ExternalDependency, DependencyType, Project, ProposedChange, ViewMode, ProjectCalendar, CriticalPathInfo, BaselineVariance, Resource, ResourceAssignment, ConstraintType, DurationEstimate, RecurrenceFrequency, RecurrenceRule } from '../types';
+import { CONSTRAINT_TYPE_LABELS, DEPENDENCY_TYPE_LABELS, RESOURCE_KIND_LABELS } from '../constants';
+import { findConstraintViolations, findDependencyConflict, formatDependency, getWorkingDuration, isMilestone } from '../services/scheduleService';
+import { getNonWorkingDayInfo, getWorkingSpan, isWorkingDay } from '../services/calendarService';
+import { diffDays, formatMonthDay, fromDayNumber, getDateParts, getMonthStart, getToday, getWeekStart, toDayNumber } from '../services/dateService';
+import { formatVariance } from '../services/baselineService';
+import { buildWbsRows, filterCollapsedRows, getDescendantIds } from '../services/wbsService';
+import { ResolvedExternalLink } from '../services/crossProjectService';
+import { findBookingConflicts, isAssetResource } from '../services/resourceService';
+import { createDefaultRecurrence, formatRecurrence, isOccurrence } from '../services/recurrenceService';
+import SignatureBadge from './SignatureBadge';
 
 interface GanttChartProps {
   tasks: Task[];
@@ -10,14 +20,24 @@ interface GanttChartProps {
   onTaskReorder?: (tasks: Task[]) => void;
   onTaskDelete?: (taskId: string) => void;
   viewMode: ViewMode;
+  calendar: ProjectCalendar;
+  criticalPath?: Record<string, CriticalPathInfo>;
+  showCriticalPath?: boolean;
+  baselineVariances?: Record<string, BaselineVariance>;
+  comparisonLabel?: string; // Set when `baselineVariances` compare against another plan (what-if scenario)
+  resources?: Resource[];
+  externalLinks?: Record<string, ResolvedExternalLink[]>; // Predecessors in other projects, per task
+  linkableProjects?: Project[]; // Other projects the user may link to
   readOnly?: boolean;
   onZoomIn?: () => void;
   onZoomOut?: () => void;
   onInsertTask?: (targetTaskId: string, position: 'before' | 'after') => void;
+  onOpenSignatures?: (taskId: string) => void;
 }
 
 const HEADER_HEIGHT = 48;
 const ROW_HEIGHT = 56; // Defined row height for calculation
+const MILESTONE_SIZE = 18; // Diamond marker size (px)
 
 type SortOrder = 'default' | 'asc' | 'desc';
 
@@ -26,11 +46,13 @@ interface DragState {
   startX: number;
   initialLeft: number;
   currentLeft: number;
-  originalStartDate: Date;
-  originalEndDate: Date;
+  originalStartDay: number;
+  originalEndDay: number;
   mode: 'move' | 'resize-left' | 'resize-right';
 }
 
+const WEEKDAY_LABELS = ['日', '一', '二', '三', '四', '五', '六'];
+
 const GanttChart: React.FC<GanttChartProps> = ({ 
     tasks, 
     proposedChanges, 
@@ -39,10 +61,19 @@ const GanttChart: React.FC<GanttChartProps> = ({
     onTaskReorder,
     onTaskDelete,
     viewMode,
+    calendar,
+    criticalPath = {},
+    showCriticalPath = false,
+    baselineVariances,
+    comparisonLabel,
+    resources = [],
+    externalLinks = {},
+    linkableProjects = [],
     readOnly = false,
     onZoomIn,
     onZoomOut,
-    onInsertTask
+    onInsertTask,
+    onOpenSignatures
 }) => {
   // State
   const [sortOrder, setSortOrder] = useState<SortOrder>('default');
@@ -65,9 +96,15 @@ const GanttChart: React.FC<GanttChartProps> = ({
   const [previewDates, setPreviewDates] = useState<{ start: string; end: string } | null>(null);
   const [conflictDependencyId, setConflictDependencyId] = useState<string | null>(null);
 
+  // External predecessor picker (Edit Modal)
+  const [externalPick, setExternalPick] = useState<{ projectId: string; taskId: string }>({ projectId: '', taskId: '' });
+
   // Hover State for Dependencies
   const [hoveredTaskId, setHoveredTaskId] = useState<string | null>(null);
 
+  // WBS State (collapsed summary rows)
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+
   // Reordering State
   const [draggedTaskIndex, setDraggedTaskIndex] = useState<number | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
@@ -95,31 +132,28 @@ const GanttChart: React.FC<GanttChartProps> = ({
   }, []);
 
   // Configuration for each view mode
+  // Ticks are day numbers (see dateService), so labels never depend on the viewer's time zone
   const VIEW_CONFIG = {
     Day: {
       pixelsPerDay: 48,
-      headerFormat: (d: Date) => d.getDate().toString(),
-      subHeaderFormat: (d: Date) => d.toLocaleDateString('zh-CN', { weekday: 'narrow' }),
+      headerFormat: (d: number) => getDateParts(d).date.toString(),
+      subHeaderFormat: (d: number) => WEEKDAY_LABELS[getDateParts(d).weekday],
     },
     Week: {
       pixelsPerDay: 16, // ~112px per week
-      headerFormat: (d: Date) => {
-        const end = new Date(d);
-        end.setDate(d.getDate() + 6);
-        return `${d.getMonth() + 1}/${d.getDate()} - ${end.getMonth() + 1}/${end.getDate()}`;
-      },
+      headerFormat: (d: number) => `${formatMonthDay(d)} - ${formatMonthDay(d + 6)}`,
       subHeaderFormat: () => '',
     },
     Month: {
       pixelsPerDay: 5, // ~150px per month
-      headerFormat: (d: Date) => `${d.getFullYear()}年${d.getMonth() + 1}月`,
+      headerFormat: (d: number) => `${getDateParts(d).year}年${getDateParts(d).month}月`,
       subHeaderFormat: () => '',
     },
     Quarter: {
       pixelsPerDay: 1.5, // ~135px per quarter
-      headerFormat: (d: Date) => {
-        const q = Math.floor(d.getMonth() / 3) + 1;
-        return `${d.getFullYear()} Q${q}`;
+      headerFormat: (d: number) => {
+        const { year, month } = getDateParts(d);
+        return `${year} Q${Math.floor((month - 1) / 3) + 1}`;
       },
       subHeaderFormat: () => '',
     }
@@ -127,118 +161,131 @@ const GanttChart: React.FC<GanttChartProps> = ({
 
   const pixelsPerDay = VIEW_CONFIG[viewMode].pixelsPerDay;
 
-  // Date Parsing Helper
-  const parseDate = (dateStr: string) => {
-    const d = new Date(dateStr);
-    d.setHours(0,0,0,0);
-    return d;
-  };
-
-  const formatDate = (date: Date) => {
-    return date.toISOString().split('T')[0];
-  };
-
   // Combine tasks for display
   const allTasks = useMemo(() => {
     return [...tasks, ...pendingNewTasks];
   }, [tasks, pendingNewTasks]);
 
-  // Sorted Tasks
+  // WBS tree rows (depth-first, with generated codes)
+  const wbsRows = useMemo(() => buildWbsRows(allTasks), [allTasks]);
+  const wbsInfo = useMemo(() => new Map(wbsRows.map(row => [row.task.id, row])), [wbsRows]);
+  const constraintViolations = useMemo(() => new Map(findConstraintViolations(allTasks, calendar).map(v => [v.taskId, v])), [allTasks, calendar]);
+  const bookingConflicts = useMemo(() => findBookingConflicts(allTasks, resources, calendar), [allTasks, resources, calendar]);
+
+  const toggleCollapsed = (taskId: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) next.delete(taskId); else next.add(taskId);
+      return next;
+    });
+  };
+
+  // Sorted Tasks (rows hidden below collapsed summaries are skipped)
   const sortedTasks = useMemo(() => {
-    if (sortOrder === 'default') return allTasks;
-    return [...allTasks].sort((a, b) => {
-      const dateA = new Date(a.startDate).getTime();
-      const dateB = new Date(b.startDate).getTime();
-      return sortOrder === 'asc' ? dateA - dateB : dateB - dateA;
+    const visible = filterCollapsedRows(wbsRows, collapsedIds).map(row => row.task);
+    if (sortOrder === 'default') return visible;
+    return [...visible].sort((a, b) => {
+      const diff = diffDays(b.startDate, a.startDate);
+      return sortOrder === 'asc' ? diff : -diff;
     });
-  }, [allTasks, sortOrder]);
+  }, [wbsRows, collapsedIds, sortOrder]);
   
   // Calculations
-  const { minDate, totalWidth, ticks } = useMemo(() => {
-    if (allTasks.length === 0) return { minDate: new Date(), totalWidth: 0, ticks: [] };
+  const { minDay, totalWidth, ticks } = useMemo(() => {
+    if (allTasks.length === 0) return { minDay: toDayNumber(getToday()), totalWidth: 0, ticks: [] as number[] };
     
     // 1. Determine Min/Max dates from tasks
-    let startDates = allTasks.map(t => parseDate(t.startDate).getTime());
-    let endDates = allTasks.map(t => parseDate(t.endDate).getTime());
+    const startDays = allTasks.map(t => toDayNumber(t.startDate));
+    const endDays = allTasks.map(t => toDayNumber(t.endDate));
 
     proposedChanges.forEach(p => {
-        startDates.push(parseDate(p.newStartDate).getTime());
-        endDates.push(parseDate(p.newEndDate).getTime());
+        startDays.push(toDayNumber(p.newStartDate));
+        endDays.push(toDayNumber(p.newEndDate));
     });
-    
-    let min = new Date(Math.min(...startDates));
-    let max = new Date(Math.max(...endDates));
 
+    // Keep baseline ghost bars inside the visible range
+    if (baselineVariances) {
+        allTasks.forEach(t => {
+            const v = baselineVariances[t.id];
+            if (!v) return;
+            startDays.push(toDayNumber(v.baselineStart));
+            endDays.push(toDayNumber(v.baselineFinish));
+        });
+    }
+    
+    // Keep external predecessor stubs inside the visible range
+    (Object.values(externalLinks) as ResolvedExternalLink[][]).forEach(links => links.forEach(({ predecessor }) => {
+        if (!predecessor) return;
+        startDays.push(toDayNumber(predecessor.startDate));
+        endDays.push(toDayNumber(predecessor.endDate));
+    }));
+    
     // 2. Pad range
-    min.setDate(min.getDate() - 7);
-    max.setDate(max.getDate() + 30);
+    const min = Math.min(...startDays) - 7;
+    const max = Math.max(...endDays) + 30;
 
     // 3. Align Timeline Start based on View Mode
-    const timelineStart = new Date(min);
-    timelineStart.setHours(0,0,0,0);
-
-    if (viewMode === 'Week') {
-        const day = timelineStart.getDay();
-        const diff = timelineStart.getDate() - day + (day === 0 ? -6 : 1); // Align to Monday
-        timelineStart.setDate(diff);
-    } else if (viewMode === 'Month') {
-        timelineStart.setDate(1);
-    } else if (viewMode === 'Quarter') {
-        timelineStart.setDate(1);
-        const qMonth = Math.floor(timelineStart.getMonth() / 3) * 3;
-        timelineStart.setMonth(qMonth);
-    }
+    const minParts = getDateParts(min);
+    const timelineStart = viewMode === 'Week' ? getWeekStart(min)
+        : viewMode === 'Month' ? getMonthStart(minParts.year, minParts.month)
+        : viewMode === 'Quarter' ? getMonthStart(minParts.year, Math.floor((minParts.month - 1) / 3) * 3 + 1)
+        : min;
 
     // 4. Generate Ticks
-    const generatedTicks: Date[] = [];
-    const iterator = new Date(timelineStart);
-    const targetEnd = new Date(max);
-    
+    const generatedTicks: number[] = [];
+    const maxParts = getDateParts(max);
     // Ensure we render enough ticks to cover the end date
-    if (viewMode === 'Month' || viewMode === 'Quarter') {
-        targetEnd.setDate(1);
-        targetEnd.setMonth(targetEnd.getMonth() + 2); 
-    } else {
-        targetEnd.setDate(targetEnd.getDate() + 14);
-    }
+    const targetEnd = viewMode === 'Month' || viewMode === 'Quarter'
+        ? getMonthStart(maxParts.year, maxParts.month + 2)
+        : max + 14;
 
-    while (iterator <= targetEnd) {
-        generatedTicks.push(new Date(iterator));
+    for (let tick = timelineStart; tick <= targetEnd; ) {
+        generatedTicks.push(tick);
         
         // Step forward
-        if (viewMode === 'Day') iterator.setDate(iterator.getDate() + 1);
-        else if (viewMode === 'Week') iterator.setDate(iterator.getDate() + 7);
-        else if (viewMode === 'Month') iterator.setMonth(iterator.getMonth() + 1);
-        else if (viewMode === 'Quarter') iterator.setMonth(iterator.getMonth() + 3);
+        const { year, month } = getDateParts(tick);
+        if (viewMode === 'Day') tick += 1;
+        else if (viewMode === 'Week') tick += 7;
+        else if (viewMode === 'Month') tick = getMonthStart(year, month + 1);
+        else tick = getMonthStart(year, month + 3);
     }
 
     // 5. Calculate Total Width
-    const lastTick = generatedTicks[generatedTicks.length - 1];
-    const totalDays = (lastTick.getTime() - timelineStart.getTime()) / (1000 * 60 * 60 * 24);
+    const totalDays = generatedTicks[generatedTicks.length - 1] - timelineStart;
     const width = totalDays * VIEW_CONFIG[viewMode].pixelsPerDay;
 
-    return { minDate: timelineStart, totalWidth: width, ticks: generatedTicks };
-  }, [allTasks, proposedChanges, viewMode]);
+    return { minDay: timelineStart, totalWidth: width, ticks: generatedTicks };
+  }, [allTasks, proposedChanges, baselineVariances, externalLinks, viewMode]);
+
+  // Non-working days (weekends, holidays, shutdowns) shaded in Day / Week views
+  const nonWorkingDays = useMemo(() => {
+    if (pixelsPerDay < 16 || ticks.length === 0) return [];
+    const days: { date: string; name: string; isWeekend: boolean }[] = [];
+    const lastTick = ticks[ticks.length - 1];
+    for (let day = minDay; day < lastTick; day++) {
+        const info = getNonWorkingDayInfo(day, calendar);
+        if (info) days.push({ date: fromDayNumber(day), ...info });
+    }
+    return days;
+  }, [minDay, ticks, pixelsPerDay, calendar]);
 
   // Position Helpers
-  const getX = (dateStr: string | Date) => {
-    const date = typeof dateStr === 'string' ? parseDate(dateStr) : dateStr;
-    const diffTime = date.getTime() - minDate.getTime();
-    const days = diffTime / (1000 * 60 * 60 * 24);
-    return days * pixelsPerDay;
+  const getX = (date: string | number) => {
+    const day = typeof date === 'string' ? toDayNumber(date) : date;
+    return (day - minDay) * pixelsPerDay;
   };
 
   const getWidth = (startStr: string, endStr: string) => {
-    const start = parseDate(startStr);
-    const end = parseDate(endStr);
-    const diffTime = Math.abs(end.getTime() - start.getTime());
-    const days = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1; // Inclusive
+    const days = Math.abs(diffDays(startStr, endStr)) + 1; // Inclusive
     return days * pixelsPerDay;
   };
 
+  // Milestones mark the end of their day
+  const getMilestoneX = (dateStr: string) => getX(dateStr) + pixelsPerDay;
+
   // --- Dependency Visualization Logic ---
   const { dependencyLines, relatedTaskIds } = useMemo(() => {
-    if (!hoveredTaskId) return { dependencyLines: [], relatedTaskIds: new Set<string>() };
+    if (!hoveredTaskId && !showCriticalPath) return { dependencyLines: [], relatedTaskIds: new Set<string>() };
 
     const lines: React.ReactElement[] = [];
     const relatedIds = new Set<string>();
@@ -247,77 +294,93 @@ const GanttChart: React.FC<GanttChartProps> = ({
     const taskIndexMap = new Map<string, number>();
     sortedTasks.forEach((t, i) => taskIndexMap.set(t.id, i));
 
+    // Build the arrow for one link. Anchors depend on the link type:
+    // FS = end -> start, SS = start -> start, FF = end -> end, SF = start -> end
+    const buildLink = (pred: Task, predIndex: number, succ: Task, succIndex: number, link: TaskDependency, color: string, marker: string) => {
+        const fromStart = link.type === 'SS' || link.type === 'SF';
+        const toEnd = link.type === 'FF' || link.type === 'SF';
+
+        // Milestones are drawn at the end of their day, both anchors sit on the diamond
+        const startX = isMilestone(pred) ? getMilestoneX(pred.startDate) : getX(pred.startDate) + (fromStart ? 0 : getWidth(pred.startDate, pred.endDate));
+        const startY = (predIndex * ROW_HEIGHT) + (ROW_HEIGHT / 2);
+        const endX = isMilestone(succ) ? getMilestoneX(succ.startDate) : getX(succ.startDate) + (toEnd ? getWidth(succ.startDate, succ.endDate) : 0);
+        const endY = (succIndex * ROW_HEIGHT) + (ROW_HEIGHT / 2);
+
+        // Draw Curve (control points leave/enter on the side of the anchored edge)
+        const controlPointOffset = 20;
+        const c1X = startX + (fromStart ? -controlPointOffset : controlPointOffset);
+        const c2X = endX + (toEnd ? controlPointOffset : -controlPointOffset);
+        const path = `M ${startX} ${startY} C ${c1X} ${startY}, ${c2X} ${endY}, ${endX} ${endY}`;
+        const key = `dep-${pred.id}-${succ.id}`;
+
+        lines.push(
+            <path 
+                key={key} 
+                d={path} 
+                stroke={color}
+                strokeWidth="2" 
+                fill="none" 
+                markerEnd={`url(#${marker})`}
+            />
+        );
+
+        // Label non-default links (type other than FS, or with lag/lead)
+        if (link.type !== 'FS' || link.lagDays !== 0) {
+            lines.push(
+                <text key={`${key}-label`} x={(startX + endX) / 2} y={(startY + endY) / 2 - 4} fill={color} fontSize="10" fontWeight="bold" textAnchor="middle">
+                    {formatDependency(link).split(' ')[1]}
+                </text>
+            );
+        }
+    };
+
+    // Without hover: draw the critical chain (links between critical tasks)
+    if (!hoveredTaskId) {
+        sortedTasks.forEach((t, index) => {
+            if (!criticalPath[t.id]?.isCritical) return;
+            t.dependencies.forEach(link => {
+                const depTask = sortedTasks.find(d => d.id === link.taskId);
+                const depIndex = taskIndexMap.get(link.taskId);
+                if (depTask && depIndex !== undefined && criticalPath[depTask.id]?.isCritical) {
+                    buildLink(depTask, depIndex, t, index, link, "#EF4444", "arrowhead-red");
+                }
+            });
+        });
+        return { dependencyLines: lines, relatedTaskIds: relatedIds };
+    }
+
     const currentTask = sortedTasks.find(t => t.id === hoveredTaskId);
     if (!currentTask) return { dependencyLines: [], relatedTaskIds: new Set() };
 
     relatedIds.add(currentTask.id);
 
-    // 1. Draw lines from Predecessors -> Current
-    currentTask.dependencies.forEach(depId => {
-        const depTask = sortedTasks.find(t => t.id === depId);
-        const depIndex = taskIndexMap.get(depId);
+    // 1. Draw lines from Predecessors -> Current (Indigo 500)
+    currentTask.dependencies.forEach(link => {
+        const depTask = sortedTasks.find(t => t.id === link.taskId);
+        const depIndex = taskIndexMap.get(link.taskId);
         const currentIndex = taskIndexMap.get(currentTask.id);
 
         if (depTask && depIndex !== undefined && currentIndex !== undefined) {
-            relatedIds.add(depId);
-
-            // Correct StartX: Position + Width. Note: using startDate for position base.
-            const startX = getX(depTask.startDate) + getWidth(depTask.startDate, depTask.endDate);
-            const startY = (depIndex * ROW_HEIGHT) + (ROW_HEIGHT / 2);
-            
-            const endX = getX(currentTask.startDate);
-            const endY = (currentIndex * ROW_HEIGHT) + (ROW_HEIGHT / 2);
-
-            // Draw Curve
-            const controlPointOffset = 20;
-            const path = `M ${startX} ${startY} C ${startX + controlPointOffset} ${startY}, ${endX - controlPointOffset} ${endY}, ${endX} ${endY}`;
-            
-            lines.push(
-                <path 
-                    key={`dep-${depId}-${currentTask.id}`} 
-                    d={path} 
-                    stroke="#6366F1" // Indigo 500
-                    strokeWidth="2" 
-                    fill="none" 
-                    markerEnd="url(#arrowhead)"
-                />
-            );
+            relatedIds.add(link.taskId);
+            buildLink(depTask, depIndex, currentTask, currentIndex, link, "#6366F1", "arrowhead");
         }
     });
 
-    // 2. Draw lines from Current -> Successors
+    // 2. Draw lines from Current -> Successors (Amber 500)
     sortedTasks.forEach((t, index) => {
-        if (t.dependencies.includes(currentTask.id)) {
+        const link = t.dependencies.find(d => d.taskId === currentTask.id);
+        if (link) {
             relatedIds.add(t.id);
             
             const currentIndex = taskIndexMap.get(currentTask.id);
             if (currentIndex !== undefined) {
-                // Correct StartX: Position + Width. Note: using startDate for position base.
-                const startX = getX(currentTask.startDate) + getWidth(currentTask.startDate, currentTask.endDate);
-                const startY = (currentIndex * ROW_HEIGHT) + (ROW_HEIGHT / 2);
-
-                const endX = getX(t.startDate);
-                const endY = (index * ROW_HEIGHT) + (ROW_HEIGHT / 2);
-
-                const controlPointOffset = 20;
-                const path = `M ${startX} ${startY} C ${startX + controlPointOffset} ${startY}, ${endX - controlPointOffset} ${endY}, ${endX} ${endY}`;
-
-                lines.push(
-                    <path 
-                        key={`dep-${currentTask.id}-${t.id}`} 
-                        d={path} 
-                        stroke="#F59E0B" // Amber 500
-                        strokeWidth="2" 
-                        fill="none" 
-                        markerEnd="url(#arrowhead-amber)"
-                    />
-                );
+                buildLink(currentTask, currentIndex, t, index, link, "#F59E0B", "arrowhead-amber");
             }
         }
     });
 
     return { dependencyLines: lines, relatedTaskIds: relatedIds };
-  }, [hoveredTaskId, sortedTasks, minDate, pixelsPerDay, sidebarWidth]); // Added sidebarWidth dependency
+  }, [hoveredTaskId, sortedTasks, minDay, pixelsPerDay, sidebarWidth, showCriticalPath, criticalPath]); // Added sidebarWidth dependency
 
 
   // --- Sort Handler ---
@@ -412,6 +475,7 @@ const GanttChart: React.FC<GanttChartProps> = ({
   
   const handleTaskMouseDown = (e: React.MouseEvent, task: Task) => {
     if (readOnly) return; // Guard for Read Only
+    if (wbsInfo.get(task.id)?.hasChildren) return; // Summary dates are rolled up from children
 
     e.stopPropagation(); // Stop panning
     
@@ -424,10 +488,13 @@ const GanttChart: React.FC<GanttChartProps> = ({
     let mode: 'move' | 'resize-left' | 'resize-right' = 'move';
     const edgeThreshold = 10;
     
-    if (pixelsPerDay > 5) {
+    // Milestones have no duration, so they can only be moved
+    if (pixelsPerDay > 5 && !isMilestone(task)) {
         if (clickX <= edgeThreshold) mode = 'resize-left';
         else if (clickX >= rect.width - edgeThreshold) mode = 'resize-right';
     }
+    // Tasks pinned to a fixed date (must start / finish on) are edited through their constraint
+    if (mode === 'move' && (task.constraint?.type === 'MSO' || task.constraint?.type === 'MFO')) return;
 
     const initialLeft = getX(task.startDate);
     
@@ -436,8 +503,8 @@ const GanttChart: React.FC<GanttChartProps> = ({
         startX: e.pageX,
         initialLeft: initialLeft,
         currentLeft: initialLeft,
-        originalStartDate: parseDate(task.startDate),
-        originalEndDate: parseDate(task.endDate),
+        originalStartDay: toDayNumber(task.startDate),
+        originalEndDay: toDayNumber(task.endDate),
         mode
     });
     setPreviewDates({ start: task.startDate, end: task.endDate });
@@ -451,51 +518,48 @@ const GanttChart: React.FC<GanttChartProps> = ({
         const deltaX = e.pageX - dragState.startX;
         const daysShift = Math.round(deltaX / pixelsPerDay);
         
-        let newStart = new Date(dragState.originalStartDate);
-        let newEnd = new Date(dragState.originalEndDate);
+        let newStart = dragState.originalStartDay;
+        let newEnd = dragState.originalEndDay;
         let currentLeft = dragState.initialLeft;
 
         // Calculate based on mode
         if (dragState.mode === 'move') {
-            newStart.setDate(newStart.getDate() + daysShift);
-            newEnd.setDate(newEnd.getDate() + daysShift);
+            newStart += daysShift;
+            newEnd += daysShift;
             currentLeft = dragState.initialLeft + deltaX;
+
+            // Keep the working-day duration: moving over a weekend / holiday stretches the bar
+            const draggedTask = allTasks.find(t => t.id === dragState.taskId);
+            if (draggedTask) {
+                const span = getWorkingSpan(fromDayNumber(newStart), getWorkingDuration(draggedTask, calendar), calendar);
+                newStart = toDayNumber(span.startDate);
+                newEnd = toDayNumber(span.endDate);
+            }
         } else if (dragState.mode === 'resize-left') {
-            newStart.setDate(newStart.getDate() + daysShift);
+            newStart += daysShift;
             // Constraint: Start cannot be after End
-            if (newStart > newEnd) newStart = new Date(newEnd);
+            if (newStart > newEnd) newStart = newEnd;
             // Visual left only changes if we aren't blocked by end date
             if (newStart <= newEnd) currentLeft = dragState.initialLeft + (deltaX);
         } else if (dragState.mode === 'resize-right') {
-            newEnd.setDate(newEnd.getDate() + daysShift);
+            newEnd += daysShift;
             // Constraint: End cannot be before Start
-            if (newEnd < newStart) newEnd = new Date(newStart);
+            if (newEnd < newStart) newEnd = newStart;
         }
 
         // Update visual position state
         setDragState(prev => prev ? { ...prev, currentLeft: currentLeft } : null);
 
-        const newStartStr = formatDate(newStart);
-        const newEndStr = formatDate(newEnd);
+        const newStartStr = fromDayNumber(newStart);
+        const newEndStr = fromDayNumber(newEnd);
         
         setPreviewDates({ start: newStartStr, end: newEndStr });
 
-        // Check Conflicts
+        // Check Conflicts (honours link type and lag)
         const currentTask = allTasks.find(t => t.id === dragState.taskId);
         if (currentTask && currentTask.dependencies.length > 0) {
-            let foundConflict = null;
-            for (const depId of currentTask.dependencies) {
-                const depTask = allTasks.find(t => t.id === depId);
-                if (depTask) {
-                    const depEnd = parseDate(depTask.endDate);
-                    // If New Start <= Dependency End, Conflict!
-                    if (newStart <= depEnd) {
-                        foundConflict = depId;
-                        break;
-                    }
-                }
-            }
-            setConflictDependencyId(foundConflict);
+            const found = findDependencyConflict({ ...currentTask, startDate: newStartStr, endDate: newEndStr }, allTasks, calendar);
+            setConflictDependencyId(found ? found.dependency.id : null);
         }
     };
 
@@ -536,7 +600,7 @@ const GanttChart: React.FC<GanttChartProps> = ({
         window.removeEventListener('mouseup', handleGlobalMouseUp);
         document.body.style.cursor = '';
     };
-  }, [dragState, pixelsPerDay, allTasks, onTaskUpdate]);
+  }, [dragState, pixelsPerDay, allTasks, onTaskUpdate, calendar]);
 
   // --- Row Reordering Handlers (Sidebar) ---
   const handleRowDragStart = (e: React.DragEvent, index: number) => {
@@ -556,10 +620,15 @@ const GanttChart: React.FC<GanttChartProps> = ({
   const handleRowDrop = (e: React.DragEvent) => {
       e.preventDefault();
       if (draggedTaskIndex !== null && dragOverIndex !== null && onTaskReorder && sortOrder === 'default' && !readOnly) {
-          const newTasks = [...allTasks];
-          const [movedTask] = newTasks.splice(draggedTaskIndex, 1);
-          newTasks.splice(dragOverIndex, 0, movedTask);
-          onTaskReorder(newTasks.filter(t => !t.isNew)); // Only reorder existing tasks for now
+          // Rows are shown in WBS order: the moved task becomes a sibling of the drop target
+          const movedTask = sortedTasks[draggedTaskIndex];
+          const targetTask = sortedTasks[dragOverIndex];
+          if (!getDescendantIds(movedTask.id, allTasks).has(targetTask.id)) {
+              const newTasks = allTasks.filter(t => t.id !== movedTask.id);
+              const targetIndex = newTasks.findIndex(t => t.id === targetTask.id);
+              newTasks.splice(draggedTaskIndex < dragOverIndex ? targetIndex + 1 : targetIndex, 0, { ...movedTask, parentId: targetTask.parentId });
+              onTaskReorder(newTasks.filter(t => !t.isNew)); // Only reorder existing tasks for now
+          }
       }
       setDraggedTaskIndex(null);
       setDragOverIndex(null);
@@ -573,10 +642,20 @@ const GanttChart: React.FC<GanttChartProps> = ({
     setEditValues({
       name: task.name,
       assignee: task.assignee,
+      kind: task.kind,
+      parentId: task.parentId,
+      resources: task.resources ? [...task.resources] : [],
+      constraint: task.constraint,
+      estimate: task.estimate,
+      budgetCost: task.budgetCost,
+      actualCost: task.actualCost,
+      recurrence: task.recurrence,
       startDate: task.startDate,
       endDate: task.endDate,
-      dependencies: task.dependencies ? [...task.dependencies] : []
+      dependencies: task.dependencies ? [...task.dependencies] : [],
+      externalDependencies: task.externalDependencies ? [...task.externalDependencies] : []
     });
+    setExternalPick({ projectId: '', taskId: '' });
   };
 
   const cancelEditing = () => {
@@ -584,13 +663,22 @@ const GanttChart: React.FC<GanttChartProps> = ({
     setEditValues({});
   };
 
+  // Cross-project predecessor whose project or task was deleted since the link was made
+  const isExternalLinkMissing = (link: ExternalDependency): boolean => {
+    const resolved = editingTaskId ? externalLinks[editingTaskId]?.find(l => l.link.projectId === link.projectId && l.link.taskId === link.taskId) : undefined;
+    const predecessor = resolved ? resolved.predecessor : linkableProjects.find(p => p.id === link.projectId)?.tasks.find(t => t.id === link.taskId);
+    return !predecessor;
+  };
+  const missingExternalLinks = (editValues.externalDependencies || []).filter(isExternalLinkMissing);
+
   const saveEditing = () => {
+    if (missingExternalLinks.length > 0) return;
     if (editingTaskId && onTaskUpdate) {
       const originalTask = allTasks.find(t => t.id === editingTaskId);
       if (originalTask) {
         onTaskUpdate({
           ...originalTask,
-          ...editValues as any 
+          ...editValues
         });
       }
     }
@@ -598,10 +686,65 @@ const GanttChart: React.FC<GanttChartProps> = ({
     setEditValues({});
   };
 
-  const handleInputChange = (field: keyof Task, value: any) => {
+  const handleInputChange = <K extends keyof Task>(field: K, value: Task[K]) => {
     setEditValues(prev => ({ ...prev, [field]: value }));
   };
 
+  // Resource assignment helpers (Edit Modal)
+  const toggleResourceAssignment = (resourceId: string) => {
+    setEditValues(prev => {
+      const current = prev.resources || [];
+      const next: ResourceAssignment[] = current.some(a => a.resourceId === resourceId)
+        ? current.filter(a => a.resourceId !== resourceId)
+        : [...current, { resourceId, units: 1 }];
+      return { ...prev, resources: next };
+    });
+  };
+
+  const updateResourceUnits = (resourceId: string, units: number) => {
+    setEditValues(prev => ({
+      ...prev,
+      resources: (prev.resources || []).map(a => a.resourceId === resourceId ? { ...a, units: Math.max(units, 0) } : a)
+    }));
+  };
+
+  // External predecessor helpers (Edit Modal)
+  const addExternalDependency = () => {
+    if (!externalPick.projectId || !externalPick.taskId) return;
+    setEditValues(prev => {
+      const current = prev.externalDependencies || [];
+      if (current.some(l => l.projectId === externalPick.projectId && l.taskId === externalPick.taskId)) return prev;
+      return { ...prev, externalDependencies: [...current, { ...externalPick, type: 'FS' as DependencyType, lagDays: 0 }] };
+    });
+    setExternalPick({ projectId: externalPick.projectId, taskId: '' });
+  };
+
+  const updateExternalDependency = (index: number, patch: Partial<ExternalDependency> | null) => {
+    setEditValues(prev => ({
+      ...prev,
+      externalDependencies: patch
+        ? (prev.externalDependencies || []).map((l, i) => i === index ? { ...l, ...patch } : l)
+        : (prev.externalDependencies || []).filter((_, i) => i !== index)
+    }));
+  };
+
+  // Recurrence rule (Edit Modal): switching it on starts from the task's own dates
+  const updateRecurrence = (patch: Partial<RecurrenceRule> | null) => {
+    setEditValues(prev => ({
+      ...prev,
+      recurrence: patch ? { ...(prev.recurrence || createDefaultRecurrence(prev as Task)), ...patch } : undefined
+    }));
+  };
+
+  // Three-point estimate (Edit Modal): fields left empty fall back to the planned duration
+  const updateEstimate = (field: keyof DurationEstimate, value: string) => {
+    setEditValues(prev => {
+      const planned = prev.startDate && prev.endDate ? getWorkingDuration(prev as Task, calendar) : 1;
+      const base = prev.estimate || { optimistic: planned, mostLikely: planned, pessimistic: planned };
+      return { ...prev, estimate: { ...base, [field]: Math.max(Number(value) || 0, 0) } };
+    });
+  };
+
   // Delete Confirm Logic
   const confirmDelete = () => {
       if (deletingTask && onTaskDelete) {
@@ -658,7 +801,7 @@ const GanttChart: React.FC<GanttChartProps> = ({
                                 className="flex flex-col items-center justify-center border-r border-[#E0E2E5] text-xs text-[#5F6368] h-full" 
                                 style={{ width: colWidth }}
                             >
-                                <span className={`font-medium ${tick.getDay() === 0 || tick.getDay() === 6 ? 'text-[#9AA0A6]' : ''}`}>
+                                <span className={`font-medium ${viewMode === 'Day' && !isWorkingDay(tick, calendar) ? 'text-[#9AA0A6]' : ''}`}>
                                     {VIEW_CONFIG[viewMode].headerFormat(tick)}
                                 </span>
                                 {VIEW_CONFIG[viewMode].subHeaderFormat(tick) && (
@@ -689,6 +832,17 @@ const GanttChart: React.FC<GanttChartProps> = ({
                      })}
                 </div>
 
+                {/* Non-Working Day Shading (weekends grey, holidays & shutdowns amber) */}
+                <div className="absolute top-0 bottom-0 pointer-events-none z-0" style={{ left: sidebarWidth, width: totalWidth }}>
+                    {nonWorkingDays.map(day => (
+                        <div 
+                            key={day.date}
+                            className={`absolute top-0 bottom-0 ${day.isWeekend ? 'bg-[#F1F3F4]/70' : 'bg-amber-50/80'}`}
+                            style={{ left: getX(day.date), width: pixelsPerDay }}
+                        ></div>
+                    ))}
+                </div>
+
                 {/* SVG Layer for Dependency Lines - Z-Index 10 */}
                 <svg className="absolute top-0 bottom-0 pointer-events-none z-10" style={{ left: sidebarWidth, width: totalWidth, height: '100%' }}>
                     <defs>
@@ -698,6 +852,9 @@ const GanttChart: React.FC<GanttChartProps> = ({
                         <marker id="arrowhead-amber" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
                             <polygon points="0 0, 10 3.5, 0 7" fill="#F59E0B" />
                         </marker>
+                        <marker id="arrowhead-red" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
+                            <polygon points="0 0, 10 3.5, 0 7" fill="#EF4444" />
+                        </marker>
                     </defs>
                     {dependencyLines}
                 </svg>
@@ -709,6 +866,18 @@ const GanttChart: React.FC<GanttChartProps> = ({
                     const isEditing = editingTaskId === task.id;
                     const isDraggingThis = dragState?.taskId === task.id;
                     const isConflictDependency = conflictDependencyId === task.id;
+                    const isCriticalHighlight = showCriticalPath && !!criticalPath[task.id]?.isCritical;
+                    const variance = baselineVariances?.[task.id];
+                    const referenceLabel = comparisonLabel || '基线';
+                    // Scenario comparison: highlight every row whose dates differ from the other plan
+                    const isAddedVsReference = !!comparisonLabel && !variance && !isNew;
+                    const isChangedVsReference = !!comparisonLabel && (isAddedVsReference || (!!variance && (variance.startVariance !== 0 || variance.finishVariance !== 0)));
+                    const wbs = wbsInfo.get(task.id);
+                    const isSummary = !!wbs?.hasChildren;
+                    const constraintViolation = constraintViolations.get(task.id);
+                    const taskBookingConflicts = bookingConflicts.filter(c => c.taskIds.includes(task.id));
+                    const externals = externalLinks[task.id] || [];
+                    const hasExternalViolation = externals.some(l => l.isViolated);
                     
                     // Hover State Logic
                     const isHovered = hoveredTaskId === task.id;
@@ -730,6 +899,10 @@ const GanttChart: React.FC<GanttChartProps> = ({
                          taskWidth = draggedDateWidth;
                     }
 
+                    // Milestones: a diamond centred on the end of their day
+                    const milestone = isMilestone(task);
+                    const markerLeft = taskLeft + pixelsPerDay - MILESTONE_SIZE / 2;
+
                     return (
                         <div 
                             key={task.id} 
@@ -738,6 +911,7 @@ const GanttChart: React.FC<GanttChartProps> = ({
                                 ${dragOverIndex === index ? 'border-b-2 border-b-indigo-500 bg-indigo-50' : ''}
                                 ${draggedTaskIndex === index ? 'opacity-50' : ''}
                                 ${shouldDim ? 'opacity-30 blur-[0.5px] grayscale' : 'opacity-100'}
+                                ${isChangedVsReference ? 'shadow-[inset_3px_0_0_#F59E0B]' : ''}
                             `}
                             style={{ height: ROW_HEIGHT }}
                         >
@@ -753,7 +927,7 @@ const GanttChart: React.FC<GanttChartProps> = ({
                               onMouseDown={(e) => e.stopPropagation()} // Allow editing inputs to work
                             >
                                 <div className="flex items-center justify-between w-full group-hover/row:translate-x-1 transition-transform">
-                                  <div className="flex items-center gap-1 md:gap-2 min-w-0">
+                                  <div className="flex items-center gap-1 md:gap-2 min-w-0" style={{ paddingLeft: (wbs?.depth || 0) * 12 }}>
                                       {/* Drag Handle (Only visible when hovering, not sorting, and not readOnly) */}
                                       {!isNew && !readOnly && sortOrder === 'default' && (
                                         <span 
@@ -767,7 +941,58 @@ const GanttChart: React.FC<GanttChartProps> = ({
                                       {isNew && (
                                           <span className="material-symbols-outlined text-[14px] md:text-[16px] text-indigo-600 animate-pulse shrink-0">auto_awesome</span>
                                       )}
-                                      <div className={`text-xs md:text-sm font-medium line-clamp-2 leading-tight whitespace-normal break-words ${isNew ? 'text-indigo-700' : 'text-[#1F1F1F]'}`} title={task.name}>{task.name}</div>
+                                      {isSummary && (
+                                          <button 
+                                            onClick={() => toggleCollapsed(task.id)}
+                                            className="h-5 w-5 -ml-1 rounded hover:bg-[#E0E2E5] flex items-center justify-center text-[#5F6368] shrink-0"
+                                            title={collapsedIds.has(task.id) ? '展开' : '折叠'}
+                                          >
+                                            <span className="material-symbols-outlined text-[16px]">{collapsedIds.has(task.id) ? 'chevron_right' : 'expand_more'}</span>
+                                          </button>
+                                      )}
+                                      {milestone && (
+                                          <span className="material-symbols-outlined text-[14px] md:text-[16px] text-amber-600 shrink-0" title="里程碑">flag</span>
+                                      )}
+                                      {task.constraint && (
+                                          <span 
+                                            className={`material-symbols-outlined text-[14px] md:text-[16px] shrink-0 ${constraintViolation ? 'text-red-600' : 'text-slate-500'}`}
+                                            title={`${CONSTRAINT_TYPE_LABELS[task.constraint.type]} ${task.constraint.date}${constraintViolation ? `，偏差 ${constraintViolation.workingDaysOff} 个工作日` : ''}`}
+                                          >
+                                            {constraintViolation ? 'event_busy' : 'event'}
+                                          </span>
+                                      )}
+                                      {taskBookingConflicts.length > 0 && (
+                                          <span 
+                                            className="material-symbols-outlined text-[14px] md:text-[16px] text-red-600 shrink-0"
+                                            title={taskBookingConflicts.map(c => `${c.resourceName} 重复预约 ${c.startDate} ~ ${c.endDate}：${c.taskIds.filter(id => id !== task.id).map(id => allTasks.find(t => t.id === id)?.name || id).join('、')}`).join('\n')}
+                                          >
+                                            event_busy
+                                          </span>
+                                      )}
+                                      {(task.recurrence || isOccurrence(task)) && (
+                                          <span 
+                                            className="material-symbols-outlined text-[14px] md:text-[16px] text-[#5F6368] shrink-0"
+                                            title={task.recurrence ? `重复任务：${formatRecurrence(task.recurrence)}` : '重复任务的一次（修改日期或删除只影响这一次）'}
+                                          >
+                                            event_repeat
+                                          </span>
+                                      )}
+                                      {externals.length > 0 && (
+                                          <span 
+                                            className={`material-symbols-outlined text-[14px] md:text-[16px] shrink-0 ${hasExternalViolation ? 'text-red-600' : externals.some(l => !l.isVisible) ? 'text-amber-600' : 'text-sky-600'}`}
+                                            title={externals.map(l => !l.project || !l.predecessor
+                                                ? '外部前置任务已不存在'
+                                                : !l.isVisible
+                                                ? `依赖无权查看的项目: ${formatDependency({ ...l.link, taskId: '外部任务' })}`
+                                                : `依赖「${l.project.name}」: ${formatDependency({ ...l.link, taskId: l.predecessor.name })}${l.isViolated ? '，当前开始早于外部前置允许的日期' : ''}`).join('\n')}
+                                          >
+                                            {externals.some(l => !l.isVisible) ? 'link_off' : 'link'}
+                                          </span>
+                                      )}
+                                      <div className={`text-xs md:text-sm line-clamp-2 leading-tight whitespace-normal break-words ${isSummary ? 'font-bold' : 'font-medium'} ${isNew ? 'text-indigo-700' : 'text-[#1F1F1F]'}`} title={task.name}>
+                                          {wbs && <span className="font-mono text-[10px] text-[#9AA0A6] mr-1">{wbs.code}</span>}
+                                          {task.name}
+                                      </div>
                                   </div>
                                   
                                   {/* Actions: Edit & Delete (Disabled for new tasks pending confirmation and readOnly mode) */}
@@ -819,12 +1044,118 @@ const GanttChart: React.FC<GanttChartProps> = ({
                                         {task.assignee.charAt(0)}
                                     </div>
                                     <div className={`text-[10px] md:text-xs ${isNew ? 'text-indigo-500' : 'text-[#5F6368]'}`}>{task.assignee}</div>
+                                    {variance && variance.finishVariance !== 0 && (
+                                        <span 
+                                            className={`ml-auto text-[9px] md:text-[10px] font-bold px-1.5 py-0.5 rounded-full ${variance.finishVariance > 0 ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-700'}`}
+                                            title={`较${referenceLabel}完成 ${formatVariance(variance.finishVariance)} 工作日 (开始 ${formatVariance(variance.startVariance)})`}
+                                        >
+                                            {formatVariance(variance.finishVariance)}d
+                                        </span>
+                                    )}
+                                    {isAddedVsReference && (
+                                        <span className="ml-auto text-[9px] md:text-[10px] font-bold px-1.5 py-0.5 rounded-full bg-amber-50 text-amber-700" title={`${referenceLabel}中没有此任务`}>
+                                            新增
+                                        </span>
+                                    )}
                                 </div>
                             </div>
 
                             {/* Gantt Bar Area - Z-Index 20 */}
                             <div className="relative flex-1 h-full flex items-center z-20">
+                                {/* Baseline / Compared Plan Ghost Bar */}
+                                {variance && (
+                                    <div 
+                                        className={`absolute bottom-1 h-1.5 rounded-full pointer-events-none ${comparisonLabel ? 'bg-amber-400/50 border border-amber-500/60' : 'bg-slate-400/50 border border-slate-400/60'}`}
+                                        style={{
+                                            left: getX(variance.baselineStart),
+                                            width: getWidth(variance.baselineStart, variance.baselineFinish)
+                                        }}
+                                        title={`${referenceLabel}: ${variance.baselineStart} ~ ${variance.baselineFinish}`}
+                                    />
+                                )}
+
+                                {/* External Predecessor Stubs (dashed, at the predecessor's dates in the other project) */}
+                                {externals.map(({ link, project, predecessor, isVisible, isViolated }) => predecessor && (
+                                    <div 
+                                        key={`${link.projectId}-${link.taskId}`}
+                                        className={`absolute top-1 h-3 rounded border border-dashed pointer-events-auto flex items-center px-1 overflow-hidden text-[9px] whitespace-nowrap
+                                            ${isViolated ? 'border-red-500 bg-red-50/70 text-red-700' : 'border-sky-500 bg-sky-50/70 text-sky-700'}`}
+                                        style={{
+                                            left: getX(predecessor.startDate),
+                                            width: Math.max(getWidth(predecessor.startDate, predecessor.endDate), 6)
+                                        }}
+                                        title={isVisible
+                                            ? `外部前置：「${project!.name}」${predecessor.name} ${predecessor.startDate} ~ ${predecessor.endDate}`
+                                            : `外部前置 (无权查看的项目) ${predecessor.startDate} ~ ${predecessor.endDate}`}
+                                    >
+                                        {!isVisible && <span className="material-symbols-outlined text-[10px] mr-0.5">lock</span>}
+                                        {isVisible ? predecessor.name : '无权查看的项目'}
+                                    </div>
+                                ))}
+
+                                {/* Date Constraint Marker (finish constraints sit on the end of their day) */}
+                                {task.constraint && (
+                                    <div 
+                                        className={`absolute top-1 bottom-1 w-0.5 rounded-full pointer-events-none ${constraintViolation ? 'bg-red-500' : 'bg-slate-500/60'}`}
+                                        style={{ left: getX(task.constraint.date) + (['FNET', 'FNLT', 'MFO'].includes(task.constraint.type) ? pixelsPerDay : 0) - 1 }}
+                                    />
+                                )}
+
+                                {/* Milestone Diamond */}
+                                {milestone && (
+                                    <div 
+                                        onMouseDown={(e) => !isNew && !isEditing && handleTaskMouseDown(e, task)}
+                                        onMouseEnter={() => setHoveredTaskId(task.id)}
+                                        onMouseLeave={() => setHoveredTaskId(null)}
+                                        className={`absolute rotate-45 rounded-[3px] border-2 shadow-sm transition-all duration-150 select-none
+                                            ${!isDraggingThis && !readOnly && !isNew ? 'cursor-grab' : 'cursor-default'}
+                                            ${isDraggingThis ? 'cursor-grabbing shadow-lg ring-2 ring-offset-2 z-50' : ''}
+                                            ${isDraggingThis && conflictDependencyId ? 'ring-red-500 bg-red-200 border-red-500' : ''}
+                                            ${isConflictDependency ? 'ring-2 ring-red-500 ring-offset-1 animate-pulse' : ''}
+                                            ${isChanging || isEditing ? 'opacity-40 grayscale' : ''}
+                                            ${isNew ? 'bg-indigo-100 border-indigo-400 border-dashed animate-pulse' : ''}
+                                            ${!isNew && !(isDraggingThis && conflictDependencyId) ? (task.progress >= 100 ? 'bg-amber-500 border-amber-600' : 'bg-amber-200 border-amber-500') : ''}
+                                            ${isHovered ? 'ring-2 ring-indigo-500 ring-offset-1 z-30' : ''}
+                                            ${isRelated && !isHovered ? 'ring-1 ring-indigo-300 ring-offset-1' : ''}
+                                            ${isCriticalHighlight && !isHovered && !isDraggingThis ? 'ring-2 ring-red-500 ring-offset-1' : ''}
+                                        `}
+                                        style={{ left: markerLeft, width: MILESTONE_SIZE, height: MILESTONE_SIZE }}
+                                        title={`${task.name} (${task.startDate})`}
+                                    >
+                                        {/* Dragging Tooltip (counter-rotated) */}
+                                        {isDraggingThis && previewDates && (
+                                            <div className={`absolute -top-10 left-1/2 -translate-x-1/2 -rotate-45 px-2 py-1 rounded shadow-md text-[10px] font-bold whitespace-nowrap z-[60] flex items-center gap-1
+                                                ${conflictDependencyId ? 'bg-red-600 text-white' : 'bg-[#1F1F1F] text-white'}
+                                            `}>
+                                                {conflictDependencyId && <span className="material-symbols-outlined text-[12px]">warning</span>}
+                                                {previewDates.start.slice(5).replace('-','/')}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {/* Summary Bar (rolled up from children, not draggable) */}
+                                {isSummary && (
+                                    <div 
+                                        onMouseEnter={() => setHoveredTaskId(task.id)}
+                                        onMouseLeave={() => setHoveredTaskId(null)}
+                                        className={`absolute h-2.5 md:h-3 bg-[#444746] rounded-sm transition-all duration-150 select-none cursor-default
+                                            ${isChanging || isEditing ? 'opacity-40' : ''}
+                                            ${isHovered ? 'ring-2 ring-indigo-500 ring-offset-1 z-30' : ''}
+                                            ${isRelated && !isHovered ? 'ring-1 ring-indigo-300 ring-offset-1' : ''}
+                                            ${isCriticalHighlight && !isHovered ? 'ring-2 ring-red-500 ring-offset-1' : ''}
+                                        `}
+                                        style={{ left: taskLeft, width: taskWidth }}
+                                        title={`${task.name}: ${task.startDate} ~ ${task.endDate} (${task.progress}%)`}
+                                    >
+                                        <div className="h-full bg-indigo-400 rounded-sm" style={{ width: `${task.progress}%` }}></div>
+                                        <div className="absolute left-0 top-full w-0 h-0 border-r-[6px] border-r-transparent border-t-[6px] border-t-[#444746]"></div>
+                                        <div className="absolute right-0 top-full w-0 h-0 border-l-[6px] border-l-transparent border-t-[6px] border-t-[#444746]"></div>
+                                    </div>
+                                )}
+
                                 {/* Current Task Bar */}
+                                {!milestone && !isSummary && (
                                 <div 
                                     onMouseDown={(e) => !isNew && !isEditing && handleTaskMouseDown(e, task)}
                                     onMouseEnter={() => setHoveredTaskId(task.id)}
@@ -843,6 +1174,7 @@ const GanttChart: React.FC<GanttChartProps> = ({
                                             : !isNew && !isDraggingThis && 'bg-[#D3E3FD] border-[#A8C7FA] text-[#041E49]'}
                                         ${isHovered ? 'ring-2 ring-indigo-500 ring-offset-1 z-30 scale-[1.01]' : ''}
                                         ${isRelated && !isHovered ? 'ring-1 ring-indigo-300 ring-offset-1 opacity-100' : ''}
+                                        ${isCriticalHighlight && !isHovered && !isDraggingThis ? 'ring-2 ring-red-500 ring-offset-1' : ''}
                                     `}
                                     style={{
                                         left: taskLeft,
@@ -874,7 +1206,11 @@ const GanttChart: React.FC<GanttChartProps> = ({
                                     {isDraggingThis && (
                                          <span className="font-medium drop-shadow-sm">{task.name}</span>
                                     )}
+                                    {!isNew && !isDraggingThis && !isChanging && !isEditing && (
+                                        <SignatureBadge task={task} onClick={onOpenSignatures} className="ml-auto" />
+                                    )}
                                 </div>
+                                )}
 
                                 {/* Right-side Label for Full Name Display */}
                                 {!isDraggingThis && !isEditing && (
@@ -885,9 +1221,12 @@ const GanttChart: React.FC<GanttChartProps> = ({
                                             ${shouldDim ? 'opacity-30' : 'opacity-100'}
                                         `}
                                         style={{
-                                            left: taskLeft + taskWidth
+                                            left: milestone ? markerLeft + MILESTONE_SIZE : taskLeft + taskWidth
                                         }}
                                     >
+                                        {(milestone || isSummary) && !isNew && (
+                                            <SignatureBadge task={task} onClick={onOpenSignatures} className="pointer-events-auto mr-1" />
+                                        )}
                                         {task.name}
                                     </div>
                                 )}
@@ -970,10 +1309,87 @@ const GanttChart: React.FC<GanttChartProps> = ({
                           <label htmlFor="task-assignee" className="absolute left-4 top-2 text-[10px] text-white/60 font-medium peer-placeholder-shown:top-4 peer-placeholder-shown:text-sm peer-focus:top-2 peer-focus:text-[10px] peer-focus:text-indigo-300 transition-all pointer-events-none">负责人</label>
                       </div>
 
-                      {/* Dates */}
-                      <div className="grid grid-cols-2 gap-3">
+                      {/* Resource Assignments */}
+                      {resources.length > 0 && !wbsInfo.get(editingTaskId)?.hasChildren && editValues.kind !== 'milestone' && (
                           <div>
-                              <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">开始日期</label>
+                              <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">资源分配与设备/房间预约 (单位/工作日)</label>
+                              <div className="flex flex-wrap gap-1.5">
+                                  {resources.map(r => {
+                                      const assignment = (editValues.resources || []).find(a => a.resourceId === r.id);
+                                      return (
+                                          <div key={r.id} className={`flex items-center rounded-full border text-xs transition-colors ${assignment ? 'bg-indigo-50 border-indigo-300 text-indigo-700' : 'bg-white border-[#E0E2E5] text-[#5F6368]'}`}>
+                                              <button onClick={() => toggleResourceAssignment(r.id)} className="px-2.5 py-1 flex items-center gap-1" title={RESOURCE_KIND_LABELS[r.kind]}>
+                                                  {isAssetResource(r) && <span className="material-symbols-outlined text-[14px]">{r.kind === 'room' ? 'meeting_room' : 'precision_manufacturing'}</span>}
+                                                  {r.name}
+                                              </button>
+                                              {assignment && (
+                                                  <input 
+                                                    type="number"
+                                                    min={0}
+                                                    step={0.5}
+                                                    value={assignment.units}
+                                                    onChange={(e) => updateResourceUnits(r.id, Number(e.target.value))}
+                                                    className="w-10 h-6 mr-1 rounded-full border border-indigo-200 bg-white text-center text-[11px] outline-none"
+                                                  />
+                                              )}
+                                          </div>
+                                      );
+                                  })}
+                              </div>
+                              {!resources.some(r => !isAssetResource(r) && (editValues.resources || []).some(a => a.resourceId === r.id)) && (
+                                  <div className="text-[10px] text-[#9AA0A6] mt-1 ml-1">未分配人员时按负责人名称匹配</div>
+                              )}
+                          </div>
+                      )}
+
+                      {/* Parent (WBS) */}
+                      <div>
+                          <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">上级任务 (WBS)</label>
+                          <select 
+                            value={editValues.parentId || ''}
+                            onChange={(e) => handleInputChange('parentId', e.target.value || undefined)}
+                            className="w-full h-10 rounded-lg border border-[#747775] px-2 text-sm text-[#1F1F1F] focus:border-indigo-600 focus:ring-1 focus:ring-indigo-600 outline-none bg-transparent"
+                          >
+                              <option value="">无 (顶层任务)</option>
+                              {(() => {
+                                  const excluded = getDescendantIds(editingTaskId, allTasks);
+                                  return wbsRows
+                                      .filter(({ task: t }) => t.id !== editingTaskId && !excluded.has(t.id) && !isMilestone(t) && !t.isNew)
+                                      .map(({ task: t, code, depth }) => (
+                                          <option key={t.id} value={t.id}>{'\u00A0'.repeat(depth * 2)}{code} {t.name}</option>
+                                      ));
+                              })()}
+                          </select>
+                      </div>
+
+                      {/* Milestone Toggle */}
+                      {!wbsInfo.get(editingTaskId)?.hasChildren && (
+                      <label className="flex items-center gap-2 text-xs text-[#1F1F1F] cursor-pointer select-none ml-1">
+                          <input 
+                            type="checkbox"
+                            checked={editValues.kind === 'milestone'}
+                            onChange={(e) => setEditValues(prev => ({
+                                ...prev,
+                                kind: e.target.checked ? 'milestone' : 'task',
+                                endDate: e.target.checked ? prev.startDate : prev.endDate
+                            }))}
+                            className="accent-amber-600"
+                          />
+                          <span className="material-symbols-outlined text-[16px] text-amber-600">flag</span>
+                          里程碑 (零工期)
+                      </label>
+                      )}
+
+                      {/* Dates (summary dates are rolled up from the children) */}
+                      {wbsInfo.get(editingTaskId)?.hasChildren ? (
+                          <div className="rounded-lg border border-[#E0E2E5] bg-[#F8F9FA] p-3 text-[11px] text-[#5F6368]">
+                              摘要任务: <span className="font-mono text-[#1F1F1F]">{editValues.startDate} ~ {editValues.endDate}</span>
+                              <div className="mt-1">日期与进度由子任务汇总，请编辑子任务。</div>
+                          </div>
+                      ) : (
+                      <div className={`grid gap-3 ${editValues.kind === 'milestone' ? 'grid-cols-1' : 'grid-cols-2'}`}>
+                          <div>
+                              <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">{editValues.kind === 'milestone' ? '里程碑日期' : '开始日期'}</label>
                               <input 
                                 type="date"
                                 value={editValues.startDate || ''} 
@@ -981,6 +1397,7 @@ const GanttChart: React.FC<GanttChartProps> = ({
                                 className="w-full h-10 rounded-lg border border-[#747775] px-2 text-sm text-[#1F1F1F] focus:border-indigo-600 focus:ring-1 focus:ring-indigo-600 outline-none bg-transparent"
                               />
                           </div>
+                          {editValues.kind !== 'milestone' && (
                           <div>
                               <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">结束日期</label>
                               <input 
@@ -990,36 +1407,248 @@ const GanttChart: React.FC<GanttChartProps> = ({
                                 className="w-full h-10 rounded-lg border border-[#747775] px-2 text-sm text-[#1F1F1F] focus:border-indigo-600 focus:ring-1 focus:ring-indigo-600 outline-none bg-transparent"
                               />
                           </div>
+                          )}
                       </div>
+                      )}
+
+                      {/* Date Constraint (summaries only carry deadlines, their dates are rolled up) */}
+                      <div className={`grid gap-3 ${editValues.constraint ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                          <div>
+                              <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">日期约束</label>
+                              <select 
+                                value={editValues.constraint?.type || ''}
+                                onChange={(e) => {
+                                    const type = e.target.value as ConstraintType | '';
+                                    const defaultDate = type.startsWith('F') || type === 'MFO' ? editValues.endDate : editValues.startDate;
+                                    handleInputChange('constraint', type ? { type, date: editValues.constraint?.date || defaultDate } : undefined);
+                                }}
+                                className="w-full h-10 rounded-lg border border-[#747775] px-2 text-sm text-[#1F1F1F] focus:border-indigo-600 focus:ring-1 focus:ring-indigo-600 outline-none bg-white"
+                              >
+                                  <option value="">无约束</option>
+                                  {(Object.keys(CONSTRAINT_TYPE_LABELS) as ConstraintType[])
+                                      .filter(type => !wbsInfo.get(editingTaskId)?.hasChildren || type === 'SNLT' || type === 'FNLT')
+                                      .map(type => (
+                                          <option key={type} value={type}>{CONSTRAINT_TYPE_LABELS[type]}</option>
+                                      ))}
+                              </select>
+                          </div>
+                          {editValues.constraint && (
+                          <div>
+                              <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">约束日期</label>
+                              <input 
+                                type="date"
+                                value={editValues.constraint.date} 
+                                onChange={(e) => e.target.value && handleInputChange('constraint', { ...editValues.constraint, date: e.target.value })}
+                                className="w-full h-10 rounded-lg border border-[#747775] px-2 text-sm text-[#1F1F1F] focus:border-indigo-600 focus:ring-1 focus:ring-indigo-600 outline-none bg-transparent"
+                              />
+                          </div>
+                          )}
+                      </div>
+
+                      {/* Recurrence (periodic requalification, calibration, reviews); occurrences are edited one by one */}
+                      {allTasks.find(t => t.id === editingTaskId)?.occurrenceIndex === undefined && (editValues.recurrence || !wbsInfo.get(editingTaskId)?.hasChildren) && (
+                      <div className="rounded-lg border border-[#E0E2E5] p-3">
+                          <label className="flex items-center gap-2 text-xs text-[#1F1F1F] cursor-pointer select-none">
+                              <input 
+                                type="checkbox"
+                                checked={!!editValues.recurrence}
+                                onChange={(e) => updateRecurrence(e.target.checked ? {} : null)}
+                                className="accent-indigo-600"
+                              />
+                              <span className="material-symbols-outlined text-[16px] text-[#5F6368]">event_repeat</span>
+                              重复任务
+                          </label>
+                          {editValues.recurrence && (
+                          <div className="mt-3 space-y-3">
+                              <div className="grid grid-cols-3 gap-2">
+                                  <div>
+                                      <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">每</label>
+                                      <input 
+                                        type="number"
+                                        min={1}
+                                        value={editValues.recurrence.interval}
+                                        onChange={(e) => updateRecurrence({ interval: Math.max(parseInt(e.target.value, 10) || 1, 1) })}
+                                        className="w-full h-10 rounded-lg border border-[#747775] px-2 text-sm text-[#1F1F1F] focus:border-indigo-600 focus:ring-1 focus:ring-indigo-600 outline-none bg-transparent"
+                                      />
+                                  </div>
+                                  <div>
+                                      <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">周期</label>
+                                      <select 
+                                        value={editValues.recurrence.frequency}
+                                        onChange={(e) => updateRecurrence({ frequency: e.target.value as RecurrenceFrequency })}
+                                        className="w-full h-10 rounded-lg border border-[#747775] px-2 text-sm text-[#1F1F1F] focus:border-indigo-600 focus:ring-1 focus:ring-indigo-600 outline-none bg-white"
+                                      >
+                                          <option value="day">天</option>
+                                          <option value="week">周</option>
+                                          <option value="month">月</option>
+                                      </select>
+                                  </div>
+                                  <div>
+                                      <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">每次工期 (工作日)</label>
+                                      <input 
+                                        type="number"
+                                        min={0}
+                                        value={editValues.recurrence.duration}
+                                        onChange={(e) => updateRecurrence({ duration: Math.max(parseInt(e.target.value, 10) || 0, 0) })}
+                                        className="w-full h-10 rounded-lg border border-[#747775] px-2 text-sm text-[#1F1F1F] focus:border-indigo-600 focus:ring-1 focus:ring-indigo-600 outline-none bg-transparent"
+                                      />
+                                  </div>
+                              </div>
+                              <div className="grid grid-cols-3 gap-2">
+                                  <div>
+                                      <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">首次日期</label>
+                                      <input 
+                                        type="date"
+                                        value={editValues.recurrence.startDate}
+                                        onChange={(e) => e.target.value && updateRecurrence({ startDate: e.target.value })}
+                                        className="w-full h-10 rounded-lg border border-[#747775] px-2 text-sm text-[#1F1F1F] focus:border-indigo-600 focus:ring-1 focus:ring-indigo-600 outline-none bg-transparent"
+                                      />
+                                  </div>
+                                  <div>
+                                      <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">结束方式</label>
+                                      <select 
+                                        value={editValues.recurrence.until ? 'until' : 'count'}
+                                        onChange={(e) => updateRecurrence(e.target.value === 'until'
+                                            ? { until: editValues.endDate || editValues.recurrence!.startDate, count: undefined }
+                                            : { until: undefined, count: 12 })}
+                                        className="w-full h-10 rounded-lg border border-[#747775] px-2 text-sm text-[#1F1F1F] focus:border-indigo-600 focus:ring-1 focus:ring-indigo-600 outline-none bg-white"
+                                      >
+                                          <option value="count">按次数</option>
+                                          <option value="until">截至日期</option>
+                                      </select>
+                                  </div>
+                                  <div>
+                                      <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">{editValues.recurrence.until ? '截至' : '次数'}</label>
+                                      {editValues.recurrence.until ? (
+                                          <input 
+                                            type="date"
+                                            value={editValues.recurrence.until}
+                                            onChange={(e) => e.target.value && updateRecurrence({ until: e.target.value })}
+                                            className="w-full h-10 rounded-lg border border-[#747775] px-2 text-sm text-[#1F1F1F] focus:border-indigo-600 focus:ring-1 focus:ring-indigo-600 outline-none bg-transparent"
+                                          />
+                                      ) : (
+                                          <input 
+                                            type="number"
+                                            min={1}
+                                            value={editValues.recurrence.count || 1}
+                                            onChange={(e) => updateRecurrence({ count: Math.max(parseInt(e.target.value, 10) || 1, 1) })}
+                                            className="w-full h-10 rounded-lg border border-[#747775] px-2 text-sm text-[#1F1F1F] focus:border-indigo-600 focus:ring-1 focus:ring-indigo-600 outline-none bg-transparent"
+                                          />
+                                      )}
+                                  </div>
+                              </div>
+                              <div className="text-[10px] text-[#9AA0A6]">
+                                  {formatRecurrence(editValues.recurrence)}。遇休息日顺延到下一个工作日；已调整或删除的单次会保留{editValues.recurrence.exceptions?.length ? ` (${editValues.recurrence.exceptions.length} 个例外)` : ''}。
+                              </div>
+                          </div>
+                          )}
+                      </div>
+                      )}
+
+                      {/* Three-Point Estimate (schedule risk simulation) */}
+                      {!wbsInfo.get(editingTaskId)?.hasChildren && editValues.kind !== 'milestone' && (
+                      <div>
+                          <div className="flex items-center justify-between mb-1 ml-1">
+                              <label className="text-[10px] font-medium text-[#5F6368]">工期不确定性 (工作日，用于风险模拟)</label>
+                              {editValues.estimate && (
+                                  <button onClick={() => handleInputChange('estimate', undefined)} className="text-[10px] text-[#9AA0A6] hover:text-red-600">清除</button>
+                              )}
+                          </div>
+                          <div className="grid grid-cols-3 gap-2">
+                              {([
+                                  ['optimistic', '乐观'],
+                                  ['mostLikely', '最可能'],
+                                  ['pessimistic', '悲观']
+                              ] as [keyof DurationEstimate, string][]).map(([field, label]) => (
+                                  <div key={field} className="relative">
+                                      <input 
+                                        type="number"
+                                        min={0}
+                                        value={editValues.estimate ? editValues.estimate[field] : ''}
+                                        placeholder={label}
+                                        onChange={(e) => updateEstimate(field, e.target.value)}
+                                        className="w-full h-10 rounded-lg border border-[#747775] pl-2 pr-10 text-sm text-[#1F1F1F] focus:border-indigo-600 focus:ring-1 focus:ring-indigo-600 outline-none bg-transparent"
+                                      />
+                                      {editValues.estimate && <span className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-[#9AA0A6] pointer-events-none">{label}</span>}
+                                  </div>
+                              ))}
+                          </div>
+                      </div>
+                      )}
+
+                      {/* Costs (earned value) */}
+                      {!wbsInfo.get(editingTaskId)?.hasChildren && (
+                      <div className="grid grid-cols-2 gap-2">
+                          {([
+                              ['budgetCost', '预算 (BAC)'],
+                              ['actualCost', '实际成本 (AC)']
+                          ] as ['budgetCost' | 'actualCost', string][]).map(([field, label]) => (
+                              <div key={field}>
+                                  <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">{label}</label>
+                                  <input 
+                                    type="number"
+                                    min={0}
+                                    value={editValues[field] ?? ''}
+                                    placeholder="未填写"
+                                    onChange={(e) => handleInputChange(field, e.target.value === '' ? undefined : Math.max(Number(e.target.value) || 0, 0))}
+                                    className="w-full h-10 rounded-lg border border-[#747775] px-2 text-sm text-[#1F1F1F] focus:border-indigo-600 focus:ring-1 focus:ring-indigo-600 outline-none bg-transparent"
+                                  />
+                              </div>
+                          ))}
+                      </div>
+                      )}
+
+                      {/* Schedule Float (CPM) */}
+                      {criticalPath[editingTaskId] && (
+                          <div className={`rounded-lg border p-3 text-[11px] ${criticalPath[editingTaskId].isCritical ? 'bg-red-50 border-red-100' : 'bg-[#F8F9FA] border-[#E0E2E5]'}`}>
+                              <div className="flex items-center justify-between mb-2">
+                                  <span className="font-bold text-[#5F6368] uppercase tracking-wide">关键路径分析 (CPM)</span>
+                                  {criticalPath[editingTaskId].isCritical && <span className="text-[10px] font-bold text-red-600 bg-white px-2 py-0.5 rounded-full border border-red-200">关键任务</span>}
+                              </div>
+                              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-[#444746]">
+                                  <div>最早开始: <span className="font-mono">{criticalPath[editingTaskId].earlyStart}</span></div>
+                                  <div>最早完成: <span className="font-mono">{criticalPath[editingTaskId].earlyFinish}</span></div>
+                                  <div>最晚开始: <span className="font-mono">{criticalPath[editingTaskId].lateStart}</span></div>
+                                  <div>最晚完成: <span className="font-mono">{criticalPath[editingTaskId].lateFinish}</span></div>
+                                  <div>总浮动: <span className="font-bold">{criticalPath[editingTaskId].totalFloat} 工作日</span></div>
+                                  <div>自由浮动: <span className="font-bold">{criticalPath[editingTaskId].freeFloat} 工作日</span></div>
+                              </div>
+                          </div>
+                      )}
 
                       {/* Dependencies Selector */}
                       <div className="mt-4 border-t border-gray-100 pt-3">
                           <label className="block text-[11px] font-bold text-[#5F6368] mb-2 uppercase tracking-wide">
                               前置依赖 (Predecessors)
                           </label>
+                          <p className="text-[10px] text-[#9AA0A6] mb-2">类型: FS 完成-开始 / SS 开始-开始 / FF 完成-完成 / SF 开始-完成；天数为正表示延隔，为负表示提前。</p>
                           <div className="max-h-[120px] overflow-y-auto border border-[#E0E2E5] rounded-lg bg-[#F8F9FA] p-1 custom-scrollbar">
-                              {allTasks.filter(t => t.id !== editingTaskId).map(t => (
+                              {allTasks.filter(t => t.id !== editingTaskId).map(t => {
+                                  const link = (editValues.dependencies || []).find(d => d.taskId === t.id);
+                                  const updateLink = (patch: Partial<TaskDependency>) => {
+                                      handleInputChange('dependencies', (editValues.dependencies || []).map(d => d.taskId === t.id ? { ...d, ...patch } : d));
+                                  };
+                                  return (
                                   <div 
                                       key={t.id} 
                                       className="flex items-center gap-2 p-1.5 hover:bg-white rounded cursor-pointer transition-colors group"
                                       onClick={() => {
                                           const current = editValues.dependencies || [];
-                                          const exists = current.includes(t.id);
                                           let newDeps;
-                                          if (exists) {
-                                              newDeps = current.filter(id => id !== t.id);
+                                          if (link) {
+                                              newDeps = current.filter(d => d.taskId !== t.id);
                                           } else {
-                                              newDeps = [...current, t.id];
+                                              newDeps = [...current, { taskId: t.id, type: 'FS' as DependencyType, lagDays: 0 }];
                                           }
                                           handleInputChange('dependencies', newDeps);
                                       }}
                                   >
-                                      <div className={`w-4 h-4 rounded border flex items-center justify-center transition-colors ${
-                                          (editValues.dependencies || []).includes(t.id) 
+                                      <div className={`w-4 h-4 shrink-0 rounded border flex items-center justify-center transition-colors ${
+                                          link 
                                           ? 'bg-indigo-600 border-indigo-600' 
                                           : 'border-gray-400 bg-white group-hover:border-indigo-400'
                                       }`}>
-                                          {(editValues.dependencies || []).includes(t.id) && (
+                                          {link && (
                                               <span className="material-symbols-outlined text-[12px] text-white font-bold">check</span>
                                           )}
                                       </div>
@@ -1027,12 +1656,114 @@ const GanttChart: React.FC<GanttChartProps> = ({
                                            <div className="text-xs text-[#1F1F1F] truncate font-medium">{t.name}</div>
                                            <div className="text-[10px] text-[#5F6368] truncate">{t.startDate} - {t.endDate}</div>
                                       </div>
+                                      {/* Link type & lag (only for selected predecessors) */}
+                                      {link && (
+                                          <div className="flex items-center gap-1 shrink-0" onClick={e => e.stopPropagation()}>
+                                              <select
+                                                  value={link.type}
+                                                  onChange={(e) => updateLink({ type: e.target.value as DependencyType })}
+                                                  className="h-6 text-[10px] rounded border border-[#E0E2E5] bg-white px-1 outline-none focus:border-indigo-500"
+                                                  title={DEPENDENCY_TYPE_LABELS[link.type]}
+                                              >
+                                                  {(Object.keys(DEPENDENCY_TYPE_LABELS) as DependencyType[]).map(type => (
+                                                      <option key={type} value={type}>{type}</option>
+                                                  ))}
+                                              </select>
+                                              <input
+                                                  type="number"
+                                                  value={link.lagDays}
+                                                  onChange={(e) => updateLink({ lagDays: parseInt(e.target.value, 10) || 0 })}
+                                                  className="h-6 w-12 text-[10px] rounded border border-[#E0E2E5] bg-white px-1 outline-none focus:border-indigo-500"
+                                                  title="延隔(+)/提前(-) 天数"
+                                              />
+                                          </div>
+                                      )}
                                   </div>
-                              ))}
+                                  );
+                              })}
                                {allTasks.length <= 1 && <div className="text-xs text-gray-400 text-center py-2">无其他任务</div>}
                           </div>
                       </div>
 
+                      {/* External (Cross-Project) Predecessors */}
+                      <div className="mt-4 border-t border-gray-100 pt-3">
+                          <label className="block text-[11px] font-bold text-[#5F6368] mb-2 uppercase tracking-wide">
+                              跨项目前置 (External Predecessors)
+                          </label>
+                          {(editValues.externalDependencies || []).map((link, index) => {
+                              const resolved = externalLinks[editingTaskId]?.find(l => l.link.projectId === link.projectId && l.link.taskId === link.taskId);
+                              const project = linkableProjects.find(p => p.id === link.projectId);
+                              const predecessor = project?.tasks.find(t => t.id === link.taskId);
+                              const isHidden = resolved ? !resolved.isVisible : !project;
+                              return (
+                                  <div key={`${link.projectId}-${link.taskId}`} className="flex items-center gap-2 p-1.5 mb-1 rounded bg-[#F8F9FA] border border-[#E0E2E5]">
+                                      <span className={`material-symbols-outlined text-[16px] ${isHidden ? 'text-amber-600' : 'text-sky-600'}`}>{isHidden ? 'lock' : 'link'}</span>
+                                      <div className="flex-1 min-w-0">
+                                          <div className="text-xs text-[#1F1F1F] truncate font-medium">{isHidden ? '无权查看的项目' : predecessor?.name || '任务已删除'}</div>
+                                          <div className="text-[10px] text-[#5F6368] truncate">{isHidden ? '该项目对您不可见，仍参与排程' : project?.name}</div>
+                                      </div>
+                                      <select
+                                          value={link.type}
+                                          onChange={(e) => updateExternalDependency(index, { type: e.target.value as DependencyType })}
+                                          className="h-6 text-[10px] rounded border border-[#E0E2E5] bg-white px-1 outline-none focus:border-indigo-500"
+                                          title={DEPENDENCY_TYPE_LABELS[link.type]}
+                                      >
+                                          {(Object.keys(DEPENDENCY_TYPE_LABELS) as DependencyType[]).map(type => (
+                                              <option key={type} value={type}>{type}</option>
+                                          ))}
+                                      </select>
+                                      <input
+                                          type="number"
+                                          value={link.lagDays}
+                                          onChange={(e) => updateExternalDependency(index, { lagDays: parseInt(e.target.value, 10) || 0 })}
+                                          className="h-6 w-12 text-[10px] rounded border border-[#E0E2E5] bg-white px-1 outline-none focus:border-indigo-500"
+                                          title="延隔(+)/提前(-) 天数"
+                                      />
+                                      <button onClick={() => updateExternalDependency(index, null)} className="p-0.5 rounded-full hover:bg-red-50 text-[#5F6368] hover:text-red-600" title="移除">
+                                          <span className="material-symbols-outlined text-[16px]">close</span>
+                                      </button>
+                                  </div>
+                              );
+                          })}
+                          {missingExternalLinks.length > 0 && (
+                              <div className="px-2 py-1.5 mb-2 rounded-lg bg-red-50 border border-red-200 text-[11px] text-red-800">
+                                  {missingExternalLinks.length} 个跨项目前置指向已删除的项目或任务，请移除后再保存。
+                              </div>
+                          )}
+                          {linkableProjects.length > 0 ? (
+                              <div className="flex items-center gap-2">
+                                  <select
+                                      value={externalPick.projectId}
+                                      onChange={(e) => setExternalPick({ projectId: e.target.value, taskId: '' })}
+                                      className="flex-1 min-w-0 h-8 text-xs rounded-lg border border-[#E0E2E5] bg-white px-2 outline-none focus:border-indigo-500"
+                                  >
+                                      <option value="">选择项目</option>
+                                      {linkableProjects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                  </select>
+                                  <select
+                                      value={externalPick.taskId}
+                                      onChange={(e) => setExternalPick(prev => ({ ...prev, taskId: e.target.value }))}
+                                      disabled={!externalPick.projectId}
+                                      className="flex-1 min-w-0 h-8 text-xs rounded-lg border border-[#E0E2E5] bg-white px-2 outline-none focus:border-indigo-500 disabled:bg-[#F1F3F4]"
+                                  >
+                                      <option value="">选择任务</option>
+                                      {(linkableProjects.find(p => p.id === externalPick.projectId)?.tasks || []).map(t => (
+                                          <option key={t.id} value={t.id}>{t.name}</option>
+                                      ))}
+                                  </select>
+                                  <button
+                                      onClick={addExternalDependency}
+                                      disabled={!externalPick.taskId}
+                                      className="h-8 px-3 text-xs font-medium rounded-full bg-indigo-50 text-indigo-700 hover:bg-indigo-100 disabled:opacity-50"
+                                  >
+                                      添加
+                                  </button>
+                              </div>
+                          ) : (
+                              <div className="text-xs text-gray-400 text-center py-2">没有其他可查看的项目</div>
+                          )}
+                      </div>
+
                       {/* Actions */}
                       <div className="flex justify-end pt-2 gap-2">
                            <button 
@@ -1043,7 +1774,8 @@ const GanttChart: React.FC<GanttChartProps> = ({
                           </button>
                           <button 
                               onClick={saveEditing}
-                              className="bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium px-6 py-2 rounded-full transition-colors shadow-sm"
+                              disabled={missingExternalLinks.length > 0}
+                              className="bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium px-6 py-2 rounded-full transition-colors shadow-sm disabled:opacity-50 disabled:hover:bg-indigo-600"
                           >
                               保存
                           </button>
@@ -0,0 +1,112 @@
+import React from 'react';
+import { PROJECT_FILE_VERSION, ProjectFileReport } from '../services/projectFileService';
+
+interface ImportReportModalProps {
+  isOpen: boolean;
+  preview: {
+    fileName: string;
+    projectName: string;
+    taskCount: number;
+    report: ProjectFileReport;
+  } | null;
+  onCancel: () => void;
+  onConfirm: () => void;
+}
+
+const ImportReportModal: React.FC<ImportReportModalProps> = ({ isOpen, preview, onCancel, onConfirm }) => {
+  if (!isOpen || !preview) return null;
+  const { report } = preview;
+  const isMismatch = report.checksum === 'mismatch';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-[90vw] md:w-[560px] overflow-hidden transform transition-all scale-100 p-6 font-roboto">
+        <div className="flex items-start gap-4">
+          <div className={`h-12 w-12 rounded-full flex items-center justify-center shrink-0 ${isMismatch ? 'bg-red-100' : 'bg-indigo-100'}`}>
+            <span className={`material-symbols-outlined text-2xl ${isMismatch ? 'text-red-600' : 'text-indigo-600'}`}>{isMismatch ? 'gpp_bad' : 'upload_file'}</span>
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="text-lg font-bold text-[#1F1F1F] mb-1">导入项目</h3>
+            <p className="text-sm text-[#5F6368] leading-relaxed mb-4">
+              <span className="font-medium text-[#1F1F1F]">{preview.projectName}</span> ({preview.taskCount} 个任务)，来自文件 <span className="font-mono text-xs">{preview.fileName}</span>
+            </p>
+
+            {/* File */}
+            <div className="bg-[#F8F9FA] rounded-xl p-3 border border-[#E0E2E5] mb-3 text-xs text-[#444746] space-y-1">
+              <div className="flex justify-between gap-4">
+                <span className="text-[#5F6368]">格式版本</span>
+                <span className="font-mono">
+                  {report.isLegacy ? `无 (旧格式，按版本 ${report.schemaVersion} 读取)` : report.schemaVersion}
+                  {report.schemaVersion < PROJECT_FILE_VERSION && ` → ${PROJECT_FILE_VERSION}`}
+                </span>
+              </div>
+              {report.exportedAt && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-[#5F6368]">导出时间</span>
+                  <span>{new Date(report.exportedAt).toLocaleString('zh-CN')}</span>
+                </div>
+              )}
+              {report.exportedBy && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-[#5F6368]">导出人</span>
+                  <span>{report.exportedBy}</span>
+                </div>
+              )}
+              <div className="flex justify-between gap-4">
+                <span className="text-[#5F6368]">校验和 (SHA-256)</span>
+                <span className={`flex items-center gap-1 font-medium ${report.checksum === 'valid' ? 'text-green-700' : isMismatch ? 'text-red-700' : 'text-[#5F6368]'}`}>
+                  <span className="material-symbols-outlined text-[14px]">{report.checksum === 'valid' ? 'verified' : isMismatch ? 'error' : 'remove'}</span>
+                  {report.checksum === 'valid' ? '一致' : isMismatch ? '不一致' : '无'}
+                </span>
+              </div>
+            </div>
+
+            {isMismatch && (
+              <div className="px-3 py-2 rounded-xl border border-red-200 bg-red-50 text-xs text-red-800 mb-3">
+                项目数据与导出时的校验和不符，文件可能在导出后被修改或已损坏。请确认文件来源后再导入。
+              </div>
+            )}
+
+            {/* Migrations */}
+            <div className="text-[10px] font-bold text-[#5F6368] uppercase tracking-wide mb-2">迁移</div>
+            {report.steps.length === 0 ? (
+              <div className="text-sm text-[#5F6368]">文件已是当前格式，无需迁移。</div>
+            ) : (
+              <ol className="space-y-2 max-h-[30vh] overflow-y-auto custom-scrollbar">
+                {report.steps.map(step => (
+                  <li key={step.from} className="text-sm text-[#1F1F1F]">
+                    <div className="font-medium">版本 {step.from} → {step.to}：{step.description}</div>
+                    {step.changes.length > 0 ? (
+                      <ul className="text-xs text-[#5F6368] list-disc ml-5">
+                        {step.changes.map((change, i) => <li key={i}>{change}</li>)}
+                      </ul>
+                    ) : (
+                      <div className="text-xs text-[#5F6368]">无需转换</div>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            <div className="flex gap-3 justify-end mt-6">
+              <button
+                onClick={onCancel}
+                className="px-4 py-2 rounded-full border border-[#E0E2E5] text-sm font-medium text-[#5F6368] hover:bg-[#F1F3F4] transition-colors"
+              >
+                取消
+              </button>
+              <button
+                onClick={onConfirm}
+                className={`px-4 py-2 rounded-full text-sm font-medium text-white shadow-sm transition-colors ${isMismatch ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+              >
+                {isMismatch ? '仍然导入' : '导入'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReportModal;
@@ -1,25 +1,25 @@
 import React, { useMemo } from 'react';
 import { Task, TaskStatus } from '../types';
+import { TASK_STATUS_LABELS } from '../constants';
+import { formatMonthDay, toDayNumber } from '../services/dateService';
+import SignatureBadge from './SignatureBadge';
 
 interface KanbanBoardProps {
   tasks: Task[];
   groupBy: 'status' | 'assignee';
   onTaskUpdate?: (task: Task) => void;
+  onOpenSignatures?: (taskId: string) => void;
   readOnly?: boolean;
 }
 
-const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, groupBy, onTaskUpdate, readOnly = false }) => {
+const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, groupBy, onTaskUpdate, onOpenSignatures, readOnly = false }) => {
   
   // Define columns based on grouping strategy
   const columns = useMemo(() => {
     if (groupBy === 'status') {
       return Object.values(TaskStatus).map(status => ({
         id: status,
-        title: status === TaskStatus.Pending ? '待处理' :
-               status === TaskStatus.InProgress ? '进行中' :
-               status === TaskStatus.Completed ? '已完成' :
-               status === TaskStatus.Blocked ? '已阻塞' :
-               status === TaskStatus.Delayed ? '已延期' : status,
+        title: TASK_STATUS_LABELS[status],
         tasks: tasks.filter(t => t.status === status)
       }));
     } else {
@@ -85,6 +85,9 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, groupBy, onTaskUpdate,
                     <span className="text-[10px] bg-[#F1F3F4] text-[#444746] px-1.5 py-0.5 rounded flex items-center">
                         {task.category}
                     </span>
+                    {(task.recurrence || task.occurrenceIndex !== undefined) && (
+                        <span className="material-symbols-outlined text-[14px] text-[#5F6368]" title={task.recurrence ? '重复任务' : '重复任务的一次'}>event_repeat</span>
+                    )}
                 </div>
 
                 {/* Task Name */}
@@ -103,18 +106,20 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, groupBy, onTaskUpdate,
                         <span className="text-xs text-[#5F6368] max-w-[80px] truncate">{task.assignee}</span>
                     </div>
 
-                    {/* Conditional Status or Date */}
-                    {groupBy === 'assignee' ? (
-                        <span className={`text-[10px] px-2 py-0.5 rounded border ${getStatusColor(task.status)}`}>
-                            {task.status === TaskStatus.Pending ? '待处理' :
-                             task.status === TaskStatus.InProgress ? '进行中' :
-                             task.status === TaskStatus.Completed ? '已完成' : task.status}
-                        </span>
-                    ) : (
-                        <div className="text-[10px] text-[#5F6368] font-mono bg-[#F8F9FA] px-1.5 py-0.5 rounded">
-                            {new Date(task.endDate).getMonth() + 1}/{new Date(task.endDate).getDate()} 截止
-                        </div>
-                    )}
+                    <div className="flex items-center gap-1.5">
+                        {!task.isNew && <SignatureBadge task={task} onClick={onOpenSignatures} />}
+
+                        {/* Conditional Status or Date */}
+                        {groupBy === 'assignee' ? (
+                            <span className={`text-[10px] px-2 py-0.5 rounded border ${getStatusColor(task.status)}`}>
+                                {TASK_STATUS_LABELS[task.status] || task.status}
+                            </span>
+                        ) : (
+                            <div className="text-[10px] text-[#5F6368] font-mono bg-[#F8F9FA] px-1.5 py-0.5 rounded">
+                                {formatMonthDay(toDayNumber(task.endDate))} 截止
+                            </div>
+                        )}
+                    </div>
                 </div>
                 
                 {/* Progress Bar */}
@@ -0,0 +1,81 @@
+import React from 'react';
+
+interface PullInPreviewModalProps {
+  isOpen: boolean;
+  preview: {
+    taskName: string; // The edited task
+    pulledIn: { taskName: string; originalStartDate: string; newStartDate: string; workingDaysEarlier: number }[];
+    originalFinish?: string;
+    newFinish?: string;
+  } | null;
+  onCancel: () => void;
+  onSkip: () => void; // Apply the edit but leave successors where they are
+  onConfirm: () => void; // Apply the edit and pull the successors in
+}
+
+const PullInPreviewModal: React.FC<PullInPreviewModalProps> = ({ isOpen, preview, onCancel, onSkip, onConfirm }) => {
+  if (!isOpen || !preview) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-[90vw] md:w-[520px] overflow-hidden transform transition-all scale-100 p-6 font-roboto">
+        <div className="flex items-start gap-4">
+          <div className="h-12 w-12 rounded-full bg-emerald-100 flex items-center justify-center shrink-0">
+            <span className="material-symbols-outlined text-emerald-600 text-2xl">compress</span>
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="text-lg font-bold text-[#1F1F1F] mb-1">后续任务可以提前</h3>
+            <p className="text-sm text-[#5F6368] leading-relaxed mb-4">
+              修改任务 <span className="font-medium text-[#1F1F1F]">"{preview.taskName}"</span> 后，以下尚未开始的后续任务可按依赖关系提前至最早可行日期。
+            </p>
+
+            <div className="bg-emerald-50 rounded-xl p-4 border border-emerald-100 mb-4 max-h-[40vh] overflow-y-auto custom-scrollbar">
+              <ul className="space-y-2">
+                {preview.pulledIn.map((item, i) => (
+                  <li key={i} className="text-sm text-[#1F1F1F]">
+                    <div className="font-medium truncate" title={item.taskName}>{item.taskName}</div>
+                    <div className="flex items-center gap-2 text-xs font-mono">
+                      <span className="text-red-400 line-through opacity-70">{item.originalStartDate}</span>
+                      <span className="material-symbols-outlined text-[14px] text-[#5F6368]">arrow_right_alt</span>
+                      <span className="text-emerald-700 font-bold">{item.newStartDate}</span>
+                      <span className="text-emerald-700 font-sans">(提前 {item.workingDaysEarlier} 个工作日)</span>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {preview.originalFinish && preview.newFinish && preview.newFinish !== preview.originalFinish && (
+              <div className="text-xs text-[#5F6368] mb-4">
+                项目完工日期 {preview.originalFinish} → <span className="font-bold text-emerald-700">{preview.newFinish}</span>
+              </div>
+            )}
+
+            <div className="flex gap-3 justify-end mt-6">
+              <button 
+                onClick={onCancel}
+                className="px-4 py-2 rounded-full border border-[#E0E2E5] text-sm font-medium text-[#5F6368] hover:bg-[#F1F3F4] transition-colors"
+              >
+                取消修改
+              </button>
+              <button 
+                onClick={onSkip}
+                className="px-4 py-2 rounded-full border border-[#E0E2E5] text-sm font-medium text-[#1F1F1F] hover:bg-[#F1F3F4] transition-colors"
+              >
+                仅应用修改
+              </button>
+              <button 
+                onClick={onConfirm}
+                className="px-4 py-2 rounded-full text-sm font-medium text-white shadow-sm transition-colors bg-emerald-600 hover:bg-emerald-700"
+              >
+                提前后续任务
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PullInPreviewModal;
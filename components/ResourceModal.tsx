@@ -0,0 +1,313 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Resource, ResourceKind, Task, ProjectCalendar } from '../types';
+import { toDayNumber } from '../services/dateService';
+import { RESOURCE_KIND_LABELS } from '../constants';
+import { computeResourceLoads, findBookingConflicts, isAssetResource } from '../services/resourceService';
+
+interface ResourceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  resources: Resource[];
+  tasks: Task[];
+  calendar: ProjectCalendar;
+  onSave: (resources: Resource[]) => void;
+  onLevel: (resources: Resource[]) => void; // Saves the pool, then proposes a levelled schedule
+  readOnly?: boolean;
+}
+
+const HISTOGRAM_HEIGHT = 64;
+
+const ResourceModal: React.FC<ResourceModalProps> = ({
+  isOpen,
+  onClose,
+  resources,
+  tasks,
+  calendar,
+  onSave,
+  onLevel,
+  readOnly = false
+}) => {
+  const [tempResources, setTempResources] = useState<Resource[]>(resources);
+
+  useEffect(() => {
+    if (isOpen) {
+      setTempResources(resources); // Reset temp list when opening
+    }
+  }, [isOpen, resources]);
+
+  // Histogram follows the edited capacities before they are saved
+  const loads = useMemo(() => computeResourceLoads(tasks, tempResources, calendar), [tasks, tempResources, calendar]);
+  const bookingConflicts = useMemo(() => findBookingConflicts(tasks, tempResources, calendar), [tasks, tempResources, calendar]);
+
+  // Occupancy of equipment and rooms: reserving tasks stacked in lanes on one shared date axis
+  const bookings = useMemo(() => {
+    const reserving = tasks.filter(t => t.kind !== 'milestone' && t.resources?.length);
+    const assets = tempResources.filter(r => isAssetResource(r) && r.name.trim()).map(resource => {
+      const lanes: number[] = []; // Last booked day per lane
+      const rows = reserving
+        .filter(t => t.resources!.some(a => a.resourceId === resource.id && a.units > 0))
+        .sort((a, b) => a.startDate.localeCompare(b.startDate))
+        .map(task => {
+          const start = toDayNumber(task.startDate);
+          let lane = lanes.findIndex(end => end < start);
+          if (lane === -1) lane = lanes.length;
+          lanes[lane] = toDayNumber(task.endDate);
+          return { task, lane };
+        });
+      return { resource, rows, laneCount: Math.max(lanes.length, 1) };
+    });
+    const booked = assets.flatMap(a => a.rows.map(r => r.task));
+    const first = booked.length > 0 ? Math.min(...booked.map(t => toDayNumber(t.startDate))) : 0;
+    const last = booked.length > 0 ? Math.max(...booked.map(t => toDayNumber(t.endDate))) : 0;
+    return { assets, first, span: last - first + 1 };
+  }, [tasks, tempResources]);
+
+  if (!isOpen) return null;
+
+  const updateResource = (id: string, patch: Partial<Resource>) => {
+    setTempResources(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const addResource = () => {
+    setTempResources(prev => [...prev, { id: `res_${Date.now()}`, name: '', kind: 'person', capacity: 1 }]);
+  };
+
+  const removeResource = (id: string) => {
+    setTempResources(prev => prev.filter(r => r.id !== id));
+  };
+
+  const getCleanedResources = () => tempResources
+    .map(r => ({ ...r, name: r.name.trim(), capacity: Math.max(Number(r.capacity) || 0, 0) }))
+    .filter(r => r.name);
+
+  const handleSave = () => {
+    onSave(getCleanedResources());
+    onClose();
+  };
+
+  const handleLevel = () => {
+    onLevel(getCleanedResources());
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center bg-black/40 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-[90vw] md:w-[720px] max-h-[90vh] overflow-hidden flex flex-col relative animate-in zoom-in-95 duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-[#E0E2E5] flex items-center justify-between bg-[#F8F9FA] shrink-0">
+          <div className="flex items-center gap-2">
+            <span className="material-symbols-outlined text-indigo-600">groups</span>
+            <h2 className="text-lg font-bold text-[#1F1F1F]">资源与负荷</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="h-8 w-8 rounded-full hover:bg-[#E0E2E5] flex items-center justify-center text-[#5F6368] transition-colors"
+          >
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 custom-scrollbar space-y-6">
+            {/* Resource List */}
+            <div>
+                <h4 className="text-sm font-bold text-[#1F1F1F] mb-1">资源池</h4>
+                <p className="text-xs text-[#5F6368] mb-3">产能为每个工作日可用的单位数。未显式分配人员的任务，按负责人名称匹配人员或团队 (1 单位)；设备和房间需在任务中预约，预约期间含休息日均被占用。</p>
+                <div className="space-y-2">
+                    {tempResources.map(r => (
+                        <div key={r.id} className="grid grid-cols-[1fr_auto_auto_auto] gap-2 items-center">
+                            <input
+                                value={r.name}
+                                disabled={readOnly}
+                                onChange={e => updateResource(r.id, { name: e.target.value })}
+                                placeholder="资源名称 (如 QA 团队、B 级洁净区)"
+                                className="h-9 px-3 rounded-lg border border-[#E0E2E5] text-xs outline-none focus:border-indigo-500 bg-white disabled:bg-[#F8F9FA]"
+                            />
+                            <select
+                                value={r.kind}
+                                disabled={readOnly}
+                                onChange={e => updateResource(r.id, { kind: e.target.value as ResourceKind })}
+                                className="h-9 px-2 rounded-lg border border-[#E0E2E5] text-xs outline-none focus:border-indigo-500 bg-white disabled:bg-[#F8F9FA]"
+                            >
+                                {(Object.keys(RESOURCE_KIND_LABELS) as ResourceKind[]).map(kind => (
+                                    <option key={kind} value={kind}>{RESOURCE_KIND_LABELS[kind]}</option>
+                                ))}
+                            </select>
+                            <div className="flex items-center gap-1">
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    value={r.capacity}
+                                    disabled={readOnly}
+                                    onChange={e => updateResource(r.id, { capacity: Number(e.target.value) })}
+                                    className="h-9 w-16 px-2 rounded-lg border border-[#E0E2E5] text-xs outline-none focus:border-indigo-500 bg-white disabled:bg-[#F8F9FA]"
+                                    title="每日产能"
+                                />
+                                <span className="text-[10px] text-[#5F6368]">/日</span>
+                            </div>
+                            {!readOnly ? (
+                                <button onClick={() => removeResource(r.id)} className="h-9 w-9 rounded-lg text-[#9AA0A6] hover:text-red-600 hover:bg-red-50 flex items-center justify-center">
+                                    <span className="material-symbols-outlined text-[18px]">delete</span>
+                                </button>
+                            ) : <span />}
+                        </div>
+                    ))}
+                    {tempResources.length === 0 && <div className="text-xs text-gray-400 py-1">暂无资源</div>}
+                </div>
+                {!readOnly && (
+                    <button onClick={addResource} className="mt-3 px-3 py-1.5 text-xs font-medium rounded-full border border-[#E0E2E5] hover:bg-indigo-50 hover:text-indigo-600 text-[#5F6368] transition-colors flex items-center gap-1">
+                        <span className="material-symbols-outlined text-[16px]">add</span>
+                        添加资源
+                    </button>
+                )}
+            </div>
+
+            {/* Load Histograms */}
+            <div className="border-t border-[#E0E2E5] pt-6">
+                <h4 className="text-sm font-bold text-[#1F1F1F] mb-1">负荷直方图</h4>
+                <p className="text-xs text-[#5F6368] mb-3">每根柱代表一天 (人员按工作日，设备和房间按日历日)，红色为超出产能的部分。</p>
+                <div className="space-y-4">
+                    {loads.filter(l => l.resource.name.trim()).map(l => {
+                        const scale = Math.max(l.peak, l.resource.capacity, 1);
+                        const capacityY = HISTOGRAM_HEIGHT - (l.resource.capacity / scale) * HISTOGRAM_HEIGHT;
+                        return (
+                            <div key={l.resource.id}>
+                                <div className="flex items-center justify-between text-xs mb-1">
+                                    <span className="font-medium text-[#1F1F1F]">{l.resource.name}</span>
+                                    <span className={l.overloadedDays > 0 ? 'text-red-600 font-bold' : 'text-[#5F6368]'}>
+                                        峰值 {l.peak} / 产能 {l.resource.capacity}{l.overloadedDays > 0 ? ` · ${l.overloadedDays} 天超负荷` : ''}
+                                    </span>
+                                </div>
+                                {l.days.length === 0 ? (
+                                    <div className="text-[10px] text-gray-400">未分配任务</div>
+                                ) : (
+                                    <div className="overflow-x-auto custom-scrollbar border border-[#E0E2E5] rounded-lg bg-[#F8F9FA] p-2">
+                                        <div className="relative flex items-end gap-px" style={{ height: HISTOGRAM_HEIGHT }}>
+                                            {/* Capacity line */}
+                                            <div className="absolute left-0 right-0 border-t border-dashed border-[#5F6368]/60 pointer-events-none" style={{ top: capacityY }}></div>
+                                            {l.days.map(d => {
+                                                const within = Math.min(d.load, l.resource.capacity);
+                                                const over = Math.max(d.load - l.resource.capacity, 0);
+                                                return (
+                                                    <div key={d.date} className="flex flex-col justify-end shrink-0 w-1.5 h-full" title={`${d.date}: ${d.load} / ${l.resource.capacity}`}>
+                                                        {over > 0 && <div className="bg-red-500 rounded-t-sm" style={{ height: (over / scale) * HISTOGRAM_HEIGHT }}></div>}
+                                                        <div className={`bg-indigo-400 ${over > 0 ? '' : 'rounded-t-sm'}`} style={{ height: (within / scale) * HISTOGRAM_HEIGHT }}></div>
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                        <div className="flex justify-between text-[10px] text-[#5F6368] mt-1 font-mono">
+                                            <span>{l.days[0].date}</span>
+                                            <span>{l.days[l.days.length - 1].date}</span>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {/* Equipment & Room Bookings */}
+            <div className="border-t border-[#E0E2E5] pt-6">
+                <h4 className="text-sm font-bold text-[#1F1F1F] mb-1">设备与房间占用</h4>
+                <p className="text-xs text-[#5F6368] mb-3">按设备和房间列出预约任务，红色区间为同一资产被超出产能地重复预约。</p>
+                {bookings.assets.length === 0 ? (
+                    <div className="text-xs text-gray-400 py-1">暂无设备或房间资源</div>
+                ) : (
+                    <div className="space-y-3">
+                        {bookings.assets.map(({ resource, rows, laneCount }) => {
+                            const conflicts = bookingConflicts.filter(c => c.resourceId === resource.id);
+                            const toPercent = (date: string) => ((toDayNumber(date) - bookings.first) / bookings.span) * 100;
+                            const toWidth = (start: string, end: string) => ((toDayNumber(end) - toDayNumber(start) + 1) / bookings.span) * 100;
+                            return (
+                                <div key={resource.id}>
+                                    <div className="flex items-center justify-between text-xs mb-1">
+                                        <span className="font-medium text-[#1F1F1F] flex items-center gap-1">
+                                            <span className="material-symbols-outlined text-[16px] text-[#5F6368]">{resource.kind === 'room' ? 'meeting_room' : 'precision_manufacturing'}</span>
+                                            {resource.name}
+                                        </span>
+                                        <span className={conflicts.length > 0 ? 'text-red-600 font-bold' : 'text-[#5F6368]'}>
+                                            {rows.length} 个预约{conflicts.length > 0 ? ` · ${conflicts.length} 处冲突` : ''}
+                                        </span>
+                                    </div>
+                                    {rows.length === 0 ? (
+                                        <div className="text-[10px] text-gray-400">未被预约</div>
+                                    ) : (
+                                        <div className="relative border border-[#E0E2E5] rounded-lg bg-[#F8F9FA]" style={{ height: laneCount * 22 + 8 }}>
+                                            {conflicts.map(c => (
+                                                <div
+                                                    key={`${c.startDate}-${c.taskIds.join()}`}
+                                                    className="absolute top-0 bottom-0 bg-red-500/15 border-x border-red-400 pointer-events-none"
+                                                    style={{ left: `${toPercent(c.startDate)}%`, width: `${toWidth(c.startDate, c.endDate)}%` }}
+                                                />
+                                            ))}
+                                            {rows.map(({ task, lane }) => {
+                                                const isConflicting = conflicts.some(c => c.taskIds.includes(task.id));
+                                                return (
+                                                    <div
+                                                        key={task.id}
+                                                        className={`absolute h-[18px] rounded px-1.5 text-[10px] leading-[18px] truncate text-white ${isConflicting ? 'bg-red-500' : 'bg-indigo-400'}`}
+                                                        style={{ top: 4 + lane * 22, left: `${toPercent(task.startDate)}%`, width: `${toWidth(task.startDate, task.endDate)}%` }}
+                                                        title={`${task.name}: ${task.startDate} ~ ${task.endDate}`}
+                                                    >
+                                                        {task.name}
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                    {conflicts.map(c => (
+                                        <div key={`${c.startDate}-${c.taskIds.join()}-text`} className="text-[10px] text-red-600 mt-1">
+                                            {c.startDate === c.endDate ? c.startDate : `${c.startDate} ~ ${c.endDate}`}：{c.taskIds.map(id => tasks.find(t => t.id === id)?.name || id).join('、')} 同时预约
+                                        </div>
+                                    ))}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-[#E0E2E5] bg-[#F8F9FA] flex justify-between gap-3">
+            {!readOnly ? (
+                <button
+                    onClick={handleLevel}
+                    disabled={loads.every(l => l.overloadedDays === 0)}
+                    className="px-4 py-2 border border-indigo-200 text-indigo-600 hover:bg-indigo-50 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="在浮动时间内顺延非关键任务以消除超负荷，生成变更建议供确认"
+                >
+                    <span className="material-symbols-outlined text-[18px]">balance</span>
+                    自动资源平衡
+                </button>
+            ) : <span />}
+            <div className="flex gap-3">
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 border border-[#E0E2E5] hover:bg-[#E0E2E5] text-[#5F6368] rounded-lg text-sm font-medium transition-colors"
+                >
+                    {readOnly ? '关闭' : '取消'}
+                </button>
+                {!readOnly && (
+                    <button
+                        onClick={handleSave}
+                        className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium transition-colors shadow-sm flex items-center gap-2"
+                    >
+                        <span className="material-symbols-outlined text-[18px]">save</span>
+                        保存
+                    </button>
+                )}
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResourceModal;
@@ -1,13 +1,21 @@
 import React, { useMemo } from 'react';
 import { Project, RiskLevel, Task, TaskStatus } from '../types';
+import { getProjectCalendar, workingDayDiff } from '../services/calendarService';
+import { getToday, toDayNumber } from '../services/dateService';
+import { computeResourceLoads } from '../services/resourceService';
+import { computeBaselineVariances, computeProjectFinishVariance, formatVariance, getActiveBaseline } from '../services/baselineService';
+import { findConstraintViolations, getProjectFinish } from '../services/scheduleService';
+import { deriveTaskStatuses } from '../services/statusService';
+import { CONSTRAINT_TYPE_LABELS, TASK_STATUS_LABELS } from '../constants';
 
 interface RiskSummaryModalProps {
   isOpen: boolean;
   onClose: () => void;
   project: Project;
+  onOpenSimulation?: () => void; // Monte Carlo view of the finish date
 }
 
-const RiskSummaryModal: React.FC<RiskSummaryModalProps> = ({ isOpen, onClose, project }) => {
+const RiskSummaryModal: React.FC<RiskSummaryModalProps> = ({ isOpen, onClose, project, onOpenSimulation }) => {
   if (!isOpen) return null;
 
   // Derive risks from project data
@@ -38,7 +46,18 @@ const RiskSummaryModal: React.FC<RiskSummaryModalProps> = ({ isOpen, onClose, pr
         });
     });
 
-    // 3. Check for unassigned tasks
+    // 3. Check statuses the rules would escalate today but nobody has set yet
+    deriveTaskStatuses(project.tasks, getToday(), getProjectCalendar(project))
+      .filter(d => d.to === TaskStatus.Delayed || d.to === TaskStatus.Blocked)
+      .forEach(d => {
+        list.push({
+            type: project.tasks.find(t => t.id === d.taskId)?.gmpCritical ? 'critical' : 'warning',
+            message: `状态仍为「${TASK_STATUS_LABELS[d.from]}」，按规则应为「${TASK_STATUS_LABELS[d.to]}」：${d.reason}。`,
+            task: d.taskName
+        });
+      });
+
+    // 4. Check for unassigned tasks
     const unassignedTasks = project.tasks.filter(t => 
         !t.assignee || t.assignee === '待定' || t.assignee === '未分配' || t.assignee === 'Unassigned'
     );
@@ -50,7 +69,64 @@ const RiskSummaryModal: React.FC<RiskSummaryModalProps> = ({ isOpen, onClose, pr
         });
     }
 
-    // 4. Fallback if no specific algorithmic risks found
+    // 5. Check slippage against the active baseline
+    const baseline = getActiveBaseline(project);
+    if (baseline) {
+        const calendar = getProjectCalendar(project);
+        const finishVariance = computeProjectFinishVariance(project.tasks, baseline, calendar);
+        if (finishVariance && finishVariance.variance > 0) {
+            list.push({
+                type: 'critical',
+                message: `项目完成日期较基线「${baseline.name}」推迟 ${formatVariance(finishVariance.variance)} 个工作日 (${finishVariance.baselineFinish} → ${finishVariance.currentFinish})。`
+            });
+        }
+
+        const variances = computeBaselineVariances(project.tasks, baseline, calendar);
+        project.tasks.forEach(t => {
+            const v = variances[t.id];
+            if (!v || v.finishVariance <= 0) return;
+            list.push({
+                type: t.gmpCritical ? 'critical' : 'warning',
+                message: `完成日期较基线推迟 ${formatVariance(v.finishVariance)} 个工作日 (基线 ${v.baselineFinish})。`,
+                task: t.name
+            });
+        });
+    }
+
+    // 6. Check date constraints fixed by outside parties (vendor FAT, inspections, ...)
+    findConstraintViolations(project.tasks, getProjectCalendar(project)).forEach(v => {
+        const isDeadline = v.constraint.type === 'SNLT' || v.constraint.type === 'FNLT';
+        list.push({
+            type: 'critical',
+            message: isDeadline
+                ? `已超出硬性截止日期「${CONSTRAINT_TYPE_LABELS[v.constraint.type]} ${v.constraint.date}」${v.workingDaysOff} 个工作日。`
+                : `未满足日期约束「${CONSTRAINT_TYPE_LABELS[v.constraint.type]} ${v.constraint.date}」，偏差 ${v.workingDaysOff} 个工作日。`,
+            task: v.taskName
+        });
+    });
+
+    // 7. Check the target finish of backward-planned projects
+    const projectFinish = getProjectFinish(project.tasks);
+    if (project.scheduleDirection === 'backward' && project.targetFinishDate && projectFinish && projectFinish > project.targetFinishDate) {
+        const calendar = getProjectCalendar(project);
+        list.push({
+            type: 'critical',
+            message: `项目完成日期 ${projectFinish} 晚于倒排目标日期 ${project.targetFinishDate} (${workingDayDiff(toDayNumber(project.targetFinishDate), toDayNumber(projectFinish), calendar)} 个工作日)。`
+        });
+    }
+
+    // 8. Check resource overallocation
+    computeResourceLoads(project.tasks, project.resources || [], getProjectCalendar(project))
+      .filter(l => l.overloadedDays > 0)
+      .forEach(l => {
+        list.push({
+            type: 'warning',
+            message: `资源超负荷 ${l.overloadedDays} 个工作日 (峰值 ${l.peak} / 产能 ${l.resource.capacity})，可使用资源平衡。`,
+            task: l.resource.name
+        });
+      });
+
+    // 9. Fallback if no specific algorithmic risks found
     if (list.length === 0 && project.riskLevel === RiskLevel.Low) {
         list.push({
             type: 'info',
@@ -141,7 +217,16 @@ const RiskSummaryModal: React.FC<RiskSummaryModalProps> = ({ isOpen, onClose, pr
         </div>
 
         {/* Footer */}
-        <div className="p-4 border-t border-[#E0E2E5] bg-[#F8F9FA] flex justify-end">
+        <div className="p-4 border-t border-[#E0E2E5] bg-[#F8F9FA] flex justify-between">
+            {onOpenSimulation ? (
+                <button 
+                    onClick={onOpenSimulation}
+                    className="px-4 py-2 border border-indigo-200 rounded-full text-sm font-medium text-indigo-600 hover:bg-indigo-50 transition-colors flex items-center gap-2"
+                >
+                    <span className="material-symbols-outlined text-[18px]">query_stats</span>
+                    进度风险模拟
+                </button>
+            ) : <span />}
             <button 
                 onClick={onClose}
                 className="px-4 py-2 bg-white border border-[#E0E2E5] rounded-full text-sm font-medium text-[#5F6368] hover:bg-[#F1F3F4] transition-colors"
@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Project } from '../types';
+import { getProjectCalendar } from '../services/calendarService';
+import { runScheduleSimulation } from '../services/simulationService';
+
+interface ScheduleSimulationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project;
+}
+
+const ITERATION_OPTIONS = [500, 1000, 5000];
+const CHART_HEIGHT = 120;
+const TORNADO_ROWS = 10;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const ScheduleSimulationModal: React.FC<ScheduleSimulationModalProps> = ({ isOpen, onClose, project }) => {
+  const [iterations, setIterations] = useState(1000);
+  const [targetDate, setTargetDate] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setTargetDate(project.targetFinishDate || ''); // Backward plans bring their own target
+    }
+  }, [isOpen, project.targetFinishDate]);
+
+  const result = useMemo(() => {
+    if (!isOpen) return null;
+    return runScheduleSimulation(project.tasks, getProjectCalendar(project), { iterations, targetDate: targetDate || undefined });
+  }, [isOpen, project, iterations, targetDate]);
+
+  if (!isOpen) return null;
+
+  const estimatedCount = result?.sensitivities.length ?? 0;
+  const peak = result ? Math.max(...result.distribution.map(d => d.count)) : 0;
+  const maxCorrelation = result ? Math.max(...result.sensitivities.map(s => Math.abs(s.correlation)), 0.01) : 1;
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/40 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-[90vw] md:w-[720px] max-h-[90vh] overflow-hidden flex flex-col relative animate-in zoom-in-95 duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-[#E0E2E5] flex items-center justify-between bg-[#F8F9FA] shrink-0">
+          <div className="flex items-center gap-2">
+            <span className="material-symbols-outlined text-indigo-600">query_stats</span>
+            <div>
+              <h2 className="text-lg font-bold text-[#1F1F1F]">进度风险模拟 (蒙特卡洛)</h2>
+              <div className="text-xs text-[#5F6368]">按任务的三点估算 (乐观 / 最可能 / 悲观) 抽样，沿依赖网络计算完工日期分布</div>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="h-8 w-8 rounded-full hover:bg-[#E0E2E5] flex items-center justify-center text-[#5F6368] transition-colors"
+          >
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 custom-scrollbar space-y-6">
+            {/* Settings */}
+            <div className="flex flex-wrap items-end gap-4">
+                <div>
+                    <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">模拟次数</label>
+                    <select
+                        value={iterations}
+                        onChange={e => setIterations(Number(e.target.value))}
+                        className="h-9 px-2 rounded-lg border border-[#E0E2E5] text-sm outline-none focus:border-indigo-500 bg-white"
+                    >
+                        {ITERATION_OPTIONS.map(n => <option key={n} value={n}>{n} 次</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">目标完成日期</label>
+                    <input
+                        type="date"
+                        value={targetDate}
+                        onChange={e => setTargetDate(e.target.value)}
+                        className="h-9 px-2 rounded-lg border border-[#E0E2E5] text-sm outline-none focus:border-indigo-500 bg-white"
+                    />
+                </div>
+                <div className="text-xs text-[#5F6368] pb-2">
+                    {estimatedCount > 0 ? `${estimatedCount} 个任务带有不确定性估算` : '尚无任务填写三点估算，可在任务编辑中设置'}
+                </div>
+            </div>
+
+            {!result ? (
+                <div className="text-sm text-gray-400">项目为空或存在循环依赖，无法模拟。</div>
+            ) : (
+            <>
+                {/* Key Figures */}
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                    {[
+                        { label: '计划完成', value: result.deterministicFinish },
+                        { label: 'P50', value: result.p50 },
+                        { label: 'P80', value: result.p80 },
+                        { label: 'P90', value: result.p90 }
+                    ].map(card => (
+                        <div key={card.label} className="rounded-xl border border-[#E0E2E5] bg-[#F8F9FA] p-3">
+                            <div className="text-[10px] font-bold text-[#5F6368] uppercase tracking-wide">{card.label}</div>
+                            <div className="text-sm font-mono font-bold text-[#1F1F1F] mt-1">{card.value}</div>
+                        </div>
+                    ))}
+                    <div className={`rounded-xl border p-3 ${result.onTimeProbability === undefined ? 'border-[#E0E2E5] bg-[#F8F9FA]' : result.onTimeProbability >= 0.8 ? 'border-emerald-200 bg-emerald-50' : result.onTimeProbability >= 0.5 ? 'border-amber-200 bg-amber-50' : 'border-red-200 bg-red-50'}`}>
+                        <div className="text-[10px] font-bold text-[#5F6368] uppercase tracking-wide">按期完成概率</div>
+                        <div className="text-sm font-bold text-[#1F1F1F] mt-1">
+                            {result.onTimeProbability === undefined ? '未设置目标' : formatPercent(result.onTimeProbability)}
+                        </div>
+                    </div>
+                </div>
+
+                {/* Finish Date Distribution */}
+                <div>
+                    <h4 className="text-sm font-bold text-[#1F1F1F] mb-1">完工日期分布</h4>
+                    <p className="text-xs text-[#5F6368] mb-3">柱高为落在该日期的模拟次数，红色为晚于目标日期的结果；折线为累计概率。</p>
+                    <div className="overflow-x-auto custom-scrollbar border border-[#E0E2E5] rounded-lg bg-[#F8F9FA] p-2">
+                        <div className="relative flex items-end gap-px" style={{ height: CHART_HEIGHT }}>
+                            {result.distribution.map(d => {
+                                const late = !!result.targetDate && d.date > result.targetDate;
+                                const marker = d.date === result.p50 ? 'P50' : d.date === result.p80 ? 'P80' : d.date === result.p90 ? 'P90' : '';
+                                return (
+                                    <div key={d.date} className="relative flex flex-col justify-end shrink-0 w-3 h-full" title={`${d.date}: ${d.count} 次 · 累计 ${formatPercent(d.cumulative)}`}>
+                                        {/* Cumulative probability dot */}
+                                        <div className="absolute left-1/2 -translate-x-1/2 w-1.5 h-1.5 rounded-full bg-indigo-700" style={{ bottom: d.cumulative * (CHART_HEIGHT - 4) }}></div>
+                                        {marker && <div className="absolute -top-0.5 left-1/2 -translate-x-1/2 text-[8px] font-bold text-indigo-700">{marker}</div>}
+                                        <div className={`rounded-t-sm ${late ? 'bg-red-400' : 'bg-indigo-300'}`} style={{ height: (d.count / peak) * (CHART_HEIGHT - 12) }}></div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <div className="flex justify-between text-[10px] text-[#5F6368] mt-1 font-mono">
+                            <span>{result.distribution[0].date}</span>
+                            <span>{result.distribution[result.distribution.length - 1].date}</span>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Tornado Chart */}
+                <div>
+                    <h4 className="text-sm font-bold text-[#1F1F1F] mb-1">关键驱动任务 (龙卷风图)</h4>
+                    <p className="text-xs text-[#5F6368] mb-3">任务工期与项目完工日期的相关系数，越长表示对完工日期影响越大。</p>
+                    {result.sensitivities.length === 0 ? (
+                        <div className="text-xs text-gray-400">暂无带不确定性的任务</div>
+                    ) : (
+                        <div className="space-y-1.5">
+                            {result.sensitivities.slice(0, TORNADO_ROWS).map(s => (
+                                <div key={s.taskId} className="grid grid-cols-[160px_1fr_48px] items-center gap-2 text-xs">
+                                    <span className="truncate text-[#1F1F1F]" title={s.taskName}>{s.taskName}</span>
+                                    <div className="relative h-4 bg-[#F1F3F4] rounded">
+                                        <div className="absolute top-0 bottom-0 left-1/2 w-px bg-[#9AA0A6]"></div>
+                                        <div
+                                            className={`absolute top-0.5 bottom-0.5 rounded-sm ${s.correlation >= 0 ? 'bg-red-400' : 'bg-emerald-400'}`}
+                                            style={{
+                                                width: `${(Math.abs(s.correlation) / maxCorrelation) * 50}%`,
+                                                ...(s.correlation >= 0 ? { left: '50%' } : { right: '50%' })
+                                            }}
+                                        ></div>
+                                    </div>
+                                    <span className="font-mono text-right text-[#5F6368]">{s.correlation.toFixed(2)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </>
+            )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-[#E0E2E5] bg-[#F8F9FA] flex items-center justify-between">
+            <span className="text-[10px] text-[#9AA0A6]">{result ? `${result.iterations} 次模拟 · 平均完成 ${result.meanFinish} · 固定随机种子，结果可复现` : ''}</span>
+            <button
+                onClick={onClose}
+                className="px-4 py-2 bg-white border border-[#E0E2E5] rounded-full text-sm font-medium text-[#5F6368] hover:bg-[#F1F3F4] transition-colors"
+            >
+                关闭
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleSimulationModal;
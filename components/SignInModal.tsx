@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+
+interface SignInModalProps {
+  isOpen: boolean;
+  notice?: string | null; // Why signing in is asked for again, e.g. an expired session
+  // Resolves to an error message when the sign-in was refused
+  onSignIn: (account: string, password: string) => Promise<string | null>;
+}
+
+// With the shared server every change is made by a signed-in user, so the app asks for the account first
+const SignInModal: React.FC<SignInModalProps> = ({ isOpen, notice, onSignIn }) => {
+  const [account, setAccount] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  if (!isOpen) return null;
+
+  const canSubmit = !!account.trim() && !!password && !isSigningIn;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setIsSigningIn(true);
+    setError(null);
+    const refusal = await onSignIn(account.trim(), password);
+    setIsSigningIn(false);
+    setPassword('');
+    setError(refusal);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-2xl w-[90vw] md:w-[420px] overflow-hidden transform transition-all scale-100 p-6 font-roboto">
+        <div className="flex items-start gap-4">
+          <div className="h-12 w-12 rounded-full bg-indigo-100 flex items-center justify-center shrink-0">
+            <span className="material-symbols-outlined text-indigo-600 text-2xl">login</span>
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="text-lg font-bold text-[#1F1F1F] mb-1">登录</h3>
+            <p className="text-sm text-[#5F6368] leading-relaxed mb-4">
+              已连接到共享服务器，请使用本人账号登录。所有修改都将以登录用户的身份记录。
+            </p>
+
+            {notice && (
+              <div className="px-3 py-2 rounded-xl border border-amber-200 bg-amber-50 text-xs text-amber-900 mb-3">{notice}</div>
+            )}
+
+            <div className="space-y-3">
+              <div>
+                <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">账号</label>
+                <input
+                  autoFocus
+                  value={account}
+                  onChange={e => setAccount(e.target.value)}
+                  autoComplete="username"
+                  className="w-full px-3 py-2 rounded-lg border border-[#E0E2E5] text-sm outline-none focus:border-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">密码</label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={e => setPassword(e.target.value)}
+                  autoComplete="current-password"
+                  className="w-full px-3 py-2 rounded-lg border border-[#E0E2E5] text-sm outline-none focus:border-indigo-500"
+                />
+              </div>
+              {error && (
+                <div className="px-3 py-2 rounded-lg bg-red-50 border border-red-200 text-xs text-red-800">{error}</div>
+              )}
+            </div>
+
+            <div className="flex justify-end mt-6">
+              <button
+                type="submit"
+                disabled={!canSubmit}
+                className="px-4 py-2 rounded-full text-sm font-medium text-white shadow-sm transition-colors bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 disabled:hover:bg-indigo-600 flex items-center gap-1"
+              >
+                <span className="material-symbols-outlined text-[18px]">{isSigningIn ? 'progress_activity' : 'login'}</span>
+                登录
+              </button>
+            </div>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SignInModal;
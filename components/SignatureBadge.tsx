@@ -0,0 +1,45 @@
+import React from 'react';
+import { Task } from '../types';
+import { SIGNATURE_SEQUENCE, formatSignatureManifest, getSignatureState } from '../services/signatureService';
+
+interface SignatureBadgeProps {
+  task: Task;
+  onClick?: (taskId: string) => void; // Opens the signature manifest
+  className?: string;
+}
+
+// Signature progress of a GMP-critical task, e.g. "2/3"; nothing for tasks that are not signed off
+const SignatureBadge: React.FC<SignatureBadgeProps> = ({ task, onClick, className = '' }) => {
+  if (!task.gmpCritical && !task.signatures?.length) return null;
+  const state = getSignatureState(task);
+
+  const tone = state.isUnsignedCompletion
+    ? 'bg-red-50 border-red-300 text-red-700'
+    : state.isComplete
+    ? 'bg-green-50 border-green-300 text-green-800'
+    : state.invalidated.length > 0
+    ? 'bg-amber-50 border-amber-300 text-amber-800'
+    : state.valid.length > 0
+    ? 'bg-indigo-50 border-indigo-200 text-indigo-700'
+    : 'bg-white/80 border-[#E0E2E5] text-[#5F6368]';
+  const icon = state.isComplete ? 'verified' : state.isUnsignedCompletion || state.invalidated.length > 0 ? 'gpp_maybe' : 'draw';
+  const title = [
+    state.isUnsignedCompletion ? '已完成但缺少有效的电子签名' : '',
+    formatSignatureManifest(task)
+  ].filter(Boolean).join('\n');
+
+  return (
+    <button
+      type="button"
+      onMouseDown={e => e.stopPropagation()}
+      onClick={e => { e.stopPropagation(); onClick?.(task.id); }}
+      className={`inline-flex items-center gap-0.5 px-1.5 rounded-full border text-[10px] font-medium leading-4 shrink-0 ${onClick ? 'cursor-pointer hover:brightness-95' : 'cursor-default'} ${tone} ${className}`}
+      title={title}
+    >
+      <span className="material-symbols-outlined text-[12px]">{icon}</span>
+      {state.valid.length}/{SIGNATURE_SEQUENCE.length}
+    </button>
+  );
+};
+
+export default SignatureBadge;
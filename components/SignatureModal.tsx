@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from 'react';
+import { Task, TaskStatus } from '../types';
+import { SIGNATURE_MEANING_LABELS, SIGNATURE_SEQUENCE, formatSignature, getSignatureState } from '../services/signatureService';
+
+interface SignatureModalProps {
+  isOpen: boolean;
+  task: Task | null;
+  isServerMode: boolean; // Signers re-authenticate against the shared server's accounts
+  canEdit: boolean;
+  onClose: () => void;
+  // Verifies the credentials and adds the signature; resolves to an error message when it was refused
+  onSign: (account: string, password: string, comment: string) => Promise<string | null>;
+  onComplete: () => void; // Mark the task completed once the signatures are complete
+}
+
+const SignatureModal: React.FC<SignatureModalProps> = ({ isOpen, task, isServerMode, canEdit, onClose, onSign, onComplete }) => {
+  const [account, setAccount] = useState('');
+  const [password, setPassword] = useState('');
+  const [comment, setComment] = useState('');
+  const [isCertified, setIsCertified] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
+
+  useEffect(() => {
+    // Credentials are entered for every single signature, never kept between them
+    setAccount('');
+    setPassword('');
+    setComment('');
+    setIsCertified(false);
+    setError(null);
+  }, [isOpen, task?.id, task?.signatures?.length]);
+
+  if (!isOpen || !task) return null;
+
+  const state = getSignatureState(task);
+  const canSubmit = !!state.next && isServerMode && canEdit && !!account.trim() && !!password && isCertified && !isSigning;
+
+  const handleSign = async () => {
+    if (!canSubmit) return;
+    setIsSigning(true);
+    setError(null);
+    const refusal = await onSign(account.trim(), password, comment.trim());
+    setIsSigning(false);
+    if (refusal) {
+      setPassword('');
+      setError(refusal);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/40 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-[95vw] md:w-[560px] max-h-[90vh] overflow-hidden flex flex-col relative animate-in zoom-in-95 duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-[#E0E2E5] flex items-center justify-between bg-[#F8F9FA] shrink-0">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="material-symbols-outlined text-indigo-600">draw</span>
+            <div className="min-w-0">
+              <h2 className="text-lg font-bold text-[#1F1F1F]">电子签名</h2>
+              <div className="text-xs text-[#5F6368] truncate" title={task.name}>{task.id} · {task.name}</div>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="h-8 w-8 rounded-full hover:bg-[#E0E2E5] flex items-center justify-center text-[#5F6368] transition-colors"
+          >
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5 custom-scrollbar">
+          {/* Manifest */}
+          <div>
+            <div className="text-[10px] font-bold text-[#5F6368] uppercase tracking-wide mb-2">签名清单</div>
+            <ol className="space-y-2">
+              {SIGNATURE_SEQUENCE.map(meaning => {
+                const signature = state.valid.find(s => s.meaning === meaning);
+                const isNext = meaning === state.next;
+                return (
+                  <li
+                    key={meaning}
+                    className={`flex items-start gap-3 px-3 py-2 rounded-xl border text-sm ${signature ? 'bg-green-50 border-green-200' : isNext ? 'bg-indigo-50 border-indigo-200' : 'bg-[#F8F9FA] border-[#E0E2E5]'}`}
+                  >
+                    <span className={`material-symbols-outlined text-[18px] mt-0.5 ${signature ? 'text-green-700' : isNext ? 'text-indigo-600' : 'text-[#9AA0A6]'}`}>
+                      {signature ? 'verified' : isNext ? 'edit_square' : 'radio_button_unchecked'}
+                    </span>
+                    <div className="min-w-0">
+                      <div className="font-medium text-[#1F1F1F]">{SIGNATURE_MEANING_LABELS[meaning]}</div>
+                      {signature ? (
+                        <>
+                          <div className="text-xs text-[#444746] font-mono">{formatSignature(signature)}</div>
+                          {signature.comment && <div className="text-xs text-[#5F6368] mt-0.5">{signature.comment}</div>}
+                        </>
+                      ) : (
+                        <div className="text-xs text-[#5F6368]">{isNext ? '待签署' : '等待上一签名'}</div>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+            {state.invalidated.length > 0 && (
+              <div className="mt-3 px-3 py-2 rounded-xl border border-amber-200 bg-amber-50 text-xs text-amber-900">
+                <div className="font-medium mb-1">{state.invalidated.length} 个签名已失效：签署后任务内容已被修改，须重新签署</div>
+                {state.invalidated.map(s => <div key={s.id} className="font-mono opacity-80">{formatSignature(s)}</div>)}
+              </div>
+            )}
+          </div>
+
+          {/* Sign */}
+          {state.next ? (
+            !isServerMode ? (
+              <div className="px-4 py-3 rounded-xl border border-amber-200 bg-amber-50 text-sm text-amber-900 flex gap-2">
+                <span className="material-symbols-outlined text-[18px]">cloud_off</span>
+                电子签名需要在共享服务器上核验签署人的账号与密码。当前为本地模式，请连接服务器后签署。
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <div className="text-sm text-[#1F1F1F]">
+                  以 <span className="font-bold">{SIGNATURE_MEANING_LABELS[state.next]}</span> 签署：请签署人输入本人账号与密码
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">账号</label>
+                    <input
+                      autoFocus
+                      value={account}
+                      onChange={e => setAccount(e.target.value)}
+                      autoComplete="off"
+                      className="w-full px-3 py-2 rounded-lg border border-[#E0E2E5] text-sm outline-none focus:border-indigo-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">密码</label>
+                    <input
+                      type="password"
+                      value={password}
+                      onChange={e => setPassword(e.target.value)}
+                      onKeyDown={e => { if (e.key === 'Enter') handleSign(); }}
+                      autoComplete="new-password"
+                      className="w-full px-3 py-2 rounded-lg border border-[#E0E2E5] text-sm outline-none focus:border-indigo-500"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-[10px] font-medium text-[#5F6368] mb-1 ml-1">备注 (可选)</label>
+                  <input
+                    value={comment}
+                    onChange={e => setComment(e.target.value)}
+                    placeholder="例如：IQ 报告 VR-IQ-2025-014 已审核"
+                    className="w-full px-3 py-2 rounded-lg border border-[#E0E2E5] text-sm outline-none focus:border-indigo-500"
+                  />
+                </div>
+                <label className="flex items-start gap-2 text-xs text-[#444746] cursor-pointer">
+                  <input type="checkbox" checked={isCertified} onChange={e => setIsCertified(e.target.checked)} className="mt-0.5" />
+                  本人确认：此电子签名由本人签署，与手写签名具有同等约束力；签名将与当前任务记录绑定，任务内容修改后签名失效。
+                </label>
+                {error && (
+                  <div className="px-3 py-2 rounded-lg bg-red-50 border border-red-200 text-xs text-red-800">{error}</div>
+                )}
+              </div>
+            )
+          ) : (
+            <div className="px-4 py-3 rounded-xl border border-green-200 bg-green-50 text-sm text-green-900 flex gap-2">
+              <span className="material-symbols-outlined text-[18px]">verified</span>
+              签名已齐全{task.status === TaskStatus.Completed ? '，任务已完成。' : '，可将任务标记为已完成。'}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-[#E0E2E5] flex justify-end gap-3 shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-full border border-[#E0E2E5] text-sm font-medium text-[#5F6368] hover:bg-[#F1F3F4] transition-colors"
+          >
+            关闭
+          </button>
+          {state.next ? (
+            <button
+              onClick={handleSign}
+              disabled={!canSubmit}
+              className="px-4 py-2 rounded-full text-sm font-medium text-white shadow-sm transition-colors bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 disabled:hover:bg-indigo-600 flex items-center gap-1"
+            >
+              <span className="material-symbols-outlined text-[18px]">{isSigning ? 'progress_activity' : 'draw'}</span>
+              签署
+            </button>
+          ) : task.status !== TaskStatus.Completed && canEdit && (
+            <button
+              onClick={onComplete}
+              className="px-4 py-2 rounded-full text-sm font-medium text-white shadow-sm transition-colors bg-green-700 hover:bg-green-800 flex items-center gap-1"
+            >
+              <span className="material-symbols-outlined text-[18px]">task_alt</span>
+              标记为已完成
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SignatureModal;
@@ -28,10 +28,13 @@ const UserManagementModal: React.FC<UserManagementModalProps> = ({
   const dropdownRef = useRef<HTMLDivElement>(null);
   
   // Form State
-  const [formData, setFormData] = useState<{ name: string; role: UserRole; visibleProjectIds: string[] }>({
+  // Account and password are what signers re-enter for electronic signatures; an empty password keeps the stored one
+  const [formData, setFormData] = useState<{ name: string; role: UserRole; visibleProjectIds: string[]; account: string; password: string }>({
     name: '',
     role: UserRole.Observer,
-    visibleProjectIds: []
+    visibleProjectIds: [],
+    account: '',
+    password: ''
   });
 
   useEffect(() => {
@@ -49,7 +52,7 @@ const UserManagementModal: React.FC<UserManagementModalProps> = ({
   if (!isOpen) return null;
 
   const resetForm = () => {
-    setFormData({ name: '', role: UserRole.Observer, visibleProjectIds: [] });
+    setFormData({ name: '', role: UserRole.Observer, visibleProjectIds: [], account: '', password: '' });
     setIsAdding(false);
     setEditingId(null);
     setIsProjectDropdownOpen(false);
@@ -65,7 +68,9 @@ const UserManagementModal: React.FC<UserManagementModalProps> = ({
         name: formData.name,
         role: formData.role,
         avatar: formData.name.charAt(0).toUpperCase(),
-        visibleProjectIds: formData.visibleProjectIds
+        visibleProjectIds: formData.visibleProjectIds,
+        account: formData.account.trim() || undefined,
+        password: formData.password || undefined
       };
       onAddUser(newUser);
     } else if (editingId) {
@@ -76,7 +81,9 @@ const UserManagementModal: React.FC<UserManagementModalProps> = ({
           name: formData.name,
           role: formData.role,
           avatar: formData.name.charAt(0).toUpperCase(),
-          visibleProjectIds: formData.visibleProjectIds
+          visibleProjectIds: formData.visibleProjectIds,
+          account: formData.account.trim() || undefined,
+          password: formData.password || undefined
         });
       }
     }
@@ -88,7 +95,9 @@ const UserManagementModal: React.FC<UserManagementModalProps> = ({
     setFormData({ 
         name: user.name, 
         role: user.role,
-        visibleProjectIds: user.visibleProjectIds || [] 
+        visibleProjectIds: user.visibleProjectIds || [],
+        account: user.account || '',
+        password: ''
     });
     setIsAdding(false);
   };
@@ -113,6 +122,26 @@ const UserManagementModal: React.FC<UserManagementModalProps> = ({
     });
   };
 
+  const renderCredentialFields = (isNew: boolean) => (
+      <>
+          <input 
+             value={formData.account}
+             onChange={e => setFormData({...formData, account: e.target.value})}
+             className="col-span-5 h-9 px-3 rounded-lg border border-indigo-300 text-sm outline-none focus:ring-2 focus:ring-indigo-500 bg-white"
+             placeholder="登录账号 (电子签名时输入)"
+             autoComplete="off"
+          />
+          <input 
+             type="password"
+             value={formData.password}
+             onChange={e => setFormData({...formData, password: e.target.value})}
+             className="col-span-5 h-9 px-3 rounded-lg border border-indigo-300 text-sm outline-none focus:ring-2 focus:ring-indigo-500 bg-white"
+             placeholder={isNew ? '初始密码' : '新密码 (留空则不修改)'}
+             autoComplete="new-password"
+          />
+      </>
+  );
+
   const renderProjectSelector = () => {
       const isAllSelected = formData.visibleProjectIds.length === projects.length;
       
@@ -215,6 +244,7 @@ const UserManagementModal: React.FC<UserManagementModalProps> = ({
                              <div className="col-span-4">
                                 {renderProjectSelector()}
                              </div>
+                             {renderCredentialFields(false)}
                          </div>
                          <div className="flex items-center gap-1 shrink-0">
                              <button type="button" onClick={resetForm} className="p-1.5 text-gray-500 hover:bg-gray-200 rounded-full transition-colors"><span className="material-symbols-outlined text-[20px]">close</span></button>
@@ -245,6 +275,9 @@ const UserManagementModal: React.FC<UserManagementModalProps> = ({
                                             可见 {(user.visibleProjectIds || []).length} 个项目
                                         </span>
                                     )}
+                                    <span className="text-[10px] text-[#5F6368] font-mono">
+                                        {user.account ? `账号 ${user.account}` : '未设置账号'}
+                                    </span>
                                 </div>
                             </div>
                         </div>
@@ -299,6 +332,7 @@ const UserManagementModal: React.FC<UserManagementModalProps> = ({
                              <div className="col-span-4">
                                 {renderProjectSelector()}
                              </div>
+                             {renderCredentialFields(true)}
                          </div>
                          <div className="flex items-center gap-1 shrink-0">
                              <button type="button" onClick={resetForm} className="p-1.5 text-gray-500 hover:bg-gray-200 rounded-full transition-colors"><span className="material-symbols-outlined text-[20px]">close</span></button>
@@ -0,0 +1,91 @@
+import React, { useState, useEffect } from 'react';
+import { Project } from '../types';
+
+interface WorkspaceMergeModalProps {
+  isOpen: boolean;
+  localOnly: Project[]; // Projects in this browser that the server does not have
+  changed: Project[]; // Local versions that differ from the server's
+  onConfirm: (uploadIds: string[]) => void; // Local versions to upload, the rest is taken from the server
+}
+
+// Shown when the shared server is reached and the browser holds projects it does not have (or has
+// in another version), so they are not silently replaced by the server's workspace
+const WorkspaceMergeModal: React.FC<WorkspaceMergeModalProps> = ({ isOpen, localOnly, changed, onConfirm }) => {
+  const [uploadIds, setUploadIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    // Projects only this browser has are kept by default, for different versions the server's wins
+    if (isOpen) setUploadIds(localOnly.map(p => p.id));
+  }, [isOpen, localOnly]);
+
+  if (!isOpen) return null;
+
+  const setUpload = (projectId: string, upload: boolean) =>
+    setUploadIds(prev => upload ? [...prev.filter(id => id !== projectId), projectId] : prev.filter(id => id !== projectId));
+
+  const renderRow = (project: Project, isLocalOnly: boolean) => {
+    const upload = uploadIds.includes(project.id);
+    return (
+      <li key={project.id} className="flex items-center gap-3 px-3 py-2 rounded-xl border border-[#E0E2E5] bg-[#F8F9FA]">
+        <div className="min-w-0 flex-1">
+          <div className="text-sm font-medium text-[#1F1F1F] truncate" title={project.name}>{project.name}</div>
+          <div className="text-xs text-[#5F6368]">{project.tasks.length} 个任务 · {isLocalOnly ? '仅在本机' : '与服务器版本不同'}</div>
+        </div>
+        <div className="flex rounded-full border border-[#E0E2E5] bg-white text-xs overflow-hidden shrink-0">
+          <button
+            onClick={() => setUpload(project.id, false)}
+            className={`px-3 py-1 transition-colors ${!upload ? 'bg-indigo-600 text-white' : 'text-[#5F6368] hover:bg-[#F1F3F4]'}`}
+          >
+            {isLocalOnly ? '丢弃' : '使用服务器版本'}
+          </button>
+          <button
+            onClick={() => setUpload(project.id, true)}
+            className={`px-3 py-1 transition-colors ${upload ? 'bg-indigo-600 text-white' : 'text-[#5F6368] hover:bg-[#F1F3F4]'}`}
+          >
+            {isLocalOnly ? '上传' : '上传本机版本'}
+          </button>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-[90vw] md:w-[560px] overflow-hidden transform transition-all scale-100 p-6 font-roboto">
+        <div className="flex items-start gap-4">
+          <div className="h-12 w-12 rounded-full bg-amber-100 flex items-center justify-center shrink-0">
+            <span className="material-symbols-outlined text-amber-600 text-2xl">sync_problem</span>
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="text-lg font-bold text-[#1F1F1F] mb-1">本机数据与服务器不一致</h3>
+            <p className="text-sm text-[#5F6368] leading-relaxed mb-4">
+              已连接到共享服务器。以下项目在本机与服务器上不同，请选择要保留的版本；其余项目均载入服务器版本。本机中由当前登录用户记录的审计条目会一并上传。
+            </p>
+
+            <ul className="space-y-2 max-h-[40vh] overflow-y-auto custom-scrollbar">
+              {localOnly.map(p => renderRow(p, true))}
+              {changed.map(p => renderRow(p, false))}
+            </ul>
+
+            {uploadIds.length > 0 && (
+              <div className="mt-3 px-3 py-2 rounded-xl border border-amber-200 bg-amber-50 text-xs text-amber-900">
+                上传前需填写变更原因。{changed.some(p => uploadIds.includes(p.id)) && '上传本机版本会覆盖服务器上其他用户的修改。'}
+              </div>
+            )}
+
+            <div className="flex justify-end mt-6">
+              <button
+                onClick={() => onConfirm(uploadIds)}
+                className="px-4 py-2 rounded-full text-sm font-medium text-white shadow-sm transition-colors bg-indigo-600 hover:bg-indigo-700"
+              >
+                确定
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceMergeModal;
@@ -1,4 +1,51 @@
-import { Project, RiskLevel, ScenarioType, TaskStatus } from './types';
+import { AuditAction, AuditSource, CalendarPeriod, ConstraintType, DependencyType, Project, ProjectCalendar, ResourceKind, RiskLevel, ScenarioType, TaskStatus } from './types';
+
+// Chinese statutory holidays (国务院办公厅节假日安排). Extend yearly when the new notice is published.
+export const CN_STATUTORY_HOLIDAYS: CalendarPeriod[] = [
+  { name: "元旦", startDate: "2022-12-31", endDate: "2023-01-02" },
+  { name: "春节", startDate: "2023-01-21", endDate: "2023-01-27" },
+  { name: "清明节", startDate: "2023-04-05", endDate: "2023-04-05" },
+  { name: "劳动节", startDate: "2023-04-29", endDate: "2023-05-03" },
+  { name: "端午节", startDate: "2023-06-22", endDate: "2023-06-24" },
+  { name: "中秋节、国庆节", startDate: "2023-09-29", endDate: "2023-10-06" },
+  { name: "元旦", startDate: "2024-01-01", endDate: "2024-01-01" },
+  { name: "春节", startDate: "2024-02-10", endDate: "2024-02-17" },
+  { name: "清明节", startDate: "2024-04-04", endDate: "2024-04-06" },
+  { name: "劳动节", startDate: "2024-05-01", endDate: "2024-05-05" },
+  { name: "端午节", startDate: "2024-06-10", endDate: "2024-06-10" },
+  { name: "中秋节", startDate: "2024-09-15", endDate: "2024-09-17" },
+  { name: "国庆节", startDate: "2024-10-01", endDate: "2024-10-07" },
+  { name: "元旦", startDate: "2025-01-01", endDate: "2025-01-01" },
+  { name: "春节", startDate: "2025-01-28", endDate: "2025-02-04" },
+  { name: "清明节", startDate: "2025-04-04", endDate: "2025-04-06" },
+  { name: "劳动节", startDate: "2025-05-01", endDate: "2025-05-05" },
+  { name: "端午节", startDate: "2025-05-31", endDate: "2025-06-02" },
+  { name: "国庆节、中秋节", startDate: "2025-10-01", endDate: "2025-10-08" },
+  { name: "元旦", startDate: "2026-01-01", endDate: "2026-01-03" },
+  { name: "春节", startDate: "2026-02-15", endDate: "2026-02-23" },
+  { name: "清明节", startDate: "2026-04-04", endDate: "2026-04-06" },
+  { name: "劳动节", startDate: "2026-05-01", endDate: "2026-05-05" },
+  { name: "端午节", startDate: "2026-06-19", endDate: "2026-06-21" },
+  { name: "中秋节", startDate: "2026-09-25", endDate: "2026-09-27" },
+  { name: "国庆节", startDate: "2026-10-01", endDate: "2026-10-07" }
+];
+
+// Weekend days that are adjusted to working days (调休上班)
+export const CN_MAKEUP_WORKDAYS: string[] = [
+  "2023-01-28", "2023-01-29", "2023-04-23", "2023-05-06", "2023-06-25", "2023-10-07", "2023-10-08",
+  "2024-02-04", "2024-02-18", "2024-04-07", "2024-04-28", "2024-05-11", "2024-09-14", "2024-09-29", "2024-10-12",
+  "2025-01-26", "2025-02-08", "2025-04-27", "2025-09-28", "2025-10-11",
+  "2026-01-04", "2026-02-14", "2026-02-28", "2026-05-09", "2026-09-20", "2026-10-10"
+];
+
+export const DEFAULT_PROJECT_CALENDAR: ProjectCalendar = {
+  id: "cal_cn_standard",
+  name: "中国标准工作日历 (周一至周五)",
+  workingWeekdays: [1, 2, 3, 4, 5],
+  holidays: CN_STATUTORY_HOLIDAYS,
+  makeUpWorkdays: CN_MAKEUP_WORKDAYS,
+  shutdowns: []
+};
 
 export const INITIAL_SCENARIOS: Record<string, Project> = {
   equipment: {
@@ -6,13 +53,20 @@ export const INITIAL_SCENARIOS: Record<string, Project> = {
     name: "生物反应器与离心机验证 (3号线)",
     type: ScenarioType.Equipment,
     riskLevel: RiskLevel.Low,
+    calendar: DEFAULT_PROJECT_CALENDAR,
+    resources: [
+      { id: "res_qa", name: "QA 团队", kind: "team", capacity: 2 },
+      { id: "res_val", name: "验证工程师", kind: "person", capacity: 1 },
+      { id: "res_chen", name: "陈博士", kind: "person", capacity: 1 },
+      { id: "res_br301", name: "生物反应器 BR-301", kind: "equipment", capacity: 1 }
+    ],
     tasks: [
       {
         id: "t1",
         name: "URS (用户需求说明书) 签署",
-        startDate: "2023-10-01",
-        endDate: "2023-10-05",
-        duration: 5,
+        startDate: "2023-09-25",
+        endDate: "2023-09-28",
+        duration: 4,
         status: TaskStatus.Completed,
         assignee: "陈博士",
         progress: 100,
@@ -23,26 +77,27 @@ export const INITIAL_SCENARIOS: Record<string, Project> = {
       {
         id: "t2",
         name: "供应商选型与审计",
-        startDate: "2023-10-06",
-        endDate: "2023-10-20",
-        duration: 14,
+        startDate: "2023-10-07",
+        endDate: "2023-10-18",
+        duration: 10,
         status: TaskStatus.Completed,
         assignee: "供应链部",
         progress: 100,
-        dependencies: ["t1"],
+        dependencies: [{ taskId: "t1", type: "FS", lagDays: 0 }],
         gmpCritical: true,
         category: "Procurement"
       },
       {
         id: "t3",
         name: "设备到货 (离心机)",
-        startDate: "2023-10-21",
+        startDate: "2023-10-19",
         endDate: "2023-10-25",
         duration: 5,
+        estimate: { optimistic: 3, mostLikely: 5, pessimistic: 12 },
         status: TaskStatus.InProgress,
         assignee: "物流部",
         progress: 50,
-        dependencies: ["t2"],
+        dependencies: [{ taskId: "t2", type: "FS", lagDays: 0 }],
         gmpCritical: false,
         category: "Logistics"
       },
@@ -51,45 +106,131 @@ export const INITIAL_SCENARIOS: Record<string, Project> = {
         name: "安装确认 (IQ)",
         startDate: "2023-10-26",
         endDate: "2023-10-30",
-        duration: 5,
+        duration: 3,
         status: TaskStatus.Pending,
         assignee: "QA 团队",
         progress: 0,
-        dependencies: ["t3"],
+        dependencies: [{ taskId: "t3", type: "FS", lagDays: 0 }],
         gmpCritical: true,
         category: "Validation"
       },
       {
         id: "t5",
         name: "运行确认 (OQ)",
-        startDate: "2023-11-02",
-        endDate: "2023-11-10",
-        duration: 9,
+        startDate: "2023-10-31",
+        endDate: "2023-11-08",
+        duration: 7,
+        estimate: { optimistic: 5, mostLikely: 7, pessimistic: 12 },
         status: TaskStatus.Pending,
         assignee: "验证工程师",
         progress: 0,
-        dependencies: ["t4"],
+        dependencies: [{ taskId: "t4", type: "FS", lagDays: 0 }],
+        resources: [{ resourceId: "res_br301", units: 1 }],
         gmpCritical: true,
         category: "Validation"
       },
       {
         id: "t6",
         name: "性能确认 (PQ)",
-        startDate: "2023-11-12",
-        endDate: "2023-11-20",
-        duration: 9,
+        startDate: "2023-11-09",
+        endDate: "2023-11-17",
+        duration: 7,
+        estimate: { optimistic: 6, mostLikely: 7, pessimistic: 11 },
         status: TaskStatus.Pending,
         assignee: "工艺开发部",
         progress: 0,
-        dependencies: ["t5"],
+        dependencies: [{ taskId: "t5", type: "FS", lagDays: 0 }],
+        resources: [{ resourceId: "res_br301", units: 1 }],
         gmpCritical: true,
-        category: "Validation"
+        category: "Validation",
+        constraint: { type: "FNLT", date: "2023-11-24" } // GMP inspection of line 3
       }
     ],
     latestGmpAdvice: "当前项目进度符合预期。请重点关注即将开始的 IQ (安装确认) 环节，确保相关 QA 文档已准备就绪。"
   }
 };
 
+export const DEPENDENCY_TYPE_LABELS: Record<DependencyType, string> = {
+  FS: "完成-开始 (FS)",
+  SS: "开始-开始 (SS)",
+  FF: "完成-完成 (FF)",
+  SF: "开始-完成 (SF)"
+};
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  [TaskStatus.Pending]: "待处理",
+  [TaskStatus.InProgress]: "进行中",
+  [TaskStatus.Completed]: "已完成",
+  [TaskStatus.Blocked]: "已阻塞",
+  [TaskStatus.Delayed]: "已延期"
+};
+
+export const RESOURCE_KIND_LABELS: Record<ResourceKind, string> = {
+  person: "人员",
+  team: "团队",
+  equipment: "设备",
+  room: "房间"
+};
+
+export const CONSTRAINT_TYPE_LABELS: Record<ConstraintType, string> = {
+  SNET: "开始不早于 (SNET)",
+  SNLT: "开始不晚于 (SNLT)",
+  FNET: "完成不早于 (FNET)",
+  FNLT: "完成不晚于 (FNLT)",
+  MSO: "必须开始于 (MSO)",
+  MFO: "必须完成于 (MFO)"
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "创建",
+  update: "修改",
+  delete: "删除",
+  import: "导入"
+};
+
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  manual: "手动编辑",
+  proposal: "确认建议",
+  undo: "撤销/重做",
+  import: "文件导入",
+  signature: "电子签名",
+  system: "系统"
+};
+
+// Readable names of the recorded fields (others are shown by their key)
+export const AUDIT_FIELD_LABELS: Record<string, string> = {
+  name: "名称",
+  startDate: "开始日期",
+  endDate: "结束日期",
+  duration: "工期",
+  status: "状态",
+  assignee: "负责人",
+  progress: "进度",
+  dependencies: "依赖",
+  externalDependencies: "跨项目前置",
+  parentId: "上级任务",
+  position: "行号",
+  gmpCritical: "GMP 关键",
+  category: "类别",
+  kind: "类型",
+  constraint: "日期约束",
+  resources: "资源",
+  recurrence: "重复规则",
+  estimate: "工期估计",
+  budgetCost: "预算",
+  actualCost: "实际成本",
+  signatures: "电子签名",
+  riskLevel: "风险等级",
+  latestGmpAdvice: "GMP 建议",
+  calendar: "工作日历",
+  baselines: "基线",
+  activeBaselineId: "显示的基线",
+  scenarios: "方案",
+  scheduleDirection: "排程方向",
+  targetFinishDate: "目标完成日期",
+  cascadeMode: "联动模式"
+};
+
 export const SYSTEM_INSTRUCTION = `
 You are "CELLA", a specialized project management AI for the Cell & Gene Therapy industry.
 Your goal is to assist biological experts in managing complex GMP-compliant projects (Facility Construction, Equipment 3Q, Tech Transfer).
@@ -103,6 +244,7 @@ Capabilities:
 
 Rules:
 - If a task is delayed, automatically shift dependent tasks.
+- Respect the dependency link type (FS/SS/FF/SF) and lag/lead days of every dependency.
 - If the user implies a NEW task should be added (e.g., "Add a training session after IQ"), include it in 'created_tasks'.
 - If a GMP critical path is violated (e.g., skipping IQ), warn the user in 'gmp_advice'.
 - Use the provided JSON schema for output.
@@ -0,0 +1,187 @@
+import { DatabaseSync } from 'node:sqlite';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { AuditEntry, ChatMessage, Project, Task, User } from '../types.ts';
+
+// SQLite storage of the shared workspace. Rows keep their key columns relational (project, task,
+// position) and the rest of each record as JSON, so new optional fields on the app types need no
+// migration.
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS projects (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,          -- Project without its tasks
+    revision INTEGER NOT NULL DEFAULT 1, -- Bumped on every save
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS tasks (
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,   -- Row order in the plan
+    data TEXT NOT NULL,
+    PRIMARY KEY (project_id, id)
+  );
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS messages (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS audit (
+    seq INTEGER PRIMARY KEY,     -- Position in the hash chain
+    id TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS audit_id ON audit(id);
+  -- The audit trail is append-only, also for anyone editing the database file directly
+  CREATE TRIGGER IF NOT EXISTS audit_no_update BEFORE UPDATE ON audit
+    BEGIN SELECT RAISE(ABORT, 'audit trail is append-only'); END;
+  CREATE TRIGGER IF NOT EXISTS audit_no_delete BEFORE DELETE ON audit
+    BEGIN SELECT RAISE(ABORT, 'audit trail is append-only'); END;
+`;
+
+export type Store = ReturnType<typeof openStore>;
+
+export type StoredProject = Project & { revision: number };
+
+export const openStore = (file: string) => {
+  if (file !== ':memory:') mkdirSync(dirname(file), { recursive: true });
+  const db = new DatabaseSync(file);
+  db.exec('PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;');
+  db.exec(SCHEMA);
+  // Databases created before project revisions
+  if (!db.prepare('PRAGMA table_info(projects)').all().some(column => (column as { name: string }).name === 'revision')) {
+    db.exec('ALTER TABLE projects ADD COLUMN revision INTEGER NOT NULL DEFAULT 1');
+  }
+
+  const transaction = <T>(fn: () => T): T => {
+    db.exec('BEGIN');
+    try {
+      const result = fn();
+      db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  };
+
+  const parse = <T>(row: unknown): T => JSON.parse((row as { data: string }).data) as T;
+
+  const insertAuditEntries = (entries: AuditEntry[]) => {
+    const insert = db.prepare('INSERT INTO audit (seq, id, hash, data) VALUES (?, ?, ?, ?)');
+    entries.forEach(entry => insert.run(entry.seq, entry.id, entry.hash, JSON.stringify(entry)));
+  };
+
+  // --- Projects & Tasks ---
+
+  const getTasks = (projectId: string): Task[] =>
+    db.prepare('SELECT data FROM tasks WHERE project_id = ? ORDER BY position').all(projectId).map(row => parse<Task>(row));
+
+  const getProject = (id: string): StoredProject | null => {
+    const row = db.prepare('SELECT data, revision FROM projects WHERE id = ?').get(id) as { data: string; revision: number } | undefined;
+    return row ? { ...parse<Project>(row), tasks: getTasks(id), revision: row.revision } : null;
+  };
+
+  const listProjects = (): StoredProject[] =>
+    db.prepare('SELECT id FROM projects ORDER BY rowid').all().map(row => getProject((row as { id: string }).id)!);
+
+  const listProjectRevisions = (): { id: string; revision: number }[] =>
+    db.prepare('SELECT id, revision FROM projects ORDER BY rowid').all() as { id: string; revision: number }[];
+
+  const writeTasks = (projectId: string, tasks: Task[]) => {
+    db.prepare('DELETE FROM tasks WHERE project_id = ?').run(projectId);
+    const insert = db.prepare('INSERT INTO tasks (project_id, id, position, data) VALUES (?, ?, ?, ?)');
+    tasks.forEach((task, position) => insert.run(projectId, task.id, position, JSON.stringify(task)));
+  };
+
+  // Whole-project upsert (the plan is replaced as one unit so row order and links stay consistent).
+  // `baseRevision` is the revision the caller edited (0 for a new project); when someone saved in
+  // between, nothing is written and the stored version is returned as the conflict. `record` gives
+  // the audit entries of the change (sealed onto the last stored one), written in the same transaction.
+  const saveProject = (project: Project, baseRevision: number, record?: (current: StoredProject | null) => AuditEntry[]): { saved: StoredProject } | { conflict: StoredProject | null } => transaction(() => {
+    const current = getProject(project.id);
+    if ((current?.revision || 0) !== baseRevision) return { conflict: current };
+    const { tasks, revision, ...rest } = project as StoredProject;
+    if (record) insertAuditEntries(record(current));
+    db.prepare(`
+      INSERT INTO projects (id, data, revision, updated_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET data = excluded.data, revision = excluded.revision, updated_at = excluded.updated_at
+    `).run(project.id, JSON.stringify(rest), baseRevision + 1, new Date().toISOString());
+    writeTasks(project.id, tasks || []);
+    return { saved: getProject(project.id)! };
+  });
+
+  const deleteProject = (id: string, record?: (current: StoredProject) => AuditEntry[]): boolean => transaction(() => {
+    const current = getProject(id);
+    if (!current) return false;
+    if (record) insertAuditEntries(record(current));
+    db.prepare('DELETE FROM projects WHERE id = ?').run(id);
+    return true;
+  });
+
+  // --- Users ---
+
+  const listUsers = (): User[] => db.prepare('SELECT data FROM users ORDER BY rowid').all().map(row => parse<User>(row));
+
+  const saveUser = (user: User): User => {
+    db.prepare('INSERT INTO users (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data')
+      .run(user.id, JSON.stringify(user));
+    return user;
+  };
+
+  const deleteUser = (id: string): boolean => Number(db.prepare('DELETE FROM users WHERE id = ?').run(id).changes) > 0;
+
+  // --- Chat Messages ---
+
+  const listMessages = (): ChatMessage[] =>
+    db.prepare('SELECT data FROM messages ORDER BY seq').all().map(row => parse<ChatMessage>(row));
+
+  const appendMessages = (messages: ChatMessage[]) => transaction(() => {
+    const insert = db.prepare('INSERT INTO messages (id, data) VALUES (?, ?)');
+    messages.forEach(message => insert.run(message.id, JSON.stringify(message)));
+  });
+
+  const clearMessages = () => {
+    db.exec('DELETE FROM messages');
+  };
+
+  // --- Audit Trail ---
+
+  const listAuditEntries = (afterSeq = 0): AuditEntry[] =>
+    db.prepare('SELECT data FROM audit WHERE seq > ? ORDER BY seq').all(afterSeq).map(row => parse<AuditEntry>(row));
+
+  const getLastAuditEntry = (): AuditEntry | null => {
+    const row = db.prepare('SELECT data FROM audit ORDER BY seq DESC LIMIT 1').get();
+    return row ? parse<AuditEntry>(row) : null;
+  };
+
+  const hasAuditEntry = (id: string): boolean => !!db.prepare('SELECT 1 FROM audit WHERE id = ?').get(id);
+
+  // Entries must already be chained onto the last stored one (sealed by the caller)
+  const appendAuditEntries = (entries: AuditEntry[]) => transaction(() => insertAuditEntries(entries));
+
+  return {
+    close: () => db.close(),
+    listProjects,
+    listProjectRevisions,
+    getProject,
+    saveProject,
+    deleteProject,
+    getTasks,
+    listUsers,
+    saveUser,
+    deleteUser,
+    listMessages,
+    appendMessages,
+    clearMessages,
+    listAuditEntries,
+    getLastAuditEntry,
+    hasAuditEntry,
+    appendAuditEntries
+  };
+};
@@ -0,0 +1,416 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { extname, join, normalize, resolve, sep } from 'node:path';
+import type { AuditEntry, AuditSource, ChatMessage, Project, Task, User, UserRole } from '../types.ts';
+import type { AuditChange, AuditDraft, ChangeContext } from '../services/auditService.ts';
+import { createAuditDrafts, diffProjects, sealAuditEntries, toAuditDraft } from '../services/auditService.ts';
+import { SIGNATURE_MEANING_LABELS, addSignature, checkSigner, computeRecordHash, createSignature, findUnsignedCompletions, getSignatureState } from '../services/signatureService.ts';
+import { openStore } from './db.ts';
+import type { StoredProject } from './db.ts';
+
+// Small REST backend that makes one SQLite file the shared source of truth for a team. It also
+// serves the built app (`npm run build`), so a single Linux host runs everything offline.
+// Reading is open on the site network; every change needs a signed-in user (`Authorization: Bearer`).
+//
+//   GET    /api/health
+//   GET    /api/projects[?fields=revision]    PUT/DELETE[?reason=] /api/projects/:id    GET /api/projects/:id
+//   GET    /api/projects/:id/tasks            POST /api/projects/:id/tasks/:taskId/signatures
+//   GET    /api/users                         PUT/DELETE /api/users/:id (administrators, or a user's own password)
+//   POST   /api/auth/login                    POST /api/auth/logout    GET /api/auth/session
+//   GET    /api/messages                      POST (append) / DELETE (clear, administrators) /api/messages
+//   GET    /api/audit?after=:seq              POST (append only) /api/audit?after=:seq
+
+const PORT = Number(process.env.CELLA_PORT) || 3001;
+const DB_FILE = process.env.CELLA_DB || resolve('data', 'cella.db');
+const STATIC_DIR = resolve('dist');
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const USER_ROLES = ['Admin', 'Project Manager', 'Observer'] as UserRole[]; // UserRole values (enums are not importable here)
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const SESSION_IDLE_MS = 12 * 60 * 60 * 1000;
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon'
+};
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const store = openStore(DB_FILE);
+
+// Passwords never leave the server
+const toPublicUser = ({ password, ...user }: User): User => user;
+
+const withoutRevision = ({ revision, ...project }: StoredProject): Project => project;
+
+// Stored as "scrypt$salt$hash"; passwords saved before hashing was added are still accepted, and
+// hashed when their user next signs in
+const hashPassword = (password: string) => {
+  const salt = randomBytes(16).toString('hex');
+  return `scrypt$${salt}$${scryptSync(password, salt, 64).toString('hex')}`;
+};
+
+// Someone must be able to sign in: on first start, or when no administrator has credentials yet
+// (databases from before sign-in), the administrator gets account "admin" and the password from
+// CELLA_ADMIN_PASSWORD, or a generated one printed once
+if (!store.listUsers().some(u => u.role === 'Admin' && u.account && u.password)) {
+  const admin = store.listUsers().find(u => u.role === 'Admin') || { id: 'admin', name: '管理员', role: 'Admin' as UserRole, avatar: 'Admin' };
+  const password = process.env.CELLA_ADMIN_PASSWORD || randomBytes(9).toString('base64url');
+  const account = admin.account || 'admin';
+  store.saveUser({ ...admin, account, password: hashPassword(password) });
+  if (!process.env.CELLA_ADMIN_PASSWORD) console.log(`Administrator account "${account}" created with password ${password} (change it after signing in)`);
+}
+
+const isHashedPassword = (stored: string) => {
+  const [scheme, salt, hash] = stored.split('$');
+  return scheme === 'scrypt' && !!salt && !!hash;
+};
+
+const checkPassword = (password: string, stored?: string) => {
+  if (!stored) return false;
+  // Plain passwords are compared as digests: equal lengths, and no timing hint of a matching prefix
+  if (!isHashedPassword(stored)) return timingSafeEqual(createHash('sha256').update(password).digest(), createHash('sha256').update(stored).digest());
+  const [, salt, hash] = stored.split('$');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+// Repeated wrong passwords lock the account for a while (Part 11 §11.300(d)); kept in memory only
+const failedLogins = new Map<string, { count: number; lockedUntil?: number }>();
+
+// The user with this account and password, null when they do not match; throws while the account is locked
+const authenticate = (account?: string, password?: string): User | null => {
+  if (!account || !password) throw new HttpError(400, 'Account and password are required');
+  const attempts = failedLogins.get(account);
+  if (attempts?.lockedUntil && attempts.lockedUntil > Date.now()) {
+    throw new HttpError(423, 'Account locked after repeated failed sign-ins');
+  }
+  const user = store.listUsers().find(u => u.account === account);
+  if (!user || !checkPassword(password, user.password)) {
+    const count = (attempts?.lockedUntil ? 0 : attempts?.count || 0) + 1;
+    failedLogins.set(account, count >= MAX_FAILED_LOGINS ? { count, lockedUntil: Date.now() + LOCKOUT_MS } : { count });
+    return null;
+  }
+  failedLogins.delete(account);
+  if (!isHashedPassword(user.password!)) return store.saveUser({ ...user, password: hashPassword(password) });
+  return user;
+};
+
+// Signed-in users by bearer token. In memory only: a restart signs everyone out.
+const sessions = new Map<string, { userId: string; expiresAt: number }>();
+
+const getSession = (req: IncomingMessage): { token: string; user: User } | null => {
+  const token = /^Bearer (\S+)$/.exec(req.headers.authorization || '')?.[1];
+  const session = token ? sessions.get(token) : undefined;
+  const user = session && session.expiresAt > Date.now() ? store.listUsers().find(u => u.id === session.userId) : undefined;
+  if (!token || !session || !user) {
+    if (token) sessions.delete(token);
+    return null;
+  }
+  session.expiresAt = Date.now() + SESSION_IDLE_MS;
+  return { token, user };
+};
+
+const endSessions = (userId: string, exceptToken?: string) => {
+  sessions.forEach((session, token) => {
+    if (session.userId === userId && token !== exceptToken) sessions.delete(token);
+  });
+};
+
+const requireRole = (user: User, roles: string[]) => {
+  if (!roles.includes(user.role)) throw new HttpError(403, `Not allowed for role ${user.role}`);
+};
+
+// Signatures are given through their own route only; a saved plan must carry the stored ones
+const checkSignaturesUnchanged = (tasks: Task[], stored: Project | null) => {
+  const storedSignatures = new Map((stored?.tasks || []).map(t => [t.id, JSON.stringify(t.signatures || [])]));
+  const changed = tasks.find(t => JSON.stringify(t.signatures || []) !== (storedSignatures.get(t.id) || '[]'));
+  if (changed) throw new HttpError(400, `Signatures of task ${changed.id} can only be given through the signature route`);
+};
+
+// Chained onto the last stored entry; called inside the store transaction that writes them
+const sealAfterLastEntry = (drafts: AuditDraft[]): AuditEntry[] => {
+  const last = store.getLastAuditEntry();
+  return sealAuditEntries(last ? [last] : [], drafts);
+};
+
+const CHANGE_SOURCES: AuditSource[] = ['manual', 'proposal', 'undo', 'import', 'system'];
+
+// Project changes are recorded by the server as they are saved, under the signed-in user and with
+// the reason the client sends; a save that changes anything needs one
+const readChangeContext = (change: Partial<ChangeContext> | undefined, command: string): ChangeContext => {
+  const source = change?.source || 'manual';
+  if (!CHANGE_SOURCES.includes(source)) throw new HttpError(400, `Unknown change source ${source}`);
+  const reason = typeof change?.reason === 'string' ? change.reason.trim() : '';
+  return { command: typeof change?.command === 'string' && change.command ? change.command : command, reason, source };
+};
+
+const recordChange = (changes: AuditChange[], user: User, context: ChangeContext): AuditEntry[] => {
+  if (changes.length === 0) return [];
+  if (!context.reason) throw new HttpError(400, 'A reason for the change is required');
+  return sealAfterLastEntry(createAuditDrafts(changes, { ...context, user }));
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': MIME_TYPES['.json'] });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readJson = async <T>(req: IncomingMessage): Promise<T> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8')) as T;
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+};
+
+const requireId = (body: { id?: unknown }, id: string) => {
+  if (body?.id !== id) throw new HttpError(400, `Body id must match the URL (${id})`);
+};
+
+// Tasks are stored one row per id, so a plan with a task lacking an id or reusing one is refused
+const validateTasks = (tasks: unknown) => {
+  if (!Array.isArray(tasks)) throw new HttpError(400, 'Project tasks must be an array');
+  const ids = new Set<string>();
+  tasks.forEach((task: Partial<Task> | null, index) => {
+    if (!task || typeof task !== 'object') throw new HttpError(400, `Task ${index} must be an object`);
+    if (typeof task.id !== 'string' || !task.id) throw new HttpError(400, `Task ${index} has no id`);
+    if (ids.has(task.id)) throw new HttpError(400, `Task id ${task.id} is used more than once`);
+    ids.add(task.id);
+  });
+};
+
+// Electronic signature (Part 11 §11.200): the signer re-enters their own account and password, and
+// the signature is bound to the stored task as the signer saw it (`recordHash`). Saved with the
+// project as a new revision and recorded in the audit trail under the signer's name.
+const signTask = (res: ServerResponse, project: StoredProject, taskId: string, body: { account?: string; password?: string; comment?: string; recordHash?: string }) => {
+  const task = project.tasks.find(t => t.id === taskId);
+  if (!task) return sendJson(res, 404, { error: 'Task not found' });
+  const signer = authenticate(body.account, body.password);
+  // Wrong signer credentials refuse the signature, they do not end the session (403, not 401)
+  if (!signer) return sendJson(res, 403, { error: 'Wrong account or password' });
+  if (body.recordHash !== computeRecordHash(task)) return sendJson(res, 409, { error: 'Task was changed since it was shown to the signer' });
+  if (checkSigner(task, signer)) return sendJson(res, 409, { error: 'This user may not give the next signature' });
+
+  const meaning = getSignatureState(task).next!;
+  const { revision, ...before } = project;
+  const after = { ...before, tasks: before.tasks.map(t => t.id === taskId ? addSignature(t, createSignature(t, meaning, signer, body.comment)) : t) };
+  const result = store.saveProject(after, revision, () => sealAfterLastEntry(createAuditDrafts(diffProjects(before, after), {
+    user: signer,
+    command: `电子签名「${task.name}」：${SIGNATURE_MEANING_LABELS[meaning]}`,
+    reason: body.comment || SIGNATURE_MEANING_LABELS[meaning],
+    source: 'signature'
+  })));
+  if ('conflict' in result) return sendJson(res, 409, { error: 'Project was changed while signing' });
+  return sendJson(res, 201, result.saved);
+};
+
+const handleApi = async (req: IncomingMessage, res: ServerResponse, parts: string[], query: URLSearchParams) => {
+  const method = req.method || 'GET';
+  const [resource, id, child, childId, action] = parts;
+
+  if (resource === 'health' && method === 'GET') return sendJson(res, 200, { ok: true });
+
+  if (resource === 'auth' && id === 'login' && method === 'POST') {
+    const { account, password } = await readJson<{ account?: string; password?: string }>(req);
+    const user = authenticate(account, password);
+    if (!user) return sendJson(res, 401, { error: 'Wrong account or password' });
+    const token = randomBytes(32).toString('hex');
+    sessions.set(token, { userId: user.id, expiresAt: Date.now() + SESSION_IDLE_MS });
+    return sendJson(res, 200, { token, user: toPublicUser(user) });
+  }
+
+  const session = getSession(req);
+  if (!session && method !== 'GET') throw new HttpError(401, 'Sign in first');
+
+  if (resource === 'auth' && id === 'session' && method === 'GET') {
+    return session ? sendJson(res, 200, toPublicUser(session.user)) : sendJson(res, 401, { error: 'Not signed in' });
+  }
+
+  if (resource === 'auth' && id === 'logout' && method === 'POST') {
+    sessions.delete(session!.token);
+    return sendJson(res, 204, undefined);
+  }
+
+  if (resource === 'projects') {
+    if (!id) {
+      // `?fields=revision` lists only ids and revisions, for clients checking what others changed
+      if (method === 'GET') return sendJson(res, 200, query.get('fields') === 'revision' ? store.listProjectRevisions() : store.listProjects());
+    } else if (!child) {
+      if (method === 'GET') {
+        const project = store.getProject(id);
+        return project ? sendJson(res, 200, project) : sendJson(res, 404, { error: 'Project not found' });
+      }
+      if (method === 'PUT') {
+        requireRole(session!.user, ['Admin', 'Project Manager']);
+        const { revision, change, ...project } = await readJson<Project & { revision?: number; change?: Partial<ChangeContext> }>(req);
+        requireId(project, id);
+        const context = readChangeContext(change, '保存项目');
+        validateTasks(project.tasks);
+        const stored = store.getProject(id);
+        checkSignaturesUnchanged(project.tasks, stored);
+        // GMP-critical tasks are completed only once signed off, whichever client saves them
+        const unsigned = findUnsignedCompletions(stored?.tasks || [], project.tasks);
+        if (unsigned.length > 0) throw new HttpError(400, `Tasks ${unsigned.map(t => t.id).join(', ')} cannot be completed without their signatures`);
+        // The body carries the revision it was based on (0 or none for a new project); 409 when it is stale
+        const result = store.saveProject(project, Number(revision) || 0, current =>
+          recordChange(diffProjects(current && withoutRevision(current), project, context.source === 'import' ? 'import' : 'create'), session!.user, context));
+        if ('conflict' in result) {
+          return sendJson(res, 409, { error: result.conflict ? `Project was changed by someone else (now revision ${result.conflict.revision})` : 'Project was deleted by someone else', project: result.conflict });
+        }
+        return sendJson(res, 200, result.saved);
+      }
+      if (method === 'DELETE') {
+        requireRole(session!.user, ['Admin']);
+        const context = readChangeContext({ reason: query.get('reason') || '' }, '删除项目');
+        return store.deleteProject(id, current => recordChange(diffProjects(current, null), session!.user, context)) ? sendJson(res, 204, undefined) : sendJson(res, 404, { error: 'Project not found' });
+      }
+    } else if (child === 'tasks') {
+      const stored = store.getProject(id);
+      if (!stored) return sendJson(res, 404, { error: 'Project not found' });
+      if (!childId && method === 'GET') return sendJson(res, 200, store.getTasks(id));
+      if (childId && action === 'signatures' && method === 'POST') return signTask(res, stored, childId, await readJson(req));
+    }
+  }
+
+  if (resource === 'users') {
+    if (!id && method === 'GET') return sendJson(res, 200, store.listUsers().map(toPublicUser));
+    if (id && method === 'PUT') {
+      const { currentPassword, ...user } = await readJson<User & { currentPassword?: string }>(req);
+      requireId(user, id);
+      const previous = store.listUsers().find(u => u.id === id);
+      let saved: User;
+      if (session!.user.role === 'Admin') {
+        if (!USER_ROLES.includes(user.role)) throw new HttpError(400, `Unknown role ${user.role}`);
+        if (user.account && store.listUsers().some(u => u.id !== id && u.account === user.account)) {
+          throw new HttpError(409, `Account ${user.account} is already in use`);
+        }
+        // An edit without a password keeps the stored one
+        saved = { ...user, password: user.password ? hashPassword(user.password) : previous?.password };
+      } else {
+        // Everyone else may only change their own password, confirming the current one
+        if (id !== session!.user.id || !previous) throw new HttpError(403, 'Only administrators can edit other users');
+        if (!user.password) throw new HttpError(400, 'New password is required');
+        if (!currentPassword || !checkPassword(currentPassword, previous.password)) throw new HttpError(403, 'Current password is wrong');
+        saved = { ...previous, password: hashPassword(user.password) };
+      }
+      // A new password signs the user out everywhere else
+      if (user.password) endSessions(id, session!.token);
+      return sendJson(res, 200, toPublicUser(store.saveUser(saved)));
+    }
+    if (id && method === 'DELETE') {
+      requireRole(session!.user, ['Admin']);
+      if (id === session!.user.id) throw new HttpError(400, 'Administrators cannot delete their own account');
+      endSessions(id);
+      return store.deleteUser(id) ? sendJson(res, 204, undefined) : sendJson(res, 404, { error: 'User not found' });
+    }
+  }
+
+  if (resource === 'messages' && !id) {
+    if (method === 'GET') return sendJson(res, 200, store.listMessages());
+    if (method === 'POST') {
+      const body = await readJson<ChatMessage | ChatMessage[]>(req);
+      const messages = Array.isArray(body) ? body : [body];
+      if (messages.some(m => !m?.id || !m.role)) throw new HttpError(400, 'Messages need an id and a role');
+      store.appendMessages(messages);
+      return sendJson(res, 201, messages);
+    }
+    if (method === 'DELETE') {
+      requireRole(session!.user, ['Admin']); // The chat is the team's shared record
+      store.clearMessages();
+      return sendJson(res, 204, undefined);
+    }
+  }
+
+  if (resource === 'audit' && !id) {
+    // Clients pass the last entry they have and get everything stored after it
+    const afterSeq = Number(query.get('after')) || 0;
+    if (method === 'GET') return sendJson(res, 200, store.listAuditEntries(afterSeq));
+    if (method === 'POST') {
+      const drafts = await readJson<AuditDraft[]>(req);
+      if (!Array.isArray(drafts)) throw new HttpError(400, 'Audit entries must be an array');
+      if (drafts.some(d => typeof d?.id !== 'string' || !d.id || !d.action)) throw new HttpError(400, 'Audit entries need an id and an action');
+      // Clients record only their own changes: entries naming another user, or signatures (recorded
+      // by the server as they are given), are refused. Who and when come from the session and the
+      // server clock, not from the entry.
+      const { user } = session!;
+      requireRole(user, ['Admin', 'Project Manager']); // Observers change nothing
+      if (drafts.some(d => d.userId !== user.id)) throw new HttpError(403, 'Audit entries can only record your own changes');
+      if (drafts.some(d => d.source === 'signature')) throw new HttpError(403, 'Signatures are recorded by the server');
+      const timestamp = new Date().toISOString();
+      // The server numbers and chains new entries after its own last one, so clients appending at
+      // the same time never collide. Entries already stored (a retry after a lost response) are skipped.
+      const seen = new Set<string>();
+      const fresh = drafts.filter(d => {
+        const isNew = !seen.has(d.id) && !store.hasAuditEntry(d.id);
+        seen.add(d.id);
+        return isNew;
+      }).map(d => ({ ...toAuditDraft(d), timestamp, userId: user.id, userName: user.name }));
+      store.appendAuditEntries(sealAfterLastEntry(fresh));
+      return sendJson(res, 201, store.listAuditEntries(afterSeq));
+    }
+  }
+
+  throw new HttpError(404, `No route for ${method} /api/${parts.join('/')}`);
+};
+
+// Built app with a fallback to index.html for client-side paths
+const serveStatic = (pathname: string, res: ServerResponse) => {
+  const filePath = normalize(join(STATIC_DIR, decodeURIComponent(pathname)));
+  // Inside dist only: a bare prefix check would also let through siblings such as dist-ssr
+  const isFile = filePath.startsWith(STATIC_DIR + sep) && existsSync(filePath) && statSync(filePath).isFile();
+  const target = isFile ? filePath : join(STATIC_DIR, 'index.html');
+  if (!existsSync(target)) {
+    sendJson(res, 404, { error: 'App not built, run `npm run build` first' });
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': MIME_TYPES[extname(target)] || 'application/octet-stream' });
+  res.end(readFileSync(target));
+};
+
+const server = createServer(async (req, res) => {
+  const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+  try {
+    if (pathname.startsWith('/api/')) {
+      await handleApi(req, res, pathname.slice('/api/'.length).split('/').filter(Boolean).map(decodeURIComponent), searchParams);
+    } else {
+      serveStatic(pathname, res);
+    }
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error(error);
+    sendJson(res, status, { error: (error as Error).message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`CELLA server on http://localhost:${PORT} (database: ${DB_FILE})`);
+});
+
+const shutdown = () => server.close(() => {
+  store.close();
+  process.exit(0);
+});
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,346 @@
+import { AuditEntry, ChatMessage, ElectronicSignature, Project, Task, User } from '../types';
+import { AuditDraft, ChangeContext } from './auditService';
+
+// Client of the shared CELLA server (server/index.ts). In development Vite proxies /api to it;
+// in production the server also serves the app, so the same relative base works everywhere.
+
+const API_BASE = '/api';
+const HEALTH_TIMEOUT_MS = 1500;
+const TOKEN_KEY = 'cella.auth'; // sessionStorage: the signed-in user's bearer token, per browser tab
+
+export const PULL_INTERVAL_MS = 30 * 1000; // How often the app checks for other users' changes
+
+export class ApiError extends Error {
+  status: number;
+  body: unknown; // Parsed error response, e.g. the current project with a 409
+
+  constructor(status: number, message: string, body: unknown = null) {
+    super(message);
+    this.status = status;
+    this.body = body;
+  }
+}
+
+const getToken = () => {
+  try {
+    return sessionStorage.getItem(TOKEN_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const setToken = (token: string | null) => {
+  try {
+    if (token) sessionStorage.setItem(TOKEN_KEY, token);
+    else sessionStorage.removeItem(TOKEN_KEY);
+  } catch {
+    // sessionStorage unavailable: the user signs in again after a reload
+  }
+};
+
+// Changes are refused with ApiError 401 without a signed-in user (never signed in, or the session ended)
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const token = getToken();
+  const response = await fetch(`${API_BASE}${path}`, {
+    ...init,
+    headers: {
+      ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {})
+    }
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(response.status, `服务器错误 ${response.status}: ${body?.error || response.statusText}`, body);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+const path = (...parts: string[]) => parts.map(encodeURIComponent).join('/');
+
+// True when the server answers (the app falls back to browser-only storage otherwise)
+export const isServerAvailable = async (): Promise<boolean> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${API_BASE}/health`, { signal: controller.signal });
+    return response.ok && (await response.json()).ok === true;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// --- Projects & Tasks ---
+
+// Stored projects carry a revision, bumped by every save. It stays in the sync (never in app state),
+// so restoring an older version through undo does not restore its revision too.
+export type ServerProject = Project & { revision: number };
+
+export const withoutRevision = ({ revision, ...project }: ServerProject): Project => project;
+
+export const fetchProjects = () => request<ServerProject[]>('/projects');
+
+export const fetchProject = (projectId: string) => request<ServerProject>(`/projects/${path(projectId)}`);
+
+export const fetchProjectRevisions = () => request<{ id: string; revision: number }[]>('/projects?fields=revision');
+
+// Rejected with 409 when `baseRevision` (0 for a new project) is no longer the stored one; the error
+// body then holds the stored version (null when the project was deleted). The server records the
+// save in the audit trail with `change`, which is required whenever the project differs from the stored one.
+export const saveProject = (project: Project, baseRevision: number, change?: ChangeContext) =>
+  request<ServerProject>(`/projects/${path(project.id)}`, { method: 'PUT', body: JSON.stringify({ ...project, revision: baseRevision, change }) });
+
+// --- Electronic Signatures ---
+
+export interface SignatureRequest {
+  account: string; // The signer's own credentials, entered for this signature
+  password: string;
+  comment: string;
+  recordHash: string; // Hash of the task as shown to the signer; refused (409) if the stored one differs
+}
+
+// The server creates the signature and saves the project as a new revision. ApiError 403 for wrong
+// credentials, 423 while the signer's account is locked, 409 when the task or its signatures changed.
+export const signTask = (projectId: string, taskId: string, signature: SignatureRequest) =>
+  request<ServerProject>(`/projects/${path(projectId)}/tasks/${path(taskId)}/signatures`, { method: 'POST', body: JSON.stringify(signature) });
+
+// --- Users & Sign-in ---
+
+export const fetchUsers = () => request<User[]>('/users');
+
+// Administrators only (the server refuses anyone else with 403)
+export const saveUser = (user: User) =>
+  request<User>(`/users/${path(user.id)}`, { method: 'PUT', body: JSON.stringify(user) });
+
+export const deleteUser = (userId: string) =>
+  request<void>(`/users/${path(userId)}`, { method: 'DELETE' });
+
+// ApiError 401 for a wrong account or password, 423 while the account is locked
+export const signIn = async (account: string, password: string): Promise<User> => {
+  const { token, user } = await request<{ token: string; user: User }>('/auth/login', { method: 'POST', body: JSON.stringify({ account, password }) });
+  setToken(token);
+  return user;
+};
+
+export const signOut = async () => {
+  await request<void>('/auth/logout', { method: 'POST' }).catch(() => undefined);
+  setToken(null);
+};
+
+// The user signed in in this tab, null when there is none (or the server no longer knows the session)
+export const fetchSessionUser = async (): Promise<User | null> => {
+  if (!getToken()) return null;
+  try {
+    return await request<User>('/auth/session');
+  } catch (error) {
+    if (!(error instanceof ApiError && error.status === 401)) throw error;
+    setToken(null);
+    return null;
+  }
+};
+
+// --- Chat Messages ---
+
+// Timestamps travel as ISO strings
+export const fetchMessages = async (): Promise<ChatMessage[]> =>
+  (await request<ChatMessage[]>('/messages')).map(m => ({ ...m, timestamp: new Date(m.timestamp) }));
+
+export const appendMessages = (messages: ChatMessage[]) =>
+  request<ChatMessage[]>('/messages', { method: 'POST', body: JSON.stringify(messages) });
+
+// --- Audit Trail ---
+
+// Entries after `afterSeq`, the whole trail by default
+export const fetchAuditTrail = (afterSeq = 0) => request<AuditEntry[]>(`/audit?after=${afterSeq}`);
+
+// The server numbers and chains the entries after its last one. Resolves to everything stored after
+// `afterSeq`: entries other clients appended in between, then these.
+export const appendAuditEntries = (drafts: AuditDraft[], afterSeq: number) =>
+  request<AuditEntry[]>(`/audit?after=${afterSeq}`, { method: 'POST', body: JSON.stringify(drafts) });
+
+// --- Workspace Sync ---
+
+// A local version that could not be saved because someone else saved or deleted the project first
+export interface ProjectConflict {
+  local: Project;
+  server: Project | null; // Deleted on the server when null
+}
+
+export interface WorkspaceSync {
+  // `change` is why the projects changed, recorded with them in the server's audit trail
+  saveProjects: (projects: Project[], change?: ChangeContext) => Promise<void>;
+  // Settle a conflict: keep the local version (saved over the server's, for `change`) or drop it for the server's
+  resolveConflict: (projectId: string, keep: 'local' | 'server', change?: ChangeContext) => Promise<void>;
+  // Projects other users saved or deleted since the last pull, and new audit entries (via onAuditStored)
+  pull: () => Promise<{ projects: Project[]; deletedIds: string[] }>;
+  pushMessages: (messages: ChatMessage[]) => Promise<void>;
+  appendAudit: (drafts: AuditDraft[]) => Promise<void>;
+  // Sign a task once the local changes are saved; resolves to the signed project as stored
+  signTask: (projectId: string, taskId: string, signature: SignatureRequest) => Promise<Project>;
+}
+
+// Keeps the server in step with the app. Projects are saved as the app changes them, version by
+// version with the reason for each, against the revision last loaded or saved; a stale one is held
+// back and reported to `onConflict` instead of overwriting another user's work. The server records
+// every save in the audit trail (other entries are sent with `appendAudit`), and `onAuditStored`
+// receives what it stored since the last ones this client has, so the local chain can be rebased
+// onto it. New chat messages are appended, never removed. Requests run one after another; whatever
+// failed is retried by the next one.
+// Signatures are only ever given on the server: saves carry the stored ones, whatever the local copy holds.
+export const createWorkspaceSync = (
+  synced: { projects: ServerProject[]; messages: ChatMessage[]; auditSeq: number },
+  handlers: { onAuditStored: (entries: AuditEntry[]) => void; onConflict: (conflict: ProjectConflict) => void }
+): WorkspaceSync => {
+  const revisions = new Map<string, number>();
+  const signatures = new Map<string, Map<string, ElectronicSignature[]>>(); // Per project: stored signatures by task
+  const unsaved = new Map<string, { project: Project; change?: ChangeContext }[]>(); // Local versions not stored yet, oldest first
+  const conflicts = new Map<string, ServerProject | null>(); // Held-back project -> server version (null: deleted)
+  const syncedMessageIds = new Set(synced.messages.map(m => m.id));
+  let auditSeq = synced.auditSeq; // Last server entry the local trail has
+  let pendingAudit: AuditDraft[] = [];
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const remember = (project: ServerProject) => {
+    revisions.set(project.id, project.revision);
+    signatures.set(project.id, new Map(project.tasks.filter(t => t.signatures?.length).map(t => [t.id, t.signatures!])));
+  };
+  const forget = (projectId: string) => {
+    revisions.delete(projectId);
+    signatures.delete(projectId);
+  };
+  synced.projects.forEach(remember);
+
+  const withStoredSignatures = (project: Project): Project => {
+    const stored = signatures.get(project.id);
+    const sign = ({ signatures: _, ...task }: Task): Task => stored?.has(task.id) ? { ...task, signatures: stored.get(task.id) } : task;
+    return { ...project, tasks: project.tasks.map(sign) };
+  };
+
+  const enqueue = <T>(job: () => Promise<T>): Promise<T> => {
+    const result = queue.then(job);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  // Audit entries first: a change is never on the server without its record
+  const flushAudit = async () => {
+    if (pendingAudit.length === 0) return;
+    const sent = pendingAudit;
+    const stored = await appendAuditEntries(sent, auditSeq);
+    pendingAudit = pendingAudit.filter(d => !sent.includes(d));
+    if (stored.length > 0) auditSeq = stored[stored.length - 1].seq;
+    handlers.onAuditStored(stored);
+  };
+
+  const flushProjects = async () => {
+    let isSaved = false;
+    for (const id of Array.from(unsaved.keys())) {
+      while (unsaved.has(id) && !conflicts.has(id)) {
+        // Versions recorded while this one was saved are added to the same list
+        const versions = unsaved.get(id)!;
+        const { project, change } = versions[0];
+        try {
+          remember(await saveProject(withStoredSignatures(project), revisions.get(id) || 0, change));
+          isSaved = true;
+          if (versions.length > 1) versions.shift();
+          else unsaved.delete(id);
+        } catch (error) {
+          // Refused for its content (e.g. an unsigned completion): retrying cannot help, the later
+          // versions build on it, and they must not hold back the other projects' saves
+          if (error instanceof ApiError && error.status === 400) unsaved.delete(id);
+          if (!(error instanceof ApiError && error.status === 409)) throw error;
+          const server = (error.body as { project?: ServerProject | null } | null)?.project || null;
+          conflicts.set(id, server);
+          handlers.onConflict({ local: versions[versions.length - 1].project, server: server && withoutRevision(server) });
+        }
+      }
+    }
+    return isSaved;
+  };
+
+  const flush = async () => {
+    await flushAudit();
+    // The entries the server recorded for the saves
+    if (await flushProjects()) await fetchAudit();
+  };
+
+  // Entries other clients (or the server, for signatures) stored since the last ones this client has
+  const fetchAudit = async () => {
+    if (pendingAudit.length > 0) return;
+    const stored = await fetchAuditTrail(auditSeq);
+    if (stored.length > 0) {
+      auditSeq = stored[stored.length - 1].seq;
+      handlers.onAuditStored(stored);
+    }
+  };
+
+  const pull = async () => {
+    await flush();
+    const remote = await fetchProjectRevisions();
+    const projects: Project[] = [];
+    for (const { id, revision } of remote) {
+      if (revisions.get(id) === revision || unsaved.has(id)) continue;
+      const project = await fetchProject(id).catch(error => {
+        if (error instanceof ApiError && error.status === 404) return null; // Deleted meanwhile
+        throw error;
+      });
+      // Local edits made while it loaded win; they are saved against the old revision and conflict
+      if (!project || unsaved.has(id)) continue;
+      remember(project);
+      projects.push(withoutRevision(project));
+    }
+    const remoteIds = new Set(remote.map(r => r.id));
+    const deletedIds = Array.from(revisions.keys()).filter(id => !remoteIds.has(id) && !unsaved.has(id));
+    deletedIds.forEach(forget);
+    await fetchAudit();
+    return { projects, deletedIds };
+  };
+
+  // Append only: messages gone from the local list (e.g. the fresh chat of a new project) stay on
+  // the server, which is the team's shared record
+  const pushMessages = async (messages: ChatMessage[]) => {
+    const added = messages.filter(m => !syncedMessageIds.has(m.id));
+    if (added.length > 0) await appendMessages(added);
+    added.forEach(m => syncedMessageIds.add(m.id));
+  };
+
+  return {
+    saveProjects: (projects, change) => {
+      projects.forEach(project => {
+        const versions = unsaved.get(project.id);
+        if (versions) versions.push({ project, change });
+        else unsaved.set(project.id, [{ project, change }]);
+      });
+      return enqueue(flush);
+    },
+    resolveConflict: (projectId, keep, change) => {
+      if (!conflicts.has(projectId)) return Promise.resolve();
+      const server = conflicts.get(projectId);
+      conflicts.delete(projectId);
+      if (server) remember(server);
+      else forget(projectId);
+      // The local versions are saved over the server's as one change
+      const versions = unsaved.get(projectId);
+      if (keep === 'server') unsaved.delete(projectId);
+      else if (versions) unsaved.set(projectId, [{ project: versions[versions.length - 1].project, change }]);
+      return enqueue(flush);
+    },
+    pull: () => enqueue(pull),
+    pushMessages: messages => enqueue(async () => {
+      await flush();
+      await pushMessages(messages);
+    }),
+    appendAudit: drafts => {
+      pendingAudit = [...pendingAudit, ...drafts];
+      return enqueue(flushAudit);
+    },
+    signTask: (projectId, taskId, signature) => enqueue(async () => {
+      await flush();
+      const signed = await signTask(projectId, taskId, signature);
+      remember(signed);
+      await fetchAudit();
+      return withoutRevision(signed);
+    })
+  };
+};
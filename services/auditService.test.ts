@@ -0,0 +1,130 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import type { AuditEntry } from '../types';
+import { GENESIS_HASH, computeAuditHash, createAuditDrafts, rebaseAuditTrail, sealAuditEntries, sha256, toAuditDraft, verifyAuditTrail, type AuditDraft } from './auditService';
+
+const USER = { id: 'u1', name: '张工' };
+
+const makeDrafts = (count: number, label = 'change'): AuditDraft[] => createAuditDrafts(
+  Array.from({ length: count }, (_, i) => ({
+    projectId: 'p1',
+    projectName: '3号线验证',
+    entityType: 'task' as const,
+    entityId: `t${i + 1}`,
+    entityName: `${label} ${i + 1}`,
+    action: 'update' as const,
+    field: 'endDate',
+    oldValue: '2025-01-06',
+    newValue: '2025-01-07'
+  })),
+  { user: USER, command: `修改「${label}」`, reason: '供应商延期', source: 'manual' }
+);
+
+describe('auditService', () => {
+  describe('sha256', () => {
+    it('matches the digests of node:crypto', () => {
+      // Empty input, a single block, text that needs a second padding block and multi-byte UTF-8
+      ['', 'abc', 'a'.repeat(56), 'x'.repeat(1000), '验证 ✓'].forEach(text => {
+        expect(sha256(text)).toBe(createHash('sha256').update(text, 'utf8').digest('hex'));
+      });
+    });
+  });
+
+  describe('sealAuditEntries', () => {
+    it('numbers and chains a new trail from the genesis hash', () => {
+      const trail = sealAuditEntries([], makeDrafts(3));
+
+      expect(trail.map(e => e.seq)).toEqual([1, 2, 3]);
+      expect(trail[0].previousHash).toBe(GENESIS_HASH);
+      expect(trail[1].previousHash).toBe(trail[0].hash);
+      expect(trail[2].previousHash).toBe(trail[1].hash);
+      trail.forEach(({ hash, ...unsealed }) => expect(hash).toBe(computeAuditHash(unsealed)));
+    });
+
+    it('continues after the end of an existing trail', () => {
+      const first = sealAuditEntries([], makeDrafts(2));
+      const next = sealAuditEntries(first, makeDrafts(2, 'later'));
+
+      expect(next.map(e => e.seq)).toEqual([3, 4]);
+      expect(next[0].previousHash).toBe(first[1].hash);
+      expect(verifyAuditTrail([...first, ...next])).toEqual({ isValid: true });
+    });
+
+    it('does not depend on the order the fields were stored in', () => {
+      const [entry] = sealAuditEntries([], makeDrafts(1));
+      const reordered = Object.fromEntries(Object.entries(entry).reverse()) as unknown as AuditEntry;
+      expect(verifyAuditTrail([reordered])).toEqual({ isValid: true });
+    });
+  });
+
+  describe('verifyAuditTrail', () => {
+    const trail = sealAuditEntries([], makeDrafts(4));
+
+    it('accepts an intact trail and an empty one', () => {
+      expect(verifyAuditTrail(trail)).toEqual({ isValid: true });
+      expect(verifyAuditTrail([])).toEqual({ isValid: true });
+    });
+
+    it('detects an edited field', () => {
+      const tampered = trail.map(e => e.seq === 2 ? { ...e, newValue: '2025-01-03' } : e);
+      expect(verifyAuditTrail(tampered)).toEqual({ isValid: false, brokenAtSeq: 2 });
+    });
+
+    it('detects an edited entry even when its own hash is recomputed', () => {
+      const tampered = trail.map(e => {
+        if (e.seq !== 2) return e;
+        const { hash, ...unsealed } = { ...e, reason: '无' };
+        return { ...unsealed, hash: computeAuditHash(unsealed) };
+      });
+      expect(verifyAuditTrail(tampered)).toEqual({ isValid: false, brokenAtSeq: 3 });
+    });
+
+    it('detects a removed entry', () => {
+      expect(verifyAuditTrail(trail.filter(e => e.seq !== 3))).toEqual({ isValid: false, brokenAtSeq: 3 });
+    });
+
+    it('detects entries in the wrong order', () => {
+      expect(verifyAuditTrail([trail[0], trail[2], trail[1], trail[3]])).toEqual({ isValid: false, brokenAtSeq: 2 });
+    });
+
+    it('checks appended entries against the last stored one', () => {
+      expect(verifyAuditTrail(trail.slice(2), trail[1])).toEqual({ isValid: true });
+      expect(verifyAuditTrail(trail.slice(2), trail[0])).toEqual({ isValid: false, brokenAtSeq: 2 });
+      // Without the entry they follow, appended entries do not start a trail
+      expect(verifyAuditTrail(trail.slice(2))).toEqual({ isValid: false, brokenAtSeq: 1 });
+    });
+  });
+
+  describe('rebaseAuditTrail', () => {
+    const shared = sealAuditEntries([], makeDrafts(2, 'shared'));
+
+    it('keeps the trail when the server stored nothing new', () => {
+      expect(rebaseAuditTrail(shared, [])).toBe(shared);
+    });
+
+    it('takes the entries the server stored and seals local ones after them', () => {
+      const local = [...shared, ...sealAuditEntries(shared, makeDrafts(2, 'local'))];
+      const stored = sealAuditEntries(shared, makeDrafts(3, 'other user'));
+
+      const rebased = rebaseAuditTrail(local, stored);
+
+      expect(rebased.map(e => e.seq)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+      expect(rebased.slice(0, 5)).toEqual([...shared, ...stored]);
+      expect(rebased.slice(5).map(e => e.entityName)).toEqual(['local 1', 'local 2']);
+      expect(rebased.slice(5).map(e => e.id)).toEqual(local.slice(2).map(e => e.id));
+      expect(verifyAuditTrail(rebased)).toEqual({ isValid: true });
+    });
+
+    it('does not duplicate local entries the server has already stored', () => {
+      const local = [...shared, ...sealAuditEntries(shared, makeDrafts(2, 'local'))];
+      // The server accepted the first local entry (and chained it itself), then another user's
+      const stored = sealAuditEntries(shared, [local[2], ...makeDrafts(1, 'other user')].map(toAuditDraft));
+
+      const rebased = rebaseAuditTrail(local, stored);
+
+      expect(rebased.map(e => e.entityName)).toEqual(['shared 1', 'shared 2', 'local 1', 'other user 1', 'local 2']);
+      expect(new Set(rebased.map(e => e.id)).size).toBe(rebased.length);
+      expect(verifyAuditTrail(rebased)).toEqual({ isValid: true });
+    });
+  });
+});
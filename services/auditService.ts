@@ -0,0 +1,241 @@
+import type { AuditAction, AuditEntry, AuditSource, Project, Task, User } from '../types';
+
+// Audit trail of every project and task change (21 CFR Part 11 / EU Annex 11): who, when, which
+// field, old and new value and why. Entries are chained with SHA-256 so any edit or deletion of a
+// stored entry is detected by `verifyAuditTrail`. Type-only imports keep this module usable by the
+// server, which records project saves and seals the entries clients append.
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+// --- SHA-256 ---
+// Implemented here because crypto.subtle is async and only available on https / localhost,
+// while the shared server is often reached over plain http on the site network.
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+// Hex digest of the UTF-8 encoding of `text`
+export const sha256 = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  const padded = new Uint8Array(((bytes.length + 9 + 63) >> 6) << 6);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bytes.length / 0x20000000)); // Bit length, high word
+  view.setUint32(padded.length - 4, (bytes.length * 8) >>> 0);
+
+  const h = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i]) | 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      hh = g; g = f; f = e; e = (d + t1) | 0;
+      d = c; c = b; b = a; a = (t1 + t2) | 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d;
+    h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+  return Array.from(h).map(x => x.toString(16).padStart(8, '0')).join('');
+};
+
+// --- Hash Chain ---
+
+// Hashed in this fixed order, so the hash does not depend on how an entry was serialized or stored
+const HASHED_FIELDS: (keyof AuditEntry)[] = [
+  'seq', 'id', 'timestamp', 'userId', 'userName', 'projectId', 'projectName', 'entityType', 'entityId',
+  'entityName', 'plan', 'action', 'field', 'oldValue', 'newValue', 'command', 'reason', 'source', 'previousHash'
+];
+
+export const computeAuditHash = (entry: Omit<AuditEntry, 'hash'>): string =>
+  sha256(JSON.stringify(HASHED_FIELDS.map(field => entry[field as keyof typeof entry] ?? null)));
+
+export type AuditDraft = Omit<AuditEntry, 'seq' | 'previousHash' | 'hash'>;
+
+// Number and chain new entries after the end of `trail`
+export const sealAuditEntries = (trail: AuditEntry[], drafts: AuditDraft[]): AuditEntry[] => {
+  let previous: AuditEntry | undefined = trail[trail.length - 1];
+  return drafts.map(draft => {
+    const unsealed = { ...draft, seq: (previous?.seq || 0) + 1, previousHash: previous?.hash || GENESIS_HASH };
+    previous = { ...unsealed, hash: computeAuditHash(unsealed) };
+    return previous;
+  });
+};
+
+export const toAuditDraft = ({ seq, previousHash, hash, ...draft }: AuditDraft & Partial<AuditEntry>): AuditDraft => draft;
+
+// Fold in entries the server stored after the part of `trail` it already had (it numbers and chains
+// appended entries itself): they replace the local tail, and local entries it does not have yet are
+// sealed again after them
+export const rebaseAuditTrail = (trail: AuditEntry[], stored: AuditEntry[]): AuditEntry[] => {
+  if (stored.length === 0) return trail;
+  const fromSeq = stored[0].seq;
+  const storedIds = new Set(stored.map(e => e.id));
+  const base = [...trail.filter(e => e.seq < fromSeq), ...stored];
+  return [...base, ...sealAuditEntries(base, trail.filter(e => e.seq >= fromSeq && !storedIds.has(e.id)).map(toAuditDraft))];
+};
+
+export interface AuditVerification {
+  isValid: boolean;
+  brokenAtSeq?: number; // First entry that was altered, removed or inserted out of order
+}
+
+// Check the chain, optionally continuing after `previous` (the server checks appended entries this way)
+export const verifyAuditTrail = (entries: AuditEntry[], previous?: AuditEntry): AuditVerification => {
+  let last = previous;
+  for (const entry of entries) {
+    const expectedSeq = (last?.seq || 0) + 1;
+    const { hash, ...unsealed } = entry;
+    if (entry.seq !== expectedSeq || entry.previousHash !== (last?.hash || GENESIS_HASH) || hash !== computeAuditHash(unsealed)) {
+      return { isValid: false, brokenAtSeq: expectedSeq };
+    }
+    last = entry;
+  }
+  return { isValid: true };
+};
+
+// --- Change Detection ---
+
+// One field change (or a created / deleted record) before it is attributed and sealed
+export type AuditChange = Pick<AuditEntry, 'projectId' | 'projectName' | 'entityType' | 'entityId' | 'entityName' | 'plan' | 'action' | 'field' | 'oldValue' | 'newValue'>;
+
+const IGNORED_TASK_FIELDS = new Set(['isNew']); // UI highlight, not record content
+
+export const formatAuditValue = (value: unknown): string | undefined =>
+  value === undefined || value === null ? undefined : typeof value === 'string' ? value : JSON.stringify(value);
+
+const formatTask = (task: Task) => formatAuditValue(Object.fromEntries(Object.entries(task).filter(([key]) => !IGNORED_TASK_FIELDS.has(key))));
+
+// Rows that were moved: everything outside the longest run of tasks that kept their relative order
+const findMovedTaskIds = (before: Task[], after: Task[]): Set<string> => {
+  const beforeIndex = new Map(before.map((t, i) => [t.id, i]));
+  const kept = after.filter(t => beforeIndex.has(t.id));
+  const order = kept.map(t => beforeIndex.get(t.id)!);
+  const runLength = order.map(() => 1);
+  const previous = order.map(() => -1);
+  let end = -1;
+  order.forEach((value, i) => {
+    for (let j = 0; j < i; j++) {
+      if (order[j] < value && runLength[j] + 1 > runLength[i]) {
+        runLength[i] = runLength[j] + 1;
+        previous[i] = j;
+      }
+    }
+    if (end === -1 || runLength[i] > runLength[end]) end = i;
+  });
+  const inOrder = new Set<number>();
+  for (let i = end; i !== -1; i = previous[i]) inOrder.add(i);
+  return new Set(kept.filter((_, i) => !inOrder.has(i)).map(t => t.id));
+};
+
+const diffTasks = (project: Project, before: Task[], after: Task[], plan?: string): AuditChange[] => {
+  const base = { projectId: project.id, projectName: project.name, entityType: 'task' as const, plan };
+  const beforeMap = new Map(before.map(t => [t.id, t]));
+  const afterIds = new Set(after.map(t => t.id));
+  const moved = findMovedTaskIds(before, after);
+  const changes: AuditChange[] = [];
+
+  after.forEach((task, index) => {
+    const old = beforeMap.get(task.id);
+    if (!old) {
+      changes.push({ ...base, entityId: task.id, entityName: task.name, action: 'create', newValue: formatTask(task) });
+      return;
+    }
+    if (old === task && !moved.has(task.id)) return;
+    const fields = Array.from(new Set([...Object.keys(old), ...Object.keys(task)])).filter(f => !IGNORED_TASK_FIELDS.has(f));
+    fields.forEach(field => {
+      const oldValue = formatAuditValue(old[field as keyof Task]);
+      const newValue = formatAuditValue(task[field as keyof Task]);
+      if (oldValue !== newValue) changes.push({ ...base, entityId: task.id, entityName: task.name, action: 'update', field, oldValue, newValue });
+    });
+    if (moved.has(task.id)) {
+      changes.push({ ...base, entityId: task.id, entityName: task.name, action: 'update', field: 'position', oldValue: String(before.indexOf(old) + 1), newValue: String(index + 1) });
+    }
+  });
+  before.filter(t => !afterIds.has(t.id)).forEach(task => {
+    changes.push({ ...base, entityId: task.id, entityName: task.name, action: 'delete', oldValue: formatTask(task) });
+  });
+  return changes;
+};
+
+// Baselines and scenarios carry whole task sets: the project entry names them, scenario task edits
+// are listed per task below
+const formatProjectField = (project: Project, field: keyof Project): string | undefined => {
+  if (field === 'baselines' || field === 'scenarios') {
+    const items = project[field] as { id: string; name: string }[] | undefined;
+    return items?.length ? items.map(i => `${i.name} (${i.id})`).join('; ') : undefined;
+  }
+  return formatAuditValue(project[field]);
+};
+
+// Everything that differs between two versions of a project. `before` null: the project was created
+// (or imported); `after` null: deleted.
+export const diffProjects = (before: Project | null, after: Project | null, createAction: AuditAction = 'create'): AuditChange[] => {
+  const project = (after || before)!;
+  const base = { projectId: project.id, projectName: project.name, entityType: 'project' as const, entityId: project.id, entityName: project.name };
+
+  if (!before) {
+    return [
+      { ...base, action: createAction, newValue: `${after!.tasks.length} 个任务` },
+      ...diffTasks(after!, [], after!.tasks)
+    ];
+  }
+  if (!after) return [{ ...base, action: 'delete', oldValue: `${before.tasks.length} 个任务` }];
+  if (before === after) return [];
+
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(f => f !== 'tasks') as (keyof Project)[];
+  const projectChanges: AuditChange[] = fields.flatMap(field => {
+    const oldValue = formatProjectField(before, field);
+    const newValue = formatProjectField(after, field);
+    return oldValue === newValue ? [] : [{ ...base, action: 'update' as const, field, oldValue, newValue }];
+  });
+
+  const scenarioChanges = (after.scenarios || []).flatMap(scenario => {
+    const old = before.scenarios?.find(s => s.id === scenario.id);
+    return old && old.tasks !== scenario.tasks ? diffTasks(after, old.tasks, scenario.tasks, scenario.name) : [];
+  });
+
+  return [...projectChanges, ...diffTasks(after, before.tasks, after.tasks), ...scenarioChanges];
+};
+
+export interface AuditContext {
+  user: Pick<User, 'id' | 'name'>;
+  command: string;
+  reason: string;
+  source: AuditSource;
+}
+
+// What a client sends with a project save: the server records the change under the signed-in user
+export type ChangeContext = Omit<AuditContext, 'user'>;
+
+export const createAuditDrafts = (changes: AuditChange[], context: AuditContext): AuditDraft[] => {
+  const timestamp = new Date().toISOString();
+  const batch = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  return changes.map((change, i) => ({
+    ...change,
+    id: `audit_${batch}_${i}`,
+    timestamp,
+    userId: context.user.id,
+    userName: context.user.name,
+    command: context.command,
+    reason: context.reason,
+    source: context.source
+  }));
+};
@@ -0,0 +1,55 @@
+import { Project, ProjectCalendar, ScheduleBaseline, BaselineVariance, Task } from '../types';
+import { workingDayDiff } from './calendarService';
+import { toDayNumber } from './dateService';
+import { getProjectFinish } from './scheduleService';
+
+// Snapshot the current task dates as a new baseline
+export const createBaseline = (project: Project, name: string, createdBy?: string): ScheduleBaseline => ({
+  id: `bl_${Date.now()}`,
+  name,
+  createdAt: new Date().toISOString(),
+  createdBy,
+  tasks: Object.fromEntries(project.tasks.map(t => [t.id, { startDate: t.startDate, endDate: t.endDate }]))
+});
+
+export const getActiveBaseline = (project: Project): ScheduleBaseline | undefined => {
+  if (!project.activeBaselineId) return undefined;
+  return project.baselines?.find(b => b.id === project.activeBaselineId);
+};
+
+// Start/finish variance for every task that exists in the baseline
+export const computeBaselineVariances = (
+  tasks: Task[],
+  baseline: ScheduleBaseline | undefined,
+  calendar: ProjectCalendar
+): Record<string, BaselineVariance> => {
+  const result: Record<string, BaselineVariance> = {};
+  if (!baseline) return result;
+
+  tasks.forEach(t => {
+    const planned = baseline.tasks[t.id];
+    if (!planned) return;
+    result[t.id] = {
+      baselineStart: planned.startDate,
+      baselineFinish: planned.endDate,
+      startVariance: workingDayDiff(toDayNumber(planned.startDate), toDayNumber(t.startDate), calendar),
+      finishVariance: workingDayDiff(toDayNumber(planned.endDate), toDayNumber(t.endDate), calendar)
+    };
+  });
+  return result;
+};
+
+// Project finish slip against the baseline (working days, positive = late)
+export const computeProjectFinishVariance = (tasks: Task[], baseline: ScheduleBaseline, calendar: ProjectCalendar) => {
+  const currentFinish = getProjectFinish(tasks);
+  const baselineFinish = getProjectFinish(Object.values(baseline.tasks));
+  if (!currentFinish || !baselineFinish) return null;
+  return {
+    baselineFinish,
+    currentFinish,
+    variance: workingDayDiff(toDayNumber(baselineFinish), toDayNumber(currentFinish), calendar)
+  };
+};
+
+// Format a variance for display, e.g. "+3" / "-1" / "0"
+export const formatVariance = (days: number): string => days > 0 ? `+${days}` : `${days}`;
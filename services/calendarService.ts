@@ -0,0 +1,109 @@
+import { Project, ProjectCalendar } from '../types';
+import { DEFAULT_PROJECT_CALENDAR } from '../constants';
+import { toDayNumber, fromDayNumber, getWeekday } from './dateService';
+
+// Upper bound when searching for the next working day (guards against calendars without any working day)
+const MAX_SEARCH_DAYS = 3660;
+
+// --- Working-Day Calendar ---
+
+interface CalendarIndex {
+  weekdays: Set<number>;
+  nonWorking: Map<number, string>; // day number -> holiday / shutdown name
+  makeUp: Set<number>;
+}
+
+// Calendars are immutable state objects, so the lookup tables can be cached by identity
+const indexCache = new WeakMap<ProjectCalendar, CalendarIndex>();
+
+const getIndex = (calendar: ProjectCalendar): CalendarIndex => {
+  const cached = indexCache.get(calendar);
+  if (cached) return cached;
+
+  const nonWorking = new Map<number, string>();
+  [...calendar.holidays, ...calendar.shutdowns].forEach(period => {
+    const end = toDayNumber(period.endDate);
+    for (let day = toDayNumber(period.startDate); day <= end; day++) {
+      nonWorking.set(day, period.name);
+    }
+  });
+
+  const index: CalendarIndex = {
+    weekdays: new Set(calendar.workingWeekdays),
+    nonWorking,
+    makeUp: new Set(calendar.makeUpWorkdays.map(toDayNumber))
+  };
+  indexCache.set(calendar, index);
+  return index;
+};
+
+export const getProjectCalendar = (project: Project): ProjectCalendar => {
+  return project.calendar || DEFAULT_PROJECT_CALENDAR;
+};
+
+export const isWorkingDay = (day: number, calendar: ProjectCalendar): boolean => {
+  const index = getIndex(calendar);
+  // Shutdowns and holidays win over make-up days
+  if (index.nonWorking.has(day)) return false;
+  if (index.makeUp.has(day)) return true;
+  return index.weekdays.has(getWeekday(day));
+};
+
+// Why a day is not worked: a named holiday / shutdown, or a regular weekend
+export const getNonWorkingDayInfo = (day: number, calendar: ProjectCalendar): { name: string; isWeekend: boolean } | null => {
+  if (isWorkingDay(day, calendar)) return null;
+  const name = getIndex(calendar).nonWorking.get(day);
+  return name ? { name, isWeekend: false } : { name: '休息日', isWeekend: true };
+};
+
+// First working day on or after `day`
+export const nextWorkingDay = (day: number, calendar: ProjectCalendar): number => {
+  let current = day;
+  for (let i = 0; i < MAX_SEARCH_DAYS && !isWorkingDay(current, calendar); i++) current++;
+  return current;
+};
+
+// Last working day on or before `day`
+export const previousWorkingDay = (day: number, calendar: ProjectCalendar): number => {
+  let current = day;
+  for (let i = 0; i < MAX_SEARCH_DAYS && !isWorkingDay(current, calendar); i++) current--;
+  return current;
+};
+
+// Move `count` working days from `day` (negative counts move backwards)
+export const addWorkingDays = (day: number, count: number, calendar: ProjectCalendar): number => {
+  const step = count < 0 ? -1 : 1;
+  let current = step > 0 ? nextWorkingDay(day, calendar) : previousWorkingDay(day, calendar);
+  for (let remaining = Math.abs(count); remaining > 0; remaining--) {
+    current = step > 0 ? nextWorkingDay(current + 1, calendar) : previousWorkingDay(current - 1, calendar);
+  }
+  return current;
+};
+
+// Number of working days between two dates (both inclusive)
+export const countWorkingDays = (startDate: string, endDate: string, calendar: ProjectCalendar): number => {
+  const end = toDayNumber(endDate);
+  let count = 0;
+  for (let day = toDayNumber(startDate); day <= end; day++) {
+    if (isWorkingDay(day, calendar)) count++;
+  }
+  return count;
+};
+
+// Signed number of working days from `fromDay` to `toDay` (0 when equal)
+export const workingDayDiff = (fromDay: number, toDay: number, calendar: ProjectCalendar): number => {
+  if (toDay === fromDay) return 0;
+  const sign = toDay > fromDay ? 1 : -1;
+  let count = 0;
+  for (let day = fromDay + sign; sign > 0 ? day <= toDay : day >= toDay; day += sign) {
+    if (isWorkingDay(day, calendar)) count++;
+  }
+  return sign * count;
+};
+
+// Start and end dates of a task lasting `duration` working days, starting on or after `startDate`
+export const getWorkingSpan = (startDate: string, duration: number, calendar: ProjectCalendar) => {
+  const start = nextWorkingDay(toDayNumber(startDate), calendar);
+  const end = addWorkingDays(start, Math.max(duration, 1) - 1, calendar);
+  return { startDate: fromDayNumber(start), endDate: fromDayNumber(end) };
+};
@@ -0,0 +1,90 @@
+import { Project, Task, ExternalDependency, User, UserRole } from '../types';
+import { getProjectCalendar } from './calendarService';
+import { toDayNumber } from './dateService';
+import { cascadeSchedule, getLinkEarliestStart } from './scheduleService';
+
+// A link to another project as seen from the successor
+export interface ResolvedExternalLink {
+  link: ExternalDependency;
+  project?: Project; // Undefined when the project was deleted
+  predecessor?: Task; // Undefined when the task was deleted
+  isVisible: boolean; // Whether the current user may open the other project
+  earliestStart?: number; // Day number the link allows the successor to start
+  isViolated: boolean;
+}
+
+// Successor tasks in another project that were moved by a cascade
+export interface CrossProjectImpact {
+  projectId: string;
+  projectName: string;
+  movedTaskIds: string[];
+}
+
+export const canViewProject = (user: User, projectId: string): boolean => {
+  return user.role === UserRole.Admin || (user.visibleProjectIds || []).includes(projectId);
+};
+
+export const resolveExternalLinks = (task: Task, successorProject: Project, projects: Project[], user: User): ResolvedExternalLink[] => {
+  const calendar = getProjectCalendar(successorProject);
+  return (task.externalDependencies || []).map(link => {
+    const project = projects.find(p => p.id === link.projectId);
+    const predecessor = project?.tasks.find(t => t.id === link.taskId);
+    // Lags count in the successor's working days
+    const earliestStart = predecessor ? getLinkEarliestStart(task, predecessor, link, calendar) : undefined;
+    return {
+      link,
+      project,
+      predecessor,
+      isVisible: canViewProject(user, link.projectId),
+      earliestStart,
+      isViolated: earliestStart !== undefined && toDayNumber(task.startDate) < earliestStart
+    };
+  });
+};
+
+// Earliest start each task of `project` may take because of its predecessors in other projects
+export const getExternalEarliestStarts = (project: Project, projects: Project[]): Map<string, number> => {
+  const calendar = getProjectCalendar(project);
+  const projectMap = new Map(projects.map(p => [p.id, p]));
+  const starts = new Map<string, number>();
+  project.tasks.forEach(task => {
+    (task.externalDependencies || []).forEach(link => {
+      const predecessor = projectMap.get(link.projectId)?.tasks.find(t => t.id === link.taskId);
+      if (!predecessor) return;
+      starts.set(task.id, Math.max(starts.get(task.id) ?? -Infinity, getLinkEarliestStart(task, predecessor, link, calendar)));
+    });
+  });
+  return starts;
+};
+
+// Push successor projects after `changedProjectId` changed, project by project until nothing moves.
+// The changed project itself is never rewritten here (it is the one being edited), which also ends
+// loops between projects that depend on each other.
+export const cascadeAcrossProjects = (projects: Project[], changedProjectId: string): { projects: Project[]; impacts: CrossProjectImpact[] } => {
+  let current = projects;
+  const impacts = new Map<string, CrossProjectImpact>();
+  const queue = [changedProjectId];
+  const maxPasses = projects.length * projects.length + 1;
+
+  for (let pass = 0; queue.length > 0 && pass < maxPasses; pass++) {
+    const sourceId = queue.shift()!;
+    current.forEach(successor => {
+      if (successor.id === changedProjectId) return;
+      if (!successor.tasks.some(t => t.externalDependencies?.some(link => link.projectId === sourceId))) return;
+
+      const cascaded = cascadeSchedule(successor.tasks, getProjectCalendar(successor), {
+        externalStarts: getExternalEarliestStarts(successor, current)
+      });
+      const moved = cascaded.filter((t, i) => t.startDate !== successor.tasks[i].startDate || t.endDate !== successor.tasks[i].endDate);
+      if (moved.length === 0) return;
+
+      const updated = { ...successor, tasks: cascaded };
+      current = current.map(p => p.id === successor.id ? updated : p);
+      const impact = impacts.get(successor.id) || { projectId: successor.id, projectName: successor.name, movedTaskIds: [] };
+      impacts.set(successor.id, { ...impact, movedTaskIds: Array.from(new Set([...impact.movedTaskIds, ...moved.map(t => t.id)])) });
+      if (!queue.includes(successor.id)) queue.push(successor.id);
+    });
+  }
+
+  return { projects: current, impacts: Array.from(impacts.values()) };
+};
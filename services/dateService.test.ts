@@ -0,0 +1,128 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { addDays, diffDays, fromDayNumber, getToday, getWeekStart, getWeekday, isDateString, toDayNumber } from './dateService';
+
+// Date-only maths must not depend on where it runs: every case is repeated in time zones on both
+// sides of UTC (Node picks up a changed process.env.TZ immediately)
+const TIME_ZONES: { tz: string; offsetMinutes: number }[] = [
+  { tz: 'UTC', offsetMinutes: 0 },
+  { tz: 'Asia/Shanghai', offsetMinutes: -480 }, // UTC+8
+  { tz: 'America/New_York', offsetMinutes: 300 }, // UTC-5, UTC-4 in summer
+  { tz: 'Pacific/Kiritimati', offsetMinutes: -840 } // UTC+14
+];
+
+const originalTz = process.env.TZ;
+afterAll(() => {
+  if (originalTz === undefined) delete process.env.TZ;
+  else process.env.TZ = originalTz;
+});
+
+describe.each(TIME_ZONES)('dateService in $tz', ({ tz, offsetMinutes }) => {
+  beforeAll(() => {
+    process.env.TZ = tz;
+  });
+
+  it('runs in the intended time zone', () => {
+    expect(new Date(Date.UTC(2023, 0, 15)).getTimezoneOffset()).toBe(offsetMinutes);
+  });
+
+  describe('toDayNumber', () => {
+    it('counts days since 1970-01-01', () => {
+      expect(toDayNumber('1970-01-01')).toBe(0);
+      expect(toDayNumber('1970-01-02')).toBe(1);
+      expect(toDayNumber('1969-12-31')).toBe(-1);
+      expect(toDayNumber('2023-10-05')).toBe(19635);
+    });
+
+    it('ignores a trailing time part', () => {
+      expect(toDayNumber('2023-10-05T23:59:59+08:00')).toBe(toDayNumber('2023-10-05'));
+      expect(toDayNumber('2023-10-05T00:00:00Z')).toBe(toDayNumber('2023-10-05'));
+    });
+  });
+
+  describe('fromDayNumber', () => {
+    it('formats a day number as YYYY-MM-DD', () => {
+      expect(fromDayNumber(0)).toBe('1970-01-01');
+      expect(fromDayNumber(-1)).toBe('1969-12-31');
+      expect(fromDayNumber(19635)).toBe('2023-10-05');
+    });
+
+    it('round-trips with toDayNumber across month, leap day and DST boundaries', () => {
+      ['2023-03-12', '2023-03-26', '2023-11-05', '2023-12-31', '2024-02-29', '2024-03-01'].forEach(date => {
+        expect(fromDayNumber(toDayNumber(date))).toBe(date);
+      });
+    });
+  });
+
+  describe('isDateString', () => {
+    it('accepts real calendar dates', () => {
+      expect(isDateString('2023-10-05')).toBe(true);
+      expect(isDateString('2024-02-29')).toBe(true);
+    });
+
+    it('rejects impossible dates and other forms without throwing', () => {
+      ['2023-02-29', '2023-02-30', '2024-13-01', '2024-00-10', '2023-10-5', '2023-10-05T00:00:00Z', ''].forEach(value => {
+        expect(isDateString(value)).toBe(false);
+      });
+      expect(isDateString(20231005)).toBe(false);
+    });
+  });
+
+  describe('addDays', () => {
+    it('moves by whole calendar days', () => {
+      expect(addDays('2023-10-05', 1)).toBe('2023-10-06');
+      expect(addDays('2023-10-05', -5)).toBe('2023-09-30');
+      expect(addDays('2023-10-05', 0)).toBe('2023-10-05');
+    });
+
+    it('crosses month, year and leap-day boundaries', () => {
+      expect(addDays('2023-12-31', 1)).toBe('2024-01-01');
+      expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+      expect(addDays('2023-02-28', 1)).toBe('2023-03-01');
+    });
+
+    it('is not shifted by daylight saving changes', () => {
+      expect(addDays('2023-03-11', 1)).toBe('2023-03-12');
+      expect(addDays('2023-03-12', 1)).toBe('2023-03-13');
+      expect(addDays('2023-11-04', 2)).toBe('2023-11-06');
+    });
+  });
+
+  describe('diffDays', () => {
+    it('counts calendar days between two dates', () => {
+      expect(diffDays('2023-10-01', '2023-10-05')).toBe(4);
+      expect(diffDays('2023-10-05', '2023-10-01')).toBe(-4);
+      expect(diffDays('2023-10-05', '2023-10-05')).toBe(0);
+    });
+
+    it('counts whole days across daylight saving changes and leap years', () => {
+      expect(diffDays('2023-03-11', '2023-03-13')).toBe(2);
+      expect(diffDays('2023-11-04', '2023-11-06')).toBe(2);
+      expect(diffDays('2024-01-01', '2025-01-01')).toBe(366);
+    });
+  });
+
+  describe('getWeekStart', () => {
+    it('returns the Monday of the week', () => {
+      // 2023-10-05 is a Thursday, 2023-10-08 a Sunday
+      expect(fromDayNumber(getWeekStart(toDayNumber('2023-10-05')))).toBe('2023-10-02');
+      expect(fromDayNumber(getWeekStart(toDayNumber('2023-10-08')))).toBe('2023-10-02');
+      expect(fromDayNumber(getWeekStart(toDayNumber('2023-10-09')))).toBe('2023-10-09');
+    });
+
+    it('always lands on a Monday, also before 1970', () => {
+      [-8, -1, 0, 3, 4, 19635, 19638].forEach(day => {
+        const start = getWeekStart(day);
+        expect(getWeekday(start)).toBe(1);
+        expect(day - start).toBeGreaterThanOrEqual(0);
+        expect(day - start).toBeLessThan(7);
+      });
+    });
+  });
+
+  describe('getToday', () => {
+    it('uses the local calendar date', () => {
+      expect(getToday(new Date(2023, 9, 5, 0, 30))).toBe('2023-10-05');
+      expect(getToday(new Date(2023, 9, 5, 23, 30))).toBe('2023-10-05');
+    });
+  });
+});
@@ -0,0 +1,75 @@
+// Date-only values. Every task, calendar and baseline date is a "YYYY-MM-DD" calendar date with no
+// time of day, handled here as a UTC day number (days since 1970-01-01). Local-time Date objects
+// never enter the maths, so Shanghai, Boston and the server compute the same schedule.
+
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// --- Conversion ---
+
+// Convert a YYYY-MM-DD string into a UTC day number (a trailing time part is ignored)
+export const toDayNumber = (dateStr: string): number => {
+  return Math.floor(Date.parse(dateStr.slice(0, 10)) / MS_PER_DAY);
+};
+
+export const fromDayNumber = (day: number): string => {
+  return new Date(day * MS_PER_DAY).toISOString().split('T')[0];
+};
+
+// True for a real calendar date in YYYY-MM-DD form (rejects e.g. 2023-02-30 and 2024-13-01)
+export const isDateString = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+  const day = toDayNumber(value);
+  return Number.isFinite(day) && fromDayNumber(day) === value;
+};
+
+// Lenient parse of dates typed by users or returned by AI models ("2023/10/5", "2023-10-05T00:00:00Z",
+// "2023年10月5日"). The written calendar date is kept as is, never shifted by a time zone.
+export const normalizeDate = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(\d{4})\D{1,2}(\d{1,2})\D{1,2}(\d{1,2})/);
+  if (!match) return null;
+  const date = `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  return isDateString(date) ? date : null;
+};
+
+// Today's calendar date where the user is (not the UTC date, which lags behind in the morning in China)
+export const getToday = (now: Date = new Date()): string => {
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// --- Arithmetic ---
+
+export const addDays = (dateStr: string, days: number): string => {
+  return fromDayNumber(toDayNumber(dateStr) + days);
+};
+
+// Calendar days from `startDate` to `endDate` (negative when the end is earlier)
+export const diffDays = (startDate: string, endDate: string): number => {
+  return toDayNumber(endDate) - toDayNumber(startDate);
+};
+
+// --- Calendar Parts ---
+
+// Day numbers start on a Thursday; 0 = Sunday ... 6 = Saturday
+export const getWeekday = (day: number): number => ((day % 7) + 11) % 7;
+
+export const getDateParts = (day: number): { year: number; month: number; date: number; weekday: number } => {
+  const d = new Date(day * MS_PER_DAY);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, date: d.getUTCDate(), weekday: getWeekday(day) };
+};
+
+// Day number of the 1st of a month (month 1-12, overflowing into the next years)
+export const getMonthStart = (year: number, month: number): number => {
+  return Math.floor(Date.UTC(year, month - 1, 1) / MS_PER_DAY);
+};
+
+// Monday of the week containing `day`
+export const getWeekStart = (day: number): number => day - ((getWeekday(day) + 6) % 7);
+
+// "10/5" for timeline labels and cards
+export const formatMonthDay = (day: number): string => {
+  const { month, date } = getDateParts(day);
+  return `${month}/${date}`;
+};
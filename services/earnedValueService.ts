@@ -0,0 +1,141 @@
+import { Task, ProjectCalendar, ScheduleBaseline } from '../types';
+import { countWorkingDays } from './calendarService';
+import { toDayNumber, fromDayNumber } from './dateService';
+import { isMilestone } from './scheduleService';
+import { getChildrenMap } from './wbsService';
+
+// Values are money once any task carries a budget, otherwise planned working days (effort-weighted)
+export type EarnedValueBasis = 'cost' | 'days';
+
+export interface EarnedValueMetrics {
+  bac: number; // Budget at completion
+  pv: number;  // Planned value at the status date
+  ev: number;  // Earned value (budget x progress)
+  ac?: number; // Actual cost, only once costs are recorded
+  sv: number;  // Schedule variance (EV - PV)
+  spi?: number; // Schedule performance index (EV / PV)
+  cv?: number;  // Cost variance (EV - AC)
+  cpi?: number; // Cost performance index (EV / AC)
+}
+
+export interface EarnedValuePoint {
+  date: string;
+  pv: number; // Cumulative planned value (baseline dates when a baseline is active)
+  forecast: number; // Cumulative value along the current dates
+}
+
+export interface EarnedValueReport {
+  statusDate: string;
+  basis: EarnedValueBasis;
+  project: EarnedValueMetrics;
+  tasks: Record<string, EarnedValueMetrics>;
+  categories: { category: string; metrics: EarnedValueMetrics }[];
+  sCurve: EarnedValuePoint[];
+}
+
+const S_CURVE_POINTS = 40;
+
+interface PlannedSpan {
+  start: string;
+  end: string;
+}
+
+// Share of a planned span that should be done by the end of `statusDay` (working-day based)
+const getPlannedPercent = (span: PlannedSpan, statusDay: number, calendar: ProjectCalendar): number => {
+  const start = toDayNumber(span.start);
+  const end = toDayNumber(span.end);
+  if (statusDay >= end) return 1;
+  if (statusDay < start) return 0;
+  const total = countWorkingDays(span.start, span.end, calendar);
+  return total > 0 ? countWorkingDays(span.start, fromDayNumber(statusDay), calendar) / total : 0;
+};
+
+const buildMetrics = (bac: number, pv: number, ev: number, ac?: number): EarnedValueMetrics => ({
+  bac,
+  pv,
+  ev,
+  ac,
+  sv: ev - pv,
+  spi: pv > 0 ? ev / pv : undefined,
+  cv: ac === undefined ? undefined : ev - ac,
+  cpi: ac === undefined || ac <= 0 ? undefined : ev / ac
+});
+
+const sumMetrics = (items: EarnedValueMetrics[]): EarnedValueMetrics => {
+  const withCost = items.filter(m => m.ac !== undefined);
+  return buildMetrics(
+    items.reduce((sum, m) => sum + m.bac, 0),
+    items.reduce((sum, m) => sum + m.pv, 0),
+    items.reduce((sum, m) => sum + m.ev, 0),
+    withCost.length > 0 ? withCost.reduce((sum, m) => sum + m.ac!, 0) : undefined
+  );
+};
+
+// Planned value, earned value and actual cost of every work task at `statusDate`, rolled up per
+// category and for the project. Summaries are left out (their children carry the values) and the
+// plan is read from the baseline when one is given, so PV does not move when the schedule slips.
+export const computeEarnedValue = (
+  tasks: Task[],
+  calendar: ProjectCalendar,
+  statusDate: string,
+  baseline?: ScheduleBaseline
+): EarnedValueReport => {
+  const childrenMap = getChildrenMap(tasks);
+  const workTasks = tasks.filter(t => !childrenMap.has(t.id));
+  const basis: EarnedValueBasis = workTasks.some(t => (t.budgetCost || 0) > 0) ? 'cost' : 'days';
+  const statusDay = toDayNumber(statusDate);
+
+  const getBudget = (task: Task) => basis === 'cost'
+    ? Math.max(task.budgetCost || 0, 0)
+    : (isMilestone(task) ? 0 : Math.max(countWorkingDays(task.startDate, task.endDate, calendar), 1));
+  const getPlannedSpan = (task: Task): PlannedSpan => {
+    const planned = baseline?.tasks[task.id];
+    return planned ? { start: planned.startDate, end: planned.endDate } : { start: task.startDate, end: task.endDate };
+  };
+
+  const taskMetrics: Record<string, EarnedValueMetrics> = {};
+  workTasks.forEach(task => {
+    const bac = getBudget(task);
+    taskMetrics[task.id] = buildMetrics(
+      bac,
+      bac * getPlannedPercent(getPlannedSpan(task), statusDay, calendar),
+      bac * Math.min(Math.max(task.progress, 0), 100) / 100,
+      task.actualCost
+    );
+  });
+
+  const categoryNames = Array.from(new Set(workTasks.map(t => t.category || 'General')));
+  const categories = categoryNames.map(category => ({
+    category,
+    metrics: sumMetrics(workTasks.filter(t => (t.category || 'General') === category).map(t => taskMetrics[t.id]))
+  }));
+
+  // S-curve from the first planned start to the last planned or forecast finish
+  const spans = workTasks.map(t => ({ task: t, planned: getPlannedSpan(t), current: { start: t.startDate, end: t.endDate } }));
+  const sCurve: EarnedValuePoint[] = [];
+  if (spans.length > 0) {
+    const first = Math.min(...spans.map(s => Math.min(toDayNumber(s.planned.start), toDayNumber(s.current.start))));
+    const last = Math.max(...spans.map(s => Math.max(toDayNumber(s.planned.end), toDayNumber(s.current.end))));
+    const step = Math.max(Math.ceil((last - first) / S_CURVE_POINTS), 1);
+    for (let day = first; ; day = Math.min(day + step, last)) {
+      sCurve.push({
+        date: fromDayNumber(day),
+        pv: spans.reduce((sum, s) => sum + getBudget(s.task) * getPlannedPercent(s.planned, day, calendar), 0),
+        forecast: spans.reduce((sum, s) => sum + getBudget(s.task) * getPlannedPercent(s.current, day, calendar), 0)
+      });
+      if (day === last) break;
+    }
+  }
+
+  return {
+    statusDate,
+    basis,
+    project: sumMetrics(workTasks.map(t => taskMetrics[t.id])),
+    tasks: taskMetrics,
+    categories,
+    sCurve
+  };
+};
+
+// Index for display, e.g. "0.92" (or "—" while undefined)
+export const formatIndex = (value?: number): string => value === undefined ? '—' : value.toFixed(2);
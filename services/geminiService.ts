@@ -1,6 +1,24 @@
 import { GoogleGenAI, Type } from "@google/genai";
 import { SYSTEM_INSTRUCTION } from '../constants';
 import { Task, GeminiResponseSchema, RiskLevel, AIConfig, AI_PROVIDERS_CONFIG } from '../types';
+import { formatConstraint, formatDependency, isMilestone } from './scheduleService';
+import { normalizeDate } from './dateService';
+
+// Models sometimes answer "2023/11/5" or full ISO timestamps: keep the written calendar date and
+// drop entries whose dates cannot be read at all
+const normalizeResponseDates = (response: GeminiResponseSchema): GeminiResponseSchema => ({
+  ...response,
+  affected_tasks: (response.affected_tasks || []).flatMap(at => {
+    const start = normalizeDate(at.new_start_date);
+    const end = normalizeDate(at.new_end_date);
+    return start && end ? [{ ...at, new_start_date: start, new_end_date: end < start ? start : end }] : [];
+  }),
+  created_tasks: (response.created_tasks || []).flatMap(ct => {
+    const start = normalizeDate(ct.start_date);
+    const end = ct.is_milestone ? start : normalizeDate(ct.end_date);
+    return start && end ? [{ ...ct, start_date: start, end_date: end < start ? start : end }] : [];
+  })
+});
 
 export const analyzeProjectUpdate = async (
   currentTasks: Task[],
@@ -15,13 +33,25 @@ export const analyzeProjectUpdate = async (
 
   // Contextualize the prompt with current project state
   const taskContext = currentTasks.map(t => 
-    `ID: ${t.id}, Name: ${t.name}, Start: ${t.startDate}, End: ${t.endDate}, Assignee: ${t.assignee}, Dependencies: [${t.dependencies.join(', ')}]`
+    `ID: ${t.id}, Name: ${t.name}${isMilestone(t) ? ' (Milestone)' : ''}${t.parentId ? `, Parent: ${t.parentId}` : ''}, Start: ${t.startDate}, End: ${t.endDate}, Assignee: ${t.assignee}, Dependencies: [${t.dependencies.map(formatDependency).join(', ')}]${t.constraint ? `, Constraint: ${formatConstraint(t.constraint)}` : ''}`
   ).join('\n');
 
   const prompt = `
     Current Project State:
     ${taskContext}
 
+    Dependency notation: "<predecessor id> <type><lag>", e.g. "t3 FS+2d".
+    FS = successor starts after predecessor finishes, SS = starts after predecessor starts,
+    FF = finishes after predecessor finishes, SF = finishes after predecessor starts.
+    A positive lag adds waiting days, a negative lag (lead) allows overlap.
+    Milestones have zero duration (Start = End) and are reached on the last day of their FS predecessor.
+    Tasks with children are summary tasks: their dates and progress roll up from the children,
+    so change the children instead. Dependencies on a summary apply to all of its children.
+    Constraints are dates fixed by outside parties (vendor FAT, regulatory inspection, cleanroom release):
+    SNET / FNET = must not start / finish before the date, SNLT / FNLT = hard deadline to start / finish by,
+    MSO / MFO = must start / finish exactly on the date. Never move a task against its constraint;
+    if a delay makes a deadline impossible, say so explicitly in response_text and gmp_advice.
+
     User Update:
     "${userMessage}"
 
@@ -30,6 +60,7 @@ export const analyzeProjectUpdate = async (
        CRITICAL: You MUST propagate delays to ALL downstream dependent tasks. 
        If Task A moves, and Task B depends on Task A, Task B MUST also move. 
        Do not leave dependent tasks with start dates before their predecessors' end dates.
+       Respect every task's Constraint when choosing the new dates.
     2. If the user wants to change assignees, include 'new_assignee' in affected_tasks.
     3. If the user requests adding new tasks, define them in 'created_tasks'.
     4. Provide GMP advice if applicable.
@@ -76,7 +107,8 @@ export const analyzeProjectUpdate = async (
                       reason: { type: Type.STRING, description: "Reason for adding this task" },
                       assignee: { type: Type.STRING, nullable: true },
                       gmp_critical: { type: Type.BOOLEAN, nullable: true },
-                      category: { type: Type.STRING, nullable: true }
+                      category: { type: Type.STRING, nullable: true },
+                      is_milestone: { type: Type.BOOLEAN, nullable: true, description: "Zero-duration milestone, end_date equals start_date" }
                     },
                     required: ["name", "start_date", "end_date", "reason"]
                   }
@@ -92,7 +124,7 @@ export const analyzeProjectUpdate = async (
 
         const text = response.text;
         if (!text) throw new Error("No response from AI");
-        return JSON.parse(text) as GeminiResponseSchema;
+        return normalizeResponseDates(JSON.parse(text) as GeminiResponseSchema);
       } catch (error) {
         console.error("Gemini API Error:", error);
         throw error;
@@ -112,7 +144,7 @@ export const analyzeProjectUpdate = async (
       Output ONLY a JSON object with this schema:
       {
           "affected_tasks": [{"task_id": string, "new_start_date": "YYYY-MM-DD", "new_end_date": "YYYY-MM-DD", "new_assignee": string|null, "reason": string}],
-          "created_tasks": [{"name": string, "start_date": "YYYY-MM-DD", "end_date": "YYYY-MM-DD", "reason": string, "assignee": string|null, "gmp_critical": boolean, "category": string}],
+          "created_tasks": [{"name": string, "start_date": "YYYY-MM-DD", "end_date": "YYYY-MM-DD", "reason": string, "assignee": string|null, "gmp_critical": boolean, "category": string, "is_milestone": boolean}],
           "gmp_advice": string,
           "overall_risk": "Low" | "Medium" | "High" | "Critical",
           "response_text": string
@@ -150,7 +182,7 @@ export const analyzeProjectUpdate = async (
           // Clean markdown code blocks if present (some models still wrap JSON)
           const cleanedContent = content.replace(/```json/g, '').replace(/```/g, '').trim();
           
-          return JSON.parse(cleanedContent) as GeminiResponseSchema;
+          return normalizeResponseDates(JSON.parse(cleanedContent) as GeminiResponseSchema);
 
       } catch (error) {
           console.error(`${provider} API Error:`, error);
@@ -0,0 +1,73 @@
+import { Project, Task } from '../types';
+
+// Undo / redo per project. Each command keeps the whole project as it was before and after it ran,
+// so undo brings back exactly the dates the cascade had computed instead of re-running it. Tasks a
+// command did not touch are shared between snapshots, which keeps a long history cheap.
+// History lives for the session only.
+
+export const MAX_HISTORY = 100;
+
+export interface HistoryEntry {
+  id: string;
+  description: string; // e.g. "删除任务「IQ 安装确认」"
+  timestamp: string; // ISO
+  before: Project;
+  after: Project;
+}
+
+export interface ProjectHistory {
+  undo: HistoryEntry[]; // Oldest first
+  redo: HistoryEntry[]; // The next command to redo is last
+}
+
+export const EMPTY_HISTORY: ProjectHistory = { undo: [], redo: [] };
+
+export const createHistoryId = () => `hist_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Push a command; a new command drops what could be redone
+export const recordHistory = (history: ProjectHistory, entry: HistoryEntry): ProjectHistory => ({
+  undo: [...history.undo, entry].slice(-MAX_HISTORY),
+  redo: []
+});
+
+const keepSignatures = (current: Task[], snapshot: Task[]): Task[] => {
+  const signatures = new Map(current.filter(t => t.signatures?.length).map(t => [t.id, t.signatures]));
+  return signatures.size === 0 ? snapshot : snapshot.map(t => signatures.has(t.id) ? { ...t, signatures: signatures.get(t.id) } : t);
+};
+
+// Name, AI risk assessment and the shown baseline are not schedule content: undo keeps them as they are.
+// Given electronic signatures stay too; they stop applying if the restored task differs from what was signed.
+const restore = (current: Project, snapshot: Project): Project => ({
+  ...snapshot,
+  tasks: keepSignatures(current.tasks, snapshot.tasks),
+  name: current.name,
+  riskLevel: current.riskLevel,
+  latestGmpAdvice: current.latestGmpAdvice,
+  activeBaselineId: snapshot.baselines?.some(b => b.id === current.activeBaselineId) ? current.activeBaselineId : undefined
+});
+
+export interface HistoryJump {
+  project: Project;
+  history: ProjectHistory;
+}
+
+// Undo the last `steps` commands (jumping back in the history list undoes everything after the entry)
+export const undoHistory = (history: ProjectHistory, current: Project, steps = 1): HistoryJump | null => {
+  const count = Math.min(steps, history.undo.length);
+  if (count <= 0) return null;
+  const undone = history.undo.slice(-count);
+  return {
+    project: restore(current, undone[0].before),
+    history: { undo: history.undo.slice(0, -count), redo: [...history.redo, ...undone.reverse()] }
+  };
+};
+
+export const redoHistory = (history: ProjectHistory, current: Project, steps = 1): HistoryJump | null => {
+  const count = Math.min(steps, history.redo.length);
+  if (count <= 0) return null;
+  const redone = history.redo.slice(-count).reverse();
+  return {
+    project: restore(current, redone[redone.length - 1].after),
+    history: { undo: [...history.undo, ...redone], redo: history.redo.slice(0, -count) }
+  };
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { PROJECT_FILE_FORMAT, PROJECT_FILE_VERSION, ProjectFileError, createProjectFile, formatProjectFileReport, readProjectFile } from './projectFileService';
+
+// A bare project object as version 1 exported it: no envelope, dependencies as task id strings and
+// durations in calendar days. It has no calendar, so the default (Chinese working week) applies;
+// the dates stay clear of the Spring Festival holidays.
+const makeV1Project = () => ({
+  id: 'proj_v1',
+  name: '灌装线验证',
+  type: 'Equipment',
+  riskLevel: 'Low',
+  tasks: [
+    { id: 't1', name: 'IQ', startDate: '2025-01-06', endDate: '2025-01-12', duration: 7, status: 'Completed', assignee: '', progress: 100, dependencies: [], gmpCritical: true, category: 'IQ' },
+    { id: 't2', name: 'OQ', startDate: '2025-01-13', endDate: '2025-01-17', duration: 5, status: 'Pending', assignee: '', progress: 0, dependencies: ['t1'], gmpCritical: true, category: 'OQ' },
+    { id: 't3', name: 'PQ', startDate: '2025-01-20', endDate: '2025-01-21', duration: 2, status: 'Pending', assignee: '', progress: 0, dependencies: ['t1', 't2'], gmpCritical: true, category: 'PQ' }
+  ]
+});
+
+const toFile = (value: unknown) => JSON.stringify(value);
+
+describe('projectFileService', () => {
+  describe('readProjectFile', () => {
+    describe('version 1 files', () => {
+      it('turns task id dependencies into finish-to-start links', () => {
+        const { project } = readProjectFile(toFile(makeV1Project()));
+        expect(project.tasks.map(t => t.dependencies)).toEqual([
+          [],
+          [{ taskId: 't1', type: 'FS', lagDays: 0 }],
+          [{ taskId: 't1', type: 'FS', lagDays: 0 }, { taskId: 't2', type: 'FS', lagDays: 0 }]
+        ]);
+      });
+
+      it('recounts durations in working days', () => {
+        const { project } = readProjectFile(toFile(makeV1Project()));
+        expect(project.tasks.map(t => t.duration)).toEqual([5, 5, 2]);
+      });
+
+      it('reports the file as legacy and lists what the migration changed', () => {
+        const { report } = readProjectFile(toFile(makeV1Project()));
+        expect(report).toEqual({
+          schemaVersion: 1,
+          isLegacy: true,
+          checksum: 'missing',
+          steps: [{
+            from: 1,
+            to: 2,
+            description: expect.any(String),
+            changes: ['3 个依赖转换为完成-开始 (FS) 链接，延隔 0 天', '1 个任务的工期由日历天改为工作日']
+          }]
+        });
+        expect(formatProjectFileReport(report)).toContain('版本 1 → 2');
+      });
+
+      it('migrates an envelope written in version 1 as well', () => {
+        const file = { format: PROJECT_FILE_FORMAT, schemaVersion: 1, exportedAt: '2025-01-22T08:00:00.000Z', exportedBy: '张工', project: makeV1Project() };
+        const { project, report } = readProjectFile(toFile(file));
+        expect(report.isLegacy).toBe(false);
+        expect(report.exportedBy).toBe('张工');
+        expect(report.steps.map(s => [s.from, s.to])).toEqual([[1, 2]]);
+        expect(project.tasks[1].dependencies).toEqual([{ taskId: 't1', type: 'FS', lagDays: 0 }]);
+      });
+    });
+
+    describe('current files', () => {
+      const current = () => readProjectFile(toFile(makeV1Project())).project;
+
+      it('reads an exported project back unchanged, with a valid checksum', () => {
+        const project = current();
+        const { project: imported, report } = readProjectFile(toFile(createProjectFile(project, '张工')));
+        expect(imported).toEqual(project);
+        expect(report).toMatchObject({ schemaVersion: PROJECT_FILE_VERSION, isLegacy: false, exportedBy: '张工', checksum: 'valid', steps: [] });
+      });
+
+      it('flags a project edited after the export', () => {
+        const file = createProjectFile(current(), '张工');
+        file.project.tasks[0].endDate = '2025-01-09';
+        expect(readProjectFile(toFile(file)).report.checksum).toBe('mismatch');
+      });
+
+      it('reads a bare project with typed links as the current version', () => {
+        const { report } = readProjectFile(toFile(current()));
+        expect(report).toMatchObject({ schemaVersion: 2, isLegacy: true, steps: [] });
+      });
+    });
+
+    describe('invalid files', () => {
+      const withTask = (changes: Record<string, unknown>) => {
+        const project = makeV1Project();
+        project.tasks[1] = { ...project.tasks[1], ...changes };
+        return toFile(project);
+      };
+      const envelope = (changes: Record<string, unknown>) =>
+        toFile({ ...createProjectFile(readProjectFile(toFile(makeV1Project())).project, '张工'), ...changes });
+
+      it.each([
+        ['text that is not JSON', '{"id": "proj_v1", "tasks": [', '不是有效的 JSON'],
+        ['JSON that is not a project', toFile({ name: 'notes', items: [] }), '无效的项目文件格式'],
+        ['an envelope from a newer version', envelope({ schemaVersion: PROJECT_FILE_VERSION + 1 }), '较新版本'],
+        ['an envelope without a usable version', envelope({ schemaVersion: '2' }), '无法识别的格式版本'],
+        ['an envelope without a project', envelope({ project: null }), '缺少项目数据'],
+        ['a task without a name or id', withTask({ id: 7 }), '缺少 ID 或名称'],
+        ['an impossible date', withTask({ endDate: '2025-13-01' }), '日期无效'],
+        ['a date that is not a day', withTask({ startDate: '13/01/2025' }), '日期无效'],
+        ['an unknown status', withTask({ status: 'Done' }), '状态无效'],
+        ['progress above 100', withTask({ progress: 120 }), '进度无效'],
+        ['progress that is not a number', withTask({ progress: '50' }), '进度无效'],
+        ['an unknown link type', withTask({ dependencies: [{ taskId: 't1', type: 'XX', lagDays: 0 }] }), '依赖格式无效'],
+        ['a lag that is not a number', withTask({ dependencies: [{ taskId: 't1', type: 'FS', lagDays: 'two' }] }), '依赖格式无效'],
+        ['an external link without a project', withTask({ externalDependencies: [{ taskId: 't9', type: 'FS', lagDays: 0 }] }), '跨项目依赖格式无效']
+      ])('rejects %s', (_, content, message) => {
+        expect(() => readProjectFile(content)).toThrow(ProjectFileError);
+        expect(() => readProjectFile(content)).toThrow(message);
+      });
+
+      it('names the task that failed', () => {
+        expect(() => readProjectFile(withTask({ status: 'Done' }))).toThrow('任务「OQ」状态无效 (Done)');
+      });
+    });
+  });
+});
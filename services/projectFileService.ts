@@ -0,0 +1,201 @@
+import { Project, Task, TaskStatus } from '../types';
+import { sha256 } from './auditService';
+import { getProjectCalendar } from './calendarService';
+import { isDateString } from './dateService';
+import { getWorkingDuration, normalizeDependencies, normalizeProjectDependencies } from './scheduleService';
+
+// Project export files: the project wrapped in an envelope with its schema version, who exported it
+// when, and a checksum. Files written by older versions (including bare project objects from before
+// the envelope) are migrated one version at a time on import.
+
+export const PROJECT_FILE_FORMAT = 'cella-project';
+
+// Bump together with a new entry in MIGRATIONS whenever stored project data changes shape
+export const PROJECT_FILE_VERSION = 2;
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string; // ISO timestamp
+  exportedBy: string;
+  hashAlgorithm: 'SHA-256';
+  checksum: string; // Hex digest of the project serialized as compact JSON
+  project: Project;
+}
+
+export class ProjectFileError extends Error {}
+
+// Key order survives JSON.parse, so re-serializing the parsed project gives back the hashed text
+const computeChecksum = (project: unknown) => sha256(JSON.stringify(project));
+
+export const createProjectFile = (project: Project, exportedBy: string): ProjectFile => ({
+  format: PROJECT_FILE_FORMAT,
+  schemaVersion: PROJECT_FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  exportedBy,
+  hashAlgorithm: 'SHA-256',
+  checksum: computeChecksum(project),
+  project
+});
+
+// --- Migrations ---
+
+// What an older version stored, read loosely field by field
+type StoredTask = Record<string, unknown>;
+type StoredProject = Record<string, unknown> & { id: string; tasks: StoredTask[] };
+
+// Migrates a project from `from` to `from + 1` and lists what it changed, in words for the import report
+interface Migration {
+  from: number;
+  description: string;
+  migrate: (project: StoredProject) => { project: StoredProject; changes: string[] };
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    // Version 1: dependencies were task id strings and durations counted calendar days
+    from: 1,
+    description: '依赖改为带类型与延隔时间的链接，工期改按工作日计算',
+    migrate: project => {
+      const calendar = getProjectCalendar(project as unknown as Project);
+      let links = 0;
+      let durations = 0;
+      const tasks = project.tasks.map(task => {
+        links += (Array.isArray(task.dependencies) ? task.dependencies : []).filter(d => typeof d === 'string').length;
+        const migrated = { ...task, dependencies: normalizeDependencies(task.dependencies) };
+        const duration = getWorkingDuration(migrated as unknown as Task, calendar);
+        if (duration !== task.duration) durations++;
+        return { ...migrated, duration };
+      });
+      return {
+        project: { ...project, tasks },
+        changes: [
+          links > 0 && `${links} 个依赖转换为完成-开始 (FS) 链接，延隔 0 天`,
+          durations > 0 && `${durations} 个任务的工期由日历天改为工作日`
+        ].filter(Boolean) as string[]
+      };
+    }
+  }
+];
+
+// --- Import ---
+
+export interface MigrationStep {
+  from: number;
+  to: number;
+  description: string;
+  changes: string[]; // Empty when the file had nothing to convert
+}
+
+export interface ProjectFileReport {
+  schemaVersion: number; // Version the file was written in
+  isLegacy: boolean; // Bare project object without an envelope
+  exportedAt?: string;
+  exportedBy?: string;
+  checksum: 'valid' | 'mismatch' | 'missing';
+  steps: MigrationStep[];
+}
+
+const isTypedLink = (value: unknown): boolean =>
+  !!value && typeof value === 'object' && typeof (value as Record<string, unknown>).taskId === 'string' && typeof (value as Record<string, unknown>).type === 'string';
+
+// Bare exports carry no version. Only typed links prove the second format; anything else (string ids,
+// missing lists, no links at all) is read as the first, whose migration is harmless on newer data.
+const detectLegacyVersion = (project: StoredProject): number => {
+  const links = project.tasks.map(t => t?.dependencies);
+  const isTyped = links.every(deps => Array.isArray(deps) && deps.every(isTypedLink)) && links.some(deps => (deps as unknown[]).length > 0);
+  return isTyped ? 2 : 1;
+};
+
+const isStoredProject = (value: unknown): value is StoredProject =>
+  !!value && typeof value === 'object' && typeof (value as StoredProject).id === 'string' && Array.isArray((value as StoredProject).tasks);
+
+const TASK_STATUSES: unknown[] = Object.values(TaskStatus);
+const LINK_TYPES: unknown[] = ['FS', 'SS', 'FF', 'SF'];
+
+// A predecessor as either version stores it: a task id (version 1) or a typed link
+const isStoredLink = (value: unknown): boolean => {
+  if (typeof value === 'string') return true;
+  const link = value as Record<string, unknown> | null;
+  return !!link && typeof link === 'object' && typeof link.taskId === 'string' && LINK_TYPES.includes(link.type) &&
+    (link.lagDays === undefined || Number.isFinite(link.lagDays));
+};
+
+// What keeps a task from being scheduled, null when nothing does. Checked before anything is
+// imported: a bad date or link would otherwise only fail once the plan is drawn.
+const findTaskProblem = (task: StoredTask | null): string | null => {
+  if (!task || typeof task !== 'object' || typeof task.id !== 'string' || typeof task.name !== 'string') return '缺少 ID 或名称';
+  if (!isDateString(task.startDate) || !isDateString(task.endDate)) return `日期无效 (${task.startDate} – ${task.endDate})`;
+  if (!TASK_STATUSES.includes(task.status)) return `状态无效 (${task.status})`;
+  if (typeof task.progress !== 'number' || !(task.progress >= 0 && task.progress <= 100)) return `进度无效 (${task.progress})`;
+  if (task.dependencies !== undefined && !(Array.isArray(task.dependencies) && task.dependencies.every(isStoredLink))) return '依赖格式无效';
+  const external = task.externalDependencies;
+  if (external !== undefined && !(Array.isArray(external) && external.every(l => isStoredLink(l) && typeof l !== 'string' && typeof l.projectId === 'string'))) {
+    return '跨项目依赖格式无效';
+  }
+  return null;
+};
+
+// Parse, check and migrate an exported project file; throws ProjectFileError with a readable message
+export const readProjectFile = (content: string): { project: Project; report: ProjectFileReport } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new ProjectFileError('文件不是有效的 JSON');
+  }
+
+  let project: StoredProject;
+  let report: ProjectFileReport;
+  const file = data as Partial<Record<keyof ProjectFile, unknown>> | null;
+  if (file?.format === PROJECT_FILE_FORMAT) {
+    const version = file.schemaVersion;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) throw new ProjectFileError(`无法识别的格式版本：${version}`);
+    if (version > PROJECT_FILE_VERSION) {
+      throw new ProjectFileError(`文件由较新版本导出 (格式版本 ${version})，当前仅支持到版本 ${PROJECT_FILE_VERSION}，请升级后再导入`);
+    }
+    if (!isStoredProject(file.project)) throw new ProjectFileError('文件中缺少项目数据');
+    project = file.project;
+    report = {
+      schemaVersion: version,
+      isLegacy: false,
+      exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : undefined,
+      exportedBy: typeof file.exportedBy === 'string' ? file.exportedBy : undefined,
+      checksum: !file.checksum ? 'missing' : file.checksum === computeChecksum(project) ? 'valid' : 'mismatch',
+      steps: []
+    };
+  } else if (isStoredProject(data)) {
+    project = data;
+    report = { schemaVersion: detectLegacyVersion(data), isLegacy: true, checksum: 'missing', steps: [] };
+  } else {
+    throw new ProjectFileError('无效的项目文件格式');
+  }
+
+  project.tasks.forEach((task, index) => {
+    const problem = findTaskProblem(task);
+    if (problem) throw new ProjectFileError(`任务「${task?.name || task?.id || `第 ${index + 1} 行`}」${problem}`);
+  });
+
+  for (let version = report.schemaVersion; version < PROJECT_FILE_VERSION; version++) {
+    const migration = MIGRATIONS.find(m => m.from === version);
+    if (!migration) throw new ProjectFileError(`缺少从版本 ${version} 升级的迁移`);
+    const result = migration.migrate(project);
+    project = result.project;
+    report.steps.push({ from: version, to: version + 1, description: migration.description, changes: result.changes });
+  }
+
+  // Links are normalized whatever the version: a missing or malformed list must not reach the scheduler
+  return { project: normalizeProjectDependencies(project as unknown as Project), report };
+};
+
+// Plain-text summary, e.g. for the chat log after the import
+export const formatProjectFileReport = (report: ProjectFileReport): string => {
+  const lines = [
+    report.isLegacy ? `旧格式文件 (无版本信息，按格式版本 ${report.schemaVersion} 读取)` : `格式版本 ${report.schemaVersion}${report.exportedBy ? `，由 ${report.exportedBy}` : ''}${report.exportedAt ? ` 于 ${new Date(report.exportedAt).toLocaleString('zh-CN')}` : ''} 导出`,
+    report.checksum === 'valid' ? '校验和一致' : report.checksum === 'mismatch' ? '校验和不一致：文件在导出后被修改或已损坏' : '文件没有校验和',
+    ...(report.steps.length === 0
+      ? ['无需迁移']
+      : report.steps.map(step => `版本 ${step.from} → ${step.to}：${step.description}${step.changes.length > 0 ? ` (${step.changes.join('；')})` : ' (无需转换)'}`))
+  ];
+  return lines.join('\n');
+};
@@ -0,0 +1,166 @@
+import { Task, TaskStatus, RecurrenceRule, RecurrenceException, ProjectCalendar } from '../types';
+import { getWorkingSpan, nextWorkingDay } from './calendarService';
+import { fromDayNumber, getDateParts, getMonthStart, toDayNumber } from './dateService';
+
+const MAX_OCCURRENCES = 366; // Guard for rules without an end (or a daily rule over years)
+
+export interface Occurrence {
+  index: number;
+  startDate: string;
+  endDate: string;
+  isMoved: boolean;
+}
+
+export const isOccurrence = (task: Task): boolean => task.occurrenceIndex !== undefined;
+
+// Default rule when a task is made recurring: monthly from its start, a year ahead
+export const createDefaultRecurrence = (task: Task): RecurrenceRule => ({
+  frequency: 'month',
+  interval: 1,
+  startDate: task.startDate,
+  duration: task.kind === 'milestone' ? 0 : Math.max(task.duration, 1),
+  count: 12
+});
+
+// Planned date of occurrence `index` before it is snapped to a working day.
+// Monthly rules keep the day of month, clamped to short months (31st -> 30th / 28th).
+const getNominalDay = (rule: RecurrenceRule, index: number): number => {
+  const first = toDayNumber(rule.startDate);
+  const step = Math.max(Math.round(rule.interval) || 1, 1) * index;
+  if (rule.frequency === 'day') return first + step;
+  if (rule.frequency === 'week') return first + step * 7;
+
+  const { year, month, date } = getDateParts(first);
+  const monthStart = getMonthStart(year, month + step);
+  const { year: y, month: m } = getDateParts(monthStart);
+  const monthLength = getMonthStart(y, m + 1) - monthStart;
+  return monthStart + Math.min(date, monthLength) - 1;
+};
+
+// Dated occurrences of a rule on the project calendar (occurrences that fall on a weekend,
+// holiday or shutdown move to the next working day). Skipped occurrences are left out;
+// moved ones keep their own date.
+export const getOccurrences = (rule: RecurrenceRule, calendar: ProjectCalendar): Occurrence[] => {
+  const exceptions = new Map<number, RecurrenceException>((rule.exceptions || []).map(e => [e.index, e]));
+  const until = rule.until ? toDayNumber(rule.until) : Infinity;
+  const count = rule.count && rule.count > 0 ? Math.min(rule.count, MAX_OCCURRENCES) : MAX_OCCURRENCES;
+  const occurrences: Occurrence[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const nominal = getNominalDay(rule, index);
+    if (nominal > until) break;
+
+    const exception = exceptions.get(index);
+    if (exception?.skip) continue;
+
+    const start = exception?.startDate ? toDayNumber(exception.startDate) : nextWorkingDay(nominal, calendar);
+    const span = getWorkingSpan(fromDayNumber(start), rule.duration, calendar);
+    occurrences.push({
+      index,
+      startDate: span.startDate,
+      endDate: rule.duration === 0 ? span.startDate : span.endDate,
+      isMoved: !!exception?.startDate
+    });
+  }
+  return occurrences;
+};
+
+// Work under way or done (or signed) is part of the record, whatever the rule says later
+const isStarted = (task: Task): boolean => task.status !== TaskStatus.Pending || task.progress > 0 || !!task.signatures?.length;
+
+// Rebuild the occurrences of `series` from its rule. Only occurrences not started yet follow it:
+// those that already exist keep their id, status, progress and assignee and take the new dates.
+// Started and completed ones are left as they are, and kept even when the rule no longer covers
+// them (a lower count or an earlier end). Extra subtasks added by hand stay.
+// Each occurrence carries a start-no-earlier-than constraint on its date, so cascading and
+// as-soon-as-possible planning keep the series on its cadence.
+export const expandRecurrence = (tasks: Task[], seriesId: string, calendar: ProjectCalendar): Task[] => {
+  const series = tasks.find(t => t.id === seriesId);
+  if (!series?.recurrence) return tasks;
+  const rule = series.recurrence;
+
+  const existing = new Map(tasks
+    .filter(t => t.parentId === seriesId && isOccurrence(t))
+    .map(t => [t.occurrenceIndex!, t]));
+  const started = Array.from(existing.values()).filter(isStarted);
+
+  const startedIndexes = new Set(started.map(t => t.occurrenceIndex!));
+
+  const planned: Task[] = getOccurrences(rule, calendar).filter(o => !startedIndexes.has(o.index)).map(o => {
+    const previous = existing.get(o.index);
+    const base: Task = previous || {
+      id: `${seriesId}_r${o.index}`,
+      name: `${series.name} #${o.index + 1}`,
+      parentId: seriesId,
+      startDate: o.startDate,
+      endDate: o.endDate,
+      duration: rule.duration,
+      status: TaskStatus.Pending,
+      assignee: series.assignee,
+      progress: 0,
+      dependencies: [],
+      gmpCritical: series.gmpCritical,
+      category: series.category,
+      resources: series.resources ? [...series.resources] : undefined
+    };
+    return {
+      ...base,
+      kind: rule.duration === 0 ? 'milestone' : 'task',
+      occurrenceIndex: o.index,
+      startDate: o.startDate,
+      endDate: o.endDate,
+      duration: rule.duration,
+      constraint: { type: 'SNET', date: o.startDate }
+    };
+  });
+  const occurrences = [...started, ...planned].sort((a, b) => a.occurrenceIndex! - b.occurrenceIndex!);
+
+  // Occurrences sit right below the series row, before any subtasks added by hand
+  const rest = tasks.filter(t => !(t.parentId === seriesId && isOccurrence(t)));
+  const seriesIndex = rest.findIndex(t => t.id === seriesId);
+  return [...rest.slice(0, seriesIndex + 1), ...occurrences, ...rest.slice(seriesIndex + 1)];
+};
+
+// Record an edited occurrence on its series: a new date becomes a "moved" exception (or clears it
+// when the occurrence is back on its planned date). Returns the tasks unchanged for other tasks.
+export const recordOccurrenceEdit = (tasks: Task[], occurrence: Task, calendar: ProjectCalendar): Task[] => {
+  const series = tasks.find(t => t.id === occurrence.parentId);
+  if (!isOccurrence(occurrence) || !series?.recurrence) return tasks;
+
+  const rule = series.recurrence;
+  const index = occurrence.occurrenceIndex!;
+  const planned = fromDayNumber(nextWorkingDay(getNominalDay(rule, index), calendar));
+  const others = (rule.exceptions || []).filter(e => e.index !== index);
+  const exceptions = occurrence.startDate === planned ? others : [...others, { index, startDate: occurrence.startDate }];
+
+  return tasks.map(t => t.id === series.id ? { ...t, recurrence: { ...rule, exceptions } } : t);
+};
+
+// Remove one occurrence from its series (a "skip" exception, so regenerating does not bring it back)
+export const skipOccurrence = (tasks: Task[], occurrence: Task): Task[] => {
+  const series = tasks.find(t => t.id === occurrence.parentId);
+  if (!isOccurrence(occurrence) || !series?.recurrence) return tasks;
+
+  const rule = series.recurrence;
+  const index = occurrence.occurrenceIndex!;
+  const exceptions = [...(rule.exceptions || []).filter(e => e.index !== index), { index, skip: true }];
+  return tasks
+    .filter(t => t.id !== occurrence.id)
+    .map(t => t.id === series.id ? { ...t, recurrence: { ...rule, exceptions } } : t);
+};
+
+// Keep recurring series consistent after `editedTask` was saved into `tasks`
+export const syncRecurrence = (tasks: Task[], editedTask: Task, calendar: ProjectCalendar): Task[] => {
+  if (editedTask.recurrence) return expandRecurrence(tasks, editedTask.id, calendar);
+  if (isOccurrence(editedTask)) return recordOccurrenceEdit(tasks, editedTask, calendar);
+  // A rule that was switched off leaves its occurrences as ordinary subtasks
+  return tasks.map(t => t.parentId === editedTask.id && isOccurrence(t) ? { ...t, occurrenceIndex: undefined } : t);
+};
+
+// "每 2 周，共 12 次" / "每月，至 2024-12-31"
+export const formatRecurrence = (rule: RecurrenceRule): string => {
+  const unit = rule.frequency === 'day' ? '天' : rule.frequency === 'week' ? '周' : '月';
+  const every = rule.interval > 1 ? `每 ${rule.interval} ${unit === '月' ? '个月' : unit}` : `每${unit === '天' ? '天' : unit}`;
+  const end = rule.until ? `，至 ${rule.until}` : rule.count ? `，共 ${rule.count} 次` : '';
+  return `${every}${end}`;
+};
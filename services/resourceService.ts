@@ -0,0 +1,210 @@
+import { Task, Resource, ResourceAssignment, ProjectCalendar, ProposedChange, TaskStatus, BookingConflict } from '../types';
+import { addWorkingDays, isWorkingDay, nextWorkingDay } from './calendarService';
+import { toDayNumber, fromDayNumber } from './dateService';
+import { computeCriticalPath, getLinkEarliestStart, getPinnedStart, getTopologicalOrder, isMilestone, shiftTaskToStart } from './scheduleService';
+import { getChildrenMap, getSchedulingLinks, rollupSummary } from './wbsService';
+
+export interface ResourceLoadDay {
+  date: string;
+  load: number; // Units booked on that day
+  taskIds: string[];
+}
+
+export interface ResourceLoad {
+  resource: Resource;
+  days: ResourceLoadDay[]; // Working days with any booking, in date order
+  peak: number;
+  overloadedDays: number;
+}
+
+export interface LevellingResult {
+  changes: ProposedChange[];
+  unresolvedTaskIds: string[]; // Still overallocated (no float left or fixed tasks)
+}
+
+// --- Assignments ---
+
+// Equipment and rooms are reserved by tasks rather than staffed
+export const isAssetResource = (resource: Pick<Resource, 'kind'>): boolean =>
+  resource.kind === 'equipment' || resource.kind === 'room';
+
+// Explicit assignments, or one unit of the person / team whose name matches the free-text assignee.
+// Reserving equipment or a room does not replace the assignee.
+export const getTaskAssignments = (task: Task, resources: Resource[]): ResourceAssignment[] => {
+  const byId = new Map(resources.map(r => [r.id, r]));
+  const explicit = (task.resources || []).filter(a => byId.has(a.resourceId) && a.units > 0);
+  if (explicit.some(a => !isAssetResource(byId.get(a.resourceId)!))) return explicit;
+  const named = resources.find(r => r.name === task.assignee && !isAssetResource(r));
+  return named ? [...explicit, { resourceId: named.id, units: 1 }] : explicit;
+};
+
+// Days on which a task consumes a resource (milestones and summaries book nothing). People work on
+// working days only; a reserved asset stays occupied over weekends and holidays inside the task.
+const getBookedDays = (task: Task, calendar: ProjectCalendar, isAsset = false): number[] => {
+  if (isMilestone(task)) return [];
+  const days: number[] = [];
+  const end = toDayNumber(task.endDate);
+  for (let day = toDayNumber(task.startDate); day <= end; day++) {
+    if (isAsset || isWorkingDay(day, calendar)) days.push(day);
+  }
+  return days;
+};
+
+// --- Load Histogram ---
+
+export const computeResourceLoads = (tasks: Task[], resources: Resource[], calendar: ProjectCalendar): ResourceLoad[] => {
+  const childrenMap = getChildrenMap(tasks);
+  const resourceMap = new Map(resources.map(r => [r.id, r]));
+  const usage = new Map(resources.map(r => [r.id, new Map<number, { load: number; taskIds: string[] }>()]));
+
+  tasks.forEach(task => {
+    if (childrenMap.has(task.id)) return;
+    getTaskAssignments(task, resources).forEach(a => {
+      const byDay = usage.get(a.resourceId)!;
+      getBookedDays(task, calendar, isAssetResource(resourceMap.get(a.resourceId)!)).forEach(day => {
+        const entry = byDay.get(day) || { load: 0, taskIds: [] };
+        entry.load += a.units;
+        entry.taskIds.push(task.id);
+        byDay.set(day, entry);
+      });
+    });
+  });
+
+  return resources.map(resource => {
+    const days = Array.from(usage.get(resource.id)!.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([day, entry]) => ({ date: fromDayNumber(day), load: entry.load, taskIds: entry.taskIds }));
+    return {
+      resource,
+      days,
+      peak: days.reduce((max, d) => Math.max(max, d.load), 0),
+      overloadedDays: days.filter(d => d.load > resource.capacity).length
+    };
+  });
+};
+
+// --- Asset Bookings ---
+
+// Overlapping reservations of equipment and rooms, one entry per run of days with the same tasks
+export const findBookingConflicts = (tasks: Task[], resources: Resource[], calendar: ProjectCalendar): BookingConflict[] => {
+  const conflicts: BookingConflict[] = [];
+  computeResourceLoads(tasks, resources.filter(isAssetResource), calendar).forEach(({ resource, days }) => {
+    let current: BookingConflict | null = null;
+    days.filter(d => d.load > resource.capacity).forEach(d => {
+      const taskKey = [...d.taskIds].sort().join(',');
+      if (current && toDayNumber(d.date) === toDayNumber(current.endDate) + 1 && [...current.taskIds].sort().join(',') === taskKey) {
+        current.endDate = d.date;
+        return;
+      }
+      current = { resourceId: resource.id, resourceName: resource.name, startDate: d.date, endDate: d.date, taskIds: d.taskIds };
+      conflicts.push(current);
+    });
+  });
+  return conflicts;
+};
+
+// --- Levelling ---
+
+// Delay non-critical tasks within their total float until no resource is booked beyond its capacity.
+// Critical, started, completed and date-pinned tasks stay where they are and are booked first; the others are placed
+// in dependency order on the first start (up to their late start) where all their resources fit.
+// The project finish date never moves. The result is a proposal for the confirm flow.
+export const levelResources = (tasks: Task[], resources: Resource[], calendar: ProjectCalendar): LevellingResult => {
+  const { ordered, cyclic } = getTopologicalOrder(tasks);
+  if (cyclic.length > 0 || resources.length === 0) return { changes: [], unresolvedTaskIds: [] };
+
+  const cpm = computeCriticalPath(tasks, calendar).tasks;
+  const taskMap = new Map(tasks.map(t => [t.id, t]));
+  const childrenMap = getChildrenMap(tasks);
+  const capacity = new Map(resources.map(r => [r.id, r.capacity]));
+  const assetIds = new Set(resources.filter(isAssetResource).map(r => r.id));
+  const usage = new Map(resources.map(r => [r.id, new Map<number, number>()]));
+  const placed = new Map(tasks.map(t => [t.id, t]));
+  const delayedForResources = new Map<string, Set<string>>(); // task id -> resource names
+  const unresolved: string[] = [];
+
+  const isFixed = (task: Task) =>
+    (cpm[task.id]?.totalFloat ?? 0) <= 0 || task.status === TaskStatus.InProgress || task.status === TaskStatus.Completed ||
+    getPinnedStart(task, calendar) !== null;
+
+  const overloadedResources = (task: Task): string[] => {
+    return getTaskAssignments(task, resources)
+      .filter(a => getBookedDays(task, calendar, assetIds.has(a.resourceId))
+        .some(day => (usage.get(a.resourceId)!.get(day) || 0) + a.units > capacity.get(a.resourceId)!))
+      .map(a => a.resourceId);
+  };
+
+  const book = (task: Task) => {
+    getTaskAssignments(task, resources).forEach(a => {
+      const byDay = usage.get(a.resourceId)!;
+      getBookedDays(task, calendar, assetIds.has(a.resourceId)).forEach(day => byDay.set(day, (byDay.get(day) || 0) + a.units));
+    });
+  };
+
+  // 1. Fixed work tasks keep their dates and are booked first
+  tasks.forEach(task => {
+    if (!childrenMap.has(task.id) && isFixed(task)) {
+      if (overloadedResources(task).length > 0) unresolved.push(task.id);
+      book(task);
+    }
+  });
+
+  // 2. Place the remaining tasks in dependency order
+  ordered.forEach(task => {
+    const children = childrenMap.get(task.id);
+    if (children) {
+      placed.set(task.id, rollupSummary(task, children.map(c => placed.get(c.id)!), calendar));
+      return;
+    }
+    if (isFixed(task)) return;
+
+    // Earliest start allowed by the (possibly delayed) predecessors
+    let start = nextWorkingDay(toDayNumber(task.startDate), calendar);
+    getSchedulingLinks(task, taskMap).forEach(link => {
+      const pred = placed.get(link.taskId);
+      if (pred) start = Math.max(start, getLinkEarliestStart(task, pred, link, calendar));
+    });
+
+    const earliest = shiftTaskToStart(task, start, calendar);
+    const latestStart = toDayNumber(cpm[task.id].lateStart);
+    let candidate = earliest;
+    let blocked = overloadedResources(candidate);
+
+    while (blocked.length > 0 && toDayNumber(candidate.startDate) < latestStart) {
+      blocked.forEach(id => {
+        if (!delayedForResources.has(task.id)) delayedForResources.set(task.id, new Set());
+        delayedForResources.get(task.id)!.add(resources.find(r => r.id === id)!.name);
+      });
+      candidate = shiftTaskToStart(task, addWorkingDays(toDayNumber(candidate.startDate), 1, calendar), calendar);
+      blocked = overloadedResources(candidate);
+    }
+
+    // No slot within the float: stay as early as possible and report the overload
+    if (blocked.length > 0) {
+      candidate = earliest;
+      delayedForResources.delete(task.id);
+      unresolved.push(task.id);
+    }
+
+    book(candidate);
+    placed.set(task.id, candidate);
+  });
+
+  const changes: ProposedChange[] = tasks
+    .filter(t => !childrenMap.has(t.id))
+    .map(t => ({ original: t, levelled: placed.get(t.id)! }))
+    .filter(({ original, levelled }) => original.startDate !== levelled.startDate || original.endDate !== levelled.endDate)
+    .map(({ original, levelled }) => ({
+      taskId: original.id,
+      taskName: original.name,
+      originalStartDate: original.startDate,
+      originalEndDate: original.endDate,
+      newStartDate: levelled.startDate,
+      newEndDate: levelled.endDate,
+      reason: delayedForResources.has(original.id)
+        ? `资源平衡：在浮动时间内顺延，避免 ${Array.from(delayedForResources.get(original.id)!).join('、')} 超负荷`
+        : '资源平衡：随前置任务顺延'
+    }));
+
+  return { changes, unresolvedTaskIds: unresolved };
+};
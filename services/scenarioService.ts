@@ -0,0 +1,61 @@
+import { Task, ScheduleScenario, ScheduleBaseline, BaselineVariance, ProjectCalendar } from '../types';
+import { workingDayDiff } from './calendarService';
+import { toDayNumber } from './dateService';
+import { computeBaselineVariances } from './baselineService';
+import { getProjectFinish } from './scheduleService';
+
+export interface ScenarioDelta {
+  finishDelta: number; // Working days the project finish moves against the reference (positive = later)
+  changedTaskIds: string[];
+  addedTaskIds: string[]; // Only in the compared plan
+  removedTaskIds: string[]; // Only in the reference plan
+}
+
+// Fork a plan into a named scenario (tasks are copied so both sides can be edited independently)
+export const createScenario = (name: string, tasks: Task[], createdBy?: string): ScheduleScenario => ({
+  id: `sc_${Date.now()}`,
+  name,
+  createdAt: new Date().toISOString(),
+  createdBy,
+  tasks: tasks.map(t => ({
+    ...t,
+    dependencies: t.dependencies.map(d => ({ ...d })),
+    resources: t.resources?.map(a => ({ ...a })),
+    constraint: t.constraint && { ...t.constraint },
+    estimate: t.estimate && { ...t.estimate }
+  }))
+});
+
+// Treat another plan like a baseline, so the Gantt can draw it as ghost bars with variance badges
+const toReferenceSnapshot = (name: string, reference: Task[]): ScheduleBaseline => ({
+  id: 'comparison',
+  name,
+  createdAt: new Date().toISOString(),
+  tasks: Object.fromEntries(reference.map(t => [t.id, { startDate: t.startDate, endDate: t.endDate }]))
+});
+
+export const compareScenarioTasks = (
+  tasks: Task[],
+  reference: Task[],
+  referenceName: string,
+  calendar: ProjectCalendar
+): Record<string, BaselineVariance> => {
+  return computeBaselineVariances(tasks, toReferenceSnapshot(referenceName, reference), calendar);
+};
+
+export const computeScenarioDelta = (tasks: Task[], reference: Task[], calendar: ProjectCalendar): ScenarioDelta => {
+  const referenceMap = new Map(reference.map(t => [t.id, t]));
+  const ids = new Set(tasks.map(t => t.id));
+  const finish = getProjectFinish(tasks);
+  const referenceFinish = getProjectFinish(reference);
+
+  return {
+    finishDelta: finish && referenceFinish ? workingDayDiff(toDayNumber(referenceFinish), toDayNumber(finish), calendar) : 0,
+    changedTaskIds: tasks
+      .filter(t => referenceMap.has(t.id))
+      .filter(t => referenceMap.get(t.id)!.startDate !== t.startDate || referenceMap.get(t.id)!.endDate !== t.endDate)
+      .map(t => t.id),
+    addedTaskIds: tasks.filter(t => !referenceMap.has(t.id)).map(t => t.id),
+    removedTaskIds: reference.filter(t => !ids.has(t.id)).map(t => t.id)
+  };
+};
@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import type { DependencyType, ProjectCalendar, Task, TaskStatus } from '../types';
+import { cascadeSchedule, computeCriticalPath, describeDependencyCycle, findDependencyCycle, getLinkEarliestStart } from './scheduleService';
+import { addDays, toDayNumber } from './dateService';
+
+// Plain Monday-to-Friday week without holidays, so the expected dates are easy to follow.
+// 2025-01-06 is a Monday.
+const CALENDAR: ProjectCalendar = {
+  id: 'cal_test',
+  name: 'Test calendar',
+  workingWeekdays: [1, 2, 3, 4, 5],
+  holidays: [],
+  makeUpWorkdays: [],
+  shutdowns: []
+};
+
+const makeTask = (id: string, startDate: string, endDate: string, dependencies: Task['dependencies'] = []): Task => ({
+  id,
+  name: id,
+  startDate,
+  endDate,
+  duration: 0, // Recomputed from the dates and the calendar
+  status: 'Pending' as TaskStatus,
+  assignee: '',
+  progress: 0,
+  dependencies,
+  gmpCritical: false,
+  category: 'IQ'
+});
+
+const link = (taskId: string, type: DependencyType = 'FS', lagDays = 0) => ({ taskId, type, lagDays });
+
+const byId = (tasks: Task[], id: string) => tasks.find(t => t.id === id)!;
+
+describe('scheduleService', () => {
+  describe('link types', () => {
+    // Predecessor Mon 01-06 .. Wed 01-08, successor lasts two working days
+    const pred = makeTask('A', '2025-01-06', '2025-01-08');
+
+    const cases: { type: DependencyType; lagDays: number; start: string; end: string }[] = [
+      { type: 'FS', lagDays: 0, start: '2025-01-09', end: '2025-01-10' },
+      { type: 'FS', lagDays: 2, start: '2025-01-13', end: '2025-01-14' }, // Lag skips the weekend
+      { type: 'FS', lagDays: -1, start: '2025-01-08', end: '2025-01-09' },
+      { type: 'SS', lagDays: 0, start: '2025-01-06', end: '2025-01-07' },
+      { type: 'SS', lagDays: 2, start: '2025-01-08', end: '2025-01-09' },
+      { type: 'SS', lagDays: -1, start: '2025-01-03', end: '2025-01-06' },
+      { type: 'FF', lagDays: 0, start: '2025-01-07', end: '2025-01-08' },
+      { type: 'FF', lagDays: 2, start: '2025-01-09', end: '2025-01-10' },
+      { type: 'FF', lagDays: -1, start: '2025-01-06', end: '2025-01-07' },
+      { type: 'SF', lagDays: 0, start: '2025-01-02', end: '2025-01-03' },
+      { type: 'SF', lagDays: 2, start: '2025-01-06', end: '2025-01-07' },
+      { type: 'SF', lagDays: -1, start: '2025-01-01', end: '2025-01-02' }
+    ];
+
+    it.each(cases)('$type with a lag of $lagDays starts the successor on $start', ({ type, lagDays, start, end }) => {
+      // The successor is planned well before its predecessor, so cascading has to push it
+      const succ = makeTask('B', '2024-12-02', '2024-12-03', [link('A', type, lagDays)]);
+      expect(getLinkEarliestStart(succ, pred, succ.dependencies[0], CALENDAR)).toBe(toDayNumber(start));
+
+      const scheduled = byId(cascadeSchedule([pred, succ], CALENDAR), 'B');
+      expect(scheduled.startDate).toBe(start);
+      expect(scheduled.endDate).toBe(end);
+      expect(scheduled.duration).toBe(2);
+    });
+
+    it('never pulls a successor in when the link is already met', () => {
+      const succ = makeTask('B', '2025-01-20', '2025-01-21', [link('A')]);
+      const scheduled = byId(cascadeSchedule([pred, succ], CALENDAR), 'B');
+      expect(scheduled.startDate).toBe('2025-01-20');
+      expect(scheduled.endDate).toBe('2025-01-21');
+    });
+
+    it('lets a milestone be reached on the last day of its predecessor', () => {
+      const milestone = { ...makeTask('M', '2024-12-02', '2024-12-02', [link('A')]), kind: 'milestone' as const };
+      const scheduled = byId(cascadeSchedule([pred, milestone], CALENDAR), 'M');
+      expect(scheduled.startDate).toBe('2025-01-08');
+      expect(scheduled.endDate).toBe('2025-01-08');
+    });
+  });
+
+  describe('findDependencyCycle', () => {
+    it('returns null for an acyclic network', () => {
+      const tasks = [
+        makeTask('A', '2025-01-06', '2025-01-06'),
+        makeTask('B', '2025-01-07', '2025-01-07', [link('A')]),
+        makeTask('C', '2025-01-07', '2025-01-07', [link('A', 'SS')]),
+        makeTask('D', '2025-01-08', '2025-01-08', [link('B'), link('C', 'FF', -1)])
+      ];
+      expect(findDependencyCycle(tasks)).toBeNull();
+    });
+
+    it('names the tasks of a cycle in link order', () => {
+      const tasks = [
+        makeTask('Start', '2025-01-06', '2025-01-06'),
+        makeTask('IQ', '2025-01-07', '2025-01-07', [link('Start'), link('PQ')]),
+        makeTask('OQ', '2025-01-08', '2025-01-08', [link('IQ')]),
+        makeTask('PQ', '2025-01-09', '2025-01-09', [link('OQ', 'SS', 2)]),
+        makeTask('Report', '2025-01-10', '2025-01-10', [link('PQ')]) // Behind the cycle, but not on it
+      ];
+      const cycle = findDependencyCycle(tasks);
+      expect(cycle?.map(t => t.id).sort()).toEqual(['IQ', 'OQ', 'PQ']);
+      expect(describeDependencyCycle(cycle!)).toBe('OQ → PQ → IQ → OQ');
+    });
+
+    it('finds a task linked to itself', () => {
+      const tasks = [makeTask('A', '2025-01-06', '2025-01-06', [link('A')])];
+      expect(findDependencyCycle(tasks)?.map(t => t.id)).toEqual(['A']);
+    });
+
+    it('leaves the tasks of a cycle untouched when cascading', () => {
+      const tasks = [
+        makeTask('A', '2025-01-06', '2025-01-07', [link('B')]),
+        makeTask('B', '2025-01-06', '2025-01-07', [link('A')])
+      ];
+      expect(cascadeSchedule(tasks, CALENDAR)).toEqual(tasks);
+    });
+  });
+
+  describe('long chains', () => {
+    const CHAIN_LENGTH = 200;
+
+    // Every task lasts two working days and follows the previous one, all planned on the same day
+    const buildChain = () => Array.from({ length: CHAIN_LENGTH }, (_, i) =>
+      makeTask(`t${i}`, '2025-01-06', '2025-01-07', i === 0 ? [] : [link(`t${i - 1}`)])
+    );
+
+    it('settles a chain far longer than 50 links in one call', () => {
+      const scheduled = cascadeSchedule(buildChain(), CALENDAR);
+
+      // Two working days per task: the last one starts 2 * 199 working days (79 weeks + 3 days) later
+      const last = byId(scheduled, `t${CHAIN_LENGTH - 1}`);
+      expect(last.startDate).toBe(addDays('2025-01-06', 79 * 7 + 3));
+      scheduled.slice(1).forEach((task, i) => {
+        expect(toDayNumber(task.startDate)).toBeGreaterThan(toDayNumber(scheduled[i].endDate));
+      });
+    });
+
+    it('does not depend on the row order', () => {
+      const chain = buildChain();
+      const reversed = cascadeSchedule([...chain].reverse(), CALENDAR);
+      expect([...reversed].reverse()).toEqual(cascadeSchedule(chain, CALENDAR));
+    });
+
+    it('computes the critical path of a long chain', () => {
+      const scheduled = cascadeSchedule(buildChain(), CALENDAR);
+      const { tasks, projectFinish } = computeCriticalPath(scheduled, CALENDAR);
+      expect(projectFinish).toBe(byId(scheduled, `t${CHAIN_LENGTH - 1}`).endDate);
+      expect(Object.values(tasks).every(info => info.isCritical)).toBe(true);
+    });
+  });
+
+  describe('computeCriticalPath', () => {
+    // A (3 days) feeds B (2 days) and C (1 day), which both feed D: C has one day of float
+    const network = () => [
+      makeTask('A', '2025-01-06', '2025-01-08'),
+      makeTask('B', '2025-01-09', '2025-01-10', [link('A')]),
+      makeTask('C', '2025-01-09', '2025-01-09', [link('A')]),
+      makeTask('D', '2025-01-13', '2025-01-13', [link('B'), link('C')])
+    ];
+
+    it('marks the longest path as critical', () => {
+      const { tasks, projectFinish } = computeCriticalPath(network(), CALENDAR);
+      expect(projectFinish).toBe('2025-01-13');
+      expect(['A', 'B', 'D'].every(id => tasks[id].isCritical)).toBe(true);
+      expect(tasks.C.isCritical).toBe(false);
+    });
+
+    it('reports total and free float in working days', () => {
+      const { tasks } = computeCriticalPath(network(), CALENDAR);
+      expect(tasks.C).toEqual({
+        earlyStart: '2025-01-09',
+        earlyFinish: '2025-01-09',
+        lateStart: '2025-01-10',
+        lateFinish: '2025-01-10',
+        totalFloat: 1,
+        freeFloat: 1,
+        isCritical: false
+      });
+      expect(tasks.A.totalFloat).toBe(0);
+      expect(tasks.D.freeFloat).toBe(0);
+    });
+
+    it('leaves floats empty on a cyclic network', () => {
+      const tasks = network().map(t => t.id === 'A' ? { ...t, dependencies: [link('D')] } : t);
+      expect(computeCriticalPath(tasks, CALENDAR).tasks).toEqual({});
+    });
+
+    it('handles an empty plan', () => {
+      expect(computeCriticalPath([], CALENDAR)).toEqual({ tasks: {}, projectFinish: null });
+    });
+  });
+});
@@ -0,0 +1,615 @@
+import { Task, TaskDependency, DependencyType, DateConstraint, ConstraintViolation, Project, TaskStatus, ProjectCalendar, ProposedChange, CriticalPathInfo, ScheduleImpact } from '../types';
+import { addWorkingDays, countWorkingDays, getProjectCalendar, nextWorkingDay, previousWorkingDay, workingDayDiff } from './calendarService';
+import { toDayNumber, fromDayNumber } from './dateService';
+import { getChildrenMap, getSchedulingLinks, rollupSummary } from './wbsService';
+
+const DEPENDENCY_TYPES: DependencyType[] = ['FS', 'SS', 'FF', 'SF'];
+
+// --- Dependency Model ---
+
+// Accepts legacy string IDs as well as typed links (old exports stored `string[]`)
+export const normalizeDependencies = (raw: unknown): TaskDependency[] => {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.reduce<TaskDependency[]>((acc, item) => {
+    if (typeof item === 'string') {
+      acc.push({ taskId: item, type: 'FS', lagDays: 0 });
+    } else if (item && typeof item === 'object' && typeof (item as TaskDependency).taskId === 'string') {
+      const link = item as Partial<TaskDependency>;
+      acc.push({
+        taskId: link.taskId!,
+        type: DEPENDENCY_TYPES.includes(link.type as DependencyType) ? link.type as DependencyType : 'FS',
+        lagDays: Number.isFinite(Number(link.lagDays)) ? Math.round(Number(link.lagDays)) : 0
+      });
+    }
+    return acc;
+  }, []);
+};
+
+// Migrate every task of a project to typed dependency links
+export const normalizeProjectDependencies = (project: Project): Project => ({
+  ...project,
+  tasks: project.tasks.map(t => ({ ...t, dependencies: normalizeDependencies(t.dependencies) }))
+});
+
+// Durations count working days of the project calendar. Data saved before they did counted calendar
+// days, so on load each duration is re-derived from the task's own dates (a no-op for current data).
+export const normalizeProjectDurations = (project: Project): Project => {
+  const calendar = getProjectCalendar(project);
+  const respan = (tasks: Task[]) => tasks.map(t => {
+    const duration = getWorkingDuration(t, calendar);
+    return duration === t.duration ? t : { ...t, duration };
+  });
+  return {
+    ...project,
+    tasks: respan(project.tasks),
+    scenarios: project.scenarios?.map(sc => ({ ...sc, tasks: respan(sc.tasks) }))
+  };
+};
+
+// Short notation used in prompts and labels, e.g. "t3 FS+2d" or "t1 SS-1d"
+export const formatDependency = (link: TaskDependency): string => {
+  const lag = link.lagDays === 0 ? '' : `${link.lagDays > 0 ? '+' : ''}${link.lagDays}d`;
+  return `${link.taskId} ${link.type}${lag}`;
+};
+
+// --- Milestones ---
+
+// Milestones have zero duration and mark the end of their day
+// (startDate === endDate, successors linked FS start on the next working day)
+export const isMilestone = (task: Pick<Task, 'kind'>): boolean => task.kind === 'milestone';
+
+// Working-day duration of a task as currently scheduled (0 for milestones, otherwise at least one day)
+export const getWorkingDuration = (task: Task, calendar: ProjectCalendar): number => {
+  if (isMilestone(task)) return 0;
+  return Math.max(countWorkingDays(task.startDate, task.endDate, calendar), 1);
+};
+
+// Last day of a span lasting `duration` working days from `start` (a milestone ends where it starts)
+const getSpanEnd = (start: number, duration: number, calendar: ProjectCalendar): number => {
+  return duration <= 0 ? start : addWorkingDays(start, duration - 1, calendar);
+};
+
+const getSpanStart = (end: number, duration: number, calendar: ProjectCalendar): number => {
+  return duration <= 0 ? end : addWorkingDays(end, -(duration - 1), calendar);
+};
+
+// Earliest start (day number) allowed for `task` by one link to `predecessor`.
+// End dates are inclusive and lags count working days, so a plain FS link
+// starts on the first working day after the predecessor ends.
+export const getLinkEarliestStart = (task: Task, predecessor: Task, link: TaskDependency, calendar: ProjectCalendar): number => {
+  const duration = getWorkingDuration(task, calendar);
+  const predStart = toDayNumber(predecessor.startDate);
+  const predEnd = toDayNumber(predecessor.endDate);
+
+  // Links on the successor's finish are converted back to a start date
+  const startForEnd = (end: number) => getSpanStart(end, duration, calendar);
+
+  switch (link.type) {
+    case 'SS': return addWorkingDays(predStart, link.lagDays, calendar);
+    case 'FF': return startForEnd(addWorkingDays(predEnd, link.lagDays, calendar));
+    case 'SF': return startForEnd(addWorkingDays(predStart, link.lagDays - 1, calendar));
+    case 'FS':
+    default:
+      // A milestone is reached on the predecessor's last day, a task starts the day after
+      return addWorkingDays(predEnd, (isMilestone(task) ? 0 : 1) + link.lagDays, calendar);
+  }
+};
+
+// Latest finish (day number) of `predecessor` that still lets `task` keep the given start / finish
+// through one link (the mirror image of `getLinkEarliestStart`, used by backward passes)
+export const getLinkLatestFinish = (
+  predecessor: Task,
+  task: Task,
+  link: TaskDependency,
+  taskStart: number,
+  taskFinish: number,
+  calendar: ProjectCalendar
+): number => {
+  const predFinishFor = (start: number) => getSpanEnd(start, getWorkingDuration(predecessor, calendar), calendar);
+
+  switch (link.type) {
+    case 'SS': return predFinishFor(addWorkingDays(taskStart, -link.lagDays, calendar));
+    case 'FF': return addWorkingDays(taskFinish, -link.lagDays, calendar);
+    case 'SF': return predFinishFor(addWorkingDays(taskFinish, -(link.lagDays - 1), calendar));
+    case 'FS':
+    default: return addWorkingDays(taskStart, -((isMilestone(task) ? 0 : 1) + link.lagDays), calendar);
+  }
+};
+
+// Move a task to start on `startDay` (snapped to a working day), keeping its working-day duration
+export const shiftTaskToStart = (task: Task, startDay: number, calendar: ProjectCalendar): Task => {
+  const duration = getWorkingDuration(task, calendar);
+  const start = nextWorkingDay(startDay, calendar);
+  return {
+    ...task,
+    startDate: fromDayNumber(start),
+    endDate: fromDayNumber(getSpanEnd(start, duration, calendar)),
+    duration
+  };
+};
+
+// Find the first dependency violated by `task`, with the start date that would satisfy all of its links
+// (including the links inherited from its summary tasks)
+export const findDependencyConflict = (task: Task, allTasks: Task[], calendar: ProjectCalendar) => {
+  const taskMap = new Map(allTasks.map(t => [t.id, t]));
+  const links = getSchedulingLinks(task, taskMap);
+  if (links.length === 0) return null;
+
+  const currentStart = toDayNumber(task.startDate);
+  let conflict: { dependency: Task; link: TaskDependency } | null = null;
+  let requiredStart = currentStart;
+
+  for (const link of links) {
+    const depTask = taskMap.get(link.taskId);
+    if (!depTask) continue;
+
+    const earliest = getLinkEarliestStart(task, depTask, link, calendar);
+    if (earliest > currentStart) {
+      if (!conflict) conflict = { dependency: depTask, link };
+      requiredStart = Math.max(requiredStart, earliest);
+    }
+  }
+
+  if (!conflict) return null;
+  return { ...conflict, suggestedDate: fromDayNumber(nextWorkingDay(requiredStart, calendar)) };
+};
+
+// --- Date Constraints ---
+
+// Short notation used in prompts and exports, e.g. "FNLT 2025-06-30"
+export const formatConstraint = (constraint: DateConstraint): string => `${constraint.type} ${constraint.date}`;
+
+// Start day fixed by a must-start-on / must-finish-on constraint, or null when the task may move
+export const getPinnedStart = (task: Task, calendar: ProjectCalendar): number | null => {
+  const constraint = task.constraint;
+  if (!constraint) return null;
+  const day = toDayNumber(constraint.date);
+  if (constraint.type === 'MSO') return nextWorkingDay(day, calendar);
+  if (constraint.type === 'MFO') return getSpanStart(previousWorkingDay(day, calendar), getWorkingDuration(task, calendar), calendar);
+  return null;
+};
+
+// Earliest start allowed by a start/finish-no-earlier-than constraint (-Infinity when unconstrained)
+const getConstraintEarliestStart = (task: Task, calendar: ProjectCalendar): number => {
+  const constraint = task.constraint;
+  if (!constraint) return -Infinity;
+  const day = toDayNumber(constraint.date);
+  if (constraint.type === 'SNET') return nextWorkingDay(day, calendar);
+  if (constraint.type === 'FNET') return getSpanStart(nextWorkingDay(day, calendar), getWorkingDuration(task, calendar), calendar);
+  return -Infinity;
+};
+
+// Latest finish allowed by a start/finish-no-later-than deadline (Infinity when there is none)
+const getConstraintLatestFinish = (task: Task, calendar: ProjectCalendar): number => {
+  const constraint = task.constraint;
+  if (!constraint) return Infinity;
+  const day = previousWorkingDay(toDayNumber(constraint.date), calendar);
+  if (constraint.type === 'SNLT') return getSpanEnd(day, getWorkingDuration(task, calendar), calendar);
+  if (constraint.type === 'FNLT') return day;
+  return Infinity;
+};
+
+// Tasks whose current dates break their constraint. "No later than" constraints are deadlines that
+// the scheduler never enforces, so cascading can push a task past them. Pinned (must start / finish on)
+// tasks stay on their date, so for them a violation means a predecessor link can no longer be met.
+// Constraints on summary tasks are checked against the rolled-up dates only.
+export const findConstraintViolations = (tasks: Task[], calendar: ProjectCalendar): ConstraintViolation[] => {
+  const taskMap = new Map(tasks.map(t => [t.id, t]));
+  const childrenMap = getChildrenMap(tasks);
+  const violations: ConstraintViolation[] = [];
+
+  tasks.forEach(task => {
+    const constraint = task.constraint;
+    if (!constraint) return;
+    const start = toDayNumber(task.startDate);
+    const end = toDayNumber(task.endDate);
+    const day = toDayNumber(constraint.date);
+    let off = 0;
+
+    switch (constraint.type) {
+      case 'SNET': off = start < day ? workingDayDiff(start, day, calendar) : 0; break;
+      case 'SNLT': off = start > day ? workingDayDiff(day, start, calendar) : 0; break;
+      case 'FNET': off = end < day ? workingDayDiff(end, day, calendar) : 0; break;
+      case 'FNLT': off = end > day ? workingDayDiff(day, end, calendar) : 0; break;
+      case 'MSO':
+      case 'MFO': {
+        const pinned = getPinnedStart(task, calendar)!;
+        off = Math.abs(workingDayDiff(pinned, start, calendar));
+        if (off === 0 && !childrenMap.has(task.id)) {
+          getSchedulingLinks(task, taskMap).forEach(link => {
+            const pred = taskMap.get(link.taskId);
+            if (pred) off = Math.max(off, workingDayDiff(start, getLinkEarliestStart(task, pred, link, calendar), calendar));
+          });
+        }
+        break;
+      }
+    }
+
+    if (off > 0) violations.push({ taskId: task.id, taskName: task.name, constraint, workingDaysOff: off });
+  });
+
+  return violations;
+};
+
+// Violations present in `after` that are new or got worse compared to `before`
+export const getNewConstraintViolations = (before: ConstraintViolation[], after: ConstraintViolation[]): ConstraintViolation[] => {
+  const previous = new Map(before.map(v => [v.taskId, v.workingDaysOff]));
+  return after.filter(v => v.workingDaysOff > (previous.get(v.taskId) ?? 0));
+};
+
+// --- Topological Scheduling Engine ---
+
+// Predecessors of a task in the scheduling network: a summary waits for its children,
+// a work task for the predecessors of its own links and of the links on its summaries
+const getNetworkPredecessorIds = (task: Task, taskMap: Map<string, Task>, childrenMap: Map<string, Task[]>): string[] => {
+  const children = childrenMap.get(task.id);
+  if (children) return children.map(c => c.id);
+  return getSchedulingLinks(task, taskMap).map(link => link.taskId).filter(id => taskMap.has(id));
+};
+
+// Order tasks so that every predecessor comes before its successors (Kahn's algorithm).
+// Ties keep the original task order, so the result is deterministic.
+// Tasks that sit on or behind a dependency cycle cannot be ordered and are returned in `cyclic`.
+export const getTopologicalOrder = (tasks: Task[]): { ordered: Task[]; cyclic: Task[] } => {
+  const taskMap = new Map(tasks.map(t => [t.id, t]));
+  const childrenMap = getChildrenMap(tasks);
+  const inDegree = new Map(tasks.map(t => [t.id, 0]));
+  const successors = new Map<string, string[]>(tasks.map(t => [t.id, []]));
+
+  tasks.forEach(t => getNetworkPredecessorIds(t, taskMap, childrenMap).forEach(predId => {
+    successors.get(predId)!.push(t.id);
+    inDegree.set(t.id, inDegree.get(t.id)! + 1);
+  }));
+
+  const queue = tasks.filter(t => inDegree.get(t.id) === 0).map(t => t.id);
+  const ordered: Task[] = [];
+  for (let i = 0; i < queue.length; i++) {
+    ordered.push(taskMap.get(queue[i])!);
+    successors.get(queue[i])!.forEach(succId => {
+      inDegree.set(succId, inDegree.get(succId)! - 1);
+      if (inDegree.get(succId) === 0) queue.push(succId);
+    });
+  }
+
+  const placed = new Set(ordered.map(t => t.id));
+  return { ordered, cyclic: tasks.filter(t => !placed.has(t.id)) };
+};
+
+// Returns the tasks forming one dependency cycle (in predecessor -> successor order), or null
+export const findDependencyCycle = (tasks: Task[]): Task[] | null => {
+  const { cyclic } = getTopologicalOrder(tasks);
+  if (cyclic.length === 0) return null;
+
+  // Every unordered task has an unordered predecessor, so walking predecessors must loop
+  const taskMap = new Map(tasks.map(t => [t.id, t]));
+  const childrenMap = getChildrenMap(tasks);
+  const remaining = new Map(cyclic.map(t => [t.id, t]));
+  const visitedAt = new Map<string, number>();
+  const path: Task[] = [];
+  let current = cyclic[0];
+
+  while (!visitedAt.has(current.id)) {
+    visitedAt.set(current.id, path.length);
+    path.push(current);
+    const predId = getNetworkPredecessorIds(current, taskMap, childrenMap).find(id => remaining.has(id))!;
+    current = remaining.get(predId)!;
+  }
+
+  return path.slice(visitedAt.get(current.id)).reverse();
+};
+
+// Human readable description of a cycle, e.g. "IQ → OQ → PQ → IQ"
+export const describeDependencyCycle = (cycle: Task[]): string => {
+  return [...cycle, cycle[0]].map(t => t.name).join(' → ');
+};
+
+export interface CascadeOptions {
+  // Compress (retained logic) mode: successors of these tasks are pulled back to their earliest
+  // feasible start, so time freed by an early finish is reclaimed
+  pullInFrom?: string[];
+  externalStarts?: Map<string, number>; // Earliest start per task set by predecessors in other projects
+}
+
+// Cascade schedule changes based on dependencies.
+// One pass in topological order: each task only moves after all its predecessors are final,
+// so chains of any length settle deterministically. Summary tasks are rolled up from their
+// children once those are placed. Date constraints are honoured too: no-earlier-than dates act
+// like an extra predecessor and must-start/finish-on tasks stay on their date even if a link
+// is then violated (reported by `findConstraintViolations`). Tasks on a cycle are left untouched
+// (callers should refuse cyclic edits via `findDependencyCycle`).
+// By default successors are only pushed later; with `pullInFrom` the unstarted, unpinned tasks
+// downstream of those tasks may also move earlier.
+export const cascadeSchedule = (tasks: Task[], calendar: ProjectCalendar, options: CascadeOptions = {}): Task[] => {
+  const { ordered } = getTopologicalOrder(tasks);
+  const taskMap = new Map(tasks.map(t => [t.id, t]));
+  const childrenMap = getChildrenMap(tasks);
+  const scheduled = new Map(tasks.map(t => [t.id, t]));
+  const downstream = new Set(options.pullInFrom || []); // Sources and everything after them
+
+  ordered.forEach(task => {
+    const children = childrenMap.get(task.id);
+    if (children) {
+      scheduled.set(task.id, rollupSummary(task, children.map(c => scheduled.get(c.id)!), calendar));
+      if (children.some(c => downstream.has(c.id))) downstream.add(task.id);
+      return;
+    }
+
+    const pinned = getPinnedStart(task, calendar);
+    if (pinned !== null) {
+      if (pinned !== toDayNumber(task.startDate)) scheduled.set(task.id, shiftTaskToStart(task, pinned, calendar));
+      return;
+    }
+
+    const links = getSchedulingLinks(task, taskMap);
+    let minStart = Math.max(getConstraintEarliestStart(task, calendar), options.externalStarts?.get(task.id) ?? -Infinity);
+    links.forEach(link => {
+      const dep = scheduled.get(link.taskId);
+      if (dep) minStart = Math.max(minStart, getLinkEarliestStart(task, dep, link, calendar));
+    });
+
+    // If current start is earlier than any link or constraint allows, shift the whole bar forward
+    const start = toDayNumber(task.startDate);
+    if (minStart > start) {
+      scheduled.set(task.id, shiftTaskToStart(task, minStart, calendar));
+    }
+
+    // Compress mode: a successor with room before it moves back to where its links allow
+    if (!downstream.has(task.id) && links.some(link => downstream.has(link.taskId))) {
+      downstream.add(task.id);
+      if (!isStarted(task) && minStart > -Infinity && minStart < start) {
+        scheduled.set(task.id, shiftTaskToStart(task, minStart, calendar));
+      }
+    }
+  });
+
+  // Keep the original row order (and copy to avoid mutating state)
+  return tasks.map(t => ({ ...scheduled.get(t.id)! }));
+};
+
+// Work tasks that compress mode starts earlier than plain cascading would (for the preview)
+export const findPulledInTasks = (pushed: Task[], compressed: Task[]): { before: Task; after: Task }[] => {
+  const childrenMap = getChildrenMap(compressed);
+  const pushedMap = new Map(pushed.map(t => [t.id, t]));
+  return compressed
+    .filter(t => !childrenMap.has(t.id) && pushedMap.has(t.id) && t.startDate < pushedMap.get(t.id)!.startDate)
+    .map(t => ({ before: pushedMap.get(t.id)!, after: t }));
+};
+
+// Re-apply working-day durations after the calendar changed, then cascade
+export const rescheduleForCalendar = (tasks: Task[], calendar: ProjectCalendar): Task[] => {
+  const respanned = tasks.map(t => {
+    const start = nextWorkingDay(toDayNumber(t.startDate), calendar);
+    const duration = isMilestone(t) ? 0 : Math.max(t.duration || 0, 1);
+    return {
+      ...t,
+      startDate: fromDayNumber(start),
+      endDate: fromDayNumber(getSpanEnd(start, duration, calendar)),
+      duration
+    };
+  });
+  return cascadeSchedule(respanned, calendar);
+};
+
+// Apply AI / proposal changes and new tasks, then cascade dependencies (compress mode pulls in
+// the successors of the changed tasks)
+export const applyProposedChanges = (
+  tasks: Task[],
+  changes: ProposedChange[],
+  newTasks: Task[],
+  calendar: ProjectCalendar,
+  compress = false
+): Task[] => {
+  // 1. Update existing tasks based on the proposal
+  const updatedTasks = tasks.map(task => {
+    const change = changes.find(c => c.taskId === task.id);
+    if (!change) return task;
+    const moved = { ...task, startDate: change.newStartDate, endDate: change.newEndDate, assignee: change.newAssignee || task.assignee, status: change.newStatus || task.status };
+    return { ...moved, duration: getWorkingDuration(moved, calendar) };
+  });
+
+  // 2. Add new tasks (remove proposal-only flags)
+  const finalizedNewTasks = newTasks.map(t => {
+    const { isNew, reason, ...rest } = t;
+    return rest;
+  });
+
+  // 3. Auto-cascade so downstream tasks stay consistent even if the proposal missed them
+  return cascadeSchedule([...updatedTasks, ...finalizedNewTasks], calendar, compress ? { pullInFrom: changes.map(c => c.taskId) } : {});
+};
+
+// --- Scheduling Direction ---
+
+// Work that has started (or is done) keeps its dates when the plan is laid out again
+const isStarted = (task: Task): boolean =>
+  task.status === TaskStatus.InProgress || task.status === TaskStatus.Completed || task.progress > 0;
+
+// Forward planning: every task that has not started begins as soon as its links, its constraint
+// and the project start allow
+export const scheduleAsSoonAsPossible = (tasks: Task[], projectStart: string, calendar: ProjectCalendar): Task[] => {
+  const start = toDayNumber(projectStart);
+  const childrenMap = getChildrenMap(tasks);
+  return cascadeSchedule(
+    tasks.map(t => childrenMap.has(t.id) || isStarted(t) ? t : shiftTaskToStart(t, start, calendar)),
+    calendar
+  );
+};
+
+// Backward planning (as late as possible): every task that has not started finishes as late as its
+// successors, its deadline and `targetFinish` allow. Pinned tasks stay on their date and no-earlier-than
+// constraints are not enforced (`findConstraintViolations` reports them). Summaries bound their children
+// and are rolled up afterwards. Tasks on a cycle are left untouched.
+export const scheduleAsLateAsPossible = (tasks: Task[], targetFinish: string, calendar: ProjectCalendar): Task[] => {
+  const { ordered, cyclic } = getTopologicalOrder(tasks);
+  if (cyclic.length > 0) return tasks.map(t => ({ ...t }));
+
+  const taskMap = new Map(tasks.map(t => [t.id, t]));
+  const childrenMap = getChildrenMap(tasks);
+  const successorLinks = new Map<string, { succ: Task; link: TaskDependency }[]>(tasks.map(t => [t.id, []]));
+  tasks.forEach(t => {
+    if (childrenMap.has(t.id)) return;
+    getSchedulingLinks(t, taskMap).forEach(link => successorLinks.get(link.taskId)?.push({ succ: t, link }));
+  });
+
+  const target = previousWorkingDay(toDayNumber(targetFinish), calendar);
+  const scheduled = new Map(tasks.map(t => [t.id, t]));
+  const latestFinish = new Map<string, number>();
+
+  // Successors come first, a summary is visited before its children
+  [...ordered].reverse().forEach(task => {
+    let finish = task.parentId && latestFinish.has(task.parentId) ? latestFinish.get(task.parentId)! : target;
+    successorLinks.get(task.id)!.forEach(({ succ, link }) => {
+      const placed = scheduled.get(succ.id)!;
+      finish = Math.min(finish, getLinkLatestFinish(task, placed, link, toDayNumber(placed.startDate), toDayNumber(placed.endDate), calendar));
+    });
+    finish = Math.min(finish, getConstraintLatestFinish(task, calendar));
+    latestFinish.set(task.id, finish);
+
+    if (childrenMap.has(task.id) || isStarted(task)) return;
+    const pinned = getPinnedStart(task, calendar);
+    const start = pinned ?? getSpanStart(previousWorkingDay(finish, calendar), getWorkingDuration(task, calendar), calendar);
+    scheduled.set(task.id, shiftTaskToStart(task, start, calendar));
+  });
+
+  ordered.forEach(task => {
+    const children = childrenMap.get(task.id);
+    if (children) scheduled.set(task.id, rollupSummary(task, children.map(c => scheduled.get(c.id)!), calendar));
+  });
+
+  return tasks.map(t => ({ ...scheduled.get(t.id)! }));
+};
+
+// --- Critical Path (CPM) ---
+
+export const getProjectFinish = (tasks: { endDate: string }[]): string | null => {
+  if (tasks.length === 0) return null;
+  return tasks.reduce((max, t) => t.endDate > max ? t.endDate : max, tasks[0].endDate);
+};
+
+// Forward / backward pass over the task network.
+// The current start of each task acts as its earliest start (the plan is respected),
+// so floats describe how far the scheduled dates can slip without moving the project end.
+export const computeCriticalPath = (
+  tasks: Task[],
+  calendar: ProjectCalendar
+): { tasks: Record<string, CriticalPathInfo>; projectFinish: string | null } => {
+  const result: Record<string, CriticalPathInfo> = {};
+  if (tasks.length === 0) return { tasks: result, projectFinish: null };
+
+  // Floats are undefined on a cyclic network
+  const { ordered, cyclic } = getTopologicalOrder(tasks);
+  if (cyclic.length > 0) return { tasks: result, projectFinish: getProjectFinish(tasks) };
+
+  // Summary tasks are spans over their children; links on a summary drive each of its work tasks
+  const taskMap = new Map(tasks.map(t => [t.id, t]));
+  const childrenMap = getChildrenMap(tasks);
+  const schedulingLinks = new Map(tasks.map(t => [t.id, childrenMap.has(t.id) ? [] : getSchedulingLinks(t, taskMap)]));
+
+  const durations = new Map(tasks.map(t => [t.id, getWorkingDuration(t, calendar)]));
+  const successorLinks = new Map<string, { succ: Task; link: TaskDependency }[]>(tasks.map(t => [t.id, []]));
+  tasks.forEach(t => schedulingLinks.get(t.id)!.forEach(link => successorLinks.get(link.taskId)?.push({ succ: t, link })));
+
+  const es = new Map<string, number>();
+  const ef = new Map<string, number>();
+  const ls = new Map<string, number>();
+  const lf = new Map<string, number>();
+  const finishOf = (start: number, id: string) => getSpanEnd(start, durations.get(id)!, calendar);
+  const startOf = (finish: number, id: string) => getSpanStart(finish, durations.get(id)!, calendar);
+
+  // 1. Forward pass: early start / finish
+  ordered.forEach(task => {
+    const children = childrenMap.get(task.id);
+    if (children) {
+      es.set(task.id, Math.min(...children.map(c => es.get(c.id)!)));
+      ef.set(task.id, Math.max(...children.map(c => ef.get(c.id)!)));
+      return;
+    }
+
+    let start = nextWorkingDay(toDayNumber(task.startDate), calendar);
+    schedulingLinks.get(task.id)!.forEach(link => {
+      const pred = taskMap.get(link.taskId);
+      if (!pred || !es.has(pred.id)) return;
+      const earlyPred = { ...pred, startDate: fromDayNumber(es.get(pred.id)!), endDate: fromDayNumber(ef.get(pred.id)!) };
+      start = Math.max(start, getLinkEarliestStart(task, earlyPred, link, calendar));
+    });
+    es.set(task.id, start);
+    ef.set(task.id, finishOf(start, task.id));
+  });
+
+  const projectFinish = Math.max(...Array.from(ef.values()));
+
+  // Latest finish of `pred` that still lets `succ` start/finish at the given dates
+  const latestFinishFor = (predId: string, succ: Task, link: TaskDependency, succStart: number, succFinish: number) =>
+    getLinkLatestFinish(taskMap.get(predId)!, succ, link, succStart, succFinish, calendar);
+
+  // 2. Backward pass: late start / finish (summaries come first and bound their children)
+  [...ordered].reverse().forEach(task => {
+    let finish = task.parentId && lf.has(task.parentId) ? lf.get(task.parentId)! : projectFinish;
+    successorLinks.get(task.id)!.forEach(({ succ, link }) => {
+      if (!ls.has(succ.id)) return;
+      finish = Math.min(finish, latestFinishFor(task.id, succ, link, ls.get(succ.id)!, lf.get(succ.id)!));
+    });
+    lf.set(task.id, finish);
+    ls.set(task.id, startOf(finish, task.id));
+  });
+
+  // 3. Floats (children before summaries, a summary is as critical as its most critical child)
+  ordered.forEach(task => {
+    const children = childrenMap.get(task.id);
+    if (children) {
+      const childInfo = children.map(c => result[c.id]);
+      const totalFloat = Math.min(...childInfo.map(i => i.totalFloat));
+      result[task.id] = {
+        earlyStart: fromDayNumber(es.get(task.id)!),
+        earlyFinish: fromDayNumber(ef.get(task.id)!),
+        lateStart: childInfo.reduce((min, i) => i.lateStart < min ? i.lateStart : min, childInfo[0].lateStart),
+        lateFinish: childInfo.reduce((max, i) => i.lateFinish > max ? i.lateFinish : max, childInfo[0].lateFinish),
+        totalFloat,
+        freeFloat: Math.min(...childInfo.map(i => i.freeFloat)),
+        isCritical: totalFloat <= 0
+      };
+      return;
+    }
+
+    const earlyFinish = ef.get(task.id)!;
+    const totalFloat = workingDayDiff(es.get(task.id)!, ls.get(task.id)!, calendar);
+
+    // Free float: slack before delaying the earliest dates of any successor
+    let freeLimit = projectFinish;
+    successorLinks.get(task.id)!.forEach(({ succ, link }) => {
+      freeLimit = Math.min(freeLimit, latestFinishFor(task.id, succ, link, es.get(succ.id)!, ef.get(succ.id)!));
+    });
+    const freeFloat = Math.min(workingDayDiff(earlyFinish, freeLimit, calendar), totalFloat);
+
+    result[task.id] = {
+      earlyStart: fromDayNumber(es.get(task.id)!),
+      earlyFinish: fromDayNumber(earlyFinish),
+      lateStart: fromDayNumber(ls.get(task.id)!),
+      lateFinish: fromDayNumber(lf.get(task.id)!),
+      totalFloat,
+      freeFloat,
+      isCritical: totalFloat <= 0
+    };
+  });
+
+  return { tasks: result, projectFinish: fromDayNumber(projectFinish) };
+};
+
+// Does applying a proposal move the project end date?
+export const computeScheduleImpact = (
+  tasks: Task[],
+  changes: ProposedChange[],
+  newTasks: Task[],
+  calendar: ProjectCalendar,
+  compress = false
+): ScheduleImpact | undefined => {
+  const originalFinish = getProjectFinish(tasks);
+  const newFinish = getProjectFinish(applyProposedChanges(tasks, changes, newTasks, calendar, compress));
+  if (!originalFinish || !newFinish) return undefined;
+
+  return {
+    originalFinish,
+    newFinish,
+    deltaWorkingDays: workingDayDiff(toDayNumber(originalFinish), toDayNumber(newFinish), calendar)
+  };
+};
@@ -0,0 +1,116 @@
+import type { ElectronicSignature, SignatureMeaning, Task, TaskStatus, User, UserRole } from '../types';
+import { sha256 } from './auditService.ts';
+
+// Electronic signatures on GMP-critical tasks (21 CFR Part 11 Subpart C). A critical task (IQ, OQ,
+// PQ, ...) is signed by its author, then a reviewer, then an approver, each a different person who
+// re-enters their password; only then may it be marked completed. Signatures are created by the
+// server, so this module sticks to type-only imports (enum values are spelled out as literals).
+
+const COMPLETED = 'Completed' as TaskStatus;
+// Roles whose users may sign; any other role (or an unknown one) may not
+const SIGNING_ROLES = ['Admin', 'Project Manager'] as UserRole[];
+
+export const SIGNATURE_SEQUENCE: SignatureMeaning[] = ['authored', 'reviewed', 'approved'];
+
+// Signature meanings, in the order a GMP-critical task is signed off
+export const SIGNATURE_MEANING_LABELS: Record<SignatureMeaning, string> = {
+  authored: "执行 (Authored)",
+  reviewed: "审核 (Reviewed)",
+  approved: "批准 (Approved)"
+};
+
+export const requiresSignatures = (task: Task): boolean => task.gmpCritical;
+
+// Status and progress are what the signatures release, so they are not part of the signed record
+const UNSIGNED_TASK_FIELDS = new Set(['status', 'progress', 'signatures', 'isNew']);
+
+// Keys sorted, so the hash does not depend on the order fields were set in
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, canonicalize((value as Record<string, unknown>)[key])]));
+  }
+  return value;
+};
+
+export const computeRecordHash = (task: Task): string =>
+  sha256(JSON.stringify(canonicalize(Object.fromEntries(Object.entries(task).filter(([key, value]) => !UNSIGNED_TASK_FIELDS.has(key) && value !== undefined)))));
+
+export interface SignatureState {
+  required: boolean;
+  valid: ElectronicSignature[]; // Signatures that still apply, in sequence
+  invalidated: ElectronicSignature[]; // Given for an earlier version of the task, or out of sequence
+  next?: SignatureMeaning; // Signature still missing, undefined once complete
+  isComplete: boolean;
+  isUnsignedCompletion: boolean; // Completed without the signatures (legacy data or edited after signing)
+}
+
+export const getSignatureState = (task: Task): SignatureState => {
+  const required = requiresSignatures(task);
+  const signatures = task.signatures || [];
+  const recordHash = signatures.length > 0 ? computeRecordHash(task) : '';
+  const valid: ElectronicSignature[] = [];
+  let next: SignatureMeaning | undefined;
+  for (const meaning of SIGNATURE_SEQUENCE) {
+    const signature = signatures.find(s => s.meaning === meaning && s.recordHash === recordHash && s.signedAt >= (valid[valid.length - 1]?.signedAt || ''));
+    if (!signature) {
+      next = meaning;
+      break;
+    }
+    valid.push(signature);
+  }
+  const isComplete = !next;
+  return {
+    required,
+    valid,
+    invalidated: signatures.filter(s => !valid.includes(s)),
+    next,
+    isComplete,
+    isUnsignedCompletion: required && task.status === COMPLETED && !isComplete
+  };
+};
+
+// Why `signer` may not give the next signature, or null when they may
+export const checkSigner = (task: Task, signer: Pick<User, 'id' | 'role'>): string | null => {
+  const state = getSignatureState(task);
+  if (!state.next) return '签名已齐全';
+  if (!SIGNING_ROLES.includes(signer.role)) return '只有管理员和项目经理可以签署';
+  if (state.valid.some(s => s.signerId === signer.id)) return '同一人不能在同一任务上签署两次 (执行、审核、批准须由不同人员完成)';
+  return null;
+};
+
+export const createSignature = (task: Task, meaning: SignatureMeaning, signer: Pick<User, 'id' | 'name' | 'account'>, comment?: string): ElectronicSignature => ({
+  id: `sig_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  meaning,
+  signerId: signer.id,
+  signerName: signer.name,
+  signerAccount: signer.account || signer.id,
+  signedAt: new Date().toISOString(),
+  recordHash: computeRecordHash(task),
+  comment: comment || undefined
+});
+
+// Signatures that no longer apply are kept: they are part of the record's history
+export const addSignature = (task: Task, signature: ElectronicSignature): Task => ({
+  ...task,
+  signatures: [...(task.signatures || []), signature]
+});
+
+// Tasks of `after` that are marked completed now but were not in `before`, and lack the signatures
+export const findUnsignedCompletions = (before: Task[], after: Task[]): Task[] => {
+  const wasCompleted = new Set(before.filter(t => t.status === COMPLETED).map(t => t.id));
+  return after.filter(t => t.status === COMPLETED && !wasCompleted.has(t.id) && requiresSignatures(t) && !getSignatureState(t).isComplete);
+};
+
+// One line per signature as shown with the record, e.g. "批准 (Approved) · 王芳 (wangf) · 2025-03-04 14:05 UTC"
+export const formatSignature = (signature: ElectronicSignature): string =>
+  `${SIGNATURE_MEANING_LABELS[signature.meaning]} · ${signature.signerName} (${signature.signerAccount}) · ${signature.signedAt.slice(0, 16).replace('T', ' ')} UTC`;
+
+export const formatSignatureManifest = (task: Task): string => {
+  const state = getSignatureState(task);
+  if (!state.required && !task.signatures?.length) return '';
+  const lines = state.valid.map(formatSignature);
+  if (state.next) lines.push(`待签署：${SIGNATURE_MEANING_LABELS[state.next]}`);
+  if (state.invalidated.length > 0) lines.push(`${state.invalidated.length} 个签名因记录修改已失效`);
+  return lines.join('\n');
+};
@@ -0,0 +1,149 @@
+import { Task, DurationEstimate, ProjectCalendar, TaskStatus } from '../types';
+import { addWorkingDays, getWorkingSpan, workingDayDiff } from './calendarService';
+import { toDayNumber, fromDayNumber } from './dateService';
+import { cascadeSchedule, getProjectFinish, getTopologicalOrder, isMilestone } from './scheduleService';
+import { getChildrenMap } from './wbsService';
+
+export interface SimulationOptions {
+  iterations?: number;
+  targetDate?: string; // Finish date whose probability is reported
+  seed?: number; // Same seed, same result (so figures can be reproduced in a meeting)
+}
+
+export interface FinishDistributionPoint {
+  date: string;
+  count: number;
+  cumulative: number; // Share of iterations finishing on or before `date` (0-1)
+}
+
+// How strongly the duration of one task drives the project finish (tornado chart)
+export interface TaskSensitivity {
+  taskId: string;
+  taskName: string;
+  correlation: number; // Pearson correlation of sampled duration and project finish (-1..1)
+}
+
+export interface SimulationResult {
+  iterations: number;
+  deterministicFinish: string;
+  meanFinish: string;
+  p50: string;
+  p80: string;
+  p90: string;
+  targetDate?: string;
+  onTimeProbability?: number; // 0-1, share of iterations finishing on or before the target
+  distribution: FinishDistributionPoint[];
+  sensitivities: TaskSensitivity[]; // Uncertain tasks, strongest driver first
+}
+
+const DEFAULT_ITERATIONS = 1000;
+
+// --- Estimates ---
+
+// Ordered three-point estimate, or null when the task has no usable uncertainty range
+export const getDurationEstimate = (task: Task): DurationEstimate | null => {
+  if (!task.estimate) return null;
+  const [optimistic, mostLikely, pessimistic] = [task.estimate.optimistic, task.estimate.mostLikely, task.estimate.pessimistic]
+    .map(v => Math.max(Number(v) || 0, 0))
+    .sort((a, b) => a - b);
+  return pessimistic > optimistic ? { optimistic, mostLikely, pessimistic } : null;
+};
+
+// Inverse CDF of the triangular distribution for a uniform sample `u`
+const sampleTriangular = ({ optimistic: a, mostLikely: m, pessimistic: b }: DurationEstimate, u: number): number => {
+  const split = (m - a) / (b - a);
+  return u < split
+    ? a + Math.sqrt(u * (b - a) * (m - a))
+    : b - Math.sqrt((1 - u) * (b - a) * (b - m));
+};
+
+// Small seeded generator (mulberry32)
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const getCorrelation = (xs: number[], ys: number[]): number => {
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let cov = 0, varX = 0, varY = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (xs[i] - meanX) * (ys[i] - meanY);
+    varX += (xs[i] - meanX) ** 2;
+    varY += (ys[i] - meanY) ** 2;
+  }
+  return varX > 0 && varY > 0 ? cov / Math.sqrt(varX * varY) : 0;
+};
+
+// --- Monte Carlo ---
+
+// Sample every uncertain work task from its triangular distribution, cascade the network and record
+// the project finish. Like the critical path, the planned start of a task acts as its earliest start:
+// late predecessors push it out, early ones do not pull it in. Completed tasks keep their actual dates.
+export const runScheduleSimulation = (tasks: Task[], calendar: ProjectCalendar, options: SimulationOptions = {}): SimulationResult | null => {
+  const deterministicFinish = getProjectFinish(tasks);
+  if (!deterministicFinish || getTopologicalOrder(tasks).cyclic.length > 0) return null;
+
+  const iterations = Math.max(Math.round(options.iterations || DEFAULT_ITERATIONS), 1);
+  const random = createRandom(options.seed ?? 1);
+  const childrenMap = getChildrenMap(tasks);
+  const uncertain = tasks
+    .map((task, index) => ({ task, index, estimate: getDurationEstimate(task) }))
+    .filter(({ task, estimate }) =>
+      estimate && !childrenMap.has(task.id) && !isMilestone(task) && task.status !== TaskStatus.Completed
+    ) as { task: Task; index: number; estimate: DurationEstimate }[];
+
+  const finishes: number[] = [];
+  const sampledDurations = uncertain.map(() => [] as number[]);
+
+  for (let i = 0; i < iterations; i++) {
+    const sampled = [...tasks];
+    uncertain.forEach(({ task, index, estimate }, k) => {
+      const duration = Math.max(Math.round(sampleTriangular(estimate, random())), 1);
+      sampledDurations[k].push(duration);
+      sampled[index] = { ...task, ...getWorkingSpan(task.startDate, duration, calendar), duration };
+    });
+    finishes.push(toDayNumber(getProjectFinish(cascadeSchedule(sampled, calendar))!));
+  }
+
+  const sorted = [...finishes].sort((a, b) => a - b);
+  const percentile = (p: number) => fromDayNumber(sorted[Math.max(Math.ceil(p * iterations) - 1, 0)]);
+
+  const counts = new Map<number, number>();
+  sorted.forEach(day => counts.set(day, (counts.get(day) || 0) + 1));
+  let running = 0;
+  const distribution = Array.from(counts.entries()).map(([day, count]) => {
+    running += count;
+    return { date: fromDayNumber(day), count, cumulative: running / iterations };
+  });
+
+  // Mean finish is taken in working days from the deterministic finish, then mapped back to a date
+  const base = toDayNumber(deterministicFinish);
+  const meanOffset = Math.round(finishes.reduce((sum, day) => sum + workingDayDiff(base, day, calendar), 0) / iterations);
+  const meanFinish = fromDayNumber(addWorkingDays(base, meanOffset, calendar));
+
+  const sensitivities = uncertain
+    .map(({ task }, k) => ({ taskId: task.id, taskName: task.name, correlation: getCorrelation(sampledDurations[k], finishes) }))
+    .sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation));
+
+  const target = options.targetDate ? toDayNumber(options.targetDate) : null;
+  return {
+    iterations,
+    deterministicFinish,
+    meanFinish,
+    p50: percentile(0.5),
+    p80: percentile(0.8),
+    p90: percentile(0.9),
+    targetDate: options.targetDate,
+    onTimeProbability: target === null ? undefined : finishes.filter(day => day <= target).length / iterations,
+    distribution,
+    sensitivities
+  };
+};
@@ -0,0 +1,66 @@
+import { Task, TaskStatus, ProjectCalendar } from '../types';
+import { workingDayDiff } from './calendarService';
+import { toDayNumber } from './dateService';
+import { getTopologicalOrder } from './scheduleService';
+import { getChildrenMap, getSchedulingLinks } from './wbsService';
+
+export type StatusRule = 'completed' | 'blocked' | 'delayed' | 'inProgress';
+
+// Status a rule would give a task, with the facts behind it
+export interface StatusDerivation {
+  taskId: string;
+  taskName: string;
+  from: TaskStatus;
+  to: TaskStatus;
+  rule: StatusRule;
+  reason: string;
+}
+
+// Apply the status rules to every work task as of `statusDate` (summaries keep their manual status).
+// Rules only ever escalate: a task marked Blocked or Delayed by hand stays so until it is complete,
+// and completed tasks are never reopened. Tasks are visited in dependency order so a blocked task
+// blocks the whole chain behind it.
+export const deriveTaskStatuses = (tasks: Task[], statusDate: string, calendar: ProjectCalendar): StatusDerivation[] => {
+  const taskMap = new Map(tasks.map(t => [t.id, t]));
+  const childrenMap = getChildrenMap(tasks);
+  const statusDay = toDayNumber(statusDate);
+  const { ordered, cyclic } = getTopologicalOrder(tasks);
+  const effective = new Map(tasks.map(t => [t.id, t.status]));
+  const derivations: StatusDerivation[] = [];
+
+  [...ordered, ...cyclic].forEach(task => {
+    if (childrenMap.has(task.id) || task.status === TaskStatus.Completed) return;
+
+    let derived: { to: TaskStatus; rule: StatusRule; reason: string } | null = null;
+    const blocker = getSchedulingLinks(task, taskMap)
+      .map(link => taskMap.get(link.taskId))
+      .find(pred => pred && effective.get(pred.id) === TaskStatus.Blocked);
+
+    if (task.progress >= 100) {
+      derived = { to: TaskStatus.Completed, rule: 'completed', reason: '进度已达 100%' };
+    } else if (task.status === TaskStatus.Blocked) {
+      // Manual block stays until someone lifts it
+    } else if (blocker) {
+      derived = { to: TaskStatus.Blocked, rule: 'blocked', reason: `前置任务「${blocker.name}」处于阻塞状态` };
+    } else if (statusDay > toDayNumber(task.endDate)) {
+      const overdue = workingDayDiff(toDayNumber(task.endDate), statusDay, calendar);
+      derived = {
+        to: TaskStatus.Delayed,
+        rule: 'delayed',
+        reason: `计划完成日期 ${task.endDate} 已过 (状态日期 ${statusDate}${overdue > 0 ? `，逾期 ${overdue} 个工作日` : ''})，进度为 ${task.progress}%`
+      };
+    } else if (task.status === TaskStatus.Pending && task.progress > 0) {
+      derived = { to: TaskStatus.InProgress, rule: 'inProgress', reason: `已有进度 ${task.progress}%` };
+    }
+
+    if (!derived) return;
+    effective.set(task.id, derived.to);
+    if (derived.to !== task.status) {
+      derivations.push({ taskId: task.id, taskName: task.name, from: task.status, ...derived });
+    }
+  });
+
+  // Report in plan order
+  const position = new Map(tasks.map((t, i) => [t.id, i]));
+  return derivations.sort((a, b) => position.get(a.taskId)! - position.get(b.taskId)!);
+};
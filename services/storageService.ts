@@ -0,0 +1,111 @@
+import { AIConfig, AuditEntry, ChatMessage, Project } from '../types';
+
+// Local persistence of the whole workspace in IndexedDB (projects, chat, AI settings and audit trail).
+// One snapshot record is rewritten on every autosave; IndexedDB keeps Date objects (chat
+// timestamps) as they are, so no JSON round trip is needed.
+
+const DB_NAME = 'cella';
+const DB_VERSION = 1;
+const STORE_NAME = 'workspace';
+const SNAPSHOT_KEY = 'current';
+const SESSION_KEY = 'cella.session'; // localStorage marker, "open" while a tab has unsaved work
+
+export const AUTOSAVE_DELAY_MS = 1000;
+
+export interface WorkspaceSnapshot {
+  projects: Project[];
+  currentProjectId: string;
+  messages: ChatMessage[];
+  aiConfig: AIConfig;
+  auditTrail?: AuditEntry[]; // Missing in snapshots saved before the audit trail existed
+  savedAt: string; // ISO timestamp
+}
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error' | 'quota';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('当前浏览器不支持 IndexedDB，数据无法保存在本地。'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; }); // Retry on the next call
+  }
+  return dbPromise;
+};
+
+// Quota errors surface as DOMException "QuotaExceededError" (Firefox: NS_ERROR_DOM_QUOTA_REACHED)
+export const isQuotaError = (error: unknown): boolean => {
+  const name = (error as { name?: string } | null)?.name;
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED';
+};
+
+export const loadWorkspace = async (): Promise<WorkspaceSnapshot | null> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(SNAPSHOT_KEY);
+    request.onsuccess = () => resolve((request.result as WorkspaceSnapshot) || null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Resolves once the transaction is committed, so a "saved" indicator is never shown early
+export const saveWorkspace = async (snapshot: WorkspaceSnapshot): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(snapshot, SNAPSHOT_KEY);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Used / available bytes for the origin, when the browser reports them
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// Ask the browser not to evict the data under storage pressure (granted silently or ignored)
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false;
+  return navigator.storage.persist().catch(() => false);
+};
+
+// --- Crash Detection ---
+// The marker is "open" while changes may not have reached IndexedDB yet. Finding it still open on
+// start means the last tab closed or crashed before its final save.
+
+export const wasLastSessionInterrupted = (): boolean => {
+  try {
+    return localStorage.getItem(SESSION_KEY) === 'open';
+  } catch {
+    return false;
+  }
+};
+
+export const markSessionDirty = (dirty: boolean) => {
+  try {
+    if (dirty) localStorage.setItem(SESSION_KEY, 'open');
+    else localStorage.removeItem(SESSION_KEY);
+  } catch {
+    // localStorage unavailable (private mode): crash detection is best effort
+  }
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
@@ -0,0 +1,127 @@
+import { Task, TaskDependency, ProjectCalendar } from '../types';
+import { countWorkingDays } from './calendarService';
+
+export interface WbsRow {
+  task: Task;
+  depth: number;
+  code: string; // e.g. "1.2.3"
+  hasChildren: boolean;
+}
+
+// --- Task Tree ---
+
+// Parent id -> direct children in row order (parents missing from the list are ignored)
+export const getChildrenMap = (tasks: Task[]): Map<string, Task[]> => {
+  const ids = new Set(tasks.map(t => t.id));
+  const children = new Map<string, Task[]>();
+  tasks.forEach(t => {
+    if (!t.parentId || t.parentId === t.id || !ids.has(t.parentId)) return;
+    if (!children.has(t.parentId)) children.set(t.parentId, []);
+    children.get(t.parentId)!.push(t);
+  });
+  return children;
+};
+
+// Summary tasks are the ones with children; their dates and progress are rolled up
+export const isSummaryTask = (task: Task, childrenMap: Map<string, Task[]>): boolean => {
+  return childrenMap.has(task.id);
+};
+
+// Ancestors of a task, nearest first (stops on a broken parent loop)
+export const getAncestors = (task: Task, taskMap: Map<string, Task>): Task[] => {
+  const ancestors: Task[] = [];
+  const seen = new Set([task.id]);
+  let parent = task.parentId ? taskMap.get(task.parentId) : undefined;
+  while (parent && !seen.has(parent.id)) {
+    seen.add(parent.id);
+    ancestors.push(parent);
+    parent = parent.parentId ? taskMap.get(parent.parentId) : undefined;
+  }
+  return ancestors;
+};
+
+// Links that drive a task: its own plus those placed on any summary above it
+export const getSchedulingLinks = (task: Task, taskMap: Map<string, Task>): TaskDependency[] => {
+  return [...task.dependencies, ...getAncestors(task, taskMap).flatMap(a => a.dependencies)];
+};
+
+export const getDescendantIds = (taskId: string, tasks: Task[]): Set<string> => {
+  const childrenMap = getChildrenMap(tasks);
+  const result = new Set<string>();
+  const stack = [taskId];
+  while (stack.length > 0) {
+    (childrenMap.get(stack.pop()!) || []).forEach(child => {
+      if (result.has(child.id)) return;
+      result.add(child.id);
+      stack.push(child.id);
+    });
+  }
+  return result;
+};
+
+// --- Rollups ---
+
+// Summary span covers all children; progress is weighted by working-day duration
+export const rollupSummary = (summary: Task, children: Task[], calendar: ProjectCalendar): Task => {
+  const startDate = children.reduce((min, c) => c.startDate < min ? c.startDate : min, children[0].startDate);
+  const endDate = children.reduce((max, c) => c.endDate > max ? c.endDate : max, children[0].endDate);
+
+  const totalWeight = children.reduce((sum, c) => sum + Math.max(c.duration || 0, 0), 0);
+  const progress = totalWeight > 0
+    ? children.reduce((sum, c) => sum + Math.max(c.duration || 0, 0) * c.progress, 0) / totalWeight
+    : children.reduce((sum, c) => sum + c.progress, 0) / children.length;
+
+  return {
+    ...summary,
+    kind: 'task', // A summary can never be a milestone
+    startDate,
+    endDate,
+    duration: Math.max(countWorkingDays(startDate, endDate, calendar), 1),
+    progress: Math.round(progress)
+  };
+};
+
+// --- WBS Rows & Codes ---
+
+// Depth-first rows of the task tree with generated WBS codes. Siblings keep their relative row order.
+export const buildWbsRows = (tasks: Task[]): WbsRow[] => {
+  const ids = new Set(tasks.map(t => t.id));
+  const childrenMap = getChildrenMap(tasks);
+  const rows: WbsRow[] = [];
+  const visited = new Set<string>();
+
+  const visit = (task: Task, depth: number, code: string) => {
+    if (visited.has(task.id)) return;
+    visited.add(task.id);
+    const children = childrenMap.get(task.id) || [];
+    rows.push({ task, depth, code, hasChildren: children.length > 0 });
+    children.forEach((child, i) => visit(child, depth + 1, `${code}.${i + 1}`));
+  };
+
+  let rootIndex = 0;
+  tasks.forEach(t => {
+    if (!t.parentId || t.parentId === t.id || !ids.has(t.parentId)) visit(t, 0, `${++rootIndex}`);
+  });
+  // Tasks on a parent loop are unreachable from any root, keep them visible at the top level
+  tasks.forEach(t => {
+    if (!visited.has(t.id)) visit(t, 0, `${++rootIndex}`);
+  });
+  return rows;
+};
+
+export const getWbsCodes = (tasks: Task[]): Record<string, string> => {
+  return Object.fromEntries(buildWbsRows(tasks).map(row => [row.task.id, row.code]));
+};
+
+// Drop the rows hidden below collapsed summaries
+export const filterCollapsedRows = (rows: WbsRow[], collapsedIds: Set<string>): WbsRow[] => {
+  const visible: WbsRow[] = [];
+  let hiddenBelowDepth = Infinity;
+  rows.forEach(row => {
+    if (row.depth > hiddenBelowDepth) return;
+    hiddenBelowDepth = Infinity;
+    visible.push(row);
+    if (row.hasChildren && collapsedIds.has(row.task.id)) hiddenBelowDepth = row.depth;
+  });
+  return visible;
+};
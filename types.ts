@@ -38,22 +38,209 @@ export interface User {
 
 export type ViewMode = 'Day' | 'Week' | 'Month' | 'Quarter';
 
+// Link types between a predecessor and a successor task
+// FS = Finish-to-Start, SS = Start-to-Start, FF = Finish-to-Finish, SF = Start-to-Finish
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
+
+export interface TaskDependency {
+  taskId: string; // Predecessor Task ID
+  type: DependencyType;
+  lagDays: number; // Positive = lag, negative = lead
+}
+
+// Link to a predecessor in another project (e.g. facility PQ gating equipment IQ)
+export interface ExternalDependency extends TaskDependency {
+  projectId: string;
+}
+
+// A named, inclusive date range (holiday, plant shutdown, ...)
+export interface CalendarPeriod {
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string;   // YYYY-MM-DD
+}
+
+// Working-day calendar used to count durations and lags
+export interface ProjectCalendar {
+  id: string;
+  name: string;
+  workingWeekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  holidays: CalendarPeriod[]; // Public / statutory holidays
+  makeUpWorkdays: string[]; // Weekend dates that are working days (调休上班)
+  shutdowns: CalendarPeriod[]; // Planned site / plant shutdowns
+}
+
+// People and teams that tasks book, and the shared assets they reserve (Grade B suite, isolator,
+// flow cytometer); capacity is in units per working day
+export type ResourceKind = 'person' | 'team' | 'equipment' | 'room';
+
+export interface Resource {
+  id: string;
+  name: string;
+  kind: ResourceKind;
+  capacity: number; // Units available per working day (e.g. 3 for a team of three)
+}
+
+// Two or more tasks reserving one piece of equipment or room beyond its capacity
+export interface BookingConflict {
+  resourceId: string;
+  resourceName: string;
+  startDate: string; // First overlapping day
+  endDate: string;   // Last overlapping day (inclusive)
+  taskIds: string[];
+}
+
+export interface ResourceAssignment {
+  resourceId: string;
+  units: number; // Units booked on every working day of the task
+}
+
+// Milestones are zero-duration events (startDate === endDate, duration 0)
+export type TaskKind = 'task' | 'milestone';
+
+// Dates fixed by outside parties (vendor FAT, regulatory inspection, cleanroom release, ...)
+// SNET/FNET = start/finish no earlier than, SNLT/FNLT = start/finish no later than,
+// MSO/MFO = must start/finish on
+export type ConstraintType = 'SNET' | 'SNLT' | 'FNET' | 'FNLT' | 'MSO' | 'MFO';
+
+export interface DateConstraint {
+  type: ConstraintType;
+  date: string; // YYYY-MM-DD
+}
+
+// Three-point duration estimate in working days, used by the schedule risk simulation
+export interface DurationEstimate {
+  optimistic: number;
+  mostLikely: number;
+  pessimistic: number;
+}
+
+// Repeat pattern of periodic GMP work (requalification, calibration, EM trending, SOP review).
+// The recurring task becomes a summary whose children are the generated occurrences.
+export type RecurrenceFrequency = 'day' | 'week' | 'month';
+
+export interface RecurrenceException {
+  index: number; // Occurrence number (0 = first)
+  skip?: boolean; // Occurrence removed from the series
+  startDate?: string; // Occurrence moved to this date
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days / weeks / months
+  startDate: string; // Date of the first occurrence (YYYY-MM-DD)
+  duration: number; // Working days per occurrence, 0 for milestone occurrences
+  until?: string; // Last date an occurrence may start on
+  count?: number; // Number of occurrences (skipped ones included)
+  exceptions?: RecurrenceException[];
+}
+
 export interface Task {
   id: string;
   name: string;
+  kind?: TaskKind; // Defaults to 'task'
+  parentId?: string; // Summary task this task belongs to (WBS)
   startDate: string; // YYYY-MM-DD
   endDate: string;   // YYYY-MM-DD
-  duration: number; // days
+  duration: number; // working days (per project calendar), 0 for milestones
   status: TaskStatus;
   assignee: string;
   progress: number; // 0-100
-  dependencies: string[]; // array of Task IDs
+  dependencies: TaskDependency[]; // Predecessor links
+  externalDependencies?: ExternalDependency[]; // Predecessors in other projects
   gmpCritical: boolean; // Is this a GMP critical step?
   category: string; // e.g., "Construction", "IQ", "OQ", "PQ"
   isNew?: boolean; // Flag for UI visualization of proposed new tasks
   reason?: string; // Reason for creation
+  resources?: ResourceAssignment[]; // Falls back to the resource named like `assignee`
+  constraint?: DateConstraint;
+  estimate?: DurationEstimate; // Uncertainty of `duration` (fixed when missing)
+  recurrence?: RecurrenceRule; // Set on the summary of a recurring series
+  occurrenceIndex?: number; // Set on the occurrences generated from the parent's rule
+  budgetCost?: number; // Budget at completion (BAC) for earned value
+  actualCost?: number; // Cost booked so far (AC)
+  signatures?: ElectronicSignature[]; // Sign-off of GMP-critical work, in the order signed
+}
+
+// --- Electronic Signatures (21 CFR Part 11 Subpart C) ---
+
+export type SignatureMeaning = 'authored' | 'reviewed' | 'approved';
+
+// Manifestation of one signature (§11.50): printed name, date and time, and meaning. `recordHash`
+// binds it to the task content that was signed (§11.70): once the task changes, the signature no
+// longer applies and has to be given again.
+export interface ElectronicSignature {
+  id: string;
+  meaning: SignatureMeaning;
+  signerId: string;
+  signerName: string;
+  signerAccount: string;
+  signedAt: string; // ISO timestamp (UTC)
+  recordHash: string; // SHA-256 of the signed task record, hex
+  comment?: string;
+}
+
+// Result of the critical path (CPM) forward/backward pass for one task
+export interface CriticalPathInfo {
+  earlyStart: string;
+  earlyFinish: string;
+  lateStart: string;
+  lateFinish: string;
+  totalFloat: number; // working days
+  freeFloat: number;  // working days
+  isCritical: boolean;
+}
+
+// A task that misses its date constraint (working days, positive = late / off the fixed date)
+export interface ConstraintViolation {
+  taskId: string;
+  taskName: string;
+  constraint: DateConstraint;
+  workingDaysOff: number;
+}
+
+// Effect of a proposal on the project finish date
+export interface ScheduleImpact {
+  originalFinish: string;
+  newFinish: string;
+  deltaWorkingDays: number; // > 0 means the project end date slips
+}
+
+// Snapshot of task dates signed off at a point in time (e.g. project kickoff)
+export interface ScheduleBaseline {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  createdBy?: string;
+  tasks: Record<string, { startDate: string; endDate: string }>;
 }
 
+// Deviation of the live schedule from the active baseline (working days, positive = late)
+export interface BaselineVariance {
+  baselineStart: string;
+  baselineFinish: string;
+  startVariance: number;
+  finishVariance: number;
+}
+
+// What-if copy of the task plan (e.g. "bioreactor arrives 3 weeks late"), edited independently
+// of the live plan until it is promoted
+export interface ScheduleScenario {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  createdBy?: string;
+  tasks: Task[];
+}
+
+// Forward plans start from the project start date, backward plans finish on a target date
+// (e.g. the PPQ campaign or the filing date for a tech transfer)
+export type ScheduleDirection = 'forward' | 'backward';
+
+// How an update ripples through the links: 'push' only moves successors later, 'compress'
+// (retained logic) also pulls them back when a predecessor finishes early
+export type CascadeMode = 'push' | 'compress';
+
 export interface Project {
   id: string;
   name: string;
@@ -61,6 +248,15 @@ export interface Project {
   riskLevel: RiskLevel;
   tasks: Task[];
   latestGmpAdvice?: string; // Latest AI advice stored for the project
+  calendar?: ProjectCalendar; // Working-day calendar (falls back to the default calendar)
+  baselines?: ScheduleBaseline[];
+  activeBaselineId?: string; // Baseline drawn in the Gantt and used for variances
+  resources?: Resource[];
+  scheduleDirection?: ScheduleDirection; // Defaults to 'forward'
+  startDate?: string; // Anchor of forward planning (defaults to today)
+  targetFinishDate?: string; // Anchor of backward planning
+  cascadeMode?: CascadeMode; // Defaults to 'push'
+  scenarios?: ScheduleScenario[];
 }
 
 export interface ChatMessage {
@@ -73,6 +269,7 @@ export interface ChatMessage {
     newTasks?: Task[];
     gmpAdvice?: string;
     riskAssessment?: RiskLevel;
+    scheduleImpact?: ScheduleImpact;
   };
 }
 
@@ -85,7 +282,43 @@ export interface ProposedChange {
   newEndDate: string;
   originalAssignee?: string;
   newAssignee?: string;
+  originalStatus?: TaskStatus;
+  newStatus?: TaskStatus;
+  reason: string;
+}
+
+// --- Audit Trail (21 CFR Part 11 / EU Annex 11) ---
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'import';
+
+// How the change came about: edited by hand, a confirmed proposal (AI, levelling, replanning),
+// undo / redo, a file import, an electronic signature, or the system on the user's behalf
+// (cross-project cascade, AI risk rating)
+export type AuditSource = 'manual' | 'proposal' | 'undo' | 'import' | 'signature' | 'system';
+
+// One field change. Entries are append-only and hash-chained: each hash covers the entry and the
+// hash before it, so editing or removing any entry breaks every hash after it.
+export interface AuditEntry {
+  seq: number; // 1-based position in the trail
+  id: string;
+  timestamp: string; // ISO timestamp (UTC)
+  userId: string;
+  userName: string;
+  projectId: string;
+  projectName: string;
+  entityType: 'project' | 'task';
+  entityId: string;
+  entityName: string;
+  plan?: string; // Scenario name when a what-if plan was changed (live plan otherwise)
+  action: AuditAction;
+  field?: string;
+  oldValue?: string;
+  newValue?: string;
+  command: string; // What the user did, e.g. "删除任务「IQ」"
   reason: string;
+  source: AuditSource;
+  previousHash: string;
+  hash: string; // SHA-256, hex
 }
 
 export interface GeminiResponseSchema {
@@ -104,6 +337,7 @@ export interface GeminiResponseSchema {
     assignee?: string;
     gmp_critical?: boolean;
     category?: string;
+    is_milestone?: boolean; // Zero-duration event, end_date equals start_date
   }[];
   gmp_advice: string;
   overall_risk: RiskLevel;
@@ -8,6 +8,10 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // Shared backend (npm run server)
+          '/api': `http://localhost:${env.CELLA_PORT || 3001}`,
+        },
       },
       plugins: [react()],
       define: {